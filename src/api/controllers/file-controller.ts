@@ -8,27 +8,106 @@ import { SafetyController } from '../../core/safety-controller.js';
 import { FileAnalyzer } from '../../core/file-analyzer.js';
 import { readFile } from '../../tools/read-file.js';
 import { readFileForce } from '../../tools/read-file-force.js';
+import { readFiles } from '../../tools/read-files.js';
 import { writeFile } from '../../tools/write-file.js';
 import { editFile } from '../../tools/edit-file.js';
+import { editFiles } from '../../tools/edit-files.js';
+import { applyPatch } from '../../tools/apply-patch.js';
 import { moveFile } from '../../tools/move-file.js';
 import { deleteFile } from '../../tools/delete-file.js';
 import { fileInfo } from '../../tools/file-info.js';
+import { outline } from '../../tools/outline.js';
+import { queryData } from '../../tools/query-data.js';
+import { readFileBytes } from '../../tools/read-file-bytes.js';
+import { listArchive } from '../../tools/list-archive.js';
+import { readArchiveEntry } from '../../tools/read-archive-entry.js';
+import { editNotebook } from '../../tools/edit-notebook.js';
+import { convertEncoding } from '../../tools/convert-encoding.js';
 import { createSuccessResponse, asyncHandler } from '../middleware/error-handler.js';
 import { sanitizePath } from '../middleware/validator.js';
 import type { 
   ReadFileParams, 
   ReadFileForceParams, 
+  ReadFilesParams,
   WriteFileParams, 
   EditFileParams, 
-  MoveFileParams 
+  MoveFileParams,
+  FileVersion,
+  WritePreconditions
 } from '../../core/types.js';
 import type { DeleteFileParams } from '../../types/delete-operations.js';
 import type { FileInfoParams } from '../../tools/file-info.js';
+import type { OutlineParams } from '../../tools/outline.js';
+import type { QueryDataParams } from '../../tools/query-data.js';
+import type { ReadFileBytesParams } from '../../tools/read-file-bytes.js';
+import type { ListArchiveParams } from '../../tools/list-archive.js';
+import type { ReadArchiveEntryParams } from '../../tools/read-archive-entry.js';
+import type { EditNotebookParams } from '../../tools/edit-notebook.js';
+import type { EditFilesParams } from '../../tools/edit-files.js';
+import type { ApplyPatchParams } from '../../tools/apply-patch.js';
+import type { ConvertEncodingParams } from '../../tools/convert-encoding.js';
 
 // Initialize services
 const safety = new SafetyController();
 const analyzer = new FileAnalyzer();
 
+/**
+ * Convert the simple { oldText, newText } edit format to full edit operations
+ */
+function toEditOperations(edits: any): any {
+  return Array.isArray(edits) ? edits.map((edit: any) => {
+    if (edit.oldText && edit.newText) {
+      return {
+        type: 'literal',
+        old_text: edit.oldText,
+        new_text: edit.newText
+      };
+    }
+    return edit;
+  }) : edits;
+}
+
+/**
+ * Read optimistic concurrency preconditions from the request
+ * (expected_sha256 / expected_mtime in the body or query, or an If-Match ETag)
+ */
+function getPreconditions(req: Request): WritePreconditions {
+  const data = { ...req.query, ...req.body };
+  const expectedSha256 = data.expected_sha256;
+  const ifMatch = expectedSha256 ? undefined : parseIfMatch(req.get('If-Match'));
+  const rawMtime = data.expected_mtime;
+  const expectedMtime = typeof rawMtime === 'string' && /^\d+$/.test(rawMtime) ? parseInt(rawMtime, 10) : rawMtime;
+
+  return {
+    ...(expectedSha256 && { expected_sha256: expectedSha256 }),
+    ...(ifMatch && { if_match: ifMatch }),
+    ...(expectedMtime !== undefined && expectedMtime !== '' && { expected_mtime: expectedMtime })
+  };
+}
+
+/**
+ * Entity tags listed in an If-Match header ("*" matches any existing file).
+ * If-Match uses strong comparison, so weak W/ tags are dropped and can never match
+ */
+function parseIfMatch(header: string | undefined): string[] | undefined {
+  if (!header?.trim()) {
+    return undefined;
+  }
+  return header.split(',')
+    .map(tag => tag.trim())
+    .filter(tag => tag !== '' && !tag.startsWith('W/'))
+    .map(tag => tag.replace(/^"|"$/g, ''));
+}
+
+/**
+ * Set the ETag header from a file version
+ */
+function setETag(res: Response, version: FileVersion | null | undefined): void {
+  if (version) {
+    res.set('ETag', `"${version.sha256}"`);
+  }
+}
+
 /**
  * GET /api/files/info
  * Get detailed file information
@@ -44,12 +123,65 @@ export const getFileInfo = asyncHandler(async (req: Request, res: Response) => {
 
   const result = await fileInfo(params, analyzer);
 
+  if (result.sha256) {
+    res.set('ETag', `"${result.sha256}"`);
+  }
+
   res.json(createSuccessResponse(result, 'File information retrieved successfully', {
     operation: 'file_info',
     path: result.path
   }));
 });
 
+/**
+ * GET /api/files/outline
+ * Get code structure (symbols with line ranges)
+ */
+export const getFileOutline = asyncHandler(async (req: Request, res: Response) => {
+  const path = sanitizePath(req.query.path as string);
+
+  const params: OutlineParams = {
+    path
+  };
+
+  const result = await outline(params, analyzer);
+
+  res.json(createSuccessResponse(result, 'File outline retrieved successfully', {
+    operation: 'outline',
+    path: params.path,
+    status: result.status
+  }));
+});
+
+/**
+ * GET /api/files/query
+ * Query part of a JSON/JSONC/YAML file by path
+ */
+export const queryFileData = asyncHandler(async (req: Request, res: Response) => {
+  const path = sanitizePath(req.query.path as string);
+  const query = req.query.query as string | undefined;
+  const format = req.query.format as QueryDataParams['format'] | undefined;
+  const maxItems = req.query.max_items ? parseInt(req.query.max_items as string, 10) : undefined;
+  const maxTokens = req.query.max_tokens ? parseInt(req.query.max_tokens as string, 10) : undefined;
+
+  const params: QueryDataParams = {
+    path,
+    ...(query && { query }),
+    ...(format && { format }),
+    ...(maxItems !== undefined && { max_items: maxItems }),
+    ...(maxTokens !== undefined && { max_tokens: maxTokens })
+  };
+
+  const result = await queryData(params, analyzer);
+
+  res.json(createSuccessResponse(result, 'Data query completed', {
+    operation: 'query_data',
+    path: params.path,
+    status: result.status,
+    ...(result.truncation && { truncation: result.truncation })
+  }));
+});
+
 /**
  * GET /api/files/content
  * Read file content with safety checks
@@ -57,18 +189,57 @@ export const getFileInfo = asyncHandler(async (req: Request, res: Response) => {
 export const getFileContent = asyncHandler(async (req: Request, res: Response) => {
   const path = sanitizePath(req.query.path as string);
   const encoding = req.query.encoding as string;
+  const startLine = req.query.start_line ? parseInt(req.query.start_line as string, 10) : undefined;
+  const endLine = req.query.end_line ? parseInt(req.query.end_line as string, 10) : undefined;
+  const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+  const length = req.query.length ? parseInt(req.query.length as string, 10) : undefined;
+  const chunkTokens = req.query.chunk_tokens ? parseInt(req.query.chunk_tokens as string, 10) : undefined;
+  const cursor = req.query.cursor as string | undefined;
+  const maxTokens = req.query.max_tokens ? parseInt(req.query.max_tokens as string, 10) : undefined;
+  const tailLines = req.query.tail_lines ? parseInt(req.query.tail_lines as string, 10) : undefined;
+  const tailBytes = req.query.tail_bytes ? parseInt(req.query.tail_bytes as string, 10) : undefined;
+  const sinceOffset = req.query.since_offset ? parseInt(req.query.since_offset as string, 10) : undefined;
+  const tableRows = req.query.table_rows ? parseInt(req.query.table_rows as string, 10) : undefined;
+  const delimiter = req.query.delimiter as string | undefined;
+  const notebookOutputs = req.query.notebook_outputs as ReadFileParams['notebook_outputs'] | undefined;
 
   const params: ReadFileParams = {
     path,
-    ...(encoding && { encoding: encoding as any })
+    ...(encoding && { encoding: encoding as any }),
+    ...(startLine !== undefined && { start_line: startLine }),
+    ...(endLine !== undefined && { end_line: endLine }),
+    ...(offset !== undefined && { offset }),
+    ...(length !== undefined && { length }),
+    ...(chunkTokens !== undefined && { chunk_tokens: chunkTokens }),
+    ...(cursor && { cursor }),
+    ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+    ...(tailLines !== undefined && { tail_lines: tailLines }),
+    ...(tailBytes !== undefined && { tail_bytes: tailBytes }),
+    ...(sinceOffset !== undefined && { since_offset: sinceOffset }),
+    ...(tableRows !== undefined && { table_rows: tableRows }),
+    ...(delimiter && { delimiter }),
+    ...(notebookOutputs && { notebook_outputs: notebookOutputs })
   };
 
   const result = await readFile(params, safety, analyzer);
 
-  res.json(createSuccessResponse(result, 'File content retrieved successfully', {
+  // Only whole-file reads have an ETag: it is hashed from the bytes that were returned
+  if (result.status === 'success' && result.sha256) {
+    res.set('ETag', `"${result.sha256}"`);
+  }
+
+  const invalidParameter = result.status === 'invalid_parameter';
+
+  res.status(invalidParameter ? 400 : 200).json(createSuccessResponse(result,
+    invalidParameter ? 'Invalid read parameters' : 'File content retrieved successfully', {
     operation: 'read_file',
     path: params.path,
-    status: result.status
+    status: result.status,
+    ...(result.status === 'success' && result.range && { range: result.range }),
+    ...(result.status === 'success' && result.chunk && { chunk: result.chunk }),
+    ...(result.status === 'success' && result.truncation && { truncation: result.truncation }),
+    ...(result.status === 'success' && result.tail && { tail: result.tail }),
+    ...(result.status === 'success' && result.table && { table_complete: result.table.stats_complete })
   }));
 });
 
@@ -97,67 +268,292 @@ export const getFileContentForce = asyncHandler(async (req: Request, res: Respon
   }));
 });
 
+/**
+ * GET /api/files/bytes
+ * Read a byte range as hex, base64 or a hex dump
+ */
+export const getFileBytes = asyncHandler(async (req: Request, res: Response) => {
+  const path = sanitizePath(req.query.path as string);
+  const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+  const length = req.query.length ? parseInt(req.query.length as string, 10) : undefined;
+  const format = req.query.format as ReadFileBytesParams['format'] | undefined;
+
+  const params: ReadFileBytesParams = {
+    path,
+    ...(offset !== undefined && { offset }),
+    ...(length !== undefined && { length }),
+    ...(format && { format })
+  };
+
+  const result = await readFileBytes(params);
+
+  res.json(createSuccessResponse(result, 'File bytes retrieved successfully', {
+    operation: 'read_file_bytes',
+    path: params.path,
+    status: result.status,
+    offset: result.offset,
+    length: result.length
+  }));
+});
+
+/**
+ * GET /api/files/archive
+ * List the entries of a zip/tar/tar.gz archive
+ */
+export const getArchiveListing = asyncHandler(async (req: Request, res: Response) => {
+  const path = sanitizePath(req.query.path as string);
+  const maxEntries = req.query.max_entries ? parseInt(req.query.max_entries as string, 10) : undefined;
+
+  const params: ListArchiveParams = {
+    path,
+    ...(maxEntries !== undefined && { max_entries: maxEntries })
+  };
+
+  const result = await listArchive(params);
+
+  res.json(createSuccessResponse(result, 'Archive listed successfully', {
+    operation: 'list_archive',
+    path: params.path,
+    status: result.status,
+    total_entries: result.archive_info.total_entries
+  }));
+});
+
+/**
+ * GET /api/files/archive/entry
+ * Read one text entry from an archive
+ */
+export const getArchiveEntry = asyncHandler(async (req: Request, res: Response) => {
+  const path = sanitizePath(req.query.path as string);
+  const encoding = req.query.encoding as ReadArchiveEntryParams['encoding'] | undefined;
+
+  const params: ReadArchiveEntryParams = {
+    path,
+    entry: req.query.entry as string,
+    ...(encoding && { encoding })
+  };
+
+  const result = await readArchiveEntry(params, safety, analyzer);
+
+  res.json(createSuccessResponse(result, 'Archive entry read successfully', {
+    operation: 'read_archive_entry',
+    path: params.path,
+    entry: params.entry,
+    status: result.status
+  }));
+});
+
+/**
+ * POST /api/files/batch-read
+ * Read multiple files with a shared token budget
+ */
+export const batchReadFiles = asyncHandler(async (req: Request, res: Response) => {
+  const { paths, max_tokens, encoding } = req.body;
+
+  const params: ReadFilesParams = {
+    paths: (paths as string[]).map(p => sanitizePath(p)),
+    ...(max_tokens !== undefined && { max_tokens }),
+    ...(encoding && { encoding })
+  };
+
+  const result = await readFiles(params, safety, analyzer);
+
+  res.json(createSuccessResponse(result, 'Files read successfully', {
+    operation: 'read_files',
+    status: result.status,
+    files_read: result.summary.files_read,
+    tokens_used: result.summary.tokens_used
+  }));
+});
+
 /**
  * POST /api/files/content
  * Write content to a file
  */
 export const writeFileContent = asyncHandler(async (req: Request, res: Response) => {
-  const { path: rawPath, content, encoding } = req.body;
+  const { path: rawPath, content, encoding, mode, line, preserve_formatting, line_ending, bom, final_newline, validate_syntax } = req.body;
   const path = sanitizePath(rawPath);
 
   const params: WriteFileParams = {
     path,
     content,
-    ...(encoding && { encoding })
+    ...(encoding && { encoding }),
+    ...(mode && { mode }),
+    ...(line !== undefined && { line }),
+    ...(preserve_formatting !== undefined && { preserve_formatting }),
+    ...(line_ending && { line_ending }),
+    ...(bom !== undefined && { bom }),
+    ...(final_newline !== undefined && { final_newline }),
+    ...(validate_syntax !== undefined && { validate_syntax }),
+    ...getPreconditions(req)
   };
 
-  const result = await writeFile(params, safety);
+  const result = await writeFile(params, safety, analyzer);
+
+  // create_only blocked by an existing file
+  const exists = result.issue_details?.existing_file_info !== undefined;
+  const syntaxError = result.syntax_check?.status === 'invalid';
 
-  res.json(createSuccessResponse(result, 'File written successfully', {
+  setETag(res, result.version);
+  res.status(result.status === 'conflict' ? 412 : exists ? 409 : syntaxError ? 422 : 200).json(createSuccessResponse(result,
+    result.status === 'conflict' ? 'File was modified since it was read'
+      : exists ? 'File already exists'
+      : syntaxError ? 'Content introduces a syntax error - the file was not written' : 'File written successfully', {
     operation: 'write_file',
     path: params.path,
+    status: result.status,
+    ...(params.mode && { mode: params.mode }),
     size_bytes: result.file_info.size_bytes
   }));
 });
 
+/**
+ * POST /api/files/convert-encoding
+ * Convert a file between encodings
+ */
+export const convertFileEncoding = asyncHandler(async (req: Request, res: Response) => {
+  const { path: rawPath, to_encoding, from_encoding, dry_run } = req.body;
+  const path = sanitizePath(rawPath);
+
+  const params: ConvertEncodingParams = {
+    path,
+    to_encoding,
+    ...(from_encoding && { from_encoding }),
+    ...(dry_run !== undefined && { dry_run })
+  };
+
+  const result = await convertEncoding(params, analyzer);
+
+  res.json(createSuccessResponse(result, dry_run ? 'Encoding conversion previewed' : 'Encoding converted successfully', {
+    operation: 'convert_encoding',
+    path: params.path,
+    status: result.status,
+    converted: result.converted
+  }));
+});
+
+/**
+ * PUT /api/files/notebook
+ * Replace, insert or delete a Jupyter notebook cell
+ */
+export const editNotebookCell = asyncHandler(async (req: Request, res: Response) => {
+  const { path: rawPath, operation, cell_index, source, cell_type, dry_run } = req.body;
+  const path = sanitizePath(rawPath);
+
+  const params: EditNotebookParams = {
+    path,
+    operation,
+    cell_index,
+    ...(source !== undefined && { source }),
+    ...(cell_type && { cell_type }),
+    ...(dry_run !== undefined && { dry_run })
+  };
+
+  const result = await editNotebook(params);
+
+  res.json(createSuccessResponse(result, dry_run ? 'Notebook edit previewed' : 'Notebook edited successfully', {
+    operation: 'edit_notebook',
+    path: params.path,
+    status: result.status,
+    cell_index: params.cell_index
+  }));
+});
+
 /**
  * PUT /api/files/edit
  * Edit file using literal or regex replacements
  */
 export const editFileContent = asyncHandler(async (req: Request, res: Response) => {
-  const { path: rawPath, edits, dry_run, preserve_formatting } = req.body;
+  const { path: rawPath, edits, dry_run, preserve_formatting, allow_fuzzy, validate_syntax } = req.body;
   const path = sanitizePath(rawPath);
 
-  // Convert simple edits format to full edit operations
-  const processedEdits = Array.isArray(edits) ? edits.map((edit: any) => {
-    if (edit.oldText && edit.newText) {
-      return {
-        type: 'literal',
-        old_text: edit.oldText,
-        new_text: edit.newText
-      };
-    }
-    return edit;
-  }) : edits;
-
   const params: EditFileParams = {
     path,
-    edits: processedEdits,
+    edits: toEditOperations(edits),
     ...(dry_run !== undefined && { dry_run }),
-    ...(preserve_formatting !== undefined && { preserve_formatting })
+    ...(preserve_formatting !== undefined && { preserve_formatting }),
+    ...(allow_fuzzy !== undefined && { allow_fuzzy }),
+    ...(validate_syntax !== undefined && { validate_syntax }),
+    ...getPreconditions(req)
   };
 
   const result = await editFile(params, safety, analyzer);
 
-  res.json(createSuccessResponse(result, 
+  const syntaxError = result.syntax_check?.status === 'invalid';
+  const mergeConflict = result.status === 'error' && result.edit_details?.some(edit => edit.status === 'diff_conflict');
+
+  setETag(res, result.version);
+  res.status(result.status === 'conflict' ? 412 : mergeConflict ? 409 : syntaxError ? 422 : 200).json(createSuccessResponse(result, 
+    result.status === 'conflict' ? 'File was modified since it was read' :
+    mergeConflict ? 'Diff edit could not be merged into the current content - the file was not changed' :
+    syntaxError ? 'Edit introduces a syntax error - the file was not changed' :
     dry_run ? 'File edit preview generated' : 'File edited successfully', {
     operation: 'edit_file',
     path: params.path,
+    status: result.status,
     dry_run: !!dry_run,
     edits_count: params.edits.length
   }));
 });
 
+/**
+ * PUT /api/files/batch-edit
+ * Edit several files as one transaction (all or nothing)
+ */
+export const batchEditFiles = asyncHandler(async (req: Request, res: Response) => {
+  const { files, dry_run } = req.body;
+
+  const params: EditFilesParams = {
+    files: files.map((file: any) => ({
+      ...file,
+      path: sanitizePath(file.path),
+      edits: toEditOperations(file.edits)
+    })),
+    ...(dry_run !== undefined && { dry_run })
+  };
+
+  const result = await editFiles(params, safety, analyzer);
+
+  res.status(result.status === 'conflict' ? 412 : 200).json(createSuccessResponse(result,
+    result.status === 'conflict' ? 'Some files were modified since they were read - no files were changed' :
+    result.applied ? 'Files edited successfully' :
+    dry_run && result.status !== 'error' ? 'File edit preview generated' : 'No files were changed', {
+    operation: 'edit_files',
+    status: result.status,
+    dry_run: !!dry_run,
+    files_count: params.files.length,
+    applied: result.applied
+  }));
+});
+
+/**
+ * POST /api/files/patch
+ * Apply a multi-file git-style patch (all or nothing)
+ */
+export const applyFilePatch = asyncHandler(async (req: Request, res: Response) => {
+  const { patch, dry_run, strip, fuzz, base_dir } = req.body;
+
+  const params: ApplyPatchParams = {
+    patch,
+    ...(dry_run !== undefined && { dry_run }),
+    ...(strip !== undefined && { strip }),
+    ...(fuzz !== undefined && { fuzz }),
+    ...(base_dir !== undefined && { base_dir: sanitizePath(base_dir) })
+  };
+
+  const result = await applyPatch(params, analyzer);
+
+  res.json(createSuccessResponse(result,
+    result.applied ? 'Patch applied successfully' :
+    dry_run && result.status !== 'error' ? 'Patch applies cleanly' : 'Patch could not be applied - no files were changed', {
+    operation: 'apply_patch',
+    status: result.status,
+    dry_run: !!dry_run,
+    files_count: result.summary.total_files,
+    applied: result.applied
+  }));
+});
+
 /**
  * POST /api/files/move
  * Move or rename a file
@@ -170,13 +566,16 @@ export const moveFileLocation = asyncHandler(async (req: Request, res: Response)
   const params: MoveFileParams = {
     source,
     destination,
-    ...(overwrite_existing !== undefined && { overwrite_existing })
+    ...(overwrite_existing !== undefined && { overwrite_existing }),
+    ...getPreconditions(req)
   };
 
   const result = await moveFile(params, safety);
 
-  res.json(createSuccessResponse(result, 'File moved successfully', {
+  res.status(result.status === 'conflict' ? 412 : 200).json(createSuccessResponse(result,
+    result.status === 'conflict' ? 'Source file was modified since it was read' : 'File moved successfully', {
     operation: 'move_file',
+    status: result.status,
     source: params.source,
     destination: params.destination,
     operation_type: result.operation_info.operation_type
@@ -193,13 +592,16 @@ export const deleteFileSafely = asyncHandler(async (req: Request, res: Response)
 
   const params: DeleteFileParams = {
     path,
-    ...(force && { force })
+    ...(force && { force }),
+    ...getPreconditions(req)
   };
 
   const result = await deleteFile(params);
 
-  res.json(createSuccessResponse(result, 'File deleted successfully', {
+  res.status(result.status === 'conflict' ? 412 : 200).json(createSuccessResponse(result,
+    result.status === 'conflict' ? 'File was modified since it was read' : 'File deleted successfully', {
     operation: 'delete_file',
+    status: result.status,
     path: params.path,
     was_readonly: result.deleted_file.was_readonly,
     importance: result.safety_info?.file_importance || 'normal'
@@ -5,6 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import * as path from 'path';
+import { SUPPORTED_ENCODINGS } from '../../utils/encoding.js';
 
 /**
  * Validation rule type
@@ -204,13 +205,33 @@ export const commonRules = {
     max: 100 * 1024 * 1024 // 100MB
   }),
 
-  encoding: (): ValidationRule => ({
-    field: 'encoding',
-    required: false,
+  encoding: (field = 'encoding', required = false): ValidationRule => ({
+    field,
+    required,
     type: 'string',
-    pattern: /^(utf8|utf16le|utf16be|latin1|ascii)$/
+    pattern: new RegExp(`^(${SUPPORTED_ENCODINGS.join('|')})$`)
   }),
 
+  preconditions: (): ValidationRule[] => [
+    {
+      field: 'expected_sha256',
+      required: false,
+      type: 'string',
+      pattern: /^[0-9a-fA-F]{64}$/
+    },
+    {
+      field: 'expected_mtime',
+      required: false,
+      custom: (value: string | number) => {
+        if (typeof value === 'number' || /^\d+$/.test(value)) return null;
+        if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+          return 'expected_mtime must be an ISO 8601 timestamp or epoch milliseconds';
+        }
+        return null;
+      }
+    }
+  ],
+
   boolean: (field: string, required = false): ValidationRule => ({
     field,
     required,
@@ -225,6 +246,20 @@ export const commonRules = {
     max
   }),
 
+  queryInteger: (field: string, required = false, min = 0): ValidationRule => ({
+    field,
+    required,
+    type: 'string',
+    pattern: /^\d+$/,
+    custom: (value: string) => {
+      if (!value) return null;
+      if (parseInt(value, 10) < min) {
+        return `${field} must be at least ${min}`;
+      }
+      return null;
+    }
+  }),
+
   searchPattern: (required = true): ValidationRule => ({
     field: 'pattern',
     required,
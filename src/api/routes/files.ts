@@ -6,10 +6,20 @@
 import { Router } from 'express';
 import {
   getFileInfo,
+  getFileOutline,
+  queryFileData,
   getFileContent,
   getFileContentForce,
+  getFileBytes,
+  getArchiveListing,
+  getArchiveEntry,
+  batchReadFiles,
   writeFileContent,
   editFileContent,
+  batchEditFiles,
+  applyFilePatch,
+  convertFileEncoding,
+  editNotebookCell,
   moveFileLocation,
   deleteFileSafely
 } from '../controllers/file-controller.js';
@@ -28,13 +38,75 @@ router.get('/info',
   getFileInfo
 );
 
+/**
+ * GET /outline - Get code outline
+ */
+router.get('/outline',
+  validate([
+    commonRules.filePath(true)
+  ]),
+  getFileOutline
+);
+
+/**
+ * GET /query - Query part of a JSON/JSONC/YAML file
+ */
+router.get('/query',
+  validate([
+    commonRules.filePath(true),
+    {
+      field: 'query',
+      required: false,
+      type: 'string',
+      maxLength: 2000
+    },
+    {
+      field: 'format',
+      required: false,
+      type: 'string',
+      pattern: /^(json|jsonc|yaml)$/
+    },
+    commonRules.queryInteger('max_items', false, 1),
+    commonRules.queryInteger('max_tokens', false, 100)
+  ]),
+  queryFileData
+);
+
 /**
  * GET /content - Read file content
  */
 router.get('/content',
   validate([
     commonRules.filePath(true),
-    commonRules.encoding()
+    commonRules.encoding(),
+    commonRules.queryInteger('start_line', false, 1),
+    commonRules.queryInteger('end_line', false, 1),
+    commonRules.queryInteger('offset', false, 0),
+    commonRules.queryInteger('length', false, 1),
+    commonRules.queryInteger('chunk_tokens', false, 1),
+    commonRules.queryInteger('max_tokens', false, 100),
+    commonRules.queryInteger('tail_lines', false, 1),
+    commonRules.queryInteger('tail_bytes', false, 1),
+    commonRules.queryInteger('since_offset', false, 0),
+    commonRules.queryInteger('table_rows', false, 1),
+    {
+      field: 'delimiter',
+      required: false,
+      type: 'string',
+      maxLength: 2
+    },
+    {
+      field: 'cursor',
+      required: false,
+      type: 'string',
+      maxLength: 1000
+    },
+    {
+      field: 'notebook_outputs',
+      required: false,
+      type: 'string',
+      pattern: /^(truncated|none|full)$/
+    }
   ]),
   getFileContent
 );
@@ -57,6 +129,83 @@ router.get('/content/force',
   getFileContentForce
 );
 
+/**
+ * GET /bytes - Read a byte range as hex or base64
+ */
+router.get('/bytes',
+  validate([
+    commonRules.filePath(true),
+    {
+      field: 'offset',
+      required: false,
+      type: 'string',
+      pattern: /^-?\d+$/
+    },
+    commonRules.queryInteger('length', false, 1),
+    {
+      field: 'format',
+      required: false,
+      type: 'string',
+      pattern: /^(hex|base64|dump)$/
+    }
+  ]),
+  getFileBytes
+);
+
+/**
+ * GET /archive - List archive entries
+ */
+router.get('/archive',
+  validate([
+    commonRules.filePath(true),
+    commonRules.queryInteger('max_entries', false, 1)
+  ]),
+  getArchiveListing
+);
+
+/**
+ * GET /archive/entry - Read one archive entry as text
+ */
+router.get('/archive/entry',
+  validate([
+    commonRules.filePath(true),
+    {
+      field: 'entry',
+      required: true,
+      type: 'string',
+      minLength: 1
+    },
+    commonRules.encoding('encoding', false)
+  ]),
+  getArchiveEntry
+);
+
+/**
+ * POST /batch-read - Read multiple files with a shared token budget
+ */
+router.post('/batch-read',
+  validate([
+    {
+      field: 'paths',
+      required: true,
+      type: 'array',
+      minLength: 1,
+      maxLength: 100,
+      custom: (value: any[]) =>
+        value.every(item => typeof item === 'string' && item.length > 0) ? null : 'paths must be non-empty strings'
+    },
+    {
+      field: 'max_tokens',
+      required: false,
+      type: 'number',
+      min: 1,
+      max: 100000
+    },
+    commonRules.encoding()
+  ]),
+  batchReadFiles
+);
+
 /**
  * POST /content - Write file content
  */
@@ -64,11 +213,81 @@ router.post('/content',
   validate([
     commonRules.filePath(true),
     commonRules.content(true),
-    commonRules.encoding()
+    commonRules.encoding(),
+    {
+      field: 'mode',
+      required: false,
+      type: 'string',
+      pattern: /^(overwrite|append|prepend|insert_at_line|create_only)$/
+    },
+    {
+      field: 'line',
+      required: false,
+      type: 'number',
+      min: 1
+    },
+    commonRules.boolean('preserve_formatting', false),
+    {
+      field: 'line_ending',
+      required: false,
+      type: 'string',
+      pattern: /^(lf|crlf)$/
+    },
+    commonRules.boolean('bom', false),
+    commonRules.boolean('final_newline', false),
+    commonRules.boolean('validate_syntax', false),
+    ...commonRules.preconditions()
   ]),
   writeFileContent
 );
 
+/**
+ * POST /convert-encoding - Convert file encoding
+ */
+router.post('/convert-encoding',
+  validate([
+    commonRules.filePath(true),
+    commonRules.encoding('to_encoding', true),
+    commonRules.encoding('from_encoding'),
+    commonRules.boolean('dry_run', false)
+  ]),
+  convertFileEncoding
+);
+
+/**
+ * PUT /notebook - Edit a notebook cell
+ */
+router.put('/notebook',
+  validate([
+    commonRules.filePath(true),
+    {
+      field: 'operation',
+      required: true,
+      type: 'string',
+      pattern: /^(replace|insert|delete)$/
+    },
+    {
+      field: 'cell_index',
+      required: true,
+      type: 'number',
+      min: 0
+    },
+    {
+      field: 'source',
+      required: false,
+      type: 'string'
+    },
+    {
+      field: 'cell_type',
+      required: false,
+      type: 'string',
+      pattern: /^(code|markdown|raw)$/
+    },
+    commonRules.boolean('dry_run', false)
+  ]),
+  editNotebookCell
+);
+
 /**
  * PUT /edit - Edit file content
  */
@@ -83,18 +302,84 @@ router.put('/edit',
       maxLength: 100
     },
     commonRules.boolean('dry_run', false),
-    commonRules.boolean('preserve_formatting', false)
+    commonRules.boolean('preserve_formatting', false),
+    commonRules.boolean('allow_fuzzy', false),
+    commonRules.boolean('validate_syntax', false),
+    ...commonRules.preconditions()
   ]),
   editFileContent
 );
 
+/**
+ * PUT /batch-edit - Edit several files as one transaction
+ */
+router.put('/batch-edit',
+  validate([
+    {
+      field: 'files',
+      required: true,
+      type: 'array',
+      minLength: 1,
+      maxLength: 50,
+      custom: (files: any[]) => files.every(file =>
+        file && typeof file.path === 'string' && file.path.length > 0 && Array.isArray(file.edits) && file.edits.length > 0
+      ) ? null : 'Each file must have a path and at least one edit'
+    },
+    commonRules.boolean('dry_run', false)
+  ]),
+  batchEditFiles
+);
+
+/**
+ * POST /patch - Apply a multi-file git-style patch
+ */
+router.post('/patch',
+  validate([
+    {
+      field: 'patch',
+      required: true,
+      type: 'string',
+      minLength: 1,
+      maxLength: 5 * 1024 * 1024
+    },
+    commonRules.boolean('dry_run', false),
+    {
+      field: 'strip',
+      required: false,
+      type: 'number',
+      min: 0
+    },
+    {
+      field: 'fuzz',
+      required: false,
+      type: 'number',
+      min: 0,
+      max: 3
+    },
+    {
+      field: 'base_dir',
+      required: false,
+      type: 'string',
+      minLength: 1,
+      maxLength: 2000,
+      custom: (value: string) => {
+        if (value.includes('\0')) return 'Base directory cannot contain null bytes';
+        if (value.includes('..')) return 'Path traversal attempts are not allowed';
+        return null;
+      }
+    }
+  ]),
+  applyFilePatch
+);
+
 /**
  * POST /move - Move file
  */
 router.post('/move',
   validate([
     ...commonRules.sourceAndDestination(),
-    commonRules.boolean('overwrite_existing', false)
+    commonRules.boolean('overwrite_existing', false),
+    ...commonRules.preconditions()
   ]),
   moveFileLocation
 );
@@ -105,7 +390,8 @@ router.post('/move',
 router.delete('/',
   validate([
     commonRules.filePath(true),
-    commonRules.boolean('force', false)
+    commonRules.boolean('force', false),
+    ...commonRules.preconditions()
   ]),
   deleteFileSafely
 );
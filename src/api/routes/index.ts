@@ -25,10 +25,20 @@ router.get('/', (req, res) => {
       endpoints: {
         files: {
           info: 'GET /api/files/info?path=<path>',
+          outline: 'GET /api/files/outline?path=<path>',
+          query: 'GET /api/files/query?path=<path>&query=<query>',
           content: 'GET /api/files/content?path=<path>',
           content_force: 'GET /api/files/content/force?path=<path>',
+          bytes: 'GET /api/files/bytes?path=<path>&offset=<offset>&length=<length>',
+          archive: 'GET /api/files/archive?path=<path>',
+          archive_entry: 'GET /api/files/archive/entry?path=<path>&entry=<entry>',
+          batch_read: 'POST /api/files/batch-read',
           write: 'POST /api/files/content',
           edit: 'PUT /api/files/edit',
+          batch_edit: 'PUT /api/files/batch-edit',
+          patch: 'POST /api/files/patch',
+          convert_encoding: 'POST /api/files/convert-encoding',
+          edit_notebook: 'PUT /api/files/notebook',
           move: 'POST /api/files/move',
           delete: 'DELETE /api/files?path=<path>'
         },
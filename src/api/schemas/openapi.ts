@@ -3,6 +3,8 @@
  * Complete OpenAPI 3.0 specification for the REST API
  */
 
+import { SUPPORTED_ENCODINGS } from '../../utils/encoding.js';
+
 export const openApiSpec = {
   openapi: '3.0.0',
   info: {
@@ -142,11 +144,97 @@ browser testing via SwaggerUI and CURL-based testing for development.
         }
       }
     },
+    '/api/files/outline': {
+      get: {
+        tags: ['Files'],
+        summary: 'Get code outline',
+        description: 'List top-level symbols (classes, functions, interfaces, methods, headings) with start and end lines. Supports TypeScript, JavaScript, Python, Go, Rust, Java and Markdown',
+        parameters: [
+          {
+            name: 'path',
+            in: 'query',
+            required: true,
+            description: 'File path to outline',
+            schema: { type: 'string', example: './src/index.ts' }
+          }
+        ],
+        responses: {
+          '200': {
+            description: 'File outline',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' }
+              }
+            }
+          },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '403': { $ref: '#/components/responses/Forbidden' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
+    '/api/files/query': {
+      get: {
+        tags: ['Files'],
+        summary: 'Query JSON/YAML data',
+        description: 'Return only the selected subtree of a JSON, JSONC or YAML file. Large arrays are truncated and deep nodes summarized to fit the token budget',
+        parameters: [
+          {
+            name: 'path',
+            in: 'query',
+            required: true,
+            description: 'Data file path',
+            schema: { type: 'string', example: './package.json' }
+          },
+          {
+            name: 'query',
+            in: 'query',
+            required: false,
+            description: 'Dotted or JSONPath-style path with [index], ["quoted.key"] and * wildcards',
+            schema: { type: 'string', example: 'dependencies.express', default: '$' }
+          },
+          {
+            name: 'format',
+            in: 'query',
+            required: false,
+            description: 'Data format (default: from file extension)',
+            schema: { type: 'string', enum: ['json', 'jsonc', 'yaml'] }
+          },
+          {
+            name: 'max_items',
+            in: 'query',
+            required: false,
+            description: 'Maximum items shown per array',
+            schema: { type: 'integer', minimum: 1, default: 20 }
+          },
+          {
+            name: 'max_tokens',
+            in: 'query',
+            required: false,
+            description: 'Token budget for the result',
+            schema: { type: 'integer', minimum: 100, maximum: 100000, default: 10000 }
+          }
+        ],
+        responses: {
+          '200': {
+            description: 'Selected value (or error details with available_keys)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' }
+              }
+            }
+          },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '403': { $ref: '#/components/responses/Forbidden' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
     '/api/files/content': {
       get: {
         tags: ['Files'],
         summary: 'Read file content',
-        description: 'Read file content with automatic safety checks and limits',
+        description: 'Read file content with automatic safety checks and limits. For whole-file reads the ETag header is the SHA-256 of the returned file bytes - send it as If-Match when writing to detect concurrent changes',
         parameters: [
           {
             name: 'path',
@@ -162,9 +250,100 @@ browser testing via SwaggerUI and CURL-based testing for development.
             description: 'Text encoding',
             schema: { 
               type: 'string', 
-              enum: ['utf8', 'utf16le', 'utf16be', 'latin1', 'ascii'],
+              enum: [...SUPPORTED_ENCODINGS],
               default: 'utf8'
             }
+          },
+          {
+            name: 'start_line',
+            in: 'query',
+            required: false,
+            description: 'First line to read (1-based, inclusive)',
+            schema: { type: 'integer', minimum: 1, example: 4000 }
+          },
+          {
+            name: 'end_line',
+            in: 'query',
+            required: false,
+            description: 'Last line to read (1-based, inclusive)',
+            schema: { type: 'integer', minimum: 1, example: 4200 }
+          },
+          {
+            name: 'offset',
+            in: 'query',
+            required: false,
+            description: 'Byte offset to start reading from (cannot be combined with line range)',
+            schema: { type: 'integer', minimum: 0 }
+          },
+          {
+            name: 'length',
+            in: 'query',
+            required: false,
+            description: 'Number of bytes to read from offset (max 1MB)',
+            schema: { type: 'integer', minimum: 1 }
+          },
+          {
+            name: 'chunk_tokens',
+            in: 'query',
+            required: false,
+            description: 'Read in chunks of about this many tokens (response includes chunk.next_cursor)',
+            schema: { type: 'integer', minimum: 1, maximum: 100000, example: 10000 }
+          },
+          {
+            name: 'cursor',
+            in: 'query',
+            required: false,
+            description: 'Continuation cursor from the previous chunk',
+            schema: { type: 'string' }
+          },
+          {
+            name: 'max_tokens',
+            in: 'query',
+            required: false,
+            description: 'Token budget - larger files return head and tail with the middle elided (see truncation metadata)',
+            schema: { type: 'integer', minimum: 100, example: 4000 }
+          },
+          {
+            name: 'tail_lines',
+            in: 'query',
+            required: false,
+            description: 'Return the last N lines of the file',
+            schema: { type: 'integer', minimum: 1, maximum: 10000, example: 100 }
+          },
+          {
+            name: 'tail_bytes',
+            in: 'query',
+            required: false,
+            description: 'Return the last N bytes of the file',
+            schema: { type: 'integer', minimum: 1 }
+          },
+          {
+            name: 'since_offset',
+            in: 'query',
+            required: false,
+            description: 'Return only content appended after this byte offset (tail.end_offset from the previous call)',
+            schema: { type: 'integer', minimum: 0 }
+          },
+          {
+            name: 'table_rows',
+            in: 'query',
+            required: false,
+            description: 'Return the first N rows of a CSV/TSV file as a table with per-column statistics',
+            schema: { type: 'integer', minimum: 1, maximum: 1000 }
+          },
+          {
+            name: 'delimiter',
+            in: 'query',
+            required: false,
+            description: 'Field delimiter for table_rows (default: auto-detected; use \\t for tab)',
+            schema: { type: 'string', example: ';' }
+          },
+          {
+            name: 'notebook_outputs',
+            in: 'query',
+            required: false,
+            description: 'Cell outputs for .ipynb notebooks (rendered as numbered cells; base64 images are always elided)',
+            schema: { type: 'string', enum: ['truncated', 'none', 'full'], default: 'truncated' }
           }
         ],
         responses: {
@@ -176,6 +355,14 @@ browser testing via SwaggerUI and CURL-based testing for development.
               }
             }
           },
+          '400': {
+            description: 'Read parameters out of range or not combinable - data.status is invalid_parameter and data.issue_details.reason says which',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' }
+              }
+            }
+          },
           '404': { $ref: '#/components/responses/NotFound' },
           '413': { $ref: '#/components/responses/PayloadTooLarge' },
           '415': { $ref: '#/components/responses/UnsupportedMediaType' }
@@ -184,7 +371,8 @@ browser testing via SwaggerUI and CURL-based testing for development.
       post: {
         tags: ['Files'],
         summary: 'Write file content',
-        description: 'Write content to a file (creates new or overwrites existing)',
+        description: 'Write content to a file atomically (creates new or overwrites existing). mode selects append, prepend, insert_at_line or create_only instead; create_only returns 409 if the file exists. With If-Match or expected_sha256/expected_mtime, returns 412 with a diff against the current content if the file changed',
+        parameters: [{ $ref: '#/components/parameters/IfMatch' }],
         requestBody: {
           required: true,
           content: {
@@ -205,9 +393,36 @@ browser testing via SwaggerUI and CURL-based testing for development.
                   },
                   encoding: {
                     type: 'string',
-                    enum: ['utf8', 'utf16le', 'utf16be', 'latin1', 'ascii'],
-                    default: 'utf8'
-                  }
+                    enum: [...SUPPORTED_ENCODINGS],
+                    description: "Defaults to the existing file's detected encoding, otherwise utf8"
+                  },
+                  mode: {
+                    type: 'string',
+                    enum: ['overwrite', 'append', 'prepend', 'insert_at_line', 'create_only'],
+                    default: 'overwrite',
+                    description: 'append adds to the end without reading the file; create_only fails if the file exists'
+                  },
+                  line: {
+                    type: 'integer',
+                    minimum: 1,
+                    description: '1-based line the content is inserted before (required for insert_at_line)',
+                    example: 3
+                  },
+                  preserve_formatting: {
+                    type: 'boolean',
+                    default: true,
+                    description: "Keep the existing file's encoding, line endings, BOM and final newline (changes are reported in data.format_info)"
+                  },
+                  line_ending: { type: 'string', enum: ['lf', 'crlf'], description: "Line endings to write (overrides the existing file's)" },
+                  bom: { type: 'boolean', description: "Write a BOM (overrides the existing file's)" },
+                  final_newline: { type: 'boolean', description: "End the content with a newline (overrides the existing file's)" },
+                  validate_syntax: {
+                    type: 'boolean',
+                    default: false,
+                    description: 'Refuse the write with 422 if it leaves a .json, .yaml/.yml, .toml or .xml file unparseable, or unbalanced brackets or strings in a .ts/.js file. Errors already in the existing file do not block the write'
+                  },
+                  expected_sha256: { type: 'string', pattern: '^[0-9a-fA-F]{64}$', description: 'Fail with 412 unless the file still has this SHA-256 (same as If-Match)' },
+                  expected_mtime: { type: 'string', format: 'date-time', description: 'Fail with 412 unless the file still has this modification time' }
                 }
               }
             }
@@ -222,7 +437,10 @@ browser testing via SwaggerUI and CURL-based testing for development.
               }
             }
           },
+          '409': { $ref: '#/components/responses/Conflict' },
+          '412': { $ref: '#/components/responses/PreconditionFailed' },
           '413': { $ref: '#/components/responses/PayloadTooLarge' },
+          '422': { $ref: '#/components/responses/SyntaxError' },
           '403': { $ref: '#/components/responses/Forbidden' }
         }
       }
@@ -253,7 +471,7 @@ browser testing via SwaggerUI and CURL-based testing for development.
             required: false,
             schema: { 
               type: 'string', 
-              enum: ['utf8', 'utf16le', 'utf16be', 'latin1', 'ascii']
+              enum: [...SUPPORTED_ENCODINGS]
             }
           }
         ],
@@ -264,11 +482,176 @@ browser testing via SwaggerUI and CURL-based testing for development.
         }
       }
     },
+    '/api/files/bytes': {
+      get: {
+        tags: ['Files'],
+        summary: 'Read file bytes',
+        description: 'Read a byte range of any file, including binaries, as hex, base64 or a hex+ASCII dump. The file type is identified from magic bytes',
+        parameters: [
+          {
+            name: 'path',
+            in: 'query',
+            required: true,
+            description: 'File path to read',
+            schema: { type: 'string', example: './assets/logo.png' }
+          },
+          {
+            name: 'offset',
+            in: 'query',
+            required: false,
+            description: 'Byte offset to start from; negative values count from the end of the file',
+            schema: { type: 'integer', default: 0 }
+          },
+          {
+            name: 'length',
+            in: 'query',
+            required: false,
+            description: 'Number of bytes to read',
+            schema: { type: 'integer', minimum: 1, maximum: 65536, default: 4096 }
+          },
+          {
+            name: 'format',
+            in: 'query',
+            required: false,
+            description: 'Output format',
+            schema: { type: 'string', enum: ['hex', 'base64', 'dump'], default: 'hex' }
+          }
+        ],
+        responses: {
+          '200': {
+            description: 'Byte range with detected file type and next_offset',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' }
+              }
+            }
+          },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '403': { $ref: '#/components/responses/Forbidden' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
+    '/api/files/archive': {
+      get: {
+        tags: ['Files'],
+        summary: 'List archive entries',
+        description: 'List the entries of a .zip, .tar, .tar.gz or .tgz archive with sizes and modification times',
+        parameters: [
+          {
+            name: 'path',
+            in: 'query',
+            required: true,
+            description: 'Archive file path',
+            schema: { type: 'string', example: './dist/release.tar.gz' }
+          },
+          {
+            name: 'max_entries',
+            in: 'query',
+            required: false,
+            description: 'Maximum entries to return',
+            schema: { type: 'integer', minimum: 1, maximum: 10000, default: 1000 }
+          }
+        ],
+        responses: {
+          '200': {
+            description: 'Archive entries with totals',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' }
+              }
+            }
+          },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '403': { $ref: '#/components/responses/Forbidden' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
+    '/api/files/archive/entry': {
+      get: {
+        tags: ['Files'],
+        summary: 'Read archive entry',
+        description: 'Read one text entry from a .zip, .tar, .tar.gz or .tgz archive without extracting it. The same size and token limits as /api/files/content apply',
+        parameters: [
+          {
+            name: 'path',
+            in: 'query',
+            required: true,
+            description: 'Archive file path',
+            schema: { type: 'string', example: './vendor/lib-1.2.0.zip' }
+          },
+          {
+            name: 'entry',
+            in: 'query',
+            required: true,
+            description: 'Entry name as returned by /api/files/archive',
+            schema: { type: 'string', example: 'lib-1.2.0/README.md' }
+          },
+          {
+            name: 'encoding',
+            in: 'query',
+            required: false,
+            description: 'Text encoding (default: auto-detected)',
+            schema: { type: 'string' }
+          }
+        ],
+        responses: {
+          '200': {
+            description: 'Entry content, or size_exceeded / binary_detected / not_found / partial with a preview',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' }
+              }
+            }
+          },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '403': { $ref: '#/components/responses/Forbidden' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
+    '/api/files/batch-read': {
+      post: {
+        tags: ['Files'],
+        summary: 'Read multiple files',
+        description: 'Read several files (paths or glob patterns) in one request with a shared token budget. Files that do not fit in the remaining budget are returned as stubs with status budget_exceeded',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['paths'],
+                properties: {
+                  paths: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    example: ['./package.json', './src/tools/*.ts']
+                  },
+                  max_tokens: { type: 'integer', minimum: 1, maximum: 100000, default: 50000 },
+                  encoding: {
+                    type: 'string',
+                    enum: [...SUPPORTED_ENCODINGS],
+                    default: 'utf8'
+                  }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': { $ref: '#/components/responses/Success' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
     '/api/files/edit': {
       put: {
         tags: ['Files'],
         summary: 'Edit file content',
-        description: 'Edit file using literal or regex replacements with optional preview',
+        description: 'Edit file using literal or regex replacements, line ranges, anchor-based inserts or unified diffs with optional preview. Edits apply in order, so line numbers refer to the content after earlier edits. A diff edit with base_sha256 is three-way merged when the file changed since that version; overlapping changes give the edit status diff_conflict with merge.conflicts and fail the request with 409 without changing the file. With If-Match or expected_sha256/expected_mtime, returns 412 if the file changed since it was read',
+        parameters: [{ $ref: '#/components/parameters/IfMatch' }],
         requestBody: {
           required: true,
           content: {
@@ -292,19 +675,187 @@ browser testing via SwaggerUI and CURL-based testing for development.
                         {
                           type: 'object',
                           properties: {
-                            type: { type: 'string', enum: ['literal', 'regex'] },
+                            type: { type: 'string', enum: ['literal', 'regex', 'line_range', 'insert', 'diff'] },
                             old_text: { type: 'string' },
                             new_text: { type: 'string' },
                             pattern: { type: 'string' },
                             replacement: { type: 'string' },
-                            flags: { type: 'string' }
+                            flags: { type: 'string' },
+                            start_line: { type: 'integer', minimum: 1, description: 'line_range: first line (1-based)' },
+                            end_line: { type: 'integer', minimum: 1, description: 'line_range: last line (inclusive)' },
+                            expected_text: { type: 'string', description: 'line_range: fail unless the lines currently contain this text' },
+                            anchor: { type: 'string', description: 'insert: text contained in the anchor line' },
+                            anchor_regex: { type: 'boolean', description: 'insert: treat anchor as a regular expression' },
+                            position: { type: 'string', enum: ['before', 'after'], default: 'after' },
+                            diff_content: { type: 'string', description: 'diff: unified diff of this file' },
+                            base_sha256: { type: 'string', pattern: '^[0-9a-fA-F]{64}$', description: 'diff: SHA-256 the diff was made against (ETag of a previous read); enables three-way merge when the file changed' },
+                            base_content: { type: 'string', description: 'diff: content the diff was made against (must hash to base_sha256); merge base when the server no longer has that version' }
                           }
                         }
                       ]
                     }
                   },
                   dry_run: { type: 'boolean', default: false },
-                  preserve_formatting: { type: 'boolean', default: true }
+                  preserve_formatting: { type: 'boolean', default: true },
+                  allow_fuzzy: {
+                    type: 'boolean',
+                    default: false,
+                    description: 'Apply a literal edit that matches exactly one place when whitespace or line endings are ignored. Otherwise such edits return no_match with fuzzy_match and the matches in sample_matches'
+                  },
+                  validate_syntax: {
+                    type: 'boolean',
+                    default: false,
+                    description: 'Leave the file unchanged and return 422 if the edit introduces a syntax error (.json, .yaml/.yml, .toml, .xml; bracket and string balance for .ts/.js)'
+                  },
+                  expected_sha256: { type: 'string', pattern: '^[0-9a-fA-F]{64}$', description: 'Fail with 412 unless the file still has this SHA-256 (same as If-Match)' },
+                  expected_mtime: { type: 'string', format: 'date-time', description: 'Fail with 412 unless the file still has this modification time' }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': { $ref: '#/components/responses/Success' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '409': {
+            description: 'A diff edit could not be merged into the current content (data.edit_details[].status is diff_conflict) - the file was not changed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' }
+              }
+            }
+          },
+          '412': { $ref: '#/components/responses/PreconditionFailed' },
+          '422': { $ref: '#/components/responses/SyntaxError' }
+        }
+      }
+    },
+    '/api/files/batch-edit': {
+      put: {
+        tags: ['Files'],
+        summary: 'Edit several files as one transaction',
+        description: 'Validate and dry-run every file first, then write all of them or none. If a write fails midway, files already written are restored. Returns a combined diff; 412 if any file changed since it was read',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['files'],
+                properties: {
+                  files: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: 50,
+                    items: {
+                      type: 'object',
+                      required: ['path', 'edits'],
+                      properties: {
+                        path: { type: 'string', example: './src/a.ts' },
+                        edits: {
+                          type: 'array',
+                          description: 'Edit operations in the same format as PUT /api/files/edit',
+                          items: { type: 'object' }
+                        },
+                        preserve_formatting: { type: 'boolean', default: true },
+                        allow_fuzzy: { type: 'boolean', default: false },
+                        validate_syntax: { type: 'boolean', default: false, description: 'Fail the whole batch if the edit introduces a syntax error in this file' },
+                        expected_sha256: { type: 'string', pattern: '^[0-9a-fA-F]{64}$' },
+                        expected_mtime: { type: 'string', format: 'date-time' }
+                      }
+                    }
+                  },
+                  dry_run: { type: 'boolean', default: false }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': { $ref: '#/components/responses/Success' },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '412': { $ref: '#/components/responses/PreconditionFailed' }
+        }
+      }
+    },
+    '/api/files/patch': {
+      post: {
+        tags: ['Files'],
+        summary: 'Apply multi-file patch',
+        description: 'Apply a git-style patch (diff --git) with new, deleted and renamed files and mode changes. Hunks are located with offset and fuzz tolerance; the per-hunk status is reported. If any hunk fails, no files are changed',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['patch'],
+                properties: {
+                  patch: { type: 'string', example: 'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-old\n+new\n' },
+                  dry_run: { type: 'boolean', default: false, description: 'Only check that the patch applies (like git apply --check)' },
+                  strip: { type: 'integer', minimum: 0, default: 1, description: 'Leading path components removed from file names' },
+                  fuzz: { type: 'integer', minimum: 0, maximum: 3, default: 2, description: 'Context lines a hunk may ignore' },
+                  base_dir: { type: 'string', example: './', description: 'Directory the patch paths are relative to (default: server working directory)' }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': { $ref: '#/components/responses/Success' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
+    '/api/files/convert-encoding': {
+      post: {
+        tags: ['Files'],
+        summary: 'Convert file encoding',
+        description: 'Convert a text file between encodings (e.g. Shift_JIS to UTF-8). Use dry_run to check the decoded preview first',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['path', 'to_encoding'],
+                properties: {
+                  path: { type: 'string', example: './legacy/main.c' },
+                  to_encoding: { type: 'string', enum: [...SUPPORTED_ENCODINGS], example: 'utf8' },
+                  from_encoding: { type: 'string', enum: [...SUPPORTED_ENCODINGS], description: 'Default: auto-detected' },
+                  dry_run: { type: 'boolean', default: false }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': { $ref: '#/components/responses/Success' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '400': { $ref: '#/components/responses/BadRequest' }
+        }
+      }
+    },
+    '/api/files/notebook': {
+      put: {
+        tags: ['Files'],
+        summary: 'Edit notebook cell',
+        description: 'Replace, insert or delete a Jupyter notebook cell by index. Metadata and JSON formatting are preserved; outputs of a changed code cell are cleared',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['path', 'operation', 'cell_index'],
+                properties: {
+                  path: { type: 'string', example: './notebooks/analysis.ipynb' },
+                  operation: { type: 'string', enum: ['replace', 'insert', 'delete'] },
+                  cell_index: { type: 'integer', minimum: 0, example: 3 },
+                  source: { type: 'string', example: 'df.describe()', description: 'Required for insert' },
+                  cell_type: { type: 'string', enum: ['code', 'markdown', 'raw'], description: 'Default for insert: code' },
+                  dry_run: { type: 'boolean', default: false }
                 }
               }
             }
@@ -321,6 +872,7 @@ browser testing via SwaggerUI and CURL-based testing for development.
       post: {
         tags: ['Files'],
         summary: 'Move or rename file',
+        parameters: [{ $ref: '#/components/parameters/IfMatch' }],
         requestBody: {
           required: true,
           content: {
@@ -331,7 +883,9 @@ browser testing via SwaggerUI and CURL-based testing for development.
                 properties: {
                   source: { type: 'string', example: './old-name.txt' },
                   destination: { type: 'string', example: './new-name.txt' },
-                  overwrite_existing: { type: 'boolean', default: false }
+                  overwrite_existing: { type: 'boolean', default: false },
+                  expected_sha256: { type: 'string', pattern: '^[0-9a-fA-F]{64}$', description: 'Fail with 412 unless the source file still has this SHA-256 (same as If-Match)' },
+                  expected_mtime: { type: 'string', format: 'date-time', description: 'Fail with 412 unless the source file still has this modification time' }
                 }
               }
             }
@@ -340,7 +894,8 @@ browser testing via SwaggerUI and CURL-based testing for development.
         responses: {
           '200': { $ref: '#/components/responses/Success' },
           '404': { $ref: '#/components/responses/NotFound' },
-          '409': { $ref: '#/components/responses/Conflict' }
+          '409': { $ref: '#/components/responses/Conflict' },
+          '412': { $ref: '#/components/responses/PreconditionFailed' }
         }
       }
     },
@@ -363,12 +918,28 @@ browser testing via SwaggerUI and CURL-based testing for development.
             required: false,
             description: 'Force deletion of read-only files',
             schema: { type: 'boolean', default: false }
-          }
+          },
+          {
+            name: 'expected_sha256',
+            in: 'query',
+            required: false,
+            description: 'Fail with 412 unless the file still has this SHA-256 (same as If-Match)',
+            schema: { type: 'string', pattern: '^[0-9a-fA-F]{64}$' }
+          },
+          {
+            name: 'expected_mtime',
+            in: 'query',
+            required: false,
+            description: 'Fail with 412 unless the file still has this modification time',
+            schema: { type: 'string', format: 'date-time' }
+          },
+          { $ref: '#/components/parameters/IfMatch' }
         ],
         responses: {
           '200': { $ref: '#/components/responses/Success' },
           '404': { $ref: '#/components/responses/NotFound' },
-          '403': { $ref: '#/components/responses/Forbidden' }
+          '403': { $ref: '#/components/responses/Forbidden' },
+          '412': { $ref: '#/components/responses/PreconditionFailed' }
         }
       }
     },
@@ -630,6 +1201,15 @@ browser testing via SwaggerUI and CURL-based testing for development.
         }
       }
     },
+    parameters: {
+      IfMatch: {
+        name: 'If-Match',
+        in: 'header',
+        required: false,
+        description: 'ETag from a previous read or write (the file SHA-256) - the operation fails with 412 if the file has changed. Several ETags may be listed (any one matches); * matches any existing file; weak W/ tags never match',
+        schema: { type: 'string', example: '"9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"' }
+      }
+    },
     responses: {
       Success: {
         description: 'Successful operation',
@@ -671,6 +1251,22 @@ browser testing via SwaggerUI and CURL-based testing for development.
           }
         }
       },
+      PreconditionFailed: {
+        description: 'File was modified since it was read - data.conflict has the current SHA-256 and modification time, and a diff where applicable',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SuccessResponse' }
+          }
+        }
+      },
+      SyntaxError: {
+        description: 'validate_syntax found a syntax error introduced by the change and nothing was written - data.syntax_check has the error line, column and surrounding lines',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SuccessResponse' }
+          }
+        }
+      },
       PayloadTooLarge: {
         description: 'File or content too large',
         content: {
@@ -13,6 +13,7 @@ import { errorHandler } from './middleware/error-handler.js';
 import { apiRoutes } from './routes/index.js';
 import { openApiSpec } from './schemas/openapi.js';
 import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { initializeTokenizer, getTokenizer } from '../utils/tokenizer.js';
 
 /**
  * Smart Filesystem API Server
@@ -40,7 +41,8 @@ class SmartFilesystemAPI {
       origin: true,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'Accept']
+      allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'If-Match'],
+      exposedHeaders: ['ETag']
     }));
 
     // JSON parsing
@@ -228,6 +230,7 @@ class SmartFilesystemAPI {
     console.log(`   Node.js: ${nodeVersion}`);
     console.log(`   Package: smart-fs-mcp@1.0.0`);
     console.log(`   TypeScript: enabled`);
+    console.log(`   Tokenizer: ${getTokenizer().name}`);
     console.log(`   Hot reload: ${hotReload ? 'enabled (nodemon)' : 'disabled'}`);
     console.log('');
     console.log(`${symbols.shield}  Security Settings:`);
@@ -336,6 +339,7 @@ class SmartFilesystemAPI {
         : [process.cwd()];
       
       initializeSecurityController(allowedDirs);
+      await initializeTokenizer(process.env.SMART_FS_TOKENIZER || undefined);
 
       // Start HTTP server with enhanced error handling
       const server = this.app.listen(this.port, '127.0.0.1', () => {
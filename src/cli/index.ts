@@ -11,18 +11,32 @@ import { SafetyController } from '../core/safety-controller.js';
 import { FileAnalyzer } from '../core/file-analyzer.js';
 import { listDirectory } from '../tools/list-directory.js';
 import { readFile } from '../tools/read-file.js';
+import { readFileBytes } from '../tools/read-file-bytes.js';
+import { listArchive } from '../tools/list-archive.js';
+import { readArchiveEntry } from '../tools/read-archive-entry.js';
 import { searchContent } from '../tools/search-content.js';
 import { writeFile } from '../tools/write-file.js';
 import { editFile } from '../tools/edit-file.js';
+import { editFiles } from '../tools/edit-files.js';
+import { applyPatch } from '../tools/apply-patch.js';
 import { moveFile } from '../tools/move-file.js';
 import { listAllowedDirs } from '../tools/list-allowed-dirs.js';
 import { fileInfo } from '../tools/file-info.js';
+import { outline } from '../tools/outline.js';
+import { queryData } from '../tools/query-data.js';
+import { convertEncoding } from '../tools/convert-encoding.js';
+import { editNotebook } from '../tools/edit-notebook.js';
 import { mkdir } from '../tools/mkdir.js';
 import { deleteFile } from '../tools/delete-file.js';
 import { deleteDirectory } from '../tools/delete-directory.js';
 import { moveDirectory } from '../tools/move-directory.js';
 import { initializeSecurityController } from '../core/security-controller-v2.js';
 import { formatBytes, formatDuration } from '../utils/helpers.js';
+import { initializeTokenizer } from '../utils/tokenizer.js';
+import { diffLines, generateGitStyleDiff } from '../utils/diff-utils.js';
+import type { ReadFileRange, ReadFileChunk, ReadFileTruncation, ReadFileTail, ReadFileTable, ReadFileCompression, ReadFileNotebook, SyntaxCheckResult, WriteConflict, WriteMode } from '../core/types.js';
+import type { CLI } from '../core/types.js';
+import type { OutlineSymbol } from '../core/outline-parser.js';
 
 // Command definitions
 const mainDefinitions = [
@@ -43,6 +57,19 @@ const listDefinitions = [
 const readDefinitions = [
   { name: 'path', defaultOption: true, description: 'File to read' },
   { name: 'encoding', type: String, description: 'Text encoding' },
+  { name: 'start-line', type: Number, description: 'First line to read (1-based)' },
+  { name: 'end-line', type: Number, description: 'Last line to read (inclusive)' },
+  { name: 'offset', type: Number, description: 'Byte offset to start reading from' },
+  { name: 'length', type: Number, description: 'Number of bytes to read' },
+  { name: 'chunk-tokens', type: Number, description: 'Token budget per chunk (paginated read)' },
+  { name: 'cursor', type: String, description: 'Continuation cursor from the previous chunk' },
+  { name: 'max-tokens', type: Number, description: 'Token budget (elide the middle of larger files)' },
+  { name: 'tail', type: Number, description: 'Last N lines of the file' },
+  { name: 'tail-bytes', type: Number, description: 'Last N bytes of the file' },
+  { name: 'since-offset', type: Number, description: 'Content appended after this byte offset' },
+  { name: 'table', type: Number, description: 'First N rows of a CSV/TSV file with column statistics' },
+  { name: 'delimiter', type: String, description: 'Field delimiter for --table (default: auto-detected)' },
+  { name: 'notebook-outputs', type: String, description: 'Notebook outputs: truncated, none or full (default: truncated)' },
   { name: 'verbose', alias: 'v', type: Boolean, description: 'Verbose output' },
 ];
 
@@ -63,6 +90,12 @@ const writeDefinitions = [
   { name: 'path', defaultOption: true, description: 'File path to write' },
   { name: 'content', alias: 'c', type: String, description: 'Content to write (or use stdin)' },
   { name: 'encoding', alias: 'e', type: String, description: 'Text encoding (default: utf8)' },
+  { name: 'mode', alias: 'm', type: String, description: 'overwrite|append|prepend|insert_at_line|create_only (default: overwrite)' },
+  { name: 'line', type: Number, description: 'Line to insert before (insert_at_line)' },
+  { name: 'line-ending', type: String, description: 'lf|crlf (default: keep the existing file\'s)' },
+  { name: 'no-preserve', type: Boolean, description: 'Do not keep the existing file\'s encoding, line endings, BOM and final newline' },
+  { name: 'validate-syntax', type: Boolean, description: 'Refuse the write if it introduces a syntax error (.json/.yaml/.toml/.xml/.ts/.js)' },
+  { name: 'expected-sha256', type: String, description: 'Only write if the file still has this SHA-256' },
   { name: 'verbose', alias: 'v', type: Boolean, description: 'Verbose output' },
 ];
 
@@ -71,24 +104,100 @@ const editDefinitions = [
   { name: 'literal', alias: 'l', type: String, multiple: true, description: 'Literal edit: old_text,new_text' },
   { name: 'regex', alias: 'r', type: String, multiple: true, description: 'Regex edit: pattern,replacement[,flags]' },
   { name: 'diff', alias: 'f', type: String, description: 'Apply diff from file or stdin' },
+  { name: 'base-sha256', type: String, description: 'SHA-256 the diff was made against (three-way merge if the file changed)' },
+  { name: 'base-file', type: String, description: 'File with the content the diff was made against (merge base for --base-sha256)' },
+  { name: 'lines', alias: 'L', type: String, multiple: true, description: 'Line range edit: start-end,new_text' },
+  { name: 'insert-after', type: String, multiple: true, description: 'Insert after anchor line: anchor,new_text' },
+  { name: 'insert-before', type: String, multiple: true, description: 'Insert before anchor line: anchor,new_text' },
   { name: 'preserve-formatting', alias: 'p', type: Boolean, description: 'Preserve formatting (default: true)' },
+  { name: 'fuzzy', type: Boolean, description: 'Apply literal edits that match once when whitespace or line endings are ignored' },
+  { name: 'validate-syntax', type: Boolean, description: 'Leave the file unchanged if the edit introduces a syntax error (.json/.yaml/.toml/.xml/.ts/.js)' },
   { name: 'dry-run', alias: 'd', type: Boolean, description: 'Preview changes without applying' },
+  { name: 'expected-sha256', type: String, description: 'Only edit if the file still has this SHA-256' },
   { name: 'verbose', alias: 'v', type: Boolean, description: 'Verbose output' },
 ];
 
+const editFilesDefinitions = [
+  { name: 'plan', defaultOption: true, description: 'JSON file with { files: [{ path, edits }] } (or - for stdin)' },
+  { name: 'dry-run', alias: 'd', type: Boolean, description: 'Validate all files and show the combined diff without writing' },
+  { name: 'verbose', alias: 'v', type: Boolean, description: 'Verbose output' },
+];
+
+const patchDefinitions = [
+  { name: 'patch', defaultOption: true, description: 'Patch file (or - for stdin)' },
+  { name: 'check', alias: 'c', type: Boolean, description: 'Only check that the patch applies (like git apply --check)' },
+  { name: 'strip', alias: 'p', type: Number, description: 'Leading path components to remove (default: 1)' },
+  { name: 'fuzz', alias: 'F', type: Number, description: 'Context lines a hunk may ignore (default: 2)' },
+  { name: 'directory', type: String, description: 'Directory the patch paths are relative to' },
+  { name: 'verbose', alias: 'v', type: Boolean, description: 'Show every hunk' },
+];
+
+const benchmarkDefinitions = [
+  { name: 'target', defaultOption: true, description: 'What to benchmark (diff)' },
+  { name: 'lines', alias: 'n', type: Number, description: 'Lines in the generated file (default: 20000)' },
+  { name: 'file', type: String, description: 'Use this file as the original instead of generated content' },
+  { name: 'context', alias: 'C', type: Number, description: 'Context lines around each hunk (default: 3)' },
+  { name: 'runs', alias: 'r', type: Number, description: 'Runs per scenario, the median is reported (default: 3)' },
+  { name: 'json', type: Boolean, description: 'Print the results as JSON' },
+];
+
 const moveDefinitions = [
   { name: 'source', defaultOption: true, description: 'Source file path' },
   { name: 'destination', type: String, description: 'Destination file path' },
   { name: 'overwrite', alias: 'o', type: Boolean, description: 'Overwrite existing file' },
+  { name: 'expected-sha256', type: String, description: 'Only move if the source file still has this SHA-256' },
   { name: 'verbose', alias: 'v', type: Boolean, description: 'Verbose output' },
 ];
 
+const bytesDefinitions = [
+  { name: 'path', defaultOption: true, description: 'File to inspect' },
+  { name: 'offset', type: Number, description: 'Byte offset (negative counts from the end)' },
+  { name: 'length', type: Number, description: 'Number of bytes to read' },
+  { name: 'format', type: String, description: 'Output format: dump, hex or base64 (default: dump)' },
+];
+
+const archiveDefinitions = [
+  { name: 'path', defaultOption: true, description: 'Archive file (.zip, .tar, .tar.gz, .tgz)' },
+  { name: 'entry', alias: 'e', type: String, description: 'Entry to read instead of listing' },
+  { name: 'max-entries', type: Number, description: 'Maximum entries to list' },
+];
+
 const fileInfoDefinitions = [
   { name: 'path', defaultOption: true, description: 'File or directory path' },
   { name: 'no-analysis', type: Boolean, description: 'Skip detailed analysis' },
   { name: 'verbose', alias: 'v', type: Boolean, description: 'Verbose output' },
 ];
 
+const outlineDefinitions = [
+  { name: 'path', defaultOption: true, description: 'Code file to outline' },
+  { name: 'verbose', alias: 'v', type: Boolean, description: 'Show signatures' },
+];
+
+const queryDefinitions = [
+  { name: 'path', defaultOption: true, description: 'JSON/JSONC/YAML file' },
+  { name: 'query', alias: 'q', type: String, description: 'Path query (e.g. dependencies.express)' },
+  { name: 'format', type: String, description: 'Data format: json, jsonc or yaml' },
+  { name: 'max-items', type: Number, description: 'Maximum items shown per array' },
+  { name: 'max-tokens', type: Number, description: 'Token budget for the result' },
+];
+
+const convertDefinitions = [
+  { name: 'path', defaultOption: true, description: 'File to convert' },
+  { name: 'to', type: String, description: 'Target encoding' },
+  { name: 'from', type: String, description: 'Source encoding (default: auto-detect)' },
+  { name: 'dry-run', type: Boolean, description: 'Preview conversion without writing' },
+];
+
+const notebookDefinitions = [
+  { name: 'path', defaultOption: true, description: 'Notebook (.ipynb) to edit' },
+  { name: 'replace', type: Number, description: 'Replace the cell at this index' },
+  { name: 'insert', type: Number, description: 'Insert a new cell at this index' },
+  { name: 'delete', type: Number, description: 'Delete the cell at this index' },
+  { name: 'source', alias: 's', type: String, description: 'Cell source (or pipe it via stdin)' },
+  { name: 'type', type: String, description: 'Cell type: code, markdown or raw' },
+  { name: 'dry-run', type: Boolean, description: 'Validate without writing' },
+];
+
 const mkdirDefinitions = [
   { name: 'path', defaultOption: true, description: 'Directory path to create' },
   { name: 'no-recursive', type: Boolean, description: 'Do not create parent directories' },
@@ -99,6 +208,7 @@ const mkdirDefinitions = [
 const deleteDefinitions = [
   { name: 'path', defaultOption: true, description: 'File path to delete' },
   { name: 'force', alias: 'f', type: Boolean, description: 'Force deletion of read-only files' },
+  { name: 'expected-sha256', type: String, description: 'Only delete if the file still has this SHA-256' },
   { name: 'verbose', alias: 'v', type: Boolean, description: 'Verbose output' },
 ];
 
@@ -130,7 +240,7 @@ const allowedDirs: string[] = [];
 while (commandIndex < process.argv.length && !process.argv[commandIndex].startsWith('-')) {
   const arg = process.argv[commandIndex];
   // Check if this is a command
-  const commands = ['list', 'read', 'search', 'write', 'edit', 'move', 'list-allowed', 'info', 'mkdir', 'delete', 'rmdir', 'movedir', 'security-test', 'test-all'];
+  const commands = ['list', 'read', 'bytes', 'archive', 'search', 'write', 'edit', 'edit-files', 'patch', 'benchmark', 'move', 'list-allowed', 'info', 'outline', 'query', 'convert', 'notebook', 'mkdir', 'delete', 'rmdir', 'movedir', 'security-test', 'test-all'];
   if (commands.includes(arg)) {
     break;
   }
@@ -161,6 +271,8 @@ async function main() {
   }
 
   try {
+    await initializeTokenizer(process.env.SMART_FS_TOKENIZER || undefined);
+    
     switch (mainOptions.command) {
       case 'list':
         await handleList(argv);
@@ -168,6 +280,12 @@ async function main() {
       case 'read':
         await handleRead(argv);
         break;
+      case 'bytes':
+        await handleBytes(argv);
+        break;
+      case 'archive':
+        await handleArchive(argv);
+        break;
       case 'search':
         await handleSearch(argv);
         break;
@@ -177,6 +295,15 @@ async function main() {
       case 'edit':
         await handleEdit(argv);
         break;
+      case 'edit-files':
+        await handleEditFiles(argv);
+        break;
+      case 'patch':
+        await handlePatch(argv);
+        break;
+      case 'benchmark':
+        await handleBenchmark(argv);
+        break;
       case 'move':
         await handleMove(argv);
         break;
@@ -189,6 +316,18 @@ async function main() {
       case 'info':
         await handleFileInfo(argv);
         break;
+      case 'outline':
+        await handleOutline(argv);
+        break;
+      case 'query':
+        await handleQuery(argv);
+        break;
+      case 'convert':
+        await handleConvert(argv);
+        break;
+      case 'notebook':
+        await handleNotebook(argv);
+        break;
       case 'mkdir':
         await handleMkdir(argv);
         break;
@@ -266,18 +405,179 @@ async function handleRead(argv: string[]) {
 
   const params = {
     path: options.path,
+    ...(options.encoding && { encoding: options.encoding }),
+    ...(options['start-line'] !== undefined && { start_line: options['start-line'] }),
+    ...(options['end-line'] !== undefined && { end_line: options['end-line'] }),
+    ...(options.offset !== undefined && { offset: options.offset }),
+    ...(options.length !== undefined && { length: options.length }),
+    ...(options['chunk-tokens'] !== undefined && { chunk_tokens: options['chunk-tokens'] }),
+    ...(options.cursor && { cursor: options.cursor }),
+    ...(options['max-tokens'] !== undefined && { max_tokens: options['max-tokens'] }),
+    ...(options.tail !== undefined && { tail_lines: options.tail }),
+    ...(options['tail-bytes'] !== undefined && { tail_bytes: options['tail-bytes'] }),
+    ...(options['since-offset'] !== undefined && { since_offset: options['since-offset'] }),
+    ...(options.table !== undefined && { table_rows: options.table }),
+    ...(options.delimiter && { delimiter: options.delimiter }),
+    ...(options['notebook-outputs'] && { notebook_outputs: options['notebook-outputs'] }),
   };
 
   const result = await readFile(params, safety, analyzer);
   
   if (result.status === 'success') {
     console.log(result.content);
+    if (result.range) {
+      displayReadRange(result.range);
+    }
+    if (result.chunk) {
+      displayReadChunk(result.chunk);
+    }
+    if (result.truncation) {
+      displayReadTruncation(result.truncation);
+    }
+    if (result.tail) {
+      displayReadTail(result.tail);
+    }
+    if (result.table) {
+      displayReadTable(result.table);
+    }
+    if (result.compression) {
+      displayReadCompression(result.compression);
+    }
+    if (result.notebook) {
+      displayReadNotebook(result.notebook);
+    }
   } else {
     displayReadError(result as any, options.verbose || false);
   }
 }
 
 
+/**
+ * Handle bytes command
+ */
+async function handleBytes(argv: string[]) {
+  const options = commandLineArgs(bytesDefinitions, { argv });
+  
+  if (!options.path) {
+    console.error(chalk.red('Error: File path required'));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue('🔢 Read bytes:'), options.path);
+  console.log('═'.repeat(50));
+
+  const startTime = Date.now();
+  const result = await readFileBytes({
+    path: options.path,
+    offset: options.offset,
+    length: options.length,
+    format: options.format || 'dump'
+  });
+  const duration = Date.now() - startTime;
+
+  if (result.status === 'error') {
+    console.log(chalk.red('❌ Error:'), result.issue_details?.reason);
+  } else {
+    const fileType = result.file_info.file_type;
+    console.log(`  Size: ${formatBytes(result.file_info.size_bytes)}`);
+    if (fileType) {
+      console.log(`  Type: ${fileType.description} (${fileType.mime})`);
+    }
+    console.log(`  Range: ${result.offset}-${result.offset + result.length} (${result.length} bytes, ${result.format})`);
+    console.log('');
+    console.log(result.data);
+    if (result.next_offset !== undefined) {
+      console.log(chalk.gray(`\n... more bytes available (--offset ${result.next_offset})`));
+    }
+  }
+  
+  if (result.alternatives?.suggestions) {
+    console.log(chalk.blue('\n💡 Suggestions:'));
+    result.alternatives.suggestions.forEach(suggestion => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
+  
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+}
+
+/**
+ * Handle archive command
+ */
+async function handleArchive(argv: string[]) {
+  const options = commandLineArgs(archiveDefinitions, { argv, stopAtFirstUnknown: true });
+  const remainingArgs = argv.slice(argv.indexOf(options.path) + 1);
+  
+  if (!options.path) {
+    console.error(chalk.red('Error: Archive path required'));
+    process.exit(1);
+  }
+
+  const entry = options.entry || remainingArgs[0];
+  const startTime = Date.now();
+
+  if (entry) {
+    console.log(chalk.blue('📦 Read archive entry:'), `${options.path} → ${entry}`);
+    console.log('═'.repeat(50));
+
+    const result = await readArchiveEntry({ path: options.path, entry }, safety, analyzer);
+
+    if (result.status === 'success') {
+      console.log(chalk.gray(`${formatBytes(result.entry?.size ?? 0)}, ~${result.estimated_tokens?.toLocaleString()} tokens${result.detected_encoding ? `, ${result.detected_encoding}` : ''}`));
+      console.log('');
+      console.log(result.content);
+    } else {
+      console.log(chalk.red(`❌ ${result.status}:`), result.issue_details?.reason);
+      if (result.preview?.hex_dump) {
+        console.log(chalk.gray(`\n${result.preview.content_summary}`));
+        result.preview.hex_dump.head.forEach(line => console.log(`  ${line}`));
+      } else if (result.preview) {
+        console.log(chalk.gray(`\nPreview (${result.preview.content_summary}):`));
+        result.preview.first_lines.forEach(line => console.log(`  ${line}`));
+      }
+    }
+
+    if (result.alternatives?.suggestions) {
+      console.log(chalk.blue('\n💡 Suggestions:'));
+      result.alternatives.suggestions.forEach(suggestion => {
+        console.log(`  • ${suggestion}`);
+      });
+    }
+  } else {
+    console.log(chalk.blue('📦 List archive:'), options.path);
+    console.log('═'.repeat(50));
+
+    const result = await listArchive({ path: options.path, max_entries: options['max-entries'] });
+    const info = result.archive_info;
+
+    if (result.status === 'error') {
+      console.log(chalk.red('❌ Error:'), result.issue_details?.reason);
+    } else {
+      console.log(`  Format: ${info.format}`);
+      console.log(`  Size: ${formatBytes(info.size_bytes)} (${formatBytes(info.total_uncompressed_bytes)} uncompressed)`);
+      console.log(`  Entries: ${info.total_entries} (${info.file_count} files, ${info.directory_count} directories shown)`);
+      console.log('');
+      result.entries.forEach(item => {
+        const icon = item.type === 'directory' ? '📁' : item.type === 'symlink' ? '🔗' : '📄';
+        const detail = item.type === 'symlink' ? `→ ${item.link_target}` : item.type === 'file' ? formatBytes(item.size) : '';
+        console.log(`  ${icon} ${item.name} ${chalk.gray(detail)}`);
+      });
+      if (result.status === 'warning') {
+        console.log(chalk.yellow('\n⚠️ '), result.issue_details?.reason);
+      }
+    }
+
+    if (result.alternatives?.suggestions.length) {
+      console.log(chalk.blue('\n💡 Suggestions:'));
+      result.alternatives.suggestions.forEach(suggestion => {
+        console.log(`  • ${suggestion}`);
+      });
+    }
+  }
+  
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(Date.now() - startTime)}`));
+}
+
 /**
  * Handle search command
  */
@@ -354,16 +654,25 @@ async function handleWrite(argv: string[]) {
 
   console.log(chalk.blue('📝 Write File:'), options.path);
   console.log(chalk.gray(`  Size: ${formatBytes(Buffer.byteLength(content))}`));
+  if (options.mode) {
+    console.log(chalk.gray(`  Mode: ${options.mode}${options.line ? ` (line ${options.line})` : ''}`));
+  }
   console.log('═'.repeat(50));
 
   const params = {
     path: options.path,
     content,
-    encoding: options.encoding as any
+    encoding: options.encoding as any,
+    ...(options.mode && { mode: options.mode as WriteMode }),
+    ...(options.line !== undefined && { line: options.line }),
+    ...(options['line-ending'] && { line_ending: options['line-ending'] as 'lf' | 'crlf' }),
+    ...(options['no-preserve'] && { preserve_formatting: false }),
+    ...(options['validate-syntax'] && { validate_syntax: true }),
+    ...(options['expected-sha256'] && { expected_sha256: options['expected-sha256'] })
   };
 
   const startTime = Date.now();
-  const result = await writeFile(params, safety);
+  const result = await writeFile(params, safety, analyzer);
   const duration = Date.now() - startTime;
 
   // Display results
@@ -382,11 +691,14 @@ async function handleEdit(argv: string[]) {
     process.exit(1);
   }
 
-  if (!options.literal && !options.regex && !options.diff) {
-    console.error(chalk.red('Error: At least one edit required (-l, -r, or -f)'));
+  if (!options.literal && !options.regex && !options.diff && !options.lines &&
+      !options['insert-after'] && !options['insert-before']) {
+    console.error(chalk.red('Error: At least one edit required (-l, -r, -f, -L, --insert-after or --insert-before)'));
     console.log('Examples:');
     console.log('  -l "old text,new text"        # Literal replacement');
     console.log('  -r "pattern,replacement[,flags]"  # Regex replacement');
+    console.log('  -L "12-14,new text"           # Replace lines 12-14');
+    console.log('  --insert-after "import os,import sys"  # Insert after the anchor line');
     console.log('  -f patch.diff                 # Apply diff from file');
     console.log('  cat patch.diff | edit file.js -f -  # Apply diff from stdin');
     process.exit(1);
@@ -436,6 +748,41 @@ async function handleEdit(argv: string[]) {
     }
   }
   
+  if (options.lines) {
+    for (const spec of options.lines as string[]) {
+      const match = spec.match(/^(\d+)(?:-(\d+))?,([\s\S]*)$/);
+      if (!match) {
+        console.error(chalk.red(`Invalid line range edit format: ${spec}`));
+        console.log('Format: "start-end,new_text" (or "line,new_text")');
+        process.exit(1);
+      }
+      edits.push({
+        type: 'line_range',
+        start_line: parseInt(match[1]!, 10),
+        end_line: parseInt(match[2] ?? match[1]!, 10),
+        new_text: match[3]
+      });
+    }
+  }
+  
+  for (const position of ['after', 'before'] as const) {
+    const specs: string[] = options[`insert-${position}`] ?? [];
+    for (const spec of specs) {
+      const parts = spec.split(',');
+      if (parts.length < 2) {
+        console.error(chalk.red(`Invalid insert edit format: ${spec}`));
+        console.log('Format: "anchor,new_text"');
+        process.exit(1);
+      }
+      edits.push({
+        type: 'insert',
+        anchor: parts[0],
+        position,
+        new_text: parts.slice(1).join(',')
+      });
+    }
+  }
+  
   if (options.diff) {
     let diffContent: string;
     
@@ -457,10 +804,23 @@ async function handleEdit(argv: string[]) {
       }
     }
     
+    let baseContent: string | undefined;
+    if (options['base-file']) {
+      try {
+        const fs = await import('fs/promises');
+        baseContent = await fs.readFile(options['base-file'], 'utf8');
+      } catch (error) {
+        console.error(chalk.red(`Error reading base file: ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
+      }
+    }
+    
     edits.push({
       type: 'diff',
       diff_content: diffContent,
-      base_version_check: true
+      base_version_check: true,
+      ...(options['base-sha256'] && { base_sha256: options['base-sha256'] }),
+      ...(baseContent !== undefined && { base_content: baseContent })
     });
   }
 
@@ -468,7 +828,10 @@ async function handleEdit(argv: string[]) {
     path: options.path,
     edits,
     dry_run: options['dry-run'],
-    preserve_formatting: options['preserve-formatting'] !== false // Default true
+    preserve_formatting: options['preserve-formatting'] !== false, // Default true
+    ...(options.fuzzy && { allow_fuzzy: true }),
+    ...(options['validate-syntax'] && { validate_syntax: true }),
+    ...(options['expected-sha256'] && { expected_sha256: options['expected-sha256'] })
   };
 
   const startTime = Date.now();
@@ -480,6 +843,234 @@ async function handleEdit(argv: string[]) {
   console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
 }
 
+/**
+ * Handle edit-files command
+ */
+async function handleEditFiles(argv: string[]) {
+  const options = commandLineArgs(editFilesDefinitions, { argv });
+  
+  if (!options.plan) {
+    console.error(chalk.red('Error: Edit plan required (JSON file or - for stdin)'));
+    console.log('Format: { "files": [{ "path": "src/a.ts", "edits": [{ "type": "literal", "old_text": "a", "new_text": "b" }] }] }');
+    process.exit(1);
+  }
+
+  let files: any;
+  try {
+    let planContent: string;
+    if (options.plan === '-') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(chunk);
+      }
+      planContent = Buffer.concat(chunks).toString('utf8');
+    } else {
+      const fs = await import('fs/promises');
+      planContent = await fs.readFile(options.plan, 'utf8');
+    }
+    const plan = JSON.parse(planContent);
+    files = Array.isArray(plan) ? plan : plan.files;
+  } catch (error) {
+    console.error(chalk.red(`Error reading edit plan: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue('✏️  Edit Files:'), `${Array.isArray(files) ? files.length : 0} files`);
+  if (options['dry-run']) {
+    console.log(chalk.yellow('  Mode: DRY RUN (preview only)'));
+  }
+  console.log('═'.repeat(50));
+
+  const startTime = Date.now();
+  const result = await editFiles({ files, dry_run: options['dry-run'] }, safety, analyzer);
+  const duration = Date.now() - startTime;
+
+  displayEditFilesResult(result, options.verbose || false);
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+}
+
+/**
+ * Handle patch command
+ */
+async function handlePatch(argv: string[]) {
+  const options = commandLineArgs(patchDefinitions, { argv });
+  
+  if (!options.patch) {
+    console.error(chalk.red('Error: Patch file required (or - for stdin)'));
+    process.exit(1);
+  }
+
+  let patch: string;
+  try {
+    if (options.patch === '-') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(chunk);
+      }
+      patch = Buffer.concat(chunks).toString('utf8');
+    } else {
+      const fs = await import('fs/promises');
+      patch = await fs.readFile(options.patch, 'utf8');
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error reading patch: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue('🩹 Apply Patch:'), options.patch === '-' ? '(stdin)' : options.patch);
+  if (options.check) {
+    console.log(chalk.yellow('  Mode: CHECK (no files are changed)'));
+  }
+  console.log('═'.repeat(50));
+
+  const startTime = Date.now();
+  const result = await applyPatch({
+    patch,
+    dry_run: options.check,
+    ...(options.strip !== undefined && { strip: options.strip }),
+    ...(options.fuzz !== undefined && { fuzz: options.fuzz }),
+    ...(options.directory && { base_dir: options.directory })
+  }, analyzer);
+  const duration = Date.now() - startTime;
+
+  displayPatchResult(result, options.verbose || false);
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+}
+
+/**
+ * Handle benchmark command
+ */
+async function handleBenchmark(argv: string[]) {
+  const options = commandLineArgs(benchmarkDefinitions, { argv });
+  const target = options.target || 'diff';
+  
+  if (target !== 'diff') {
+    console.error(chalk.red(`Error: Unknown benchmark target: ${target} (available: diff)`));
+    process.exit(1);
+  }
+
+  let original: string[];
+  if (options.file) {
+    try {
+      const fs = await import('fs/promises');
+      original = (await fs.readFile(options.file, 'utf8')).split('\n');
+    } catch (error) {
+      console.error(chalk.red(`Error reading file: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  } else {
+    original = generateBenchmarkSource(options.lines ?? 20000);
+  }
+  const contextLines = options.context ?? 3;
+  const runs = Math.max(1, options.runs ?? 3);
+
+  if (!options.json) {
+    console.log(chalk.blue('⏱️  Benchmark:'), `diff of ${original.length.toLocaleString()} lines${options.file ? ` (${options.file})` : ''}`);
+    console.log(`  Context lines: ${contextLines}, runs: ${runs}`);
+    console.log('═'.repeat(50));
+  }
+
+  // 変更の量と種類が異なるシナリオ
+  const scenarios: Array<{ name: string; modified: string[] }> = [
+    { name: 'few edits (0.1%)', modified: mutateLines(original, 0.001, 1) },
+    { name: 'many edits (10%)', modified: mutateLines(original, 0.1, 2) },
+    { name: 'block insert', modified: [
+      ...original.slice(0, original.length >> 1),
+      ...generateBenchmarkSource(Math.max(1, original.length >> 4)).map(line => `// moved ${line}`),
+      ...original.slice(original.length >> 1)
+    ] },
+    { name: 'full rewrite', modified: original.map(line => `${line} // rewritten`) }
+  ];
+
+  const results: CLI.BenchmarkResult[] = [];
+  for (const scenario of scenarios) {
+    const originalText = original.join('\n');
+    const modifiedText = scenario.modified.join('\n');
+    const baseline = process.memoryUsage().heapUsed;
+    let peakMemory = 0;
+    const diffTimes: number[] = [];
+    const totalTimes: number[] = [];
+
+    for (let run = 0; run < runs; run++) {
+      let start = performance.now();
+      diffLines(original, scenario.modified);
+      diffTimes.push(performance.now() - start);
+      peakMemory = Math.max(peakMemory, process.memoryUsage().heapUsed - baseline);
+
+      start = performance.now();
+      generateGitStyleDiff(originalText, modifiedText, 'benchmark.txt', contextLines);
+      totalTimes.push(performance.now() - start);
+      peakMemory = Math.max(peakMemory, process.memoryUsage().heapUsed - baseline);
+    }
+
+    const duration = median(totalTimes);
+    results.push({
+      operation: `diff: ${scenario.name}`,
+      duration: Math.round(duration * 10) / 10,
+      peakMemory,
+      breakdown: {
+        diff_lines_ms: Math.round(median(diffTimes) * 10) / 10,
+        hunks_and_format_ms: Math.round(Math.max(0, duration - median(diffTimes)) * 10) / 10,
+        lines_per_second: Math.round((original.length + scenario.modified.length) / Math.max(duration, 0.001) * 1000)
+      },
+      grade: gradeDuration(duration)
+    });
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    displayBenchmarkResults(results);
+  }
+}
+
+/**
+ * Generate code-like lines for benchmarks (with repeated lines such as braces and blank lines)
+ */
+function generateBenchmarkSource(lineCount: number): string[] {
+  return Array.from({ length: lineCount }, (_, i) => {
+    if (i % 7 === 6) return '';
+    if (i % 5 === 4) return '}';
+    return `  const value${i} = compute(${i % 97}, "${(i * 2654435761 % 4294967296).toString(36)}");`;
+  });
+}
+
+/**
+ * Replace, delete or insert about rate of the lines (deterministic for a seed)
+ */
+function mutateLines(lines: string[], rate: number, seed: number): string[] {
+  let state = seed;
+  const random = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+  const result: string[] = [];
+  for (const line of lines) {
+    if (random() >= rate) {
+      result.push(line);
+      continue;
+    }
+    const kind = random();
+    if (kind < 0.4) {
+      result.push(`${line} // changed`);
+    } else if (kind < 0.7) {
+      result.push(line, `  inserted(${result.length});`);
+    }
+    // それ以外は削除
+  }
+  return result;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[sorted.length >> 1] ?? 0;
+}
+
+function gradeDuration(ms: number): CLI.BenchmarkResult['grade'] {
+  if (ms < 100) return 'A';
+  if (ms < 500) return 'B';
+  if (ms < 2000) return 'C';
+  if (ms < 10000) return 'D';
+  return 'F';
+}
+
 /**
  * Handle move command
  */
@@ -509,7 +1100,8 @@ async function handleMove(argv: string[]) {
   const params = {
     source: options.source,
     destination,
-    overwrite_existing: options.overwrite
+    overwrite_existing: options.overwrite,
+    ...(options['expected-sha256'] && { expected_sha256: options['expected-sha256'] })
   };
 
   const startTime = Date.now();
@@ -652,6 +1244,45 @@ async function handleFileInfo(argv: string[]) {
       }
     }
     
+    // Media metadata
+    if (result.media) {
+      const media = result.media;
+      console.log(chalk.yellow('\n🖼️  Media:'));
+      console.log(`  Format: ${media.format}${media.brand ? ` (${media.brand})` : ''}`);
+      if (media.width !== undefined && media.height !== undefined) {
+        console.log(`  Dimensions: ${media.width}x${media.height}`);
+      }
+      if (media.color_depth !== undefined) {
+        console.log(`  Color depth: ${media.color_depth}-bit${media.has_alpha ? ' (alpha)' : ''}`);
+      }
+      if (media.animated) {
+        console.log('  Animated: true');
+      }
+      if (media.orientation !== undefined) {
+        console.log(`  EXIF orientation: ${media.orientation}`);
+      }
+      if (media.duration_seconds !== undefined) {
+        console.log(`  Duration: ${media.duration_seconds}s`);
+      }
+      if (media.video_codec) {
+        console.log(`  Video codec: ${media.video_codec}`);
+      }
+      if (media.audio_codec) {
+        const details = [
+          media.sample_rate && `${media.sample_rate} Hz`,
+          media.channels && `${media.channels} ch`,
+          media.bitrate_kbps && `${media.bitrate_kbps} kbps`
+        ].filter(Boolean).join(', ');
+        console.log(`  Audio codec: ${media.audio_codec}${details ? ` (${details})` : ''}`);
+      }
+      if (media.created) {
+        console.log(`  Captured: ${media.created}`);
+      }
+      if (media.modified) {
+        console.log(`  Media modified: ${media.modified}`);
+      }
+    }
+    
     // Directory info
     if (result.directory_info) {
       console.log(chalk.yellow('\n📁 Directory Info:'));
@@ -665,45 +1296,291 @@ async function handleFileInfo(argv: string[]) {
 }
 
 /**
- * Handle mkdir command
+ * Handle outline command
  */
-async function handleMkdir(argv: string[]) {
-  const options = commandLineArgs(mkdirDefinitions, { argv });
+async function handleOutline(argv: string[]) {
+  const options = commandLineArgs(outlineDefinitions, { argv });
   
   if (!options.path) {
-    console.error(chalk.red('Error: Directory path required'));
+    console.error(chalk.red('Error: File path required'));
     process.exit(1);
   }
 
-  console.log(chalk.blue('📁 Create Directory:'), options.path);
+  console.log(chalk.blue('🧭 Outline:'), options.path);
   console.log('═'.repeat(50));
 
-  const params = {
-    path: options.path,
-    recursive: !options['no-recursive'],
-    mode: options.mode
-  };
-
   const startTime = Date.now();
-  const result = await mkdir(params);
+  const result = await outline({ path: options.path }, analyzer);
   const duration = Date.now() - startTime;
 
-  // Display result
   if (result.status === 'error') {
-    console.log(chalk.red('❌ Failed to create directory'));
-  } else if (result.status === 'warning') {
-    console.log(chalk.yellow('⚠️  Directory created with warnings'));
+    console.log(chalk.red('❌ Error:'), result.issue_details?.reason);
   } else {
-    console.log(chalk.green('✅ Directory created successfully'));
+    console.log(`  Language: ${result.file_info.language || 'N/A'}`);
+    console.log(`  Lines: ${result.file_info.total_lines} (~${result.file_info.estimated_tokens.toLocaleString()} tokens)`);
+    console.log(`  Symbols: ${result.symbol_count}`);
+    console.log('');
+    displayOutlineSymbols(result.symbols, 1, options.verbose || false);
   }
   
-  console.log(chalk.yellow('\n📊 Operation Info:'));
-  console.log(`  Path: ${result.directory_info.path}`);
-  console.log(`  Resolved: ${result.directory_info.resolved_path}`);
-  console.log(`  Created new: ${result.directory_info.created_new}`);
-  console.log(`  Permissions: ${result.directory_info.final_permissions}`);
+  if (result.alternatives?.suggestions) {
+    console.log(chalk.blue('\n💡 Suggestions:'));
+    result.alternatives.suggestions.forEach(suggestion => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
   
-  if (result.directory_info.parent_directories_created.length > 0) {
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+}
+
+/**
+ * Display outline symbols as a tree
+ */
+function displayOutlineSymbols(symbols: OutlineSymbol[], indent: number, verbose: boolean) {
+  symbols.forEach(symbol => {
+    const prefix = '  '.repeat(indent);
+    const lines = chalk.gray(`L${symbol.start_line}-${symbol.end_line}`);
+    console.log(`${prefix}${chalk.cyan(symbol.kind)} ${symbol.name} ${lines}`);
+    if (verbose && symbol.signature) {
+      console.log(`${prefix}  ${chalk.gray(symbol.signature)}`);
+    }
+    if (symbol.children) {
+      displayOutlineSymbols(symbol.children, indent + 1, verbose);
+    }
+  });
+}
+
+/**
+ * Handle query command
+ */
+async function handleQuery(argv: string[]) {
+  const options = commandLineArgs(queryDefinitions, { argv, stopAtFirstUnknown: true });
+  const remainingArgs = argv.slice(argv.indexOf(options.path) + 1);
+  
+  if (!options.path) {
+    console.error(chalk.red('Error: File path required'));
+    process.exit(1);
+  }
+
+  const query = options.query || remainingArgs[0];
+
+  console.log(chalk.blue('🔎 Query:'), `${options.path} ${query || '$'}`);
+  console.log('═'.repeat(50));
+
+  const startTime = Date.now();
+  const result = await queryData({
+    path: options.path,
+    query,
+    format: options.format,
+    max_items: options['max-items'],
+    max_tokens: options['max-tokens']
+  }, analyzer);
+  const duration = Date.now() - startTime;
+
+  if (result.status === 'error') {
+    console.log(chalk.red('❌ Error:'), result.issue_details?.reason);
+  } else {
+    if (result.issue_details) {
+      console.log(chalk.yellow('⚠️  Warning:'), result.issue_details.reason);
+    }
+    console.log(`  Format: ${result.file_info.format}  Type: ${result.value_type}  (~${result.estimated_tokens.toLocaleString()} tokens)`);
+    if (result.match_count !== undefined) {
+      console.log(`  Matches: ${result.match_count}`);
+    }
+    if (result.truncation) {
+      const depth = result.truncation.max_depth !== undefined ? `, depth ≤ ${result.truncation.max_depth}` : '';
+      console.log(chalk.yellow(`  Truncated: ${result.truncation.truncated_arrays.length} arrays to ${result.truncation.max_items} items${depth}`));
+    }
+    console.log('');
+    console.log(JSON.stringify(result.value, null, 2));
+  }
+
+  if (result.available_keys && result.available_keys.length > 0) {
+    console.log(chalk.blue('\n🔑 Available keys:'));
+    result.available_keys.slice(0, 20).forEach(key => {
+      console.log(`  • ${key}`);
+    });
+  }
+  
+  if (result.alternatives?.suggestions) {
+    console.log(chalk.blue('\n💡 Suggestions:'));
+    result.alternatives.suggestions.forEach(suggestion => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
+  
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+}
+
+/**
+ * Handle convert command
+ */
+async function handleConvert(argv: string[]) {
+  const options = commandLineArgs(convertDefinitions, { argv });
+  
+  if (!options.path || !options.to) {
+    console.error(chalk.red('Error: File path and --to encoding required'));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue('🔤 Convert encoding:'), options.path);
+  console.log('═'.repeat(50));
+
+  const startTime = Date.now();
+  const result = await convertEncoding({
+    path: options.path,
+    to_encoding: options.to,
+    from_encoding: options.from,
+    dry_run: options['dry-run'] || false
+  }, analyzer);
+  const duration = Date.now() - startTime;
+
+  if (result.status === 'error') {
+    console.log(chalk.red('❌ Error:'), result.issue_details?.reason);
+  } else {
+    const icon = result.status === 'success' ? '✅' : '⚠️';
+    const label = result.dry_run ? 'Dry run' : (result.converted ? 'Converted' : 'Not converted');
+    console.log(`${icon} ${label}: ${result.file_info.from_encoding} → ${result.file_info.to_encoding}`);
+    if (result.file_info.encoding_detected) {
+      console.log(chalk.gray('  (source encoding auto-detected)'));
+    }
+    console.log(`  Size: ${formatBytes(result.file_info.size_before)} → ${formatBytes(result.file_info.size_after)}`);
+    if (result.issue_details) {
+      console.log(chalk.yellow('  Warning:'), result.issue_details.reason);
+    }
+  }
+
+  if (result.unmappable_chars && result.unmappable_chars.length > 0) {
+    console.log(chalk.yellow('\n⚠️  Unmappable characters:'));
+    result.unmappable_chars.forEach(char => {
+      console.log(`  • ${char}`);
+    });
+  }
+
+  if (result.preview.length > 0) {
+    console.log(chalk.blue('\n📄 Preview:'));
+    result.preview.forEach(line => {
+      console.log(`  ${line}`);
+    });
+  }
+  
+  if (result.alternatives?.suggestions) {
+    console.log(chalk.blue('\n💡 Suggestions:'));
+    result.alternatives.suggestions.forEach(suggestion => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
+  
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+}
+
+/**
+ * Handle notebook command
+ */
+async function handleNotebook(argv: string[]) {
+  const options = commandLineArgs(notebookDefinitions, { argv });
+  const operations = (['replace', 'insert', 'delete'] as const).filter(op => options[op] !== undefined);
+  const operation = operations[0];
+  
+  if (!options.path || !operation || operations.length > 1) {
+    console.error(chalk.red('Error: Notebook path and one of --replace, --insert or --delete <index> required'));
+    process.exit(1);
+  }
+
+  let source: string | undefined = options.source;
+  if (source === undefined && operation !== 'delete' && !process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk);
+    }
+    source = Buffer.concat(chunks).toString('utf8');
+  }
+
+  console.log(chalk.blue('📓 Edit notebook:'), `${options.path} (${operation} cell ${options[operation]})`);
+  console.log('═'.repeat(50));
+
+  const startTime = Date.now();
+  const result = await editNotebook({
+    path: options.path,
+    operation,
+    cell_index: options[operation],
+    ...(source !== undefined && { source }),
+    ...(options.type && { cell_type: options.type }),
+    dry_run: options['dry-run'] || false
+  });
+  const duration = Date.now() - startTime;
+
+  if (result.status === 'error') {
+    console.log(chalk.red('❌ Error:'), result.issue_details?.reason);
+  } else {
+    const icon = result.status === 'success' ? '✅' : '⚠️';
+    console.log(`${icon} ${result.dry_run ? 'Dry run' : 'Edited'}: ${result.operation} cell ${result.cell_index}`);
+    console.log(`  Cells: ${result.notebook_info.cell_count_before} → ${result.notebook_info.cell_count_after}`);
+    if (result.cell) {
+      console.log(`  Cell type: ${result.cell.cell_type}${result.cell.id ? ` (id ${result.cell.id})` : ''}`);
+      if (result.cell.outputs_cleared) {
+        console.log(chalk.gray('  (outputs cleared)'));
+      }
+      console.log(chalk.blue('\n📄 Source:'));
+      result.cell.source_preview.forEach(line => {
+        console.log(`  ${line}`);
+      });
+    }
+    if (result.issue_details) {
+      console.log(chalk.yellow('\n  Warning:'), result.issue_details.reason);
+    }
+  }
+  
+  if (result.alternatives?.suggestions) {
+    console.log(chalk.blue('\n💡 Suggestions:'));
+    result.alternatives.suggestions.forEach(suggestion => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
+  
+  console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+}
+
+/**
+ * Handle mkdir command
+ */
+async function handleMkdir(argv: string[]) {
+  const options = commandLineArgs(mkdirDefinitions, { argv });
+  
+  if (!options.path) {
+    console.error(chalk.red('Error: Directory path required'));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue('📁 Create Directory:'), options.path);
+  console.log('═'.repeat(50));
+
+  const params = {
+    path: options.path,
+    recursive: !options['no-recursive'],
+    mode: options.mode
+  };
+
+  const startTime = Date.now();
+  const result = await mkdir(params);
+  const duration = Date.now() - startTime;
+
+  // Display result
+  if (result.status === 'error') {
+    console.log(chalk.red('❌ Failed to create directory'));
+  } else if (result.status === 'warning') {
+    console.log(chalk.yellow('⚠️  Directory created with warnings'));
+  } else {
+    console.log(chalk.green('✅ Directory created successfully'));
+  }
+  
+  console.log(chalk.yellow('\n📊 Operation Info:'));
+  console.log(`  Path: ${result.directory_info.path}`);
+  console.log(`  Resolved: ${result.directory_info.resolved_path}`);
+  console.log(`  Created new: ${result.directory_info.created_new}`);
+  console.log(`  Permissions: ${result.directory_info.final_permissions}`);
+  
+  if (result.directory_info.parent_directories_created.length > 0) {
     console.log(chalk.yellow('\n📁 Parent Directories Created:'));
     result.directory_info.parent_directories_created.forEach(dir => {
       console.log(`  • ${dir}`);
@@ -887,6 +1764,23 @@ function displayWriteResult(result: any, verbose: boolean) {
         console.log(chalk.red(`  ${warning}`));
       });
     }
+    if (result.issue_details?.existing_file_info) {
+      const existing = result.issue_details.existing_file_info;
+      console.log(chalk.red(`  ${result.issue_details.reason}`));
+      console.log(chalk.gray(`  Existing file: ${formatBytes(existing.size_bytes)}, modified ${existing.last_modified}`));
+      result.alternatives?.suggestions.forEach((suggestion: string) => {
+        console.log(`  • ${suggestion}`);
+      });
+    }
+    if (result.syntax_check) {
+      console.log(chalk.red(`  ${result.issue_details.reason}`));
+      displaySyntaxCheck(result.syntax_check);
+    }
+    return;
+  }
+  
+  if (result.status === 'conflict') {
+    displayConflict(result.conflict, result.alternatives?.suggestions);
     return;
   }
   
@@ -895,8 +1789,39 @@ function displayWriteResult(result: any, verbose: boolean) {
   console.log(chalk.yellow('\n📊 File Info:'));
   console.log(`  Path: ${result.file_info.path}`);
   console.log(`  Size: ${formatBytes(result.file_info.size_bytes)}`);
+  if (result.file_info.mode) {
+    console.log(`  Mode: ${result.file_info.mode}`);
+  }
+  if (result.file_info.file_size_bytes !== undefined) {
+    console.log(`  File size: ${formatBytes(result.file_info.file_size_bytes)}`);
+  }
   console.log(`  New file: ${result.file_info.created_new ? 'Yes' : 'No'}`);
   console.log(`  Estimated tokens: ~${result.file_info.estimated_tokens.toLocaleString()}`);
+  if (result.version) {
+    console.log(`  SHA-256: ${result.version.sha256}`);
+  }
+  if (result.syntax_check) {
+    displaySyntaxCheck(result.syntax_check);
+  }
+  
+  // Formatting kept from the existing file
+  if (result.format_info) {
+    const format = result.format_info;
+    console.log(chalk.yellow('\n🎨 Format:'));
+    console.log(`  Encoding: ${format.encoding}${format.encoding_detected ? ' (detected)' : ''}`);
+    if (format.line_ending) {
+      console.log(`  Line endings: ${format.line_ending.toUpperCase()}`);
+    }
+    if (format.bom !== undefined) {
+      console.log(`  BOM: ${format.bom ? 'Yes' : 'No'}`);
+    }
+    if (format.final_newline !== undefined) {
+      console.log(`  Final newline: ${format.final_newline ? 'Yes' : 'No'}`);
+    }
+    format.normalized.forEach((change: string) => {
+      console.log(chalk.gray(`  • ${change}`));
+    });
+  }
   
   // Warnings
   if (result.status === 'warning' && result.issue_details) {
@@ -926,6 +1851,119 @@ function displayWriteResult(result: any, verbose: boolean) {
   }
 }
 
+/**
+ * Display edit_files result
+ */
+function displayEditFilesResult(result: any, verbose: boolean) {
+  const headline = result.applied ? chalk.green('\n✅ All files edited') :
+    result.status === 'conflict' ? chalk.red('\n❌ Conflict - no files were changed') :
+    result.status === 'error' ? chalk.red('\n❌ Edit failed - no files were changed') :
+    chalk.yellow('\n🔍 Preview - no files were changed');
+  console.log(headline);
+  
+  console.log(chalk.yellow('\n📊 Summary:'));
+  console.log(`  Files: ${result.summary.total_files} (${result.summary.files_changed} changed)`);
+  console.log(`  Edits: ${result.summary.total_edits} (${result.summary.failed_edits} failed)`);
+  console.log(`  Lines changed: ${result.summary.lines_changed}`);
+  
+  console.log(chalk.yellow('\n📁 Files:'));
+  for (const file of result.files) {
+    const failed = file.status === 'error' || file.status === 'conflict' ||
+      file.edit_details?.some((edit: any) => ['failed', 'no_match', 'diff_conflict'].includes(edit.status));
+    const icon = failed ? chalk.red('✗') : file.status === 'warning' ? chalk.yellow('⚠') : chalk.green('✓');
+    console.log(`  ${icon} ${file.path}${file.version ? chalk.gray(` (${file.version.sha256.slice(0, 12)})`) : ''}`);
+    if (file.issue_details && (failed || verbose)) {
+      console.log(chalk.gray(`      ${file.issue_details.reason}`));
+    }
+    file.edit_details?.filter((edit: any) => verbose || edit.status !== 'success').forEach((edit: any) => {
+      console.log(chalk.gray(`      Edit ${edit.edit_index + 1} (${edit.type}): ${edit.status} - ${edit.old_text_or_pattern}`));
+    });
+  }
+  
+  if (result.issue_details) {
+    console.log(chalk.red(`\n  ${result.issue_details.reason}`));
+    result.issue_details.rollback_errors?.forEach((error: string) => {
+      console.log(chalk.red(`  Rollback failed: ${error}`));
+    });
+  }
+  
+  if (result.alternatives && result.alternatives.suggestions.length > 0) {
+    console.log(chalk.yellow('\n💡 Suggestions:'));
+    result.alternatives.suggestions.forEach((suggestion: string) => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
+  
+  if (result.diff_output) {
+    console.log(chalk.yellow('\n📝 Diff Output:'));
+    console.log('─'.repeat(50));
+    console.log(result.diff_output);
+    console.log('─'.repeat(50));
+  }
+}
+
+/**
+ * Display benchmark results
+ */
+function displayBenchmarkResults(results: CLI.BenchmarkResult[]) {
+  const gradeColor = (grade: string) => grade === 'A' || grade === 'B' ? chalk.green : grade === 'C' ? chalk.yellow : chalk.red;
+  
+  for (const result of results) {
+    console.log(`\n  ${gradeColor(result.grade)(`[${result.grade}]`)} ${result.operation}`);
+    console.log(`    Duration: ${formatDuration(result.duration)} (median)`);
+    console.log(`    Heap growth: ${formatBytes(result.peakMemory)}`);
+    if (result.breakdown) {
+      console.log(chalk.gray(`    Diff: ${result.breakdown.diff_lines_ms}ms, hunks/format: ${result.breakdown.hunks_and_format_ms}ms, ${result.breakdown.lines_per_second?.toLocaleString()} lines/s`));
+    }
+  }
+}
+
+/**
+ * Display apply_patch result
+ */
+function displayPatchResult(result: any, verbose: boolean) {
+  const headline = result.applied ? chalk.green('\n✅ Patch applied') :
+    result.status === 'error' ? chalk.red('\n❌ Patch does not apply - no files were changed') :
+    chalk.green('\n🔍 Patch applies cleanly');
+  console.log(headline);
+  
+  console.log(chalk.yellow('\n📊 Summary:'));
+  console.log(`  Files: ${result.summary.total_files}`);
+  console.log(`  Hunks: ${result.summary.hunks_applied}/${result.summary.total_hunks} applied${result.summary.hunks_failed > 0 ? chalk.red(` (${result.summary.hunks_failed} failed)`) : ''}`);
+  console.log(`  Lines: ${chalk.green(`+${result.summary.lines_added}`)} ${chalk.red(`-${result.summary.lines_removed}`)}`);
+  
+  console.log(chalk.yellow('\n📁 Files:'));
+  for (const file of result.files) {
+    const icon = file.status === 'error' ? chalk.red('✗') : file.status === 'warning' ? chalk.yellow('⚠') : chalk.green('✓');
+    const name = file.old_path ? `${file.old_path} → ${file.path}` : file.path;
+    const mode = file.mode_change ? chalk.gray(` (mode ${file.mode_change.old_mode ?? '?'} → ${file.mode_change.new_mode})`) : '';
+    console.log(`  ${icon} ${file.operation.padEnd(6)} ${name}${mode}`);
+    if (file.reason) {
+      console.log(chalk.gray(`      ${file.reason}`));
+    }
+    file.hunks.filter((hunk: any) => verbose || hunk.status !== 'applied').forEach((hunk: any) => {
+      const detail = hunk.status === 'failed' ? hunk.reason :
+        [hunk.offset !== undefined && `offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset}`, hunk.fuzz !== undefined && `fuzz ${hunk.fuzz}`, hunk.line !== undefined && `at line ${hunk.line}`]
+          .filter(Boolean).join(', ');
+      console.log(chalk.gray(`      ${hunk.header}: ${hunk.status}${detail ? ` (${detail})` : ''}`));
+    });
+  }
+  
+  if (result.issue_details) {
+    console.log(chalk.red(`\n  ${result.issue_details.reason}`));
+    result.issue_details.rollback_errors?.forEach((error: string) => {
+      console.log(chalk.red(`  Rollback failed: ${error}`));
+    });
+  }
+  
+  if (result.alternatives && result.alternatives.suggestions.length > 0) {
+    console.log(chalk.yellow('\n💡 Suggestions:'));
+    result.alternatives.suggestions.forEach((suggestion: string) => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
+}
+
 /**
  * Display edit result
  */
@@ -935,6 +1973,31 @@ function displayEditResult(result: any, verbose: boolean) {
     if (result.issue_details) {
       console.log(chalk.red(`  ${result.issue_details.reason}`));
     }
+    if (result.syntax_check) {
+      displaySyntaxCheck(result.syntax_check);
+      if (verbose && result.diff_output) {
+        console.log(chalk.yellow('\n📝 Rejected Diff:'));
+        console.log(result.diff_output);
+      }
+    }
+    result.edit_details?.filter((edit: any) => edit.status === 'diff_conflict').forEach((edit: any) => {
+      console.log(chalk.red(`  Edit ${edit.edit_index + 1} (diff): ${edit.merge?.status === 'base_unavailable' ? 'base version unavailable (pass --base-file)' : 'merge conflict'}`));
+      edit.merge?.conflicts?.forEach((conflict: any) => {
+        console.log(chalk.red(`    Conflict at lines ${conflict.start_line}-${conflict.end_line} of merged content`));
+      });
+      if (verbose && edit.merge?.content_with_markers) {
+        console.log('    Content with conflict markers:');
+        console.log(edit.merge.content_with_markers);
+      }
+    });
+    result.alternatives?.suggestions?.forEach((suggestion: string) => {
+      console.log(`  • ${suggestion}`);
+    });
+    return;
+  }
+  
+  if (result.status === 'conflict') {
+    displayConflict(result.conflict, result.alternatives?.suggestions);
     return;
   }
   
@@ -962,6 +2025,12 @@ function displayEditResult(result: any, verbose: boolean) {
   if (result.edit_summary.formatting_applied) {
     console.log(`  Formatting: Applied`);
   }
+  if (result.version) {
+    console.log(`  SHA-256: ${result.version.sha256}`);
+  }
+  if (result.syntax_check) {
+    displaySyntaxCheck(result.syntax_check);
+  }
   
   // Edit details
   if (result.edit_details && result.edit_details.length > 0) {
@@ -983,8 +2052,21 @@ function displayEditResult(result: any, verbose: boolean) {
       if (edit.diff_hunks !== undefined) {
         console.log(`    Diff hunks: ${edit.diff_hunks}`);
       }
+      if (edit.fuzzy_match) {
+        console.log(`    Fuzzy match: ${edit.fuzzy_match === 'whitespace' ? 'whitespace ignored' : 'whitespace and line endings ignored'}`);
+      }
+      if (edit.merge) {
+        console.log(`    Merge: ${edit.merge.status === 'base_unavailable' ? 'base version unavailable (pass --base-file)' : edit.merge.status}`);
+        edit.merge.conflicts?.forEach((conflict: any) => {
+          console.log(chalk.red(`      Conflict at lines ${conflict.start_line}-${conflict.end_line} of merged content`));
+        });
+        if (verbose && edit.merge.content_with_markers) {
+          console.log('    Content with conflict markers:');
+          console.log(edit.merge.content_with_markers);
+        }
+      }
       
-      if (edit.sample_matches && verbose) {
+      if (edit.sample_matches && (verbose || edit.status === 'no_match' || edit.status === 'diff_conflict')) {
         console.log('    Samples:');
         edit.sample_matches.forEach((sample: string) => {
           console.log(`      ${chalk.gray(sample)}`);
@@ -1055,6 +2137,11 @@ function displayMoveResult(result: any, verbose: boolean) {
     return;
   }
   
+  if (result.status === 'conflict') {
+    displayConflict(result.conflict, result.alternatives?.suggestions);
+    return;
+  }
+  
   if (result.status === 'warning') {
     console.log(chalk.yellow('⚠️  Warning: ' + result.issue_details.reason));
     if (result.issue_details.existing_file_info) {
@@ -1080,6 +2167,144 @@ function displayMoveResult(result: any, verbose: boolean) {
   console.log(`  Size: ${formatBytes(result.operation_info.size_bytes)}`);
 }
 
+/**
+ * Display precondition conflict
+ */
+function displayConflict(conflict: WriteConflict, suggestions?: string[]) {
+  console.log(chalk.red('❌ Conflict: ' + conflict.reason));
+  if (conflict.expected_sha256) {
+    console.log(`  Expected SHA-256: ${conflict.expected_sha256}`);
+  }
+  if (conflict.current_sha256) {
+    console.log(`  Current SHA-256:  ${conflict.current_sha256}`);
+  }
+  if (conflict.expected_mtime) {
+    console.log(`  Expected mtime: ${conflict.expected_mtime}`);
+  }
+  if (conflict.current_mtime) {
+    console.log(`  Current mtime:  ${conflict.current_mtime}`);
+  }
+  if (conflict.diff) {
+    console.log(chalk.yellow('\n📋 Diff against current content:'));
+    console.log(conflict.diff);
+  }
+  if (suggestions && suggestions.length > 0) {
+    console.log(chalk.yellow('\n💡 Suggestions:'));
+    suggestions.forEach(suggestion => {
+      console.log(`  • ${suggestion}`);
+    });
+  }
+}
+
+/**
+ * Display validate_syntax result (with the lines around the error)
+ */
+function displaySyntaxCheck(check: SyntaxCheckResult) {
+  const color = check.status === 'invalid' ? chalk.red : check.status === 'valid' ? chalk.green : chalk.yellow;
+  console.log(`  Syntax (${check.language}): ${color(check.status)}${check.reason ? chalk.gray(` - ${check.reason}`) : ''}`);
+  if (check.error) {
+    console.log(`    ${check.error.message} (line ${check.error.line}, column ${check.error.column})`);
+    check.error.context.forEach(line => {
+      console.log(chalk.gray(`    ${line}`));
+    });
+  }
+}
+
+/**
+ * Display read range info
+ */
+function displayReadRange(range: ReadFileRange) {
+  console.log('─'.repeat(50));
+  if (range.type === 'lines') {
+    console.log(chalk.gray(`Lines ${range.start_line}-${range.end_line} of ${range.total_lines}`));
+  } else {
+    console.log(chalk.gray(`Bytes ${range.offset}-${(range.offset ?? 0) + (range.length ?? 0)} of ${formatBytes(range.total_bytes ?? 0)}`));
+  }
+  if (range.truncated) {
+    console.log(chalk.yellow('⚠️  Range truncated to the maximum slice size'));
+  }
+}
+
+/**
+ * Display chunk info for paginated reads
+ */
+function displayReadChunk(chunk: ReadFileChunk) {
+  console.log('─'.repeat(50));
+  console.log(chalk.gray(`Bytes ${chunk.start_offset}-${chunk.end_offset} of ${formatBytes(chunk.total_bytes)} (~${chunk.estimated_tokens.toLocaleString()} tokens)`));
+  if (chunk.next_cursor) {
+    console.log(chalk.blue('Next cursor:'), chunk.next_cursor);
+  } else {
+    console.log(chalk.green('✓ End of file'));
+  }
+}
+
+/**
+ * Display elision info for token-budgeted reads
+ */
+function displayReadTruncation(truncation: ReadFileTruncation) {
+  console.log('─'.repeat(50));
+  console.log(chalk.gray(`Showing ${truncation.shown_lines} of ${truncation.total_lines} lines (~${truncation.estimated_tokens.toLocaleString()} of ~${truncation.original_tokens.toLocaleString()} tokens)`));
+  truncation.omitted_ranges.forEach(range => {
+    console.log(chalk.yellow(`  Omitted lines ${range.start_line}-${range.end_line}`));
+  });
+  if (truncation.boundary_aware) {
+    console.log(chalk.gray('  Cut at function boundaries'));
+  }
+}
+
+/**
+ * Display offsets for tail reads
+ */
+function displayReadTail(tail: ReadFileTail) {
+  console.log('─'.repeat(50));
+  console.log(chalk.gray(`${tail.lines_returned} lines, bytes ${tail.start_offset}-${tail.end_offset} of ${tail.total_bytes}`));
+  if (tail.reset) {
+    console.log(chalk.yellow('File shrank since the last read - reading from the start'));
+  }
+  if (tail.truncated) {
+    console.log(chalk.yellow('Output truncated at the 1MB range limit'));
+  }
+  console.log(chalk.gray(`Follow with: --since-offset ${tail.end_offset}`));
+}
+
+/**
+ * Display table rows and column statistics
+ */
+function displayReadTable(table: ReadFileTable) {
+  console.log('─'.repeat(50));
+  console.log(chalk.cyan(table.columns.join(' | ')));
+  const oneLine = (value: string | number | undefined) => String(value).replace(/\r?\n/g, ' ');
+  table.rows.forEach(row => {
+    console.log(row.map(oneLine).join(' | '));
+  });
+  console.log('─'.repeat(50));
+  table.stats.forEach(stats => {
+    const range = stats.min !== undefined ? `  ${oneLine(stats.min)} → ${oneLine(stats.max)}` : '';
+    const distinct = `${stats.distinct_count}${stats.distinct_capped ? '+' : ''}`;
+    console.log(`  ${chalk.cyan(stats.name)} ${chalk.gray(stats.type)}  nulls: ${stats.null_count}  distinct: ${distinct}${range}`);
+  });
+  if (!table.stats_complete) {
+    console.log(chalk.yellow(`Scan stopped at the time limit after ${table.rows_scanned.toLocaleString()} rows - total is estimated`));
+  }
+}
+
+/**
+ * Display sizes for transparently decompressed reads
+ */
+function displayReadCompression(compression: ReadFileCompression) {
+  console.log(chalk.gray(`Decompressed ${compression.format}: ${formatBytes(compression.compressed_bytes)} → ${formatBytes(compression.decompressed_bytes)}`));
+}
+
+/**
+ * Display notebook summary
+ */
+function displayReadNotebook(notebook: ReadFileNotebook) {
+  console.log(chalk.gray(`Notebook (nbformat ${notebook.nbformat}${notebook.language ? `, ${notebook.language}` : ''}): ${notebook.code_cells} code, ${notebook.markdown_cells} markdown, ${notebook.raw_cells} raw cells`));
+  if (notebook.elided_outputs > 0 || notebook.truncated_outputs > 0) {
+    console.log(chalk.gray(`  Outputs: ${notebook.outputs} (${notebook.elided_outputs} elided, ${notebook.truncated_outputs} truncated)`));
+  }
+}
+
 /**
  * Display read error
  */
@@ -1091,6 +2316,12 @@ function displayReadError(result: any, verbose: boolean) {
   console.log(`  Size: ${formatBytes(result.file_info.size_bytes)}`);
   console.log(`  Type: ${result.file_info.type}`);
   console.log(`  Estimated tokens: ~${result.file_info.estimated_tokens?.toLocaleString() || 'unknown'}`);
+  if (result.preview.file_type) {
+    console.log(`  Detected: ${result.preview.file_type.description} (${result.preview.file_type.mime})`);
+  }
+  if (result.compression) {
+    console.log(`  Compression: ${result.compression.format} (${formatBytes(result.compression.compressed_bytes)} on disk)`);
+  }
   
   // Issue details
   console.log(chalk.yellow('\n❗ Issue:'));
@@ -1110,6 +2341,16 @@ function displayReadError(result: any, verbose: boolean) {
     console.log('─'.repeat(50));
   }
   
+  // Hex dump
+  if (result.preview.hex_dump) {
+    console.log(chalk.yellow('\n🔢 Hex dump:'));
+    result.preview.hex_dump.head.forEach((line: string) => console.log(`  ${line}`));
+    if (result.preview.hex_dump.tail) {
+      console.log(chalk.gray('  ...'));
+      result.preview.hex_dump.tail.forEach((line: string) => console.log(`  ${line}`));
+    }
+  }
+  
   // Alternatives
   if (result.alternatives.suggestions.length > 0) {
     console.log(chalk.yellow('\n💡 Suggestions:'));
@@ -1136,7 +2377,8 @@ async function handleDelete(argv: string[]) {
 
   const params = {
     path: options.path,
-    force: options.force
+    force: options.force,
+    ...(options['expected-sha256'] && { expected_sha256: options['expected-sha256'] })
   };
 
   const startTime = Date.now();
@@ -1144,6 +2386,12 @@ async function handleDelete(argv: string[]) {
   const duration = Date.now() - startTime;
 
   // Display result
+  if (result.status === 'conflict') {
+    displayConflict(result.conflict!, result.alternatives?.suggestions);
+    console.log(chalk.gray(`\nCompleted in ${formatDuration(duration)}`));
+    return;
+  }
+  
   if (result.status === 'error') {
     console.log(chalk.red('❌ Failed to delete file'));
     if (result.alternatives?.suggestions) {
@@ -1382,12 +2630,21 @@ function showHelp() {
       content: [
         { name: 'list <dir>', summary: 'List directory contents' },
         { name: 'read <file>', summary: 'Read file contents' },
+        { name: 'bytes <file>', summary: 'Show a byte range as hex dump, hex or base64' },
+        { name: 'archive <file> [entry]', summary: 'List a zip/tar archive or read one entry' },
         { name: 'search [dir]', summary: 'Search files by name or content' },
         { name: 'write <file>', summary: 'Write content to a file' },
         { name: 'edit <file>', summary: 'Edit file using literal or regex replacements' },
+        { name: 'edit-files <plan.json>', summary: 'Edit several files as one all-or-nothing transaction' },
+        { name: 'patch <file.diff>', summary: 'Apply a multi-file git-style patch' },
+        { name: 'benchmark [diff]', summary: 'Benchmark diff generation on a generated or given file' },
         { name: 'move <source> <dest>', summary: 'Move or rename a file' },
         { name: 'list-allowed', summary: 'List allowed directories for security' },
         { name: 'file-info <file>', summary: 'Get detailed file/directory information' },
+        { name: 'outline <file>', summary: 'Show code structure with line ranges' },
+        { name: 'query <file> [path]', summary: 'Query part of a JSON/JSONC/YAML file' },
+        { name: 'convert <file>', summary: 'Convert file encoding (e.g. Shift_JIS → UTF-8)' },
+        { name: 'notebook <file>', summary: 'Replace, insert or delete a Jupyter notebook cell' },
         { name: 'mkdir <dir>', summary: 'Create a directory with parent dirs' },
         { name: 'delete <file>', summary: 'Delete a file with safety checks' },
         { name: 'rmdir <dir>', summary: 'Delete a directory (with dry-run preview)' },
@@ -1402,16 +2659,36 @@ function showHelp() {
         '$ smart-fs-test list ./src --hidden',
         '$ smart-fs-test list ./src --sort size --order desc',
         '$ smart-fs-test read package.json',
+        '$ smart-fs-test read large.log --start-line 4000 --end-line 4200',
+        '$ smart-fs-test read large.log --chunk-tokens 5000',
+        '$ smart-fs-test read src/big-module.ts --max-tokens 4000',
+        '$ smart-fs-test read build.log --tail 100',
+        '$ smart-fs-test read export.csv --table 10',
+        '$ smart-fs-test bytes firmware.bin --offset -256',
+        '$ smart-fs-test archive release.tar.gz',
+        '$ smart-fs-test archive vendor.zip lib/README.md',
         '$ smart-fs-test search -f ".*\\.ts$" ./src',
         '$ smart-fs-test search -c "TODO|FIXME" --extensions .js .ts',
         '$ smart-fs-test write test.txt -c "Hello World"',
         '$ echo "Hello World" | smart-fs-test write test.txt',
+        '$ echo "[done] build" | smart-fs-test write build.log --mode append',
+        '$ smart-fs-test write main.py -c "import sys" --mode insert_at_line --line 3',
+        '$ cat settings.yaml | smart-fs-test write config/settings.yaml --validate-syntax',
         '$ smart-fs-test edit config.js -l "console.log,logger.info" --dry-run',
         '$ smart-fs-test edit test.js -r "TODO.*$,DONE" -r "console\\.log\\(,logger.debug("',
+        '$ smart-fs-test edit main.py -L "12-14,return result" --insert-after "import os,import sys"',
+        '$ smart-fs-test edit config.json -l "8080,9090" --validate-syntax',
+        '$ smart-fs-test edit-files rename-plan.json --dry-run',
+        '$ git diff | smart-fs-test patch - --check',
+        '$ smart-fs-test benchmark diff --lines 50000 --context 5',
         '$ smart-fs-test move old-name.js new-name.js',
         '$ smart-fs-test move important.js backup/important.js.bak -o',
         '$ smart-fs-test list-allowed',
         '$ smart-fs-test file-info src/index.js --verbose',
+        '$ smart-fs-test outline src/index.ts',
+        '$ smart-fs-test query package.json dependencies.express',
+        '$ smart-fs-test convert legacy.c --to utf8 --dry-run',
+        '$ smart-fs-test notebook analysis.ipynb --replace 3 -s "df.describe()"',
         '$ smart-fs-test mkdir new/deep/directory',
         '$ smart-fs-test delete temp/cache.txt',
         '$ smart-fs-test delete readonly.txt --force',
@@ -0,0 +1,428 @@
+/**
+ * Smart Filesystem MCP - Data Query
+ * JSON/JSONC/YAMLの解析とパスクエリ（dependencies.express, items[3].name 等）の評価
+ */
+
+import * as path from 'path';
+import jsonc from 'jsonc-parser';
+import { parseAllDocuments } from 'yaml';
+
+/**
+ * クエリ対応データ形式
+ */
+export type DataFormat = 'json' | 'jsonc' | 'yaml';
+
+/**
+ * パスクエリのセグメント
+ */
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+/**
+ * パス評価でマッチした値
+ */
+export interface PathMatch {
+  path: string;
+  value: unknown;
+}
+
+/**
+ * パスが解決できなかった位置
+ */
+export interface PathMiss {
+  resolved_path: string;
+  segment: string;
+  node: unknown;
+}
+
+/**
+ * 配列の切り詰め情報
+ */
+export interface ArrayTruncation {
+  path: string;
+  total_items: number;
+  shown_items: number;
+}
+
+/**
+ * 切り詰め結果
+ */
+export interface ShapedValue {
+  value: unknown;
+  truncated_arrays: ArrayTruncation[];
+  collapsed_nodes: number;
+}
+
+/**
+ * 拡張子とデータ形式の対応
+ */
+const FORMAT_BY_EXTENSION: Record<string, DataFormat> = {
+  '.json': 'json',
+  '.geojson': 'json',
+  '.ipynb': 'json',
+  '.jsonc': 'jsonc',
+  '.yaml': 'yaml',
+  '.yml': 'yaml'
+};
+
+/**
+ * ドット記法でそのまま書けるキー
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$-]*$/;
+
+/**
+ * 拡張子からデータ形式を判定
+ */
+export function detectDataFormat(filePath: string): DataFormat | undefined {
+  return FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * データ内容を解析
+ * JSONはコメント・末尾カンマ付き（tsconfig.json 等）でもJSONCとして読み直す
+ * YAMLの複数ドキュメントは配列として返す
+ */
+export function parseDataContent(content: string, format: DataFormat): unknown {
+  if (format === 'yaml') {
+    return parseYaml(content);
+  }
+
+  if (format === 'json') {
+    try {
+      return JSON.parse(content);
+    } catch {
+      // JSONCとして再解析
+    }
+  }
+
+  return parseJsonc(content);
+}
+
+/**
+ * JSONCを解析
+ */
+function parseJsonc(content: string): unknown {
+  const errors: jsonc.ParseError[] = [];
+  const value = jsonc.parse(content, errors, { allowTrailingComma: true, disallowComments: false });
+
+  const firstError = errors[0];
+  if (firstError) {
+    const line = content.slice(0, firstError.offset).split('\n').length;
+    throw new Error(`Invalid JSON at line ${line}: ${jsonc.printParseErrorCode(firstError.error)}`);
+  }
+
+  return value;
+}
+
+/**
+ * YAMLを解析
+ */
+function parseYaml(content: string): unknown {
+  const documents = parseAllDocuments(content);
+  const docs = Array.isArray(documents) ? documents : [documents];
+
+  for (const doc of docs) {
+    const error = doc.errors[0];
+    if (error) {
+      const line = error.linePos?.[0]?.line;
+      throw new Error(`Invalid YAML${line ? ` at line ${line}` : ''}: ${error.message.split('\n')[0]!.replace(/:$/, '')}`);
+    }
+  }
+
+  if (docs.length === 0) {
+    return null;
+  }
+  if (docs.length === 1) {
+    return docs[0]!.toJS();
+  }
+  return docs.map(doc => doc.toJS());
+}
+
+/**
+ * パスクエリを解析
+ * 対応: $ / key / .key / [3] / [-1] / ["key.with.dots"] / * / [*]
+ */
+export function parseQueryPath(query: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let text = query.trim();
+
+  if (text.startsWith('$')) {
+    text = text.slice(1);
+  }
+
+  let pos = 0;
+  while (pos < text.length) {
+    const char = text[pos];
+
+    if (char === '.') {
+      pos++;
+      if (pos >= text.length || text[pos] === '.' || text[pos] === '[') {
+        throw new Error(`Invalid query path: expected a key after "." at position ${pos}`);
+      }
+      continue;
+    }
+
+    if (char === '[') {
+      const { segment, end } = parseBracket(text, pos);
+      segments.push(segment);
+      pos = end;
+      continue;
+    }
+
+    // ドット記法のキー
+    let end = pos;
+    while (end < text.length && text[end] !== '.' && text[end] !== '[') {
+      end++;
+    }
+    const key = text.slice(pos, end);
+    segments.push(key === '*' ? { type: 'wildcard' } : { type: 'key', key });
+    pos = end;
+  }
+
+  return segments;
+}
+
+/**
+ * ブラケット記法を解析
+ */
+function parseBracket(text: string, start: number): { segment: PathSegment; end: number } {
+  const quote = text[start + 1];
+
+  if (quote === '"' || quote === "'") {
+    let key = '';
+    let pos = start + 2;
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\\' && pos + 1 < text.length) {
+        pos++;
+      }
+      key += text[pos];
+      pos++;
+    }
+    if (text[pos] !== quote || text[pos + 1] !== ']') {
+      throw new Error(`Invalid query path: unterminated bracket at position ${start}`);
+    }
+    return { segment: { type: 'key', key }, end: pos + 2 };
+  }
+
+  const close = text.indexOf(']', start);
+  if (close === -1) {
+    throw new Error(`Invalid query path: unterminated bracket at position ${start}`);
+  }
+
+  const inner = text.slice(start + 1, close).trim();
+  if (inner === '*') {
+    return { segment: { type: 'wildcard' }, end: close + 1 };
+  }
+  if (!/^-?\d+$/.test(inner)) {
+    throw new Error(`Invalid query path: "[${inner}]" is not an index (quote keys as ["${inner}"])`);
+  }
+  return { segment: { type: 'index', index: parseInt(inner, 10) }, end: close + 1 };
+}
+
+/**
+ * パスを評価
+ * ワイルドカードを含む場合は複数マッチを返す
+ */
+export function evaluatePath(
+  root: unknown,
+  segments: PathSegment[]
+): { matches: PathMatch[]; miss?: PathMiss } {
+  let current: PathMatch[] = [{ path: '$', value: root }];
+  let miss: PathMiss | undefined;
+
+  for (const segment of segments) {
+    const next: PathMatch[] = [];
+
+    for (const match of current) {
+      const children = selectChildren(match, segment);
+      if (children.length === 0 && !miss) {
+        miss = {
+          resolved_path: match.path,
+          segment: formatSegment(segment),
+          node: match.value
+        };
+      }
+      next.push(...children);
+    }
+
+    current = next;
+    if (current.length === 0) {
+      break;
+    }
+  }
+
+  return current.length > 0 ? { matches: current } : { matches: [], miss };
+}
+
+/**
+ * セグメントに対応する子要素を取得
+ */
+function selectChildren(match: PathMatch, segment: PathSegment): PathMatch[] {
+  const { value } = match;
+
+  if (segment.type === 'wildcard') {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => ({ path: `${match.path}[${index}]`, value: item }));
+    }
+    if (isPlainObject(value)) {
+      return Object.entries(value).map(([key, item]) => ({ path: appendKey(match.path, key), value: item }));
+    }
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    // items.3 のようなドット記法の添字も受け付ける
+    const index = segment.type === 'index'
+      ? segment.index
+      : /^-?\d+$/.test(segment.key) ? parseInt(segment.key, 10) : NaN;
+    if (Number.isNaN(index)) {
+      return [];
+    }
+    const resolved = index < 0 ? value.length + index : index;
+    if (resolved < 0 || resolved >= value.length) {
+      return [];
+    }
+    return [{ path: `${match.path}[${resolved}]`, value: value[resolved] }];
+  }
+
+  if (isPlainObject(value)) {
+    const key = segment.type === 'key' ? segment.key : String(segment.index);
+    if (!Object.prototype.hasOwnProperty.call(value, key)) {
+      return [];
+    }
+    return [{ path: appendKey(match.path, key), value: value[key] }];
+  }
+
+  return [];
+}
+
+/**
+ * 件数・深さを制限した値を生成
+ * maxDepthを超えるオブジェクト・配列は "[Object: 12 keys]" のような要約に置き換える
+ */
+export function shapeValue(
+  value: unknown,
+  basePath: string,
+  maxItems: number,
+  maxDepth: number = Infinity
+): ShapedValue {
+  const truncatedArrays: ArrayTruncation[] = [];
+  let collapsedNodes = 0;
+
+  const visit = (node: unknown, nodePath: string, depth: number): unknown => {
+    if (Array.isArray(node)) {
+      if (depth >= maxDepth) {
+        collapsedNodes++;
+        return summarizeNode(node);
+      }
+      const shown = node.slice(0, maxItems).map((item, index) => visit(item, `${nodePath}[${index}]`, depth + 1));
+      if (node.length > maxItems) {
+        truncatedArrays.push({ path: nodePath, total_items: node.length, shown_items: maxItems });
+        shown.push(`... [${node.length - maxItems} more items]`);
+      }
+      return shown;
+    }
+
+    if (isPlainObject(node)) {
+      if (depth >= maxDepth) {
+        collapsedNodes++;
+        return summarizeNode(node);
+      }
+      const shaped: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(node)) {
+        shaped[key] = visit(item, appendKey(nodePath, key), depth + 1);
+      }
+      return shaped;
+    }
+
+    return node;
+  };
+
+  return {
+    value: visit(value, basePath, 0),
+    truncated_arrays: truncatedArrays,
+    collapsed_nodes: collapsedNodes
+  };
+}
+
+/**
+ * オブジェクト・配列の最大ネスト深さを取得
+ */
+export function measureDepth(value: unknown): number {
+  if (Array.isArray(value)) {
+    return 1 + value.reduce<number>((max, item) => Math.max(max, measureDepth(item)), 0);
+  }
+  if (isPlainObject(value)) {
+    return 1 + Object.values(value).reduce<number>((max, item) => Math.max(max, measureDepth(item)), 0);
+  }
+  return 0;
+}
+
+/**
+ * 値の型名を取得
+ */
+export function describeValueType(value: unknown): 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null' {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean') {
+    return type;
+  }
+  return 'object';
+}
+
+/**
+ * 子要素のキー一覧を取得（配列は添字範囲）
+ */
+export function listChildKeys(value: unknown, limit: number): string[] {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? [`[0]..[${value.length - 1}]`] : [];
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).slice(0, limit);
+  }
+  return [];
+}
+
+/**
+ * ネストしたノードの要約
+ */
+function summarizeNode(node: unknown[] | Record<string, unknown>): string {
+  return Array.isArray(node)
+    ? `[Array: ${node.length} items]`
+    : `[Object: ${Object.keys(node).length} keys]`;
+}
+
+/**
+ * パスにキーを追加
+ */
+function appendKey(basePath: string, key: string): string {
+  return IDENTIFIER_PATTERN.test(key) ? `${basePath}.${key}` : `${basePath}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * セグメントを文字列化
+ */
+function formatSegment(segment: PathSegment): string {
+  switch (segment.type) {
+    case 'key':
+      return IDENTIFIER_PATTERN.test(segment.key) ? segment.key : `[${JSON.stringify(segment.key)}]`;
+    case 'index':
+      return `[${segment.index}]`;
+    case 'wildcard':
+      return '*';
+  }
+}
+
+/**
+ * プレーンオブジェクト判定
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import iconv from 'iconv-lite';
+import { FileAnalyzer } from './file-analyzer.js';
+
+describe('FileAnalyzer.detectEncoding', () => {
+  const analyzer = new FileAnalyzer();
+  const detect = (text: string, encoding: string) => analyzer.detectEncoding(iconv.encode(text, encoding));
+
+  test('detects short Japanese sources that chardet ranks below single-byte encodings', async () => {
+    expect(await detect('// コメント\nconst x = 1;\n', 'shift_jis')).toBe('shift_jis');
+    expect(await detect('// コメント\nconst x = 1;\n', 'euc-jp')).toBe('euc-jp');
+    expect(await detect('// 値\nx=1\n', 'euc-jp')).toBe('euc-jp');
+  });
+
+  test('maps chardet results beyond Japanese to supported encodings', async () => {
+    const chinese = '// 这是一个用于计算订单总价的函数，它会根据用户的会员等级和优惠券计算最终价格。\n// 如果库存不足，系统将返回错误信息并通知管理员处理。\n';
+    const korean = '// 이 함수는 주문의 총 가격을 계산합니다. 회원 등급과 쿠폰에 따라 최종 가격이 결정됩니다.\n// 재고가 부족하면 오류 메시지를 반환합니다.\n';
+
+    expect(await detect(chinese, 'gbk')).toBe('gb18030');
+    expect(await detect(chinese, 'big5')).toBe('big5');
+    expect(await detect(korean, 'euc-kr')).toBe('euc-kr');
+    expect(await detect('Привет, как дела? Это тест.\n', 'koi8-r')).toBe('koi8-r');
+  });
+
+  test('does not read accented Latin text as CJK', async () => {
+    expect(await detect('Größe = 5\n', 'latin1')).toBe('windows-1252');
+    expect(await detect('café naïve – “quoted” text\n', 'windows-1252')).toBe('windows-1252');
+  });
+
+  test('only returns encodings that re-encode to the same bytes', async () => {
+    const samples: Array<[string, string]> = [
+      ['// コメント\nconst x = 1;\n', 'shift_jis'],
+      ['// 这是一个注释\nint x = 1;\n', 'gbk'],
+      ['// 이것은 주석입니다\nint x = 1;\n', 'euc-kr']
+    ];
+    for (const [text, source] of samples) {
+      const buffer = iconv.encode(text, source);
+      const detected = await analyzer.detectEncoding(buffer);
+      expect(iconv.encode(iconv.decode(buffer, detected), detected)).toEqual(buffer);
+    }
+  });
+
+  test('ignores a character cut off at the end of a sample', async () => {
+    const buffer = iconv.encode('// 設定ファイルを読み込む\nconst x = 1; // 値', 'shift_jis');
+
+    expect(await analyzer.detectEncoding(buffer.subarray(0, buffer.length - 1))).toBe('shift_jis');
+  });
+});
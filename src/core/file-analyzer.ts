@@ -5,17 +5,73 @@
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { detect } from 'chardet';
+import { analyse } from 'chardet';
 import { FILE_CLASSIFICATION, TOKEN_ESTIMATION, BOM_PATTERNS } from '../utils/constants.js';
 import { 
   getFileTypeFromExtension,
   detectBOM,
   isBinaryContent,
+  identifyFileType,
   estimateTokenCount,
   formatBytes
 } from '../utils/helpers.js';
+import { decodeBuffer, isSupportedEncoding, isValidUtf8, roundTrips } from '../utils/encoding.js';
 import type { FileAnalysis, FileInfo, FileType, FileEncoding } from './types.js';
 
+/**
+ * chardet encoding names that iconv-lite can decode (ISO-2022-* is not supported)
+ */
+const CHARDET_ENCODINGS: Record<string, FileEncoding> = {
+  'UTF-8': 'utf8',
+  'UTF-16LE': 'utf16le',
+  'UTF-16BE': 'utf16be',
+  'UTF-32LE': 'utf32le',
+  'UTF-32BE': 'utf32be',
+  'ASCII': 'ascii',
+  'Shift_JIS': 'shift_jis',
+  'EUC-JP': 'euc-jp',
+  'GB18030': 'gb18030',
+  'Big5': 'big5',
+  'EUC-KR': 'euc-kr',
+  'ISO-8859-1': 'latin1',
+  'ISO-8859-2': 'iso-8859-2',
+  'ISO-8859-5': 'iso-8859-5',
+  'ISO-8859-6': 'iso-8859-6',
+  'ISO-8859-7': 'iso-8859-7',
+  'ISO-8859-8': 'iso-8859-8',
+  'ISO-8859-9': 'iso-8859-9',
+  'windows-1250': 'windows-1250',
+  'windows-1251': 'windows-1251',
+  'windows-1252': 'windows-1252',
+  'windows-1253': 'windows-1253',
+  'windows-1254': 'windows-1254',
+  'windows-1255': 'windows-1255',
+  'windows-1256': 'windows-1256',
+  'KOI8-R': 'koi8-r'
+};
+
+/**
+ * Multibyte encodings in order of preference when chardet cannot tell them apart
+ */
+const PREFERRED_MULTIBYTE_ENCODINGS: readonly FileEncoding[] = ['shift_jis', 'euc-jp', 'gb18030', 'big5', 'euc-kr'];
+
+const WESTERN_FALLBACKS = [
+  { name: 'windows-1252', confidence: 0 },
+  { name: 'ISO-8859-1', confidence: 0 }
+];
+
+/**
+ * Count characters that rarely appear in real text: replacement characters, C1 controls,
+ * private use characters and half-width katakana (typical when EUC-JP is read as Shift_JIS).
+ * For multibyte encodings a single non-ASCII character inside a Latin word is also counted,
+ * which is how accented Latin text looks when read as CJK ("Größe" as GB18030)
+ */
+function countSuspiciousChars(text: string, multibyte: boolean): number {
+  const rare = text.match(/[\u0080-\u009F\uE000-\uF8FF\uFF61-\uFF9F\uFFFD]/g)?.length ?? 0;
+  const insideWord = multibyte ? text.match(/(?<=[A-Za-z])[^\x00-\x7F](?=[A-Za-z])/g)?.length ?? 0 : 0;
+  return rare + insideWord;
+}
+
 /**
  * File Analyzer class - provides detailed file analysis
  */
@@ -49,8 +105,9 @@ export class FileAnalyzer {
       // Detect encoding
       const encoding = await this.detectEncoding(buffer, filePath);
       
-      // Check if binary
+      // Check if binary and identify the format from magic bytes
       const isBinary = isBinaryContent(buffer);
+      const detectedType = identifyFileType(buffer);
       
       // Estimate tokens if text file
       let estimatedTokens: number | undefined;
@@ -58,9 +115,14 @@ export class FileAnalyzer {
       let detectedLanguage: string | undefined;
       
       if (!isBinary && fileType.readable) {
-        const textContent = buffer.toString(encoding as BufferEncoding || 'utf8');
+        const textContent = decodeBuffer(buffer, isSupportedEncoding(encoding) ? encoding : 'utf8');
         estimatedTokens = estimateTokenCount(textContent, fileType);
         
+        // Only the first bytes were read - scale the estimate to the full file size
+        if (buffer.length > 0 && buffer.length < stats.size) {
+          estimatedTokens = Math.ceil(estimatedTokens * (stats.size / buffer.length));
+        }
+        
         // Get preview lines
         const lines = textContent.split('\n');
         preview = {
@@ -78,7 +140,8 @@ export class FileAnalyzer {
       const analysis: FileAnalysis = {
         ...fileInfo,
         fileType,
-        mimeType: this.getMimeType(fileType, filePath),
+        mimeType: detectedType?.mime ?? this.getMimeType(fileType, filePath),
+        ...(detectedType && { detectedType }),
         extension: path.extname(filePath).toLowerCase(),
         encoding,
         isBinary,
@@ -173,28 +236,39 @@ export class FileAnalyzer {
     const bomEncoding = detectBOM(buffer);
     if (bomEncoding) return bomEncoding;
     
-    // Use chardet library for detection
+    // Valid UTF-8 (including plain ASCII) needs no statistical detection
+    if (isValidUtf8(buffer, true)) return 'utf8';
+    
+    // Use chardet's candidates, keeping only encodings that decode and re-encode to the
+    // exact same bytes - a lossy guess would corrupt untouched bytes on the next edit
     try {
-      const detected = detect(buffer);
-      if (detected) {
-        // Map common chardet results to our encoding types
-        const encodingMap: Record<string, FileEncoding> = {
-          'UTF-8': 'utf8',
-          'UTF-16 LE': 'utf16le',
-          'UTF-16 BE': 'utf16be',
-          'UTF-32 LE': 'utf32le',
-          'UTF-32 BE': 'utf32be',
-          'ascii': 'ascii',
-          'ISO-8859-1': 'latin1',
-          'Shift_JIS': 'shift_jis',
-          'EUC-JP': 'euc-jp',
-          'GB2312': 'gb2312',
-          'GB18030': 'gb2312'
-        };
-        
-        const mapped = encodingMap[detected];
-        if (mapped) return mapped;
-      }
+      // chardet often lists only CJK candidates for short accented Latin text, so the
+      // Western single-byte encodings are always considered with the lowest confidence
+      const candidates = [...analyse(buffer), ...WESTERN_FALLBACKS]
+        .map(match => ({ encoding: CHARDET_ENCODINGS[match.name], confidence: match.confidence }))
+        .filter((candidate): candidate is { encoding: FileEncoding; confidence: number } =>
+          candidate.encoding !== undefined && roundTrips(buffer, candidate.encoding, true)
+        )
+        .map(candidate => {
+          const preference = PREFERRED_MULTIBYTE_ENCODINGS.indexOf(candidate.encoding);
+          return {
+            ...candidate,
+            preference: preference >= 0 ? preference : PREFERRED_MULTIBYTE_ENCODINGS.length,
+            suspicious: countSuspiciousChars(decodeBuffer(buffer, candidate.encoding), preference >= 0)
+          };
+        });
+
+      // Short CJK samples score low and are easily outranked by single-byte encodings that
+      // happen to round-trip, so after the fewest implausible characters multibyte candidates
+      // win; among them chardet's confidence decides, then Shift_JIS, EUC-JP, GB18030 in order
+      const multibyteRank = (preference: number) => preference < PREFERRED_MULTIBYTE_ENCODINGS.length ? 0 : 1;
+      candidates.sort((a, b) =>
+        a.suspicious - b.suspicious ||
+        multibyteRank(a.preference) - multibyteRank(b.preference) ||
+        b.confidence - a.confidence ||
+        a.preference - b.preference
+      );
+      if (candidates[0]) return candidates[0].encoding;
     } catch {
       // Chardet failed, continue with defaults
     }
@@ -212,6 +286,14 @@ export class FileAnalyzer {
     return 'utf8';
   }
 
+  /**
+   * Detect the encoding of a file from its first bytes
+   */
+  async detectFileEncoding(filePath: string): Promise<FileEncoding> {
+    const buffer = await this.readFileStart(filePath, 8192);
+    return this.detectEncoding(buffer, filePath);
+  }
+
   /**
    * Estimate token count for file
    */
@@ -222,12 +304,14 @@ export class FileAnalyzer {
   /**
    * Detect programming language from content
    */
-  private detectProgrammingLanguage(filePath: string, content: string): string | undefined {
+  detectProgrammingLanguage(filePath: string, content: string): string | undefined {
     const ext = path.extname(filePath).toLowerCase();
     
     // Extension mapping
     const extensionLanguageMap: Record<string, string> = {
       '.js': 'JavaScript',
+      '.mjs': 'JavaScript',
+      '.cjs': 'JavaScript',
       '.jsx': 'JavaScript React',
       '.ts': 'TypeScript',
       '.tsx': 'TypeScript React',
@@ -248,7 +332,9 @@ export class FileAnalyzer {
       '.dart': 'Dart',
       '.sh': 'Shell',
       '.bash': 'Bash',
-      '.ps1': 'PowerShell'
+      '.ps1': 'PowerShell',
+      '.md': 'Markdown',
+      '.markdown': 'Markdown'
     };
     
     // First try extension
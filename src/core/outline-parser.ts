@@ -0,0 +1,719 @@
+/**
+ * Smart Filesystem MCP - Outline Parser
+ * 軽量パーサーによるコード構造（クラス・関数・見出し等）の抽出
+ */
+
+/**
+ * アウトラインシンボルの種類
+ */
+export type OutlineSymbolKind =
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'function'
+  | 'method'
+  | 'constructor'
+  | 'variable'
+  | 'struct'
+  | 'trait'
+  | 'impl'
+  | 'module'
+  | 'heading';
+
+/**
+ * アウトラインシンボル
+ */
+export interface OutlineSymbol {
+  name: string;
+  kind: OutlineSymbolKind;
+  start_line: number;
+  end_line: number;
+  exported?: boolean;
+  signature?: string;
+  level?: number;
+  children?: OutlineSymbol[];
+}
+
+/**
+ * アウトライン対応言語
+ */
+export type OutlineLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'rust' | 'java' | 'markdown';
+
+/**
+ * 波括弧言語の解析済み行（文字列・コメントを空白化）
+ */
+interface CodeLine {
+  code: string;
+  depth: number;
+  paren: number;
+}
+
+/**
+ * 宣言の検出結果
+ */
+interface Declaration {
+  name: string;
+  kind: OutlineSymbolKind;
+  exported?: boolean;
+  container?: boolean;
+}
+
+const MAX_SIGNATURE_LENGTH = 120;
+
+const CONTROL_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'new', 'throw',
+  'else', 'do', 'try', 'with', 'typeof', 'await', 'yield', 'super', 'this', 'synchronized'
+]);
+
+/**
+ * FileAnalyzer.detectProgrammingLanguage の結果を対応言語に変換
+ */
+export function resolveOutlineLanguage(detectedLanguage: string | undefined): OutlineLanguage | null {
+  switch (detectedLanguage) {
+    case 'TypeScript':
+    case 'TypeScript React':
+      return 'typescript';
+    case 'JavaScript':
+    case 'JavaScript React':
+      return 'javascript';
+    case 'Python':
+      return 'python';
+    case 'Go':
+      return 'go';
+    case 'Rust':
+      return 'rust';
+    case 'Java':
+      return 'java';
+    case 'Markdown':
+      return 'markdown';
+    default:
+      return null;
+  }
+}
+
+/**
+ * ファイル内容からアウトラインを抽出
+ */
+export function extractOutline(content: string, language: OutlineLanguage): OutlineSymbol[] {
+  const lines = content.split(/\r?\n/);
+
+  switch (language) {
+    case 'python':
+      return parsePython(lines);
+    case 'markdown':
+      return parseMarkdown(lines);
+    default: {
+      const codeLines = scanBraceCode(lines, language);
+      return parseBraceBlock(lines, codeLines, 0, lines.length - 1, 0, language, null);
+    }
+  }
+}
+
+/**
+ * シグネチャ表示用に宣言行を整形
+ */
+function formatSignature(line: string): string {
+  const signature = line.trim().replace(/\s*\{\s*$/, '').replace(/\s+/g, ' ');
+  return signature.length > MAX_SIGNATURE_LENGTH
+    ? signature.substring(0, MAX_SIGNATURE_LENGTH) + '...'
+    : signature;
+}
+
+// ===== 波括弧言語（TS/JS, Go, Rust, Java） =====
+
+/**
+ * 文字列・コメントを除去し、各行の開始時点のネスト深度を記録
+ */
+function scanBraceCode(lines: string[], language: OutlineLanguage): CodeLine[] {
+  const result: CodeLine[] = [];
+  let depth = 0;
+  let paren = 0;
+  let inBlockComment = false;
+  let quote: string | null = null;
+  const isJs = language === 'typescript' || language === 'javascript';
+
+  for (const line of lines) {
+    const startDepth = depth;
+    const startParen = paren;
+    let out = '';
+
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i] as string;
+      const next = line[i + 1];
+
+      if (inBlockComment) {
+        if (ch === '*' && next === '/') {
+          inBlockComment = false;
+          out += '  ';
+          i++;
+        } else {
+          out += ' ';
+        }
+        continue;
+      }
+
+      if (quote) {
+        if (ch === '\\') {
+          out += '  ';
+          i++;
+        } else if (ch === quote) {
+          quote = null;
+          out += ch;
+        } else {
+          out += ' ';
+        }
+        continue;
+      }
+
+      if (ch === '/' && next === '/') break;
+      if (ch === '/' && next === '*') {
+        inBlockComment = true;
+        out += '  ';
+        i++;
+        continue;
+      }
+
+      // 正規表現リテラル内の括弧を数えない（JS/TSのみ）
+      if (isJs && ch === '/' && /(^|[(,=:[!&|?{};])\s*$/.test(out)) {
+        const end = findRegexLiteralEnd(line, i);
+        if (end > i) {
+          out += '/' + ' '.repeat(end - i - 1) + '/';
+          i = end;
+          continue;
+        }
+      }
+
+      if (ch === "'" && language === 'rust') {
+        // 文字リテラルとライフタイムを区別
+        const literal = /^'(?:\\[^']{1,10}|[^\\'])'/.exec(line.substring(i));
+        if (literal) {
+          out += "'" + ' '.repeat(literal[0].length - 2) + "'";
+          i += literal[0].length - 1;
+        } else {
+          out += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"' || ch === "'" || (ch === '`' && (isJs || language === 'go'))) {
+        quote = ch;
+        out += ch;
+        continue;
+      }
+
+      if (ch === '{') depth++;
+      else if (ch === '}') depth = Math.max(0, depth - 1);
+      else if (ch === '(' || ch === '[') paren++;
+      else if (ch === ')' || ch === ']') paren = Math.max(0, paren - 1);
+
+      out += ch;
+    }
+
+    // 複数行にまたがらない文字列は行末でリセット
+    if (quote === "'" || (quote === '"' && language !== 'rust' && language !== 'java')) {
+      quote = null;
+    }
+
+    result.push({ code: out, depth: startDepth, paren: startParen });
+  }
+
+  return result;
+}
+
+/**
+ * 正規表現リテラルの終端位置を探す（見つからない場合は開始位置を返す）
+ */
+function findRegexLiteralEnd(line: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      inClass = true;
+    } else if (ch === ']') {
+      inClass = false;
+    } else if (ch === '/' && !inClass) {
+      return i;
+    }
+  }
+  return start;
+}
+
+/**
+ * 宣言の終了行を探す（ブロック終端・セミコロン・継続しない行末）
+ */
+function findDeclarationEnd(codeLines: CodeLine[], startLine: number, limit: number): number {
+  let braces = 0;
+  let paren = 0;
+  let opened = false;
+
+  for (let li = startLine; li <= limit; li++) {
+    const code = codeLines[li]?.code ?? '';
+
+    for (const ch of code) {
+      if (ch === '(' || ch === '[') {
+        paren++;
+      } else if (ch === ')' || ch === ']') {
+        paren--;
+      } else if (ch === '{') {
+        if (braces === 0 && paren <= 0) opened = true;
+        braces++;
+      } else if (ch === '}') {
+        braces--;
+        if (braces <= 0 && opened) return li;
+      } else if (ch === ';' && braces <= 0 && paren <= 0) {
+        return li;
+      }
+    }
+
+    if (!opened && braces <= 0 && paren <= 0 && !continuesOnNextLine(codeLines, li, limit)) {
+      return li;
+    }
+  }
+
+  return limit;
+}
+
+/**
+ * 宣言が次の行に続くかどうか
+ */
+function continuesOnNextLine(codeLines: CodeLine[], li: number, limit: number): boolean {
+  const current = (codeLines[li]?.code ?? '').trim();
+  if (current === '' || /[,(\[{=:|&.+\-*/?<>]$/.test(current) || current.endsWith('=>')) {
+    return true;
+  }
+
+  for (let next = li + 1; next <= limit; next++) {
+    const code = (codeLines[next]?.code ?? '').trim();
+    if (code === '') continue;
+    return /^([.{?:|&=<>]|->|extends\b|implements\b|throws\b|where\b)/.test(code);
+  }
+
+  return false;
+}
+
+/**
+ * 指定深度のブロック内の宣言を抽出
+ */
+function parseBraceBlock(
+  lines: string[],
+  codeLines: CodeLine[],
+  from: number,
+  to: number,
+  depth: number,
+  language: OutlineLanguage,
+  container: Declaration | null
+): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+
+  for (let li = from; li <= to; li++) {
+    const codeLine = codeLines[li];
+    if (!codeLine || codeLine.depth !== depth || codeLine.paren !== 0) continue;
+
+    const code = codeLine.code.trim();
+    if (code === '') continue;
+
+    const declaration = matchDeclaration(code, language, container);
+    if (!declaration) continue;
+
+    const endLine = findDeclarationEnd(codeLines, li, to);
+    const symbol: OutlineSymbol = {
+      name: declaration.name,
+      kind: declaration.kind,
+      start_line: li + 1,
+      end_line: endLine + 1,
+      signature: formatSignature(lines[li] ?? '')
+    };
+    if (declaration.exported !== undefined) {
+      symbol.exported = declaration.exported;
+    }
+
+    // クラス等はメンバーを子要素として抽出
+    if (declaration.container && endLine > li) {
+      const children = parseBraceBlock(lines, codeLines, li + 1, endLine, depth + 1, language, declaration);
+      if (children.length > 0) {
+        symbol.children = children;
+      }
+    }
+
+    symbols.push(symbol);
+    li = endLine;
+  }
+
+  return symbols;
+}
+
+/**
+ * 言語ごとの宣言パターン判定
+ */
+function matchDeclaration(code: string, language: OutlineLanguage, container: Declaration | null): Declaration | null {
+  switch (language) {
+    case 'typescript':
+    case 'javascript':
+      return container ? matchJsMember(code) : matchJsTopLevel(code);
+    case 'java':
+      return matchJava(code, container);
+    case 'go':
+      return container ? null : matchGo(code);
+    case 'rust':
+      return matchRust(code, container);
+    default:
+      return null;
+  }
+}
+
+function matchJsTopLevel(code: string): Declaration | null {
+  let m = /^(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?class\b\s*([A-Za-z_$][\w$]*)?/.exec(code);
+  if (m) return { name: m[5] ?? 'default', kind: 'class', exported: !!m[1], container: true };
+
+  m = /^(export\s+)?(declare\s+)?interface\s+([A-Za-z_$][\w$]*)/.exec(code);
+  if (m && m[3]) return { name: m[3], kind: 'interface', exported: !!m[1] };
+
+  m = /^(export\s+)?(declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(<.*>)?\s*=/.exec(code);
+  if (m && m[3]) return { name: m[3], kind: 'type', exported: !!m[1] };
+
+  m = /^(export\s+)?(declare\s+)?(const\s+)?enum\s+([A-Za-z_$][\w$]*)/.exec(code);
+  if (m && m[4]) return { name: m[4], kind: 'enum', exported: !!m[1] };
+
+  m = /^(export\s+)?(default\s+)?(declare\s+)?(async\s+)?function\b\s*\*?\s*([A-Za-z_$][\w$]*)?/.exec(code);
+  if (m) return { name: m[5] ?? 'default', kind: 'function', exported: !!m[1] };
+
+  m = /^(export\s+)?(declare\s+)?(namespace|module)\s+([\w.$]+)/.exec(code);
+  if (m && m[4]) return { name: m[4], kind: 'module', exported: !!m[1] };
+
+  m = /^(export\s+)?(declare\s+)?(const|let|var)\s+([A-Za-z_$][\w$]*)(.*)$/.exec(code);
+  if (m && m[4]) {
+    const rest = m[5] ?? '';
+    const isFunction = /=\s*(async\s+)?(function\b|(\([^)]*\)|[A-Za-z_$][\w$]*)\s*(:[^=]*)?=>|\(\s*$)/.test(rest);
+    // 非公開の変数はノイズになるため関数のみ対象
+    if (isFunction) return { name: m[4], kind: 'function', exported: !!m[1] };
+    if (m[1]) return { name: m[4], kind: 'variable', exported: true };
+  }
+
+  return null;
+}
+
+function matchJsMember(code: string): Declaration | null {
+  const modifiers = '(?:(?:public|private|protected|static|readonly|async|abstract|override|declare|get|set)\\s+)*';
+
+  let m = new RegExp(`^${modifiers}\\*?\\s*(#?[A-Za-z_$][\\w$]*)\\s*(<[^>]*>)?\\s*\\(`).exec(code);
+  if (m && m[1] && !CONTROL_KEYWORDS.has(m[1])) {
+    return { name: m[1], kind: m[1] === 'constructor' ? 'constructor' : 'method' };
+  }
+
+  // アロー関数プロパティ
+  m = new RegExp(`^${modifiers}(#?[A-Za-z_$][\\w$]*)\\s*(:[^=]+)?=\\s*(async\\s+)?(\\([^)]*\\)|[A-Za-z_$][\\w$]*)\\s*(:[^=]*)?=>`).exec(code);
+  if (m && m[1]) return { name: m[1], kind: 'method' };
+
+  return null;
+}
+
+function matchJava(code: string, container: Declaration | null): Declaration | null {
+  if (code.startsWith('@') && !code.startsWith('@interface')) return null;
+
+  const typeModifiers = '(?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp)\\s+)*';
+  let m = new RegExp(`^(${typeModifiers})(class|interface|enum|record|@interface)\\s+([A-Za-z_$][\\w$]*)`).exec(code);
+  if (m && m[3]) {
+    const kind: OutlineSymbolKind = m[2] === 'class' || m[2] === 'record' ? 'class' : m[2] === 'enum' ? 'enum' : 'interface';
+    return { name: m[3], kind, exported: /\bpublic\b/.test(m[1] ?? ''), container: true };
+  }
+
+  if (!container) return null;
+
+  const memberModifiers = '((?:(?:public|private|protected|static|final|abstract|synchronized|native|default|strictfp)\\s+)*)';
+
+  // コンストラクタ
+  m = new RegExp(`^${memberModifiers}([A-Za-z_$][\\w$]*)\\s*\\(`).exec(code);
+  if (m && m[2] === container.name) {
+    return { name: m[2], kind: 'constructor' };
+  }
+
+  m = new RegExp(`^${memberModifiers}(<[^>]+>\\s+)?([\\w$.<>\\[\\],?]+(?:\\s*<[^()]*>)?(?:\\[\\])*)\\s+([A-Za-z_$][\\w$]*)\\s*\\(`).exec(code);
+  if (m && m[4] && m[3] && !CONTROL_KEYWORDS.has(m[3]) && !CONTROL_KEYWORDS.has(m[4])) {
+    return { name: m[4], kind: 'method' };
+  }
+
+  return null;
+}
+
+function matchGo(code: string): Declaration | null {
+  let m = /^func\s+\(\s*(?:[A-Za-z_]\w*\s+)?\*?\s*([A-Za-z_]\w*)[^)]*\)\s*([A-Za-z_]\w*)/.exec(code);
+  if (m && m[1] && m[2]) {
+    return { name: `${m[1]}.${m[2]}`, kind: 'method', exported: /^[A-Z]/.test(m[2]) };
+  }
+
+  m = /^func\s+([A-Za-z_]\w*)/.exec(code);
+  if (m && m[1]) return { name: m[1], kind: 'function', exported: /^[A-Z]/.test(m[1]) };
+
+  m = /^type\s+([A-Za-z_]\w*)(\s*\[[^\]]*\])?\s+(struct|interface)?/.exec(code);
+  if (m && m[1]) {
+    const kind: OutlineSymbolKind = m[3] === 'struct' ? 'struct' : m[3] === 'interface' ? 'interface' : 'type';
+    return { name: m[1], kind, exported: /^[A-Z]/.test(m[1]) };
+  }
+
+  return null;
+}
+
+function matchRust(code: string, container: Declaration | null): Declaration | null {
+  if (code.startsWith('#')) return null;
+
+  const visibility = '(pub(?:\\s*\\([^)]*\\))?\\s+)?';
+
+  let m = new RegExp(`^${visibility}(?:(?:default|async|const|unsafe|extern\\s+"[^"]*")\\s+)*fn\\s+([A-Za-z_]\\w*)`).exec(code);
+  if (m && m[2]) {
+    const inType = container && (container.kind === 'impl' || container.kind === 'trait');
+    return { name: m[2], kind: inType ? 'method' : 'function', exported: !!m[1] };
+  }
+
+  // impl/trait内ではメソッドのみ対象
+  if (container && container.kind !== 'module') return null;
+
+  m = new RegExp(`^${visibility}struct\\s+([A-Za-z_]\\w*)`).exec(code);
+  if (m && m[2]) return { name: m[2], kind: 'struct', exported: !!m[1] };
+
+  m = new RegExp(`^${visibility}enum\\s+([A-Za-z_]\\w*)`).exec(code);
+  if (m && m[2]) return { name: m[2], kind: 'enum', exported: !!m[1] };
+
+  m = new RegExp(`^${visibility}(?:unsafe\\s+)?trait\\s+([A-Za-z_]\\w*)`).exec(code);
+  if (m && m[2]) return { name: m[2], kind: 'trait', exported: !!m[1], container: true };
+
+  m = new RegExp(`^${visibility}type\\s+([A-Za-z_]\\w*)`).exec(code);
+  if (m && m[2]) return { name: m[2], kind: 'type', exported: !!m[1] };
+
+  m = new RegExp(`^${visibility}mod\\s+([A-Za-z_]\\w*)`).exec(code);
+  if (m && m[2]) return { name: m[2], kind: 'module', exported: !!m[1], container: true };
+
+  m = /^(?:unsafe\s+)?impl\b\s*(<[^{]*?>)?\s*(.+?)\s*(\{|\bwhere\b|$)/.exec(code);
+  if (m && m[2]) return { name: m[2], kind: 'impl', container: true };
+
+  return null;
+}
+
+// ===== Python =====
+
+/**
+ * インデントベースで def / class を抽出
+ */
+function parsePython(lines: string[]): OutlineSymbol[] {
+  interface PythonDef {
+    symbol: OutlineSymbol;
+    indent: number;
+  }
+
+  const inString = markPythonStringLines(lines);
+  const defs: PythonDef[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (inString[i]) continue;
+
+    const line = lines[i] ?? '';
+    const m = /^(\s*)(async\s+def|def|class)\s+([A-Za-z_]\w*)/.exec(line);
+    if (!m || !m[3]) continue;
+
+    const indent = indentWidth(m[1] ?? '');
+    const headerEnd = findPythonHeaderEnd(lines, i);
+    const endLine = findPythonBlockEnd(lines, inString, headerEnd, indent);
+
+    // デコレーターを開始行に含める
+    let startLine = i;
+    while (startLine > 0 && /^\s*@/.test(lines[startLine - 1] ?? '') && indentWidth(/^\s*/.exec(lines[startLine - 1] ?? '')?.[0] ?? '') === indent) {
+      startLine--;
+    }
+
+    const name = m[3];
+    defs.push({
+      indent,
+      symbol: {
+        name,
+        kind: m[2] === 'class' ? 'class' : 'function',
+        start_line: startLine + 1,
+        end_line: endLine + 1,
+        exported: !name.startsWith('_'),
+        signature: formatSignature(line).replace(/:\s*$/, '')
+      }
+    });
+  }
+
+  // クラス直下のメソッドのみ子要素とし、関数内のネスト定義は除外
+  const roots: OutlineSymbol[] = [];
+  const stack: PythonDef[] = [];
+
+  for (const def of defs) {
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1] as PythonDef;
+      if (def.indent > top.indent && def.symbol.start_line <= top.symbol.end_line) break;
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      roots.push(def.symbol);
+    } else if (stack.every(item => item.symbol.kind === 'class')) {
+      // 祖先が全てクラスの場合のみ表示対象
+      if (def.symbol.kind === 'function') {
+        def.symbol.kind = def.symbol.name === '__init__' ? 'constructor' : 'method';
+      }
+      delete def.symbol.exported;
+      parent.symbol.children = [...(parent.symbol.children ?? []), def.symbol];
+    }
+
+    stack.push(def);
+  }
+
+  return roots;
+}
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, '    ').length;
+}
+
+/**
+ * 三重引用符文字列の内部にある行をマーク
+ */
+function markPythonStringLines(lines: string[]): boolean[] {
+  const marks: boolean[] = [];
+  let delimiter: string | null = null;
+
+  for (const line of lines) {
+    marks.push(delimiter !== null);
+
+    const regex = /"""|'''/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(line)) !== null) {
+      if (delimiter === null) {
+        // コメント内の引用符は無視
+        const hashIndex = line.indexOf('#');
+        if (hashIndex !== -1 && hashIndex < match.index) break;
+        delimiter = match[0];
+      } else if (match[0] === delimiter) {
+        delimiter = null;
+      }
+    }
+  }
+
+  return marks;
+}
+
+/**
+ * 複数行にまたがるシグネチャの終了行を探す
+ */
+function findPythonHeaderEnd(lines: string[], start: number): number {
+  let paren = 0;
+  for (let i = start; i < lines.length; i++) {
+    const code = (lines[i] ?? '').replace(/#.*$/, '');
+    for (const ch of code) {
+      if (ch === '(' || ch === '[' || ch === '{') paren++;
+      else if (ch === ')' || ch === ']' || ch === '}') paren--;
+    }
+    if (paren <= 0) return i;
+  }
+  return start;
+}
+
+/**
+ * インデントが戻る直前の行をブロック終端とする
+ */
+function findPythonBlockEnd(lines: string[], inString: boolean[], headerEnd: number, indent: number): number {
+  let lastContent = headerEnd;
+
+  for (let i = headerEnd + 1; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+    if (line.trim() === '') continue;
+
+    if (!inString[i]) {
+      const lineIndent = indentWidth(/^\s*/.exec(line)?.[0] ?? '');
+      if (lineIndent <= indent && !line.trim().startsWith('#')) break;
+    }
+
+    lastContent = i;
+  }
+
+  return lastContent;
+}
+
+// ===== Markdown =====
+
+/**
+ * 見出し（ATX / Setext）を階層構造で抽出
+ */
+function parseMarkdown(lines: string[]): OutlineSymbol[] {
+  const headings: OutlineSymbol[] = [];
+  let fence: string | null = null;
+  let start = 0;
+
+  // YAMLフロントマターをスキップ
+  if ((lines[0] ?? '').trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end > 0) start = end + 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+
+    const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+    if (fenceMatch && fenceMatch[1]) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1].startsWith(fence)) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const atx = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/.exec(line);
+    if (atx && atx[1]) {
+      headings.push(createHeading(atx[2] ?? '', atx[1].length, i));
+      continue;
+    }
+
+    // Setext見出し（直後の === / ---）
+    const next = lines[i + 1] ?? '';
+    if (line.trim() !== '' && !/^\s*([-*+]|\d+[.)])\s/.test(line) && !/^ {0,3}>/.test(line)) {
+      if (/^ {0,3}=+\s*$/.test(next)) {
+        headings.push(createHeading(line.trim(), 1, i));
+        i++;
+      } else if (/^ {0,3}-+\s*$/.test(next)) {
+        headings.push(createHeading(line.trim(), 2, i));
+        i++;
+      }
+    }
+  }
+
+  // 終了行: 同レベル以上の次の見出しの直前
+  for (let h = 0; h < headings.length; h++) {
+    const heading = headings[h] as OutlineSymbol;
+    const nextHeading = headings.slice(h + 1).find(other => (other.level ?? 0) <= (heading.level ?? 0));
+    heading.end_line = nextHeading ? nextHeading.start_line - 1 : lines.length;
+  }
+
+  // 階層化
+  const roots: OutlineSymbol[] = [];
+  const stack: OutlineSymbol[] = [];
+  for (const heading of headings) {
+    while (stack.length > 0 && ((stack[stack.length - 1] as OutlineSymbol).level ?? 0) >= (heading.level ?? 0)) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children = [...(parent.children ?? []), heading];
+    } else {
+      roots.push(heading);
+    }
+    stack.push(heading);
+  }
+
+  return roots;
+}
+
+function createHeading(text: string, level: number, lineIndex: number): OutlineSymbol {
+  return {
+    name: text,
+    kind: 'heading',
+    level,
+    start_line: lineIndex + 1,
+    end_line: lineIndex + 1
+  };
+}
\ No newline at end of file
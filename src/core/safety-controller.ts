@@ -38,6 +38,9 @@ export class SafetyController {
       ['peek', SAFETY_LIMITS.MAX_PREVIEW_SIZE],
       ['inline', SAFETY_LIMITS.MAX_INLINE_SIZE],
       ['scan', SAFETY_LIMITS.MAX_FILE_SIZE], // For individual files in scan
+      ['range', Number.MAX_SAFE_INTEGER], // Only the requested slice is loaded
+      ['truncate', SAFETY_LIMITS.TRUNCATED_READ_MAX_SIZE], // Loaded fully, returned within max_tokens
+      ['notebook', SAFETY_LIMITS.NOTEBOOK_MAX_FILE_SIZE], // Outputs are elided, the rendered cells are checked separately
     ]);
   }
 
@@ -92,7 +95,7 @@ export class SafetyController {
           },
           suggestions: [
             'Use peek_file to preview the file instead',
-            'Consider processing the file in chunks',
+            'Use read_file with chunk_tokens to read the file in chunks',
             'Check if this is the correct file'
           ]
         };
@@ -0,0 +1,59 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { gzipSync } from 'zlib';
+import { searchByContent } from './search-engine.js';
+import type { SearchEngineOptions } from './search-engine.js';
+
+const options: SearchEngineOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  maxDepth: 5,
+  maxFiles: 100,
+  maxMatchesPerFile: 10,
+  excludeDirs: [],
+  recursive: true
+};
+
+describe('searchByContent', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'search-engine-')));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('searches gzip files after decompression', async () => {
+    await fs.writeFile(path.join(dir, 'small.log.gz'), gzipSync('first\nneedle here\nlast\n'));
+
+    const results = await searchByContent(dir, 'needle', options);
+    const result = results.find(item => item.file_path.endsWith('small.log.gz'));
+
+    expect(result).toMatchObject({ content_matches: 1, content_preview: 'needle here', is_compressed: true });
+    expect(result?.content_truncated).toBeUndefined();
+  });
+
+  test('keeps the matches found before the decompression limit and flags the file', async () => {
+    // 圧縮率の上限（200:1）を超える内容の前にマッチを置く
+    const content = 'needle one\nneedle two\n' + 'a'.repeat(79).concat('\n').repeat(40 * 1024);
+    await fs.writeFile(path.join(dir, 'bomb.log.gz'), gzipSync(content));
+
+    const results = await searchByContent(dir, 'needle', options);
+    const result = results.find(item => item.file_path.endsWith('bomb.log.gz'));
+
+    expect(result).toMatchObject({ content_matches: 2, content_truncated: true });
+  });
+
+  test('reports a gzip file without matches that was cut off by the limit', async () => {
+    await fs.writeFile(path.join(dir, 'quiet.log.gz'), gzipSync('a'.repeat(79).concat('\n').repeat(40 * 1024)));
+
+    const results = await searchByContent(dir, 'needle', options);
+    const result = results.find(item => item.file_path.endsWith('quiet.log.gz'));
+
+    expect(result).toMatchObject({ content_truncated: true });
+    expect(result?.content_matches).toBeUndefined();
+  });
+});
@@ -14,6 +14,9 @@ import {
   findMatchesWithContext 
 } from '../utils/regex-validator.js';
 import { isBinaryContent, getFileTypeFromExtension } from '../utils/helpers.js';
+import { detectArchiveFormat } from '../utils/archive-reader.js';
+import { createGunzipStream, DecompressionLimitError, stripGzipExtension } from '../utils/gzip-reader.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
 import type { SearchResult } from './types.js';
 
 /**
@@ -196,19 +199,28 @@ async function scanDirectory(
         // 拡張子フィルタ
         if (!shouldIncludeFile(entry.name, options)) continue;
         
-        // バイナリファイルチェック
-        if (isBinaryFile(entry.name)) continue;
+        // バイナリファイルチェック（アーカイブはファイル名のみ、gzip は展開して内容を検索）
+        const isArchive = detectArchiveFormat(entry.name) !== undefined;
+        const isGzip = !isArchive && path.extname(entry.name).toLowerCase() === '.gz';
+        if (isGzip ? isBinaryFile(stripGzipExtension(entry.name)) : isBinaryFile(entry.name) && !isArchive) continue;
         
         // ファイル検索実行
         const result = await searchFile(
           fullPath,
           fileRegex,
-          contentRegex,
+          isArchive ? null : contentRegex,
           options,
-          searchType
+          searchType,
+          isGzip
         );
         
         if (result) {
+          if (isArchive) {
+            result.is_archive = true;
+          }
+          if (isGzip) {
+            result.is_compressed = true;
+          }
           results.push(result);
         }
       }
@@ -226,13 +238,14 @@ async function searchFile(
   fileRegex: RegExp | null,
   contentRegex: RegExp | null,
   options: SearchEngineOptions,
-  searchType: 'filename' | 'content' | 'both'
+  searchType: 'filename' | 'content' | 'both',
+  compressed: boolean = false
 ): Promise<SearchResult | null> {
   try {
     const stats = await fs.stat(filePath);
     
-    // 10MBを超えるファイルの内容検索はスキップ
-    if (contentRegex && stats.size > 10 * 1024 * 1024) {
+    // 10MBを超えるファイルの内容検索はスキップ（gzip は展開後のサイズで判定）
+    if (contentRegex && !compressed && stats.size > SAFETY_LIMITS.MAX_FILE_SIZE_CONTENT) {
       return null;
     }
     
@@ -240,6 +253,7 @@ async function searchFile(
     let contentMatches = 0;
     let contentPreview: string | undefined;
     let matchContext: string[] | undefined;
+    let contentTruncated = false;
     
     // ファイル名検索
     if (fileRegex) {
@@ -249,14 +263,20 @@ async function searchFile(
     
     // 内容検索
     if (contentRegex) {
-      const contentResult = await searchFileContent(filePath, contentRegex, options.maxMatchesPerFile);
+      const contentResult = await searchFileContent(
+        filePath,
+        contentRegex,
+        options.maxMatchesPerFile,
+        compressed ? stats.size : undefined
+      );
       contentMatches = contentResult.matchCount;
       contentPreview = contentResult.preview;
       matchContext = contentResult.context;
+      contentTruncated = contentResult.truncated === true;
     }
     
-    // 結果がない場合はnull
-    if (filenameMatches === 0 && contentMatches === 0) {
+    // 結果がない場合はnull（展開上限で打ち切った gzip は検索しきれなかったことを示すため返す）
+    if (filenameMatches === 0 && contentMatches === 0 && !contentTruncated) {
       return null;
     }
     
@@ -267,7 +287,8 @@ async function searchFile(
       content_matches: contentMatches > 0 ? contentMatches : undefined,
       last_modified: stats.mtime.toISOString(),
       content_preview: contentPreview,
-      match_context: matchContext
+      match_context: matchContext,
+      ...(contentTruncated && { content_truncated: true })
     };
     
   } catch (error) {
@@ -281,8 +302,9 @@ async function searchFile(
 async function searchFileContent(
   filePath: string,
   regex: RegExp,
-  maxMatches: number
-): Promise<{ matchCount: number; preview?: string; context?: string[] }> {
+  maxMatches: number,
+  compressedBytes?: number
+): Promise<{ matchCount: number; preview?: string; context?: string[]; truncated?: boolean }> {
   return new Promise((resolve) => {
     let matchCount = 0;
     let preview: string | undefined;
@@ -290,8 +312,13 @@ async function searchFileContent(
     const lines: string[] = [];
     let lineNumber = 0;
     
+    // gzip は展開しながら検索（展開後サイズ・圧縮率の上限を超えたらそこで打ち切る）
+    const input = compressedBytes !== undefined
+      ? createGunzipStream(filePath, compressedBytes, SAFETY_LIMITS.MAX_FILE_SIZE_CONTENT)
+      : createReadStream(filePath, { encoding: 'utf8' });
+    
     const rl = readline.createInterface({
-      input: createReadStream(filePath, { encoding: 'utf8' }),
+      input,
       crlfDelay: Infinity
     });
     
@@ -329,17 +356,31 @@ async function searchFileContent(
       }
     });
     
-    rl.on('close', () => {
+    const finish = (truncated: boolean) => {
       resolve({
         matchCount,
         preview,
-        context: contextLines.length > 0 ? contextLines.slice(0, 9) : undefined
+        context: contextLines.length > 0 ? contextLines.slice(0, 9) : undefined,
+        ...(truncated && { truncated })
       });
-    });
+    };
     
-    rl.on('error', () => {
-      resolve({ matchCount: 0 });
+    rl.on('close', () => {
+      input.destroy();
+      finish(false);
     });
+    
+    // 展開上限に達した場合はそこまでのマッチを返す
+    const onError = (error: Error) => {
+      if (error instanceof DecompressionLimitError) {
+        finish(true);
+      } else {
+        resolve({ matchCount: 0 });
+      }
+      rl.close();
+    };
+    input.on('error', onError);
+    rl.on('error', onError);
   });
 }
 
@@ -87,6 +87,23 @@ export class SecurityControllerV2 {
     }
   }
   
+  /**
+   * ディレクトリが許可ディレクトリ内か、許可ディレクトリを含むか（走査を続ける価値があるか）
+   */
+  mayContainAllowedPaths(dirPath: string): boolean {
+    if (this.isPathAllowed(dirPath)) {
+      return true;
+    }
+    
+    const resolvedPath = path.resolve(dirPath);
+    const prefix = resolvedPath.endsWith(path.sep) ? resolvedPath : resolvedPath + path.sep;
+    return this.resolvedAllowedDirs.some(allowedDir =>
+      process.platform === 'win32'
+        ? allowedDir.toLowerCase().startsWith(prefix.toLowerCase())
+        : allowedDir.startsWith(prefix)
+    );
+  }
+  
   /**
    * セキュアなパス検証
    */
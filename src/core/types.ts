@@ -89,6 +89,9 @@ export interface FileAnalysis extends FileInfo {
   /** MIME type if detected */
   mimeType?: string;
   
+  /** File type identified from magic bytes */
+  detectedType?: DetectedFileType;
+  
   /** File extension */
   extension: string;
   
@@ -151,6 +154,24 @@ export type FileEncoding =
   | 'shift_jis'
   | 'euc-jp'
   | 'gb2312'
+  | 'gbk'
+  | 'gb18030'
+  | 'big5'
+  | 'euc-kr'
+  | 'iso-8859-2'
+  | 'iso-8859-5'
+  | 'iso-8859-6'
+  | 'iso-8859-7'
+  | 'iso-8859-8'
+  | 'iso-8859-9'
+  | 'windows-1250'
+  | 'windows-1251'
+  | 'windows-1252'
+  | 'windows-1253'
+  | 'windows-1254'
+  | 'windows-1255'
+  | 'windows-1256'
+  | 'koi8-r'
   | 'unknown';
 
 /**
@@ -312,6 +333,264 @@ export interface ReadFileParams {
   
   /** Force specific encoding */
   encoding?: FileEncoding;
+  
+  /** First line to read (1-based, inclusive) */
+  start_line?: number;
+  
+  /** Last line to read (1-based, inclusive) */
+  end_line?: number;
+  
+  /** Byte offset to start reading from */
+  offset?: number;
+  
+  /** Number of bytes to read from offset */
+  length?: number;
+  
+  /** Token budget per chunk (enables paginated reading) */
+  chunk_tokens?: number;
+  
+  /** Continuation cursor returned by the previous chunk */
+  cursor?: string;
+  
+  /** Token budget - larger files return head and tail with the middle elided */
+  max_tokens?: number;
+  
+  /** Number of lines to read from the end of the file */
+  tail_lines?: number;
+  
+  /** Number of bytes to read from the end of the file */
+  tail_bytes?: number;
+  
+  /** Byte offset from a previous tail read - returns only content appended since */
+  since_offset?: number;
+  
+  /** Number of rows to return as a structured table with column statistics (CSV/TSV) */
+  table_rows?: number;
+  
+  /** Field delimiter for table reads (auto-detected by default) */
+  delimiter?: string;
+  
+  /** How cell outputs are shown when reading .ipynb notebooks (default: truncated) */
+  notebook_outputs?: 'truncated' | 'none' | 'full';
+}
+
+/**
+ * Range information for partial reads
+ */
+export interface ReadFileRange {
+  /** Range type */
+  type: 'lines' | 'bytes';
+  
+  /** First line returned (line ranges) */
+  start_line?: number;
+  
+  /** Last line returned (line ranges) */
+  end_line?: number;
+  
+  /** Total lines in the file (line ranges) */
+  total_lines?: number;
+  
+  /** Byte offset of the slice (byte ranges) */
+  offset?: number;
+  
+  /** Bytes returned (byte ranges) */
+  length?: number;
+  
+  /** Total file size in bytes (byte ranges) */
+  total_bytes?: number;
+  
+  /** Whether the slice was cut short by the range size limit */
+  truncated: boolean;
+}
+
+/**
+ * Chunk information for paginated reads
+ */
+export interface ReadFileChunk {
+  /** Byte offset where this chunk starts */
+  start_offset: number;
+  
+  /** Byte offset where this chunk ends (exclusive) */
+  end_offset: number;
+  
+  /** Total file size in bytes */
+  total_bytes: number;
+  
+  /** Estimated tokens in this chunk */
+  estimated_tokens: number;
+  
+  /** Whether more content follows */
+  has_more: boolean;
+  
+  /** Cursor to pass to the next read_file call (absent on the last chunk) */
+  next_cursor?: string;
+}
+
+/**
+ * Elision information for token-budgeted reads
+ */
+export interface ReadFileTruncation {
+  /** Line ranges replaced by the elision marker */
+  omitted_ranges: {
+    start_line: number;
+    end_line: number;
+    estimated_tokens: number;
+  }[];
+  
+  /** Total lines in the file */
+  total_lines: number;
+  
+  /** Lines included in the content */
+  shown_lines: number;
+  
+  /** Estimated tokens of the full file */
+  original_tokens: number;
+  
+  /** Estimated tokens of the returned content */
+  estimated_tokens: number;
+  
+  /** Whether cut points were aligned to function/class boundaries */
+  boundary_aware: boolean;
+}
+
+/**
+ * Tail information for reads from the end of the file
+ */
+export interface ReadFileTail {
+  /** Tail mode */
+  mode: 'lines' | 'bytes' | 'since';
+  
+  /** Byte offset where the returned content starts */
+  start_offset: number;
+  
+  /** Byte offset where the returned content ends - pass as since_offset to follow the file */
+  end_offset: number;
+  
+  /** Total file size in bytes */
+  total_bytes: number;
+  
+  /** Lines in the returned content */
+  lines_returned: number;
+  
+  /** Whether the content was cut short by the range size limit */
+  truncated: boolean;
+  
+  /** The file shrank below since_offset (rotated or truncated) and was read from the start */
+  reset?: boolean;
+}
+
+/**
+ * File type identified from magic bytes
+ */
+export interface DetectedFileType {
+  /** Matching BINARY_SIGNATURES entry */
+  signature: string;
+  
+  /** MIME type */
+  mime: string;
+  
+  /** Human-readable format name */
+  description: string;
+}
+
+/**
+ * Inferred column type for table reads
+ */
+export type TableColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'string' | 'empty';
+
+/**
+ * Per-column statistics for table reads
+ */
+export interface TableColumnStats {
+  /** Column name (header value or column_N) */
+  name: string;
+  
+  /** Inferred type of the non-null values */
+  type: TableColumnType;
+  
+  /** Empty and NA/null values */
+  null_count: number;
+  
+  /** Distinct non-null values */
+  distinct_count: number;
+  
+  /** distinct_count reached the tracking limit and is a lower bound */
+  distinct_capped?: boolean;
+  
+  /** Minimum value (numeric for number columns, lexicographic otherwise) */
+  min?: string | number;
+  
+  /** Maximum value (numeric for number columns, lexicographic otherwise) */
+  max?: string | number;
+}
+
+/**
+ * Structured table for CSV/TSV reads
+ */
+export interface ReadFileTable {
+  /** Detected or requested field delimiter */
+  delimiter: string;
+  
+  /** Whether the first record was treated as a header */
+  has_header: boolean;
+  
+  /** Column names */
+  columns: string[];
+  
+  /** First rows of the file (excluding the header) */
+  rows: string[][];
+  
+  /** Data rows in the file (estimated when stats_complete is false) */
+  total_rows: number;
+  
+  /** Data rows included in the statistics */
+  rows_scanned: number;
+  
+  /** Per-column statistics computed by streaming the file */
+  stats: TableColumnStats[];
+  
+  /** False when the scan stopped at the time limit */
+  stats_complete: boolean;
+}
+
+/**
+ * Notebook summary for rendered .ipynb reads
+ */
+export interface ReadFileNotebook {
+  /** Notebook format version (e.g. "4.5") */
+  nbformat: string;
+  
+  /** Kernel language */
+  language?: string;
+  
+  /** Cell counts */
+  cell_count: number;
+  code_cells: number;
+  markdown_cells: number;
+  raw_cells: number;
+  
+  /** How outputs were rendered */
+  outputs: 'truncated' | 'none' | 'full';
+  
+  /** Image/HTML outputs replaced by a placeholder (base64 payloads are never returned) */
+  elided_outputs: number;
+  
+  /** Outputs cut to the per-output line limit */
+  truncated_outputs: number;
+}
+
+/**
+ * Compression info for transparently decompressed (gzip) reads
+ */
+export interface ReadFileCompression {
+  /** Compression format */
+  format: 'gzip';
+  
+  /** Size of the compressed file on disk */
+  compressed_bytes: number;
+  
+  /** Size after decompression - offsets and limits refer to these bytes */
+  decompressed_bytes: number;
 }
 
 /**
@@ -320,13 +599,44 @@ export interface ReadFileParams {
 export interface ReadFileSuccess {
   status: 'success';
   content: string;
+  
+  /** Present when only part of the file was read */
+  range?: ReadFileRange;
+  
+  /** Present for paginated (chunked) reads */
+  chunk?: ReadFileChunk;
+  
+  /** Present when the content was truncated to fit max_tokens */
+  truncation?: ReadFileTruncation;
+  
+  /** Present for reads from the end of the file */
+  tail?: ReadFileTail;
+  
+  /** Present for table (CSV/TSV) reads */
+  table?: ReadFileTable;
+  
+  /** Encoding detected and decoded automatically (reported when not UTF-8) */
+  detected_encoding?: FileEncoding;
+  
+  /** Present when a gzip file was decompressed transparently */
+  compression?: ReadFileCompression;
+  
+  /** Present when a .ipynb notebook was rendered as cells */
+  notebook?: ReadFileNotebook;
+  
+  /**
+   * SHA-256 of the file bytes the content was decoded from (whole-file reads only).
+   * Pass it as expected_sha256 or base_sha256 when changing the file.
+   */
+  sha256?: string;
 }
 
 /**
  * Read file result - Limited case
  */
 export interface ReadFileLimited {
-  status: 'size_exceeded' | 'binary_detected' | 'permission_denied';
+  /** 'invalid_parameter': the read options are out of range or cannot be combined (the file was not accessed) */
+  status: 'size_exceeded' | 'binary_detected' | 'permission_denied' | 'file_changed' | 'budget_exceeded' | 'invalid_parameter';
   
   /** File information */
   file_info: {
@@ -343,6 +653,15 @@ export interface ReadFileLimited {
     truncated_at_line: number;
     total_lines_estimated: number;
     content_summary: string;
+    
+    /** File type identified from magic bytes (binary files) */
+    file_type?: DetectedFileType;
+    
+    /** Hex+ASCII dump of the first and last bytes (binary files) */
+    hex_dump?: {
+      head: string[];
+      tail?: string[];
+    };
   };
   
   /** Issue details */
@@ -357,6 +676,9 @@ export interface ReadFileLimited {
     force_read_available: boolean;
     suggestions: string[];
   };
+  
+  /** Present when a gzip file was decompressed transparently */
+  compression?: ReadFileCompression;
 }
 
 /**
@@ -364,6 +686,51 @@ export interface ReadFileLimited {
  */
 export type ReadFileResult = ReadFileSuccess | ReadFileLimited;
 
+/**
+ * Tool parameters for read_files
+ */
+export interface ReadFilesParams {
+  /** File paths or glob patterns (*, **, ?, [...], {a,b}) */
+  paths: string[];
+  
+  /** Total token budget shared across all files */
+  max_tokens?: number;
+  
+  /** Force specific encoding */
+  encoding?: FileEncoding;
+}
+
+/**
+ * Per-file entry in a read_files result
+ */
+export type ReadFilesEntry = ReadFileResult & {
+  /** File path (glob matches are expanded to individual files) */
+  path: string;
+};
+
+/**
+ * Read files result
+ */
+export interface ReadFilesResult {
+  /** Operation status */
+  status: 'success' | 'warning' | 'error';
+  
+  /** Per-file results in request order */
+  files: ReadFilesEntry[];
+  
+  /** Budget summary */
+  summary: {
+    total_files: number;
+    files_read: number;
+    files_skipped: number;
+    tokens_used: number;
+    token_budget: number;
+  };
+  
+  /** Warnings (unmatched patterns, truncated globs) */
+  warnings?: string[];
+}
+
 /**
  * Tool parameters for read_file_force
  */
@@ -643,6 +1010,15 @@ export interface SearchResult {
   
   /** Match context lines */
   match_context?: string[];
+  
+  /** Archive file (zip/tar/tar.gz) - matched by name only, use list_archive to inspect */
+  is_archive?: boolean;
+  
+  /** gzip file - content was searched after decompression */
+  is_compressed?: boolean;
+  
+  /** gzip file hit the decompression limit - matches cover only the part read before it */
+  content_truncated?: boolean;
 }
 
 /**
@@ -688,10 +1064,54 @@ export interface SearchContentResponse {
   warnings?: string[];
 }
 
+/**
+ * Optimistic concurrency preconditions for write operations
+ */
+export interface WritePreconditions {
+  /** SHA-256 (hex) the file must still have */
+  expected_sha256?: string;
+  
+  /** Modification time the file must still have (ISO 8601 or epoch milliseconds) */
+  expected_mtime?: string | number;
+  
+  /**
+   * Entity tags of a REST If-Match header: the file must have one of these SHA-256 values,
+   * or just exist if the list contains '*'. Ignored when expected_sha256 is given
+   */
+  if_match?: string[];
+}
+
+/**
+ * File version after a write
+ */
+export interface FileVersion {
+  sha256: string;
+  mtime: string;
+}
+
+/**
+ * Precondition failure details
+ */
+export interface WriteConflict {
+  reason: string;
+  expected_sha256?: string;
+  current_sha256?: string;
+  expected_mtime?: string;
+  current_mtime?: string;
+  
+  /** Diff from the current file content to the content that would have been written */
+  diff?: string;
+}
+
+/**
+ * How write_file combines the content with an existing file
+ */
+export type WriteMode = 'overwrite' | 'append' | 'prepend' | 'insert_at_line' | 'create_only';
+
 /**
  * Tool parameters for write_file
  */
-export interface WriteFileParams {
+export interface WriteFileParams extends WritePreconditions {
   /** File path to write */
   path: string;
   
@@ -700,6 +1120,56 @@ export interface WriteFileParams {
   
   /** Text encoding */
   encoding?: FileEncoding;
+  
+  /** Write mode (default: overwrite) */
+  mode?: WriteMode;
+  
+  /** 1-based line the content is inserted before (insert_at_line only) */
+  line?: number;
+  
+  /** Keep the existing file's encoding, line endings, BOM and final newline (default: true) */
+  preserve_formatting?: boolean;
+  
+  /** Line endings to write (overrides the existing file's) */
+  line_ending?: 'lf' | 'crlf';
+  
+  /** Whether to write a BOM (overrides the existing file's) */
+  bom?: boolean;
+  
+  /** Whether the content ends with a newline (overrides the existing file's) */
+  final_newline?: boolean;
+  
+  /** Refuse the write when it would leave a JSON, YAML, TOML, XML or TS/JS file with a syntax error */
+  validate_syntax?: boolean;
+}
+
+/**
+ * Language checked by validate_syntax ('jsonc': JSON with comments and trailing commas, e.g. tsconfig.json)
+ */
+export type SyntaxLanguage = 'json' | 'jsonc' | 'yaml' | 'toml' | 'xml' | 'typescript' | 'javascript';
+
+/**
+ * Syntax check of the content a write or edit would produce.
+ * TypeScript and JavaScript are only checked for balanced brackets, strings, comments and template literals.
+ */
+export interface SyntaxCheckResult {
+  language: SyntaxLanguage;
+  /**
+   * 'invalid': the change introduces a syntax error and nothing was written.
+   * 'preexisting': the original content already had errors, so the change was allowed.
+   * 'skipped': the content is too large to check.
+   * 'warning': an error was found in a .js file containing JSX, which the check cannot parse, so the change was allowed.
+   */
+  status: 'valid' | 'invalid' | 'preexisting' | 'skipped' | 'warning';
+  reason?: string;
+  /** First syntax error found (1-based position) */
+  error?: {
+    message: string;
+    line: number;
+    column: number;
+    /** Surrounding lines; the error line is marked with '>' and followed by a caret line */
+    context: string[];
+  };
 }
 
 /**
@@ -707,16 +1177,41 @@ export interface WriteFileParams {
  */
 export interface WriteFileResult {
   /** Operation status */
-  status: 'success' | 'warning' | 'error';
+  status: 'success' | 'warning' | 'conflict' | 'error';
   
   /** File information */
   file_info: {
     path: string;
+    /** Bytes written (the encoded content) */
     size_bytes: number;
     created_new: boolean;
     estimated_tokens: number;
+    mode?: WriteMode;
+    /** Size of the whole file after an append, prepend or insert */
+    file_size_bytes?: number;
   };
   
+  /** Version of the written file (omitted for append, which does not read the file) */
+  version?: FileVersion;
+  
+  /** Formatting applied to the content (omitted when nothing was detected or requested) */
+  format_info?: {
+    encoding: FileEncoding;
+    /** Encoding was detected from the existing file rather than passed */
+    encoding_detected?: boolean;
+    line_ending?: 'lf' | 'crlf' | 'mixed';
+    bom?: boolean;
+    final_newline?: boolean;
+    /** Changes made to the content, e.g. "line endings converted to CRLF" */
+    normalized: string[];
+  };
+  
+  /** Precondition failure (status 'conflict') */
+  conflict?: WriteConflict;
+  
+  /** Result of validate_syntax */
+  syntax_check?: SyntaxCheckResult;
+  
   /** Issue details */
   issue_details?: {
     reason: string;
@@ -725,6 +1220,11 @@ export interface WriteFileResult {
       size_mb: number;
       recommendation: string;
     };
+    /** Existing file that blocked a create_only write */
+    existing_file_info?: {
+      size_bytes: number;
+      last_modified: string;
+    };
   };
   
   /** Alternative options */
@@ -756,14 +1256,65 @@ export interface DiffEdit {
   type: 'diff';
   diff_content: string;
   base_version_check?: boolean;
+  /**
+   * SHA-256 of the file content the diff was made against.
+   * When the file has changed since, the diff is three-way merged into the current content.
+   */
+  base_sha256?: string;
+  /**
+   * Content the diff was made against, used as the merge base when the server no longer has
+   * the base_sha256 version. Must hash to base_sha256 in the file's encoding.
+   */
+  base_content?: string;
+}
+
+/**
+ * Region a three-way merge could not resolve
+ */
+export interface MergeConflict {
+  /** Lines of content_with_markers covered by the conflict, marker lines included (1-based, inclusive) */
+  start_line: number;
+  end_line: number;
+  /** Text of the region in the base version */
+  base: string;
+  /** Text of the region in the current file */
+  current: string;
+  /** Text of the region after applying the diff to the base version */
+  incoming: string;
+}
+
+/**
+ * Replace lines start_line-end_line (1-based, inclusive) of the current content
+ */
+export interface LineRangeEdit {
+  type: 'line_range';
+  start_line: number;
+  end_line: number;
+  /** Replacement lines (empty string deletes the range) */
+  new_text: string;
+  /** Current text of the range - the edit fails if the lines differ */
+  expected_text?: string;
+}
+
+/**
+ * Insert lines before or after each line matching an anchor
+ */
+export interface InsertEdit {
+  type: 'insert';
+  /** Text (or regex with anchor_regex) identifying the anchor line */
+  anchor: string;
+  anchor_regex?: boolean;
+  /** Where to insert relative to the anchor line (default: after) */
+  position?: 'before' | 'after';
+  new_text: string;
 }
 
-export type EditOperation = LiteralEdit | RegexEdit | DiffEdit;
+export type EditOperation = LiteralEdit | RegexEdit | DiffEdit | LineRangeEdit | InsertEdit;
 
 /**
  * Tool parameters for edit_file
  */
-export interface EditFileParams {
+export interface EditFileParams extends WritePreconditions {
   /** File path to edit */
   path: string;
   
@@ -775,6 +1326,12 @@ export interface EditFileParams {
   
   /** Preserve formatting */
   preserve_formatting?: boolean;
+  
+  /** Apply a literal edit whose old_text matches exactly one place when whitespace or line endings are ignored */
+  allow_fuzzy?: boolean;
+  
+  /** Reject the edit when it would leave a JSON, YAML, TOML, XML or TS/JS file with a syntax error */
+  validate_syntax?: boolean;
 }
 
 /**
@@ -782,13 +1339,23 @@ export interface EditFileParams {
  */
 export interface EditDetails {
   edit_index: number;
-  type: 'literal' | 'regex' | 'diff';
+  type: EditOperation['type'];
   status: 'success' | 'failed' | 'multiple_matches' | 'no_match' | 'diff_conflict';
   old_text_or_pattern: string;
   new_text_or_replacement: string;
   match_count?: number;
   sample_matches?: string[];
   diff_hunks?: number;
+  /** Literal edit matched only when ignoring whitespace ('whitespace') or also line endings ('line_ending') */
+  fuzzy_match?: 'whitespace' | 'line_ending';
+  /** Three-way merge of a diff edit whose base_sha256 no longer matches the file */
+  merge?: {
+    /** 'base_unavailable': the base version is unknown (pass base_content), so the diff was not applied */
+    status: 'clean' | 'conflict' | 'base_unavailable';
+    conflicts?: MergeConflict[];
+    /** Current content with conflict markers (<<<<<<< current / ||||||| base / ======= / >>>>>>> patch) */
+    content_with_markers?: string;
+  };
 }
 
 /**
@@ -799,6 +1366,8 @@ export interface FormattingInfo {
   indent_size: number;
   line_ending: 'lf' | 'crlf';
   trailing_whitespace_removed: number;
+  /** Encoding the file was re-encoded with (reported when not UTF-8) */
+  encoding?: FileEncoding;
 }
 
 /**
@@ -806,7 +1375,7 @@ export interface FormattingInfo {
  */
 export interface EditFileResult {
   /** Operation status */
-  status: 'success' | 'warning' | 'error';
+  status: 'success' | 'warning' | 'conflict' | 'error';
   
   /** Message for dry run */
   message?: string;
@@ -843,12 +1412,21 @@ export interface EditFileResult {
   
   /** Formatting info */
   formatting_info?: FormattingInfo;
+  
+  /** Version of the edited file (omitted for dry runs and unchanged files) */
+  version?: FileVersion;
+  
+  /** Precondition failure (status 'conflict') */
+  conflict?: WriteConflict;
+  
+  /** Result of validate_syntax */
+  syntax_check?: SyntaxCheckResult;
 }
 
 /**
  * Tool parameters for move_file
  */
-export interface MoveFileParams {
+export interface MoveFileParams extends WritePreconditions {
   /** Source file path */
   source: string;
   
@@ -864,7 +1442,7 @@ export interface MoveFileParams {
  */
 export interface MoveFileResult {
   /** Operation status */
-  status: 'success' | 'warning' | 'error';
+  status: 'success' | 'warning' | 'conflict' | 'error';
   
   /** Operation information */
   operation_info: {
@@ -883,6 +1461,9 @@ export interface MoveFileResult {
     };
   };
   
+  /** Precondition failure on the source file (status 'conflict') */
+  conflict?: WriteConflict;
+  
   /** Alternative options */
   alternatives?: {
     suggestions: string[];
@@ -17,38 +17,88 @@ import { getSecurityController, SecurityControllerV2 } from './core/security-con
 import { FileAnalyzer } from './core/file-analyzer.js';
 import { readFile } from './tools/read-file.js';
 import { readFileForce } from './tools/read-file-force.js';
+import { readFiles } from './tools/read-files.js';
+import { readFileBytes } from './tools/read-file-bytes.js';
+import { listArchive } from './tools/list-archive.js';
+import { readArchiveEntry } from './tools/read-archive-entry.js';
 import { listDirectory } from './tools/list-directory.js';
 import { searchContent } from './tools/search-content.js';
 import { writeFile } from './tools/write-file.js';
 import { editFile } from './tools/edit-file.js';
+import { editFiles } from './tools/edit-files.js';
+import { applyPatch } from './tools/apply-patch.js';
 import { moveFile } from './tools/move-file.js';
 import { listAllowedDirs } from './tools/list-allowed-dirs.js';
 import { fileInfo } from './tools/file-info.js';
+import { outline } from './tools/outline.js';
+import { queryData } from './tools/query-data.js';
+import { convertEncoding } from './tools/convert-encoding.js';
+import { editNotebook } from './tools/edit-notebook.js';
 import { mkdir } from './tools/mkdir.js';
 import { deleteFile } from './tools/delete-file.js';
 import { deleteDirectory } from './tools/delete-directory.js';
 import { moveDirectory } from './tools/move-directory.js';
 import { withReadSecurity, withWriteSecurity, withDirectorySecurity, enhanceErrorWithSecurity } from './utils/security-wrapper.js';
 import { SAFETY_LIMITS } from './utils/constants.js';
+import { initializeTokenizer } from './utils/tokenizer.js';
+import { SUPPORTED_ENCODINGS } from './utils/encoding.js';
 import type { 
   ReadFileParams,
   ReadFileForceParams,
+  ReadFilesParams,
   ListDirectoryParams,
   SearchContentParams,
   WriteFileParams,
   EditFileParams,
   MoveFileParams,
   ReadFileResult,
+  ReadFilesResult,
   ListDirectoryResponse,
   SearchContentResponse,
   WriteFileResult,
   EditFileResult,
   MoveFileResult
 } from './core/types.js';
+import type {
+  ReadFileBytesParams,
+  ReadFileBytesResult
+} from './tools/read-file-bytes.js';
+import type {
+  ListArchiveParams,
+  ListArchiveResult
+} from './tools/list-archive.js';
+import type {
+  ReadArchiveEntryParams,
+  ReadArchiveEntryResult
+} from './tools/read-archive-entry.js';
 import type {
   FileInfoParams,
   FileInfoResult
 } from './tools/file-info.js';
+import type {
+  OutlineParams,
+  OutlineResult
+} from './tools/outline.js';
+import type {
+  QueryDataParams,
+  QueryDataResult
+} from './tools/query-data.js';
+import type {
+  ConvertEncodingParams,
+  ConvertEncodingResult
+} from './tools/convert-encoding.js';
+import type {
+  EditFilesParams,
+  EditFilesResult
+} from './tools/edit-files.js';
+import type {
+  ApplyPatchParams,
+  ApplyPatchResult
+} from './tools/apply-patch.js';
+import type {
+  EditNotebookParams,
+  EditNotebookResult
+} from './tools/edit-notebook.js';
 import type {
   MkdirParams,
   MkdirResult
@@ -105,7 +155,7 @@ class SmartFilesystemMCP {
       tools: [
         {
           name: 'read_file',
-          description: 'Read file contents - returns content directly or detailed error info if limits exceeded',
+          description: 'Read file contents - returns content directly or detailed error info if limits exceeded. Use start_line/end_line or offset/length to read only part of a large file, or chunk_tokens/cursor to page through it, or max_tokens for a truncated head/tail view. Use tail_lines/tail_bytes to read the end of a log and since_offset to follow it. Use table_rows on CSV/TSV files for rows plus per-column statistics. Gzip files (.gz) are decompressed transparently; limits and offsets apply to the decompressed content. Jupyter notebooks (.ipynb) are rendered as numbered cells with outputs truncated and base64 images elided',
           inputSchema: {
             type: 'object',
             properties: {
@@ -115,13 +165,106 @@ class SmartFilesystemMCP {
               },
               encoding: {
                 type: 'string',
-                enum: ['utf8', 'utf16le', 'utf16be', 'latin1', 'ascii'],
+                enum: [...SUPPORTED_ENCODINGS],
                 description: 'Text encoding (default: utf8)',
               },
+              start_line: {
+                type: 'number',
+                description: 'First line to read (1-based, inclusive)',
+                minimum: 1,
+              },
+              end_line: {
+                type: 'number',
+                description: 'Last line to read (1-based, inclusive, default: end of file)',
+                minimum: 1,
+              },
+              offset: {
+                type: 'number',
+                description: 'Byte offset to start reading from (cannot be combined with line range)',
+                minimum: 0,
+              },
+              length: {
+                type: 'number',
+                description: 'Number of bytes to read from offset (max: 1MB)',
+                minimum: 1,
+              },
+              chunk_tokens: {
+                type: 'number',
+                description: 'Read in chunks of about this many tokens; the response includes next_cursor while more content remains',
+                minimum: 1,
+                maximum: 100000,
+              },
+              cursor: {
+                type: 'string',
+                description: 'Continuation cursor (next_cursor) from the previous chunk',
+              },
+              max_tokens: {
+                type: 'number',
+                description: 'Token budget - files that do not fit return head and tail with the middle elided (cut at function boundaries for code)',
+                minimum: 100,
+              },
+              tail_lines: {
+                type: 'number',
+                description: 'Return the last N lines (reads backwards from the end, works on multi-GB logs)',
+                minimum: 1,
+                maximum: 10000,
+              },
+              tail_bytes: {
+                type: 'number',
+                description: 'Return the last N bytes',
+                minimum: 1,
+              },
+              since_offset: {
+                type: 'number',
+                description: 'Return only content appended after this byte offset (tail.end_offset from the previous call)',
+                minimum: 0,
+              },
+              table_rows: {
+                type: 'number',
+                description: 'Return the first N rows of a CSV/TSV file as a table with per-column type, null count, distinct count and min/max',
+                minimum: 1,
+                maximum: SAFETY_LIMITS.TABLE_MAX_ROWS,
+              },
+              delimiter: {
+                type: 'string',
+                description: 'Field delimiter for table_rows (default: auto-detected; use "\\t" for tab)',
+              },
+              notebook_outputs: {
+                type: 'string',
+                enum: ['truncated', 'none', 'full'],
+                description: 'Cell outputs for .ipynb notebooks: truncated (default), none (sources only) or full text outputs',
+              },
             },
             required: ['path'],
           },
         },
+        {
+          name: 'read_files',
+          description: 'Read multiple files (paths or glob patterns) in one call with a shared token budget - files that do not fit are returned as stubs with size and preview',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paths: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'File paths or glob patterns (e.g. "src/**/*.ts")',
+                minItems: 1,
+              },
+              max_tokens: {
+                type: 'number',
+                description: 'Total token budget across all files (default: 50000, max: 100000)',
+                minimum: 1,
+                maximum: 100000,
+              },
+              encoding: {
+                type: 'string',
+                enum: [...SUPPORTED_ENCODINGS],
+                description: 'Text encoding (default: utf8)',
+              },
+            },
+            required: ['paths'],
+          },
+        },
         {
           name: 'read_file_force',
           description: 'Force read file that exceeds normal limits (requires risk acknowledgment)',
@@ -144,13 +287,85 @@ class SmartFilesystemMCP {
               },
               encoding: {
                 type: 'string',
-                enum: ['utf8', 'utf16le', 'utf16be', 'latin1', 'ascii'],
+                enum: [...SUPPORTED_ENCODINGS],
                 description: 'Text encoding (default: utf8)',
               },
             },
             required: ['path', 'acknowledge_risk'],
           },
         },
+        {
+          name: 'read_file_bytes',
+          description: 'Read a byte range of any file (including binaries) as hex, base64 or a hex+ASCII dump, with the file type identified from magic bytes',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'File path to read',
+              },
+              offset: {
+                type: 'number',
+                description: 'Byte offset to start from; negative values count from the end of the file (default: 0)',
+              },
+              length: {
+                type: 'number',
+                description: `Number of bytes to read (default: ${SAFETY_LIMITS.READ_BYTES_DEFAULT_LENGTH}, max: ${SAFETY_LIMITS.READ_BYTES_MAX_LENGTH})`,
+                minimum: 1,
+                maximum: SAFETY_LIMITS.READ_BYTES_MAX_LENGTH,
+              },
+              format: {
+                type: 'string',
+                enum: ['hex', 'base64', 'dump'],
+                description: 'Output format (default: hex)',
+              },
+            },
+            required: ['path'],
+          },
+        },
+        {
+          name: 'list_archive',
+          description: 'List the entries of a .zip, .tar, .tar.gz or .tgz archive with sizes and modification times',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Archive file path',
+              },
+              max_entries: {
+                type: 'number',
+                description: `Maximum entries to return (default: ${SAFETY_LIMITS.ARCHIVE_LIST_DEFAULT_ENTRIES})`,
+                minimum: 1,
+                maximum: SAFETY_LIMITS.ARCHIVE_LIST_MAX_ENTRIES,
+              },
+            },
+            required: ['path'],
+          },
+        },
+        {
+          name: 'read_archive_entry',
+          description: 'Read one text entry from a .zip, .tar, .tar.gz or .tgz archive without extracting it - same size and token limits as read_file',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Archive file path',
+              },
+              entry: {
+                type: 'string',
+                description: 'Entry name as shown by list_archive (e.g. package/README.md)',
+              },
+              encoding: {
+                type: 'string',
+                enum: [...SUPPORTED_ENCODINGS],
+                description: 'Text encoding (default: auto-detected)',
+              },
+            },
+            required: ['path', 'entry'],
+          },
+        },
         {
           name: 'list_directory',
           description: 'List directory contents with file details and subdirectory summaries',
@@ -181,7 +396,7 @@ class SmartFilesystemMCP {
         },
         {
           name: 'search_content',
-          description: 'Search for files by name or content using regex patterns (grep-like tool)',
+          description: 'Search for files by name or content using regex patterns (grep-like tool). Gzip files (.gz) are searched after decompression',
           inputSchema: {
             type: 'object',
             properties: {
@@ -245,7 +460,7 @@ class SmartFilesystemMCP {
         },
         {
           name: 'write_file',
-          description: 'Write content to a file (overwrites existing files)',
+          description: 'Write content to a file (overwrites existing files atomically by default; mode appends, prepends, inserts at a line or creates only if missing). Pass expected_sha256 to avoid overwriting changes made since you read the file',
           inputSchema: {
             type: 'object',
             properties: {
@@ -259,8 +474,47 @@ class SmartFilesystemMCP {
               },
               encoding: {
                 type: 'string',
-                enum: ['utf8', 'utf16le', 'utf16be', 'latin1', 'ascii'],
-                description: 'Text encoding (default: utf8)',
+                enum: [...SUPPORTED_ENCODINGS],
+                description: 'Text encoding (default: the existing file\'s detected encoding, otherwise utf8)',
+              },
+              mode: {
+                type: 'string',
+                enum: ['overwrite', 'append', 'prepend', 'insert_at_line', 'create_only'],
+                description: 'overwrite (default) replaces the file; append adds to the end without reading the file; prepend adds to the start; insert_at_line inserts before line; create_only fails if the file already exists',
+              },
+              line: {
+                type: 'number',
+                minimum: 1,
+                description: '1-based line the content is inserted before (required for insert_at_line; line count + 1 inserts at the end)',
+              },
+              preserve_formatting: {
+                type: 'boolean',
+                description: "Keep the existing file's encoding, line endings, BOM and final newline (default: true) - changes are reported in format_info",
+              },
+              line_ending: {
+                type: 'string',
+                enum: ['lf', 'crlf'],
+                description: "Line endings to write (overrides the existing file's)",
+              },
+              bom: {
+                type: 'boolean',
+                description: "Write a BOM (overrides the existing file's; overwrite and create_only only)",
+              },
+              final_newline: {
+                type: 'boolean',
+                description: "End the content with a newline (overrides the existing file's; overwrite and create_only only)",
+              },
+              validate_syntax: {
+                type: 'boolean',
+                description: 'Parse the resulting .json/.yaml/.toml/.xml file (brackets and strings for .ts/.js) and refuse the write if it introduces a syntax error - returns status error with the error line, column and surrounding lines in syntax_check (default: false)',
+              },
+              expected_sha256: {
+                type: 'string',
+                description: 'Only write if the file still has this SHA-256 (from file_info or a previous write) - otherwise returns status conflict with a diff against the current content',
+              },
+              expected_mtime: {
+                type: ['string', 'number'],
+                description: 'Only write if the file still has this modification time (ISO 8601 such as file_info modified, or epoch milliseconds)',
               },
             },
             required: ['path', 'content'],
@@ -268,7 +522,7 @@ class SmartFilesystemMCP {
         },
         {
           name: 'edit_file',
-          description: 'Edit file content using literal or regex replacements',
+          description: 'Edit file content using literal or regex replacements, line ranges (from line numbers of a previous read), inserts next to an anchor line or unified diffs (three-way merged when the file changed since the diff base)',
           inputSchema: {
             type: 'object',
             properties: {
@@ -300,6 +554,38 @@ class SmartFilesystemMCP {
                       },
                       required: ['type', 'pattern', 'replacement'],
                     },
+                    {
+                      type: 'object',
+                      properties: {
+                        type: { const: 'line_range' },
+                        start_line: { type: 'number', minimum: 1, description: 'First line to replace (1-based)' },
+                        end_line: { type: 'number', minimum: 1, description: 'Last line to replace (inclusive)' },
+                        new_text: { type: 'string', description: 'Replacement lines (empty string deletes the range)' },
+                        expected_text: { type: 'string', description: 'Current text of the lines - the edit fails if they differ (guards against stale line numbers)' },
+                      },
+                      required: ['type', 'start_line', 'end_line', 'new_text'],
+                    },
+                    {
+                      type: 'object',
+                      properties: {
+                        type: { const: 'insert' },
+                        anchor: { type: 'string', description: 'Text contained in the anchor line' },
+                        anchor_regex: { type: 'boolean', description: 'Treat anchor as a regular expression' },
+                        position: { type: 'string', enum: ['before', 'after'], description: 'Insert before or after the anchor line (default: after)' },
+                        new_text: { type: 'string', description: 'Lines to insert' },
+                      },
+                      required: ['type', 'anchor', 'new_text'],
+                    },
+                    {
+                      type: 'object',
+                      properties: {
+                        type: { const: 'diff' },
+                        diff_content: { type: 'string', description: 'Unified diff of this file (--- / +++ headers optional, hunks start with @@)' },
+                        base_sha256: { type: 'string', description: 'SHA-256 of the content the diff was made against (from file_info or a previous write). If the file changed since, the diff is three-way merged: a clean merge is applied, overlapping changes give the edit status diff_conflict with merge.conflicts and merge.content_with_markers and the call fails without changing the file' },
+                        base_content: { type: 'string', description: 'Content the diff was made against (must hash to base_sha256). Used as the merge base when the server no longer has that version; without it the edit is a diff_conflict with merge.status base_unavailable' },
+                      },
+                      required: ['type', 'diff_content'],
+                    },
                   ],
                 },
               },
@@ -307,10 +593,94 @@ class SmartFilesystemMCP {
                 type: 'boolean',
                 description: 'Preview changes without applying (only useful for regex edits)',
               },
+              allow_fuzzy: {
+                type: 'boolean',
+                description: 'Apply a literal edit whose old_text is not found exactly but matches exactly one place when whitespace, indentation or line endings are ignored (default: false). Without it such edits return no_match with the fuzzy or closest matches in sample_matches',
+              },
+              validate_syntax: {
+                type: 'boolean',
+                description: 'Parse the edited .json/.yaml/.toml/.xml file (brackets and strings for .ts/.js) and leave the file unchanged if the edit introduces a syntax error - returns status error with the error line, column and surrounding lines in syntax_check (default: false)',
+              },
+              expected_sha256: {
+                type: 'string',
+                description: 'Only edit if the file still has this SHA-256 (from file_info or a previous write) - otherwise returns status conflict with a diff against the current content',
+              },
+              expected_mtime: {
+                type: ['string', 'number'],
+                description: 'Only edit if the file still has this modification time (ISO 8601 such as file_info modified, or epoch milliseconds)',
+              },
             },
             required: ['path', 'edits'],
           },
         },
+        {
+          name: 'edit_files',
+          description: 'Edit several files as one transaction: every file is validated and dry-run first, then all are written or none. Returns a combined diff',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              files: {
+                type: 'array',
+                description: `Files to edit (max ${SAFETY_LIMITS.EDIT_FILES_MAX_FILES}, each path once)`,
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string', description: 'File path to edit' },
+                    edits: {
+                      type: 'array',
+                      description: 'Edit operations, same format as edit_file (literal, regex, diff, line_range, insert)',
+                      items: { type: 'object' },
+                    },
+                    preserve_formatting: { type: 'boolean', description: 'Preserve formatting (default: true)' },
+                    allow_fuzzy: { type: 'boolean', description: 'Apply literal edits that match once when whitespace or line endings are ignored (default: false)' },
+                    validate_syntax: { type: 'boolean', description: 'Fail the transaction if the edit introduces a syntax error in a .json/.yaml/.toml/.xml/.ts/.js file (default: false)' },
+                    expected_sha256: { type: 'string', description: 'Only edit if the file still has this SHA-256' },
+                    expected_mtime: { type: ['string', 'number'], description: 'Only edit if the file still has this modification time' },
+                  },
+                  required: ['path', 'edits'],
+                },
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Validate every file and return the combined diff without writing',
+              },
+            },
+            required: ['files'],
+          },
+        },
+        {
+          name: 'apply_patch',
+          description: 'Apply a multi-file git-style patch (git diff / format-patch output) including new, deleted and renamed files and mode changes. Hunks may be offset or ignore a few context lines (fuzz); if any hunk fails nothing is changed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              patch: {
+                type: 'string',
+                description: 'Patch text with diff --git headers (plain unified diffs with ---/+++ also work)',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Only check that the patch applies and report per-hunk status (like git apply --check)',
+              },
+              strip: {
+                type: 'number',
+                minimum: 0,
+                description: 'Leading path components to remove from file names (default: 1 for a/ and b/ prefixes; 0 for plain paths)',
+              },
+              fuzz: {
+                type: 'number',
+                minimum: 0,
+                maximum: SAFETY_LIMITS.PATCH_MAX_FUZZ,
+                description: `Context lines at the start and end of a hunk that may be ignored when it does not match (default: ${SAFETY_LIMITS.PATCH_DEFAULT_FUZZ}, 0 requires exact context)`,
+              },
+              base_dir: {
+                type: 'string',
+                description: 'Directory the patch paths are relative to (default: server working directory)',
+              },
+            },
+            required: ['patch'],
+          },
+        },
         {
           name: 'move_file',
           description: 'Move or rename a file',
@@ -329,6 +699,14 @@ class SmartFilesystemMCP {
                 type: 'boolean',
                 description: 'Overwrite if destination exists (default: false)',
               },
+              expected_sha256: {
+                type: 'string',
+                description: 'Only move if the source file still has this SHA-256 (from file_info or a previous write) - otherwise returns status conflict',
+              },
+              expected_mtime: {
+                type: ['string', 'number'],
+                description: 'Only move if the source file still has this modification time (ISO 8601 such as file_info modified, or epoch milliseconds)',
+              },
             },
             required: ['source', 'destination'],
           },
@@ -343,7 +721,7 @@ class SmartFilesystemMCP {
         },
         {
           name: 'file_info',
-          description: 'Get detailed information about a file or directory',
+          description: 'Get detailed information about a file or directory, including the sha256 used by expected_sha256. Images, audio and video include media metadata (dimensions, color depth, EXIF orientation, duration, codec)',
           inputSchema: {
             type: 'object',
             properties: {
@@ -359,6 +737,118 @@ class SmartFilesystemMCP {
             required: ['path'],
           },
         },
+        {
+          name: 'outline',
+          description: 'Get the structure of a code file (classes, functions, interfaces, methods, Markdown headings) with start/end lines - read only the part you need with read_file start_line/end_line',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'File path (TypeScript, JavaScript, Python, Go, Rust, Java, Markdown)',
+              },
+            },
+            required: ['path'],
+          },
+        },
+        {
+          name: 'query_data',
+          description: 'Return only the selected part of a JSON, JSONC or YAML file (e.g. dependencies.express, items[3].name, packages["node_modules/express"]) - large arrays are truncated to fit the token budget',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'File path (.json, .jsonc, .yaml, .yml)',
+              },
+              query: {
+                type: 'string',
+                description: 'Dotted or JSONPath-style path; supports [index], [-1], ["quoted.key"] and * wildcards (default: $ for the whole document)',
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'jsonc', 'yaml'],
+                description: 'Data format for files with non-standard extensions (default: from extension)',
+              },
+              max_items: {
+                type: 'number',
+                description: `Maximum items shown per array (default: ${SAFETY_LIMITS.QUERY_DATA_DEFAULT_ITEMS})`,
+                minimum: 1,
+              },
+              max_tokens: {
+                type: 'number',
+                description: `Token budget for the result (default: ${SAFETY_LIMITS.QUERY_DATA_DEFAULT_TOKENS})`,
+                minimum: 100,
+                maximum: SAFETY_LIMITS.QUERY_DATA_MAX_TOKENS,
+              },
+            },
+            required: ['path'],
+          },
+        },
+        {
+          name: 'convert_encoding',
+          description: 'Convert a text file between encodings (e.g. Shift_JIS to UTF-8). Use dry_run to check the decoded preview and unmappable characters first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'File path to convert',
+              },
+              to_encoding: {
+                type: 'string',
+                enum: [...SUPPORTED_ENCODINGS],
+                description: 'Target encoding',
+              },
+              from_encoding: {
+                type: 'string',
+                enum: [...SUPPORTED_ENCODINGS],
+                description: 'Source encoding (default: auto-detected)',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Preview the conversion without writing (default: false)',
+              },
+            },
+            required: ['path', 'to_encoding'],
+          },
+        },
+        {
+          name: 'edit_notebook',
+          description: 'Edit a Jupyter notebook (.ipynb) by cell index: replace a cell source or type, insert a new cell, or delete a cell. Notebook metadata and JSON formatting are preserved, and outputs of a changed code cell are cleared',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Notebook file path',
+              },
+              operation: {
+                type: 'string',
+                enum: ['replace', 'insert', 'delete'],
+                description: 'Cell operation',
+              },
+              cell_index: {
+                type: 'number',
+                description: '0-based cell index as shown by read_file (insert places the new cell at this index; use the cell count to append)',
+              },
+              source: {
+                type: 'string',
+                description: 'New cell source (required for insert)',
+              },
+              cell_type: {
+                type: 'string',
+                enum: ['code', 'markdown', 'raw'],
+                description: 'Cell type for insert (default: code) or to convert a cell on replace',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Validate the edit without writing (default: false)',
+              },
+            },
+            required: ['path', 'operation', 'cell_index'],
+          },
+        },
         {
           name: 'mkdir',
           description: 'Create a new directory with optional parent directories',
@@ -395,6 +885,14 @@ class SmartFilesystemMCP {
                 type: 'boolean',
                 description: 'Force deletion of read-only files (default: false)',
               },
+              expected_sha256: {
+                type: 'string',
+                description: 'Only delete if the file still has this SHA-256 (from file_info or a previous write) - otherwise returns status conflict',
+              },
+              expected_mtime: {
+                type: ['string', 'number'],
+                description: 'Only delete if the file still has this modification time (ISO 8601 such as file_info modified, or epoch milliseconds)',
+              },
             },
             required: ['path'],
           },
@@ -467,9 +965,21 @@ class SmartFilesystemMCP {
           case 'read_file':
             return await this.handleReadFile(args as ReadFileParams);
             
+          case 'read_files':
+            return await this.handleReadFiles(args as unknown as ReadFilesParams);
+          
           case 'read_file_force':
             return await this.handleReadFileForce(args as ReadFileForceParams);
           
+          case 'read_file_bytes':
+            return await this.handleReadFileBytes(args as unknown as ReadFileBytesParams);
+          
+          case 'list_archive':
+            return await this.handleListArchive(args as unknown as ListArchiveParams);
+          
+          case 'read_archive_entry':
+            return await this.handleReadArchiveEntry(args as unknown as ReadArchiveEntryParams);
+          
           case 'list_directory':
             return await this.handleListDirectory(args as ListDirectoryParams);
           
@@ -482,6 +992,12 @@ class SmartFilesystemMCP {
           case 'edit_file':
             return await this.handleEditFile(args as EditFileParams);
           
+          case 'edit_files':
+            return await this.handleEditFiles(args as unknown as EditFilesParams);
+          
+          case 'apply_patch':
+            return await this.handleApplyPatch(args as unknown as ApplyPatchParams);
+          
           case 'move_file':
             return await this.handleMoveFile(args as MoveFileParams);
           
@@ -491,6 +1007,18 @@ class SmartFilesystemMCP {
           case 'file_info':
             return await this.handleFileInfo(args as FileInfoParams);
           
+          case 'outline':
+            return await this.handleOutline(args as unknown as OutlineParams);
+          
+          case 'query_data':
+            return await this.handleQueryData(args as unknown as QueryDataParams);
+          
+          case 'convert_encoding':
+            return await this.handleConvertEncoding(args as unknown as ConvertEncodingParams);
+          
+          case 'edit_notebook':
+            return await this.handleEditNotebook(args as unknown as EditNotebookParams);
+          
           case 'mkdir':
             return await this.handleMkdir(args as MkdirParams);
           
@@ -559,6 +1087,29 @@ class SmartFilesystemMCP {
     }
   }
   
+  /**
+   * Handle read_files tool
+   */
+  private async handleReadFiles(params: ReadFilesParams): Promise<{ content: ReadFilesResult[] }> {
+    try {
+      if (!Array.isArray(params.paths) || params.paths.length === 0) {
+        throw new Error('At least one path is required');
+      }
+      
+      // Security checks are applied per file inside readFiles
+      const result = await readFiles(params, this.safety, this.analyzer);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Batch read failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+  
   /**
    * Handle read_file_force tool
    */
@@ -590,6 +1141,72 @@ class SmartFilesystemMCP {
     }
   }
 
+  /**
+   * Handle read_file_bytes tool
+   */
+  private async handleReadFileBytes(params: ReadFileBytesParams): Promise<{ content: ReadFileBytesResult[] }> {
+    try {
+      if (!params.path) {
+        throw new Error('File path is required');
+      }
+      
+      const result = await readFileBytes(params);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Read bytes failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Handle list_archive tool
+   */
+  private async handleListArchive(params: ListArchiveParams): Promise<{ content: ListArchiveResult[] }> {
+    try {
+      if (!params.path) {
+        throw new Error('File path is required');
+      }
+      
+      const result = await listArchive(params);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `List archive failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Handle read_archive_entry tool
+   */
+  private async handleReadArchiveEntry(params: ReadArchiveEntryParams): Promise<{ content: ReadArchiveEntryResult[] }> {
+    try {
+      if (!params.path || !params.entry) {
+        throw new Error('Archive path and entry are required');
+      }
+      
+      const result = await readArchiveEntry(params, this.safety, this.analyzer);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Read archive entry failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Handle list_directory tool
    */
@@ -660,7 +1277,7 @@ class SmartFilesystemMCP {
       // Apply security check
       const result = await withWriteSecurity(
         params,
-        async (securedParams) => writeFile(securedParams, this.safety),
+        async (securedParams) => writeFile(securedParams, this.safety, this.analyzer),
         this.safety
       );
       
@@ -707,6 +1324,52 @@ class SmartFilesystemMCP {
     }
   }
 
+  /**
+   * Handle edit_files tool
+   */
+  private async handleEditFiles(params: EditFilesParams): Promise<{ content: EditFilesResult[] }> {
+    try {
+      if (!Array.isArray(params.files) || params.files.length === 0) {
+        throw new Error('At least one file is required');
+      }
+      
+      // Security checks are applied per file inside editFiles
+      const result = await editFiles(params, this.safety, this.analyzer);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Edit files failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Handle apply_patch tool
+   */
+  private async handleApplyPatch(params: ApplyPatchParams): Promise<{ content: ApplyPatchResult[] }> {
+    try {
+      if (!params.patch) {
+        throw new Error('Patch is required');
+      }
+      
+      // Security checks are applied per file inside applyPatch
+      const result = await applyPatch(params, this.analyzer);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Apply patch failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Handle move_file tool
    */
@@ -778,6 +1441,94 @@ class SmartFilesystemMCP {
     }
   }
 
+  /**
+   * Handle outline tool
+   */
+  private async handleOutline(params: OutlineParams): Promise<{ content: OutlineResult[] }> {
+    try {
+      if (!params.path) {
+        throw new Error('File path is required');
+      }
+      
+      const result = await outline(params, this.analyzer);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Outline failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Handle query_data tool
+   */
+  private async handleQueryData(params: QueryDataParams): Promise<{ content: QueryDataResult[] }> {
+    try {
+      if (!params.path) {
+        throw new Error('File path is required');
+      }
+      
+      const result = await queryData(params, this.analyzer);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Query data failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Handle convert_encoding tool
+   */
+  private async handleConvertEncoding(params: ConvertEncodingParams): Promise<{ content: ConvertEncodingResult[] }> {
+    try {
+      if (!params.path || !params.to_encoding) {
+        throw new Error('path and to_encoding are required');
+      }
+      
+      const result = await convertEncoding(params, this.analyzer);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Convert encoding failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Handle edit_notebook tool
+   */
+  private async handleEditNotebook(params: EditNotebookParams): Promise<{ content: EditNotebookResult[] }> {
+    try {
+      if (!params.path || !params.operation || params.cell_index === undefined) {
+        throw new Error('path, operation and cell_index are required');
+      }
+      
+      const result = await editNotebook(params);
+      
+      return {
+        content: [result],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Edit notebook failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Handle mkdir tool
    */
@@ -874,6 +1625,9 @@ class SmartFilesystemMCP {
    * Start the server
    */
   async start(): Promise<void> {
+    // Load the tokenizer vocabulary before serving requests
+    const tokenizer = await initializeTokenizer(process.env.SMART_FS_TOKENIZER || undefined);
+    
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     
@@ -882,6 +1636,7 @@ class SmartFilesystemMCP {
     console.error('Smart Filesystem MCP Server started');
     console.error(`Safety limits: Max file ${SAFETY_LIMITS.MAX_FILE_SIZE} bytes, Max scan ${SAFETY_LIMITS.MAX_DIRECTORY_SCAN} files`);
     console.error(`Allowed directories: ${allowedDirs.length > 0 ? allowedDirs.join(', ') : 'Current directory only'}`);
+    console.error(`Tokenizer: ${tokenizer.name}`);
   }
 }
 
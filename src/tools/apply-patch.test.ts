@@ -0,0 +1,74 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { applyPatch } from './apply-patch.js';
+
+describe('applyPatch', () => {
+  let dir: string;
+  const analyzer = new FileAnalyzer();
+
+  const modify = (file: string, before: string, after: string) => [
+    `diff --git a/${file} b/${file}`,
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    '@@ -1,3 +1,3 @@',
+    ' first',
+    `-${before}`,
+    `+${after}`,
+    ' last'
+  ].join('\n');
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'apply-patch-')));
+    initializeSecurityController([dir]);
+  });
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'first\nalpha\nlast\n');
+    await fs.writeFile(path.join(dir, 'b.txt'), 'first\nbeta\nlast\n');
+    await fs.rm(path.join(dir, 'c.txt'), { force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('applies changes to several files and creates new ones', async () => {
+    const patch = [
+      modify('a.txt', 'alpha', 'ALPHA'),
+      modify('b.txt', 'beta', 'BETA'),
+      'diff --git a/c.txt b/c.txt',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/c.txt',
+      '@@ -0,0 +1 @@',
+      '+gamma',
+      ''
+    ].join('\n');
+    const result = await applyPatch({ patch, base_dir: dir }, analyzer);
+
+    expect(result).toMatchObject({ status: 'success', applied: true });
+    expect(result.summary).toMatchObject({ total_files: 3, hunks_applied: 3, hunks_failed: 0 });
+    expect(await fs.readFile(path.join(dir, 'a.txt'), 'utf8')).toBe('first\nALPHA\nlast\n');
+    expect(await fs.readFile(path.join(dir, 'b.txt'), 'utf8')).toBe('first\nBETA\nlast\n');
+    expect(await fs.readFile(path.join(dir, 'c.txt'), 'utf8')).toBe('gamma\n');
+  });
+
+  test('changes no file when one hunk does not apply', async () => {
+    const patch = `${modify('a.txt', 'alpha', 'ALPHA')}\n${modify('b.txt', 'not beta', 'BETA')}\n`;
+    const result = await applyPatch({ patch, base_dir: dir }, analyzer);
+
+    expect(result).toMatchObject({ status: 'error', applied: false });
+    expect(result.issue_details?.failed_files).toEqual(['b.txt']);
+    expect(await fs.readFile(path.join(dir, 'a.txt'), 'utf8')).toBe('first\nalpha\nlast\n');
+  });
+
+  test('checks without writing on a dry run', async () => {
+    const result = await applyPatch({ patch: modify('a.txt', 'alpha', 'ALPHA'), base_dir: dir, dry_run: true }, analyzer);
+
+    expect(result).toMatchObject({ status: 'success', applied: false, dry_run: true });
+    expect(await fs.readFile(path.join(dir, 'a.txt'), 'utf8')).toBe('first\nalpha\nlast\n');
+  });
+});
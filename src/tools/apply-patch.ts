@@ -0,0 +1,464 @@
+/**
+ * Smart Filesystem MCP - Apply Patch Tool
+ * 複数ファイルの Git 形式パッチを適用するツール（新規・削除・リネーム・モード変更対応、全ファイルを事前検証し全て適用するか何も適用しない）
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { formatBytes } from '../utils/helpers.js';
+import { decodeBuffer, encodeString, isSupportedEncoding } from '../utils/encoding.js';
+import { createFileAtomic, writeFileAtomic } from '../utils/atomic-write.js';
+import { applyHunks, parsePatch } from '../utils/patch.js';
+import type { FilePatch, HunkApplyResult } from '../utils/patch.js';
+import type { FileVersion } from '../core/types.js';
+
+/**
+ * apply_patchパラメータ
+ */
+export interface ApplyPatchParams {
+  /** diff --git 形式（または通常の unified diff）のパッチ */
+  patch: string;
+  /** 検証のみ（git apply --check と同じ） */
+  dry_run?: boolean;
+  /** パスから除く先頭のディレクトリ数（デフォルト: 1、a/ b/ を除く） */
+  strip?: number;
+  /** hunk が無視してよい前後のコンテキスト行数（デフォルト: 2） */
+  fuzz?: number;
+  /** パッチのパスの基準ディレクトリ（デフォルト: カレントディレクトリ） */
+  base_dir?: string;
+}
+
+/**
+ * ファイルごとの結果
+ */
+export interface ApplyPatchFileResult {
+  /** 変更後のパス（削除は削除したパス） */
+  path: string;
+  /** rename / copy の元のパス */
+  old_path?: string;
+  operation: FilePatch['operation'];
+  status: 'success' | 'warning' | 'error';
+  hunks: HunkApplyResult[];
+  lines_added: number;
+  lines_removed: number;
+  mode_change?: {
+    old_mode?: string;
+    new_mode: string;
+  };
+  version?: FileVersion;
+  reason?: string;
+}
+
+/**
+ * apply_patch結果
+ */
+export interface ApplyPatchResult {
+  status: 'success' | 'warning' | 'error';
+  /** 全ファイルに適用したか（dry_run・失敗時は false） */
+  applied: boolean;
+  dry_run: boolean;
+  summary: {
+    total_files: number;
+    total_hunks: number;
+    hunks_applied: number;
+    hunks_failed: number;
+    lines_added: number;
+    lines_removed: number;
+  };
+  files: ApplyPatchFileResult[];
+  issue_details?: {
+    reason: string;
+    failed_files?: string[];
+    rolled_back_files?: string[];
+    rollback_errors?: string[];
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+/**
+ * 書き込み前に計算したファイルごとの変更
+ */
+interface PlannedChange {
+  entry: ApplyPatchFileResult;
+  patch: FilePatch;
+  /** 変更前のファイル（新規ファイルは undefined） */
+  source?: string;
+  /** 変更後のファイル（削除は undefined） */
+  target?: string;
+  original?: Buffer;
+  originalMode?: number;
+  output?: Buffer;
+  mode?: number;
+}
+
+/**
+ * パッチを適用
+ */
+export async function applyPatch(params: ApplyPatchParams, analyzer: FileAnalyzer): Promise<ApplyPatchResult> {
+  const dryRun = params.dry_run ?? false;
+  const strip = params.strip ?? 1;
+  const fuzz = params.fuzz ?? SAFETY_LIMITS.PATCH_DEFAULT_FUZZ;
+  const baseDir = path.resolve(params.base_dir ?? process.cwd());
+
+  const result: ApplyPatchResult = {
+    status: 'success',
+    applied: false,
+    dry_run: dryRun,
+    summary: {
+      total_files: 0,
+      total_hunks: 0,
+      hunks_applied: 0,
+      hunks_failed: 0,
+      lines_added: 0,
+      lines_removed: 0
+    },
+    files: []
+  };
+  const fail = (
+    reason: string,
+    suggestions: string[],
+    details: Omit<NonNullable<ApplyPatchResult['issue_details']>, 'reason'> = {}
+  ): ApplyPatchResult => {
+    result.status = 'error';
+    result.applied = false;
+    result.issue_details = { reason, ...details };
+    result.alternatives = { suggestions };
+    return result;
+  };
+
+  // パラメータ検証
+  if (typeof params.patch !== 'string' || params.patch.trim() === '') {
+    return fail('patch is required', ['Pass the output of git diff or git format-patch as patch']);
+  }
+  if (Buffer.byteLength(params.patch) > SAFETY_LIMITS.PATCH_MAX_SIZE) {
+    return fail(`Patch too large (${formatBytes(Buffer.byteLength(params.patch))} > ${formatBytes(SAFETY_LIMITS.PATCH_MAX_SIZE)})`, [
+      'Split the patch into several apply_patch calls'
+    ]);
+  }
+  if (!Number.isInteger(strip) || strip < 0) {
+    return fail('strip must be a non-negative integer', ['Use strip: 1 for a/ b/ prefixes (git diff) and strip: 0 for plain paths']);
+  }
+  if (!Number.isInteger(fuzz) || fuzz < 0 || fuzz > SAFETY_LIMITS.PATCH_MAX_FUZZ) {
+    return fail(`fuzz must be an integer between 0 and ${SAFETY_LIMITS.PATCH_MAX_FUZZ}`, ['Use fuzz: 0 to require every context line to match']);
+  }
+
+  let patches: FilePatch[];
+  try {
+    patches = parsePatch(params.patch, strip);
+  } catch (error) {
+    return fail(`Invalid patch: ${error instanceof Error ? error.message : String(error)}`, [
+      'Check that hunk headers (@@ -a,b +c,d @@) match the number of lines in each hunk',
+      'Pass the patch unmodified - trailing whitespace on context lines is significant'
+    ]);
+  }
+  if (patches.length > SAFETY_LIMITS.PATCH_MAX_FILES) {
+    return fail(`Too many files in patch (${patches.length} > ${SAFETY_LIMITS.PATCH_MAX_FILES})`, [
+      'Split the patch into several apply_patch calls'
+    ]);
+  }
+  result.summary.total_files = patches.length;
+
+  // 1. 全ファイルを検証し、書き込まずに変更後の内容を計算
+  const planned: PlannedChange[] = [];
+  const touched = new Set<string>();
+  const failedFiles: string[] = [];
+
+  for (const patch of patches) {
+    const added = patch.hunks.reduce((sum, hunk) => sum + hunk.lines.filter(line => line.op === '+').length, 0);
+    const removed = patch.hunks.reduce((sum, hunk) => sum + hunk.lines.filter(line => line.op === '-').length, 0);
+    const entry: ApplyPatchFileResult = {
+      path: (patch.new_path ?? patch.old_path) as string,
+      ...((patch.operation === 'rename' || patch.operation === 'copy') && { old_path: patch.old_path as string }),
+      operation: patch.operation,
+      status: 'success',
+      hunks: [],
+      lines_added: added,
+      lines_removed: removed,
+      ...(patch.new_mode && patch.operation !== 'add' && patch.new_mode !== patch.old_mode && {
+        mode_change: { ...(patch.old_mode && { old_mode: patch.old_mode }), new_mode: patch.new_mode }
+      })
+    };
+    result.summary.total_hunks += patch.hunks.length;
+
+    try {
+      planned.push(await planChange(patch, entry, baseDir, fuzz, touched, analyzer));
+      if (entry.status === 'error') {
+        failedFiles.push(entry.path);
+      }
+    } catch (error) {
+      entry.status = 'error';
+      entry.reason = error instanceof Error ? error.message : String(error);
+      planned.push({ entry, patch });
+      failedFiles.push(entry.path);
+    }
+  }
+
+  result.files = planned.map(({ entry }) => entry);
+  for (const entry of result.files) {
+    result.summary.hunks_applied += entry.hunks.filter(hunk => hunk.status !== 'failed').length;
+    result.summary.hunks_failed += entry.hunks.filter(hunk => hunk.status === 'failed').length;
+    result.summary.lines_added += entry.lines_added;
+    result.summary.lines_removed += entry.lines_removed;
+  }
+  if (result.files.some(entry => entry.status === 'warning')) {
+    result.status = 'warning';
+  }
+
+  // 2. 1ファイルでも失敗があれば何も書き込まない
+  if (failedFiles.length > 0) {
+    const alreadyApplied = result.files.some(entry =>
+      entry.hunks.some(hunk => hunk.reason === 'Changes appear to be already applied')
+    );
+    return fail(
+      `${failedFiles.length} of ${patches.length} files could not be patched - no files were changed`,
+      [
+        'Check reason and the failed hunks of the listed files',
+        alreadyApplied
+          ? 'Some hunks are already applied - remove them from the patch or skip the file'
+          : 'Re-read the files and regenerate the patch against their current content',
+        fuzz < SAFETY_LIMITS.PATCH_MAX_FUZZ
+          ? `Retry with a higher fuzz (up to ${SAFETY_LIMITS.PATCH_MAX_FUZZ}) if only surrounding context changed`
+          : 'Use edit_file for changes whose context no longer matches'
+      ],
+      { failed_files: failedFiles }
+    );
+  }
+
+  if (dryRun) {
+    return result;
+  }
+
+  // 3. 書き込み（途中で失敗した場合は適用済みの変更を逆順に戻す）
+  const undo: Array<{ path: string; run: () => Promise<void> }> = [];
+  try {
+    for (const change of planned) {
+      await writeChange(change, undo);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const rollbackErrors: string[] = [];
+    const rolledBack = new Set<string>();
+
+    for (const step of undo.reverse()) {
+      rolledBack.add(step.path);
+      try {
+        await step.run();
+      } catch (rollbackError) {
+        rollbackErrors.push(`${step.path}: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+      }
+    }
+    for (const entry of result.files) {
+      delete entry.version;
+    }
+
+    return fail(
+      `Write failed (${message}) - ${rolledBack.size} already changed files were restored`,
+      rollbackErrors.length > 0
+        ? ['Some files could not be restored - check rollback_errors and fix them manually']
+        : ['Check permissions and free disk space for the listed files, then retry'],
+      {
+        rolled_back_files: [...rolledBack],
+        ...(rollbackErrors.length > 0 && { rollback_errors: rollbackErrors })
+      }
+    );
+  }
+
+  result.applied = true;
+  return result;
+}
+
+/**
+ * 1ファイル分の変更を検証して計算（hunk が適用できない場合は entry.status を error にする）
+ */
+async function planChange(
+  patch: FilePatch,
+  entry: ApplyPatchFileResult,
+  baseDir: string,
+  fuzz: number,
+  touched: Set<string>,
+  analyzer: FileAnalyzer
+): Promise<PlannedChange> {
+  const security = getSecurityController();
+  const change: PlannedChange = { entry, patch };
+
+  if (patch.binary) {
+    throw new Error('Binary patches are not supported');
+  }
+
+  const claim = (resolvedPath: string): void => {
+    if (touched.has(resolvedPath)) {
+      throw new Error(`${resolvedPath} is changed more than once in the patch`);
+    }
+    touched.add(resolvedPath);
+  };
+
+  // 変更前のファイル
+  if (patch.operation !== 'add') {
+    const operation = patch.operation === 'copy' ? 'read' : patch.operation === 'modify' ? 'write' : 'delete';
+    const validation = await security.validateAccess(path.resolve(baseDir, patch.old_path as string), operation);
+    if (!validation.allowed) {
+      throw new Error(validation.reason || 'Access denied');
+    }
+    change.source = validation.resolved_path;
+    if (patch.operation !== 'copy') {
+      claim(change.source);
+    }
+
+    const stats = await fs.stat(change.source).catch(() => null);
+    if (!stats || !stats.isFile()) {
+      throw new Error(`${patch.old_path} does not exist`);
+    }
+    if (stats.size > SAFETY_LIMITS.EDIT_MAX_FILE_SIZE) {
+      throw new Error(`File too large for patching (${formatBytes(stats.size)} > ${formatBytes(SAFETY_LIMITS.EDIT_MAX_FILE_SIZE)})`);
+    }
+    change.original = await fs.readFile(change.source);
+    change.originalMode = stats.mode & 0o7777;
+  }
+
+  // 変更後のファイル（rename・copy・新規は存在しないこと）
+  if (patch.operation === 'add' || patch.operation === 'rename' || patch.operation === 'copy') {
+    const validation = await security.validateAccess(path.resolve(baseDir, patch.new_path as string), 'write');
+    if (!validation.allowed) {
+      throw new Error(validation.reason || 'Access denied');
+    }
+    change.target = validation.resolved_path;
+    claim(change.target);
+    if (await fs.stat(change.target).catch(() => null)) {
+      throw new Error(`${patch.new_path} already exists`);
+    }
+  } else if (patch.operation === 'modify') {
+    change.target = change.source;
+  }
+
+  if (patch.new_mode) {
+    change.mode = parseInt(patch.new_mode, 8) & 0o777;
+    if (Number.isNaN(change.mode)) {
+      throw new Error(`Invalid file mode ${patch.new_mode}`);
+    }
+  }
+
+  // hunk の適用（元のファイルのエンコーディングでデコード・エンコード）
+  if (patch.hunks.length > 0) {
+    let encoding = 'utf8';
+    if (change.source) {
+      const detected = await analyzer.detectFileEncoding(change.source);
+      encoding = isSupportedEncoding(detected) ? detected : 'utf8';
+    }
+    const content = change.original ? decodeBuffer(change.original, encoding) : '';
+    const applied = applyHunks(content, patch.hunks, fuzz);
+    entry.hunks = applied.results;
+
+    if (applied.results.some(hunk => hunk.status === 'failed')) {
+      entry.status = 'error';
+      entry.reason = `${applied.results.filter(hunk => hunk.status === 'failed').length} of ${patch.hunks.length} hunks failed`;
+      return change;
+    }
+    if (applied.results.some(hunk => hunk.status !== 'applied')) {
+      entry.status = 'warning';
+    }
+    if (patch.operation === 'delete' && applied.content !== '') {
+      entry.status = 'error';
+      entry.reason = 'File has content that is not in the patch - not deleted';
+      return change;
+    }
+    if (patch.operation !== 'delete') {
+      change.output = encodeString(applied.content, encoding);
+    }
+  } else if (patch.operation === 'add') {
+    change.output = Buffer.alloc(0);
+  }
+
+  return change;
+}
+
+/**
+ * 1ファイル分の変更を書き込み、元に戻す手順を undo に積む
+ */
+async function writeChange(change: PlannedChange, undo: Array<{ path: string; run: () => Promise<void> }>): Promise<void> {
+  const { entry, patch, source, target, original, originalMode } = change;
+
+  switch (patch.operation) {
+    case 'modify': {
+      const file = source as string;
+      if (change.output && !change.output.equals(original as Buffer)) {
+        entry.version = await writeFileAtomic(file, change.output);
+        undo.push({ path: entry.path, run: async () => { await writeFileAtomic(file, original as Buffer); } });
+      }
+      if (change.mode !== undefined && change.mode !== ((originalMode as number) & 0o777)) {
+        await fs.chmod(file, change.mode);
+        undo.push({ path: entry.path, run: () => fs.chmod(file, originalMode as number) });
+      }
+      return;
+    }
+
+    case 'delete': {
+      const file = source as string;
+      await fs.unlink(file);
+      undo.push({
+        path: entry.path,
+        run: async () => {
+          await writeFileAtomic(file, original as Buffer);
+          await fs.chmod(file, originalMode as number);
+        }
+      });
+      return;
+    }
+
+    default: {
+      // add / rename / copy: 新しいファイルを作成（親ディレクトリがなければ作成）
+      const file = target as string;
+      const createdDir = await fs.mkdir(path.dirname(file), { recursive: true });
+      const content = change.output ?? (original as Buffer);
+      entry.version = await createFileAtomic(file, content);
+      undo.push({
+        path: entry.path,
+        run: async () => {
+          await fs.unlink(file);
+          await removeCreatedDirectories(path.dirname(file), createdDir);
+        }
+      });
+      const mode = change.mode ?? originalMode;
+      if (mode !== undefined) {
+        await fs.chmod(file, mode);
+      }
+
+      if (patch.operation === 'rename') {
+        await fs.unlink(source as string);
+        undo.push({
+          path: patch.old_path as string,
+          run: async () => {
+            await writeFileAtomic(source as string, original as Buffer);
+            await fs.chmod(source as string, originalMode as number);
+          }
+        });
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * 作成したディレクトリを下から削除（空でない場合はそのまま残す）
+ */
+async function removeCreatedDirectories(dirPath: string, createdDir: string | undefined): Promise<void> {
+  if (!createdDir) {
+    return;
+  }
+  let current = dirPath;
+  while (current === createdDir || current.startsWith(createdDir + path.sep)) {
+    try {
+      await fs.rmdir(current);
+    } catch {
+      return;
+    }
+    if (current === createdDir) {
+      return;
+    }
+    current = path.dirname(current);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Smart Filesystem MCP - Convert Encoding Tool
+ * ファイルの文字エンコーディング変換ツール（dry-run対応）
+ */
+
+import * as fs from 'fs/promises';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { detectBOM, formatBytes, isBinaryContent } from '../utils/helpers.js';
+import {
+  decodeBuffer,
+  encodeString,
+  findUnmappableChars,
+  isSupportedEncoding,
+  roundTrips,
+  SUPPORTED_ENCODINGS
+} from '../utils/encoding.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import type { FileEncoding } from '../core/types.js';
+
+/**
+ * convert_encodingパラメータ
+ */
+export interface ConvertEncodingParams {
+  path: string;
+  to_encoding: FileEncoding;
+  from_encoding?: FileEncoding;
+  dry_run?: boolean;
+}
+
+/**
+ * convert_encoding結果
+ */
+export interface ConvertEncodingResult {
+  status: 'success' | 'warning' | 'error';
+  file_info: {
+    path: string;
+    from_encoding: FileEncoding;
+    to_encoding: FileEncoding;
+    encoding_detected: boolean;
+    size_before: number;
+    size_after: number;
+  };
+  converted: boolean;
+  dry_run: boolean;
+  preview: string[];
+  unmappable_chars?: string[];
+  issue_details?: {
+    reason: string;
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+// プレビューに含める行数
+const PREVIEW_LINES = 5;
+
+/**
+ * ファイルのエンコーディングを変換
+ */
+export async function convertEncoding(
+  params: ConvertEncodingParams,
+  analyzer: FileAnalyzer
+): Promise<ConvertEncodingResult> {
+  const security = getSecurityController();
+  const dryRun = params.dry_run ?? false;
+
+  // セキュリティチェック
+  const validation = await security.validateAccess(params.path, 'write');
+  if (!validation.allowed) {
+    throw new Error(validation.reason || 'Access denied');
+  }
+
+  const resolvedPath = validation.resolved_path;
+  const toEncoding = params.to_encoding;
+
+  if (!isSupportedEncoding(toEncoding) || (params.from_encoding && !isSupportedEncoding(params.from_encoding))) {
+    throw new Error(`Unsupported encoding (supported: ${SUPPORTED_ENCODINGS.join(', ')})`);
+  }
+
+  const stats = await fs.stat(resolvedPath);
+  if (!stats.isFile()) {
+    throw new Error('Path is not a file');
+  }
+  if (stats.size > SAFETY_LIMITS.WRITE_MAX_SIZE) {
+    throw new Error(
+      `File too large for conversion (${formatBytes(stats.size)} > ${formatBytes(SAFETY_LIMITS.WRITE_MAX_SIZE)})`
+    );
+  }
+
+  const buffer = await fs.readFile(resolvedPath);
+
+  // UTF-16/32はBOMがあればNULバイトを含んでもテキストとして扱う
+  if (!detectBOM(buffer) && isBinaryContent(buffer)) {
+    throw new Error('Binary file cannot be converted');
+  }
+
+  const fromEncoding = params.from_encoding || await analyzer.detectEncoding(buffer, resolvedPath);
+  const result: ConvertEncodingResult = {
+    status: 'success',
+    file_info: {
+      path: params.path,
+      from_encoding: fromEncoding,
+      to_encoding: toEncoding,
+      encoding_detected: !params.from_encoding,
+      size_before: stats.size,
+      size_after: stats.size
+    },
+    converted: false,
+    dry_run: dryRun,
+    preview: []
+  };
+
+  if (!isSupportedEncoding(fromEncoding)) {
+    return withError(result, `Could not detect a supported source encoding (detected: ${fromEncoding})`, [
+      `Specify from_encoding explicitly (${SUPPORTED_ENCODINGS.join(', ')})`
+    ]);
+  }
+
+  // BOMは変換後に引き継がない
+  const text = decodeBuffer(buffer, fromEncoding).replace(/^\uFEFF/, '');
+  result.preview = text
+    .split(/\r?\n/)
+    .slice(0, PREVIEW_LINES)
+    .map(line => line.length > 200 ? line.substring(0, 200) + '...' : line);
+
+  // 元のバイト列に戻らない場合は元のエンコーディングの推定が誤っている（変換すると内容が失われる）
+  if (!roundTrips(buffer, fromEncoding)) {
+    const invalidSequences = text.split('\uFFFD').length - 1;
+    return withError(result, `File does not decode losslessly as ${fromEncoding}${invalidSequences > 0 ? ` (${invalidSequences} invalid sequences)` : ''}`, [
+      'Specify the correct from_encoding',
+      'Check the preview for mojibake before converting'
+    ]);
+  }
+
+  const unmappable = findUnmappableChars(text, toEncoding);
+  if (unmappable.length > 0) {
+    result.unmappable_chars = unmappable;
+    return withError(result, `Some characters cannot be represented in ${toEncoding}`, [
+      'Convert to utf8 instead, which can represent every character',
+      'Replace the listed characters before converting'
+    ]);
+  }
+
+  const output = encodeString(text, toEncoding);
+  result.file_info.size_after = output.length;
+
+  if (output.equals(buffer)) {
+    result.status = 'warning';
+    result.issue_details = {
+      reason: `File is already encoded as ${toEncoding}`
+    };
+    return result;
+  }
+
+  if (!dryRun) {
+    await writeFileAtomic(resolvedPath, output);
+    result.converted = true;
+  }
+
+  return result;
+}
+
+/**
+ * エラー結果に変換
+ */
+function withError(
+  result: ConvertEncodingResult,
+  reason: string,
+  suggestions: string[]
+): ConvertEncodingResult {
+  return {
+    ...result,
+    status: 'error',
+    issue_details: {
+      reason
+    },
+    alternatives: {
+      suggestions
+    }
+  };
+}
\ No newline at end of file
@@ -7,6 +7,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { getSecurityController } from '../core/security-controller-v2.js';
 import { CRITICAL_FILE_PATTERNS } from '../utils/constants.js';
+import { checkPreconditions } from '../utils/atomic-write.js';
 import type { DeleteFileParams, DeleteFileResult, FileImportance } from '../types/delete-operations.js';
 
 /**
@@ -250,6 +251,28 @@ export async function deleteFile(params: DeleteFileParams): Promise<DeleteFileRe
       };
     }
     
+    // 前提条件チェック（削除対象が呼び出し側の想定したバージョンか）
+    const conflict = await checkPreconditions(resolvedPath, params);
+    if (conflict) {
+      return {
+        status: 'conflict',
+        deleted_file: {
+          path: targetPath,
+          resolved_path: resolvedPath,
+          size_bytes: fileInfo.size,
+          last_modified: fileInfo.lastModified,
+          was_readonly: fileInfo.isReadOnly
+        },
+        conflict,
+        alternatives: {
+          suggestions: [
+            'File was modified after it was read - re-read it before deleting',
+            'Pass current_sha256 as expected_sha256 to delete the current version'
+          ]
+        }
+      };
+    }
+    
     // 実際にファイルを削除
     if (fileInfo.isReadOnly && force) {
       // 読み取り専用属性を一時的に解除（Windows）
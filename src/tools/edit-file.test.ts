@@ -0,0 +1,231 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import iconv from 'iconv-lite';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { rememberVersion } from '../utils/version-store.js';
+import { editFile } from './edit-file.js';
+import type { EditOperation } from '../core/types.js';
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('editFile diff edits with base_sha256', () => {
+  let dir: string;
+  let file: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+
+  // base から 2 行目だけを変更した内容が現在のファイル
+  const base = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+  const current = base.replace('line 2\n', 'line two\n');
+  const patchLine = (line: number, replacement: string) => [
+    '--- a/file.txt',
+    '+++ b/file.txt',
+    `@@ -${line - 1},3 +${line - 1},3 @@`,
+    ` line ${line - 1}`,
+    `-line ${line}`,
+    `+${replacement}`,
+    ` line ${line + 1}`,
+    ''
+  ].join('\n');
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'edit-file-')));
+    initializeSecurityController([dir]);
+    file = path.join(dir, 'file.txt');
+  });
+
+  beforeEach(async () => {
+    await fs.writeFile(file, current);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const edit = (edits: EditOperation[]) => editFile({ path: file, edits }, safety, analyzer);
+
+  test('merges a diff that does not overlap changes made since its base', async () => {
+    rememberVersion(Buffer.from(base));
+    const result = await edit([{ type: 'diff', diff_content: patchLine(8, 'line eight'), base_sha256: sha256(base) }]);
+
+    expect(result.status).toBe('success');
+    expect(result.edit_details?.[0].merge?.status).toBe('clean');
+    expect(await fs.readFile(file, 'utf8')).toBe(current.replace('line 8\n', 'line eight\n'));
+  });
+
+  test('fails the whole call when the merge conflicts', async () => {
+    rememberVersion(Buffer.from(base));
+    const result = await edit([
+      { type: 'literal', old_text: 'line 10', new_text: 'line ten' },
+      { type: 'diff', diff_content: patchLine(2, 'line TWO'), base_sha256: sha256(base) }
+    ]);
+
+    expect(result.status).toBe('error');
+    expect(result.edit_details?.[1].status).toBe('diff_conflict');
+    expect(result.edit_details?.[1].merge?.conflicts).toHaveLength(1);
+    expect(result.edit_details?.[1].merge?.content_with_markers).toContain('<<<<<<< current');
+    expect(result.version).toBeUndefined();
+    expect(await fs.readFile(file, 'utf8')).toBe(current);
+  });
+
+  test('does not apply the diff when the base version is unavailable', async () => {
+    const unknownBase = base.replace('line 1\n', 'line 1 (unseen)\n');
+    const result = await edit([{ type: 'diff', diff_content: patchLine(8, 'line eight'), base_sha256: sha256(unknownBase) }]);
+
+    expect(result.status).toBe('error');
+    expect(result.edit_details?.[0].status).toBe('diff_conflict');
+    expect(result.edit_details?.[0].merge?.status).toBe('base_unavailable');
+    expect(await fs.readFile(file, 'utf8')).toBe(current);
+  });
+
+  test('merges against base_content when the server does not have the base', async () => {
+    const unknownBase = base.replace('line 1\n', 'line one\n');
+    const result = await edit([{
+      type: 'diff',
+      diff_content: patchLine(8, 'line eight'),
+      base_sha256: sha256(unknownBase),
+      base_content: unknownBase
+    }]);
+
+    expect(result.status).toBe('success');
+    expect(result.edit_details?.[0].merge?.status).toBe('clean');
+    // base_content と現在の内容の差分（1・2 行目）は現在の内容が優先される
+    expect(await fs.readFile(file, 'utf8')).toBe(current.replace('line 8\n', 'line eight\n'));
+  });
+
+  test('rejects base_content that does not match base_sha256', async () => {
+    const result = await edit([{
+      type: 'diff',
+      diff_content: patchLine(8, 'line eight'),
+      base_sha256: sha256(base),
+      base_content: current
+    }]);
+
+    expect(result.edit_details?.[0].status).toBe('failed');
+    expect(result.edit_details?.[0].sample_matches?.[0]).toBe('base_content does not match base_sha256');
+    expect(await fs.readFile(file, 'utf8')).toBe(current);
+  });
+});
+
+describe('editFile fuzzy literal matching', () => {
+  let dir: string;
+  let file: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+  const content = 'function f() {\r\n    if (x) {\r\n        y();\r\n    }\r\n}\r\n';
+  const oldText = 'if (x) {\n  y();\n}';
+  const newText = 'if (x) {\n  z();\n}';
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'edit-file-fuzzy-')));
+    initializeSecurityController([dir]);
+    file = path.join(dir, 'file.js');
+  });
+
+  beforeEach(async () => {
+    await fs.writeFile(file, content);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('reports a whitespace-insensitive match without applying it by default', async () => {
+    const result = await editFile({ path: file, edits: [{ type: 'literal', old_text: oldText, new_text: newText }] }, safety, analyzer);
+
+    expect(result.edit_details?.[0]).toMatchObject({ status: 'no_match', fuzzy_match: 'line_ending' });
+    expect(result.alternatives?.suggestions.join('\n')).toContain('allow_fuzzy');
+    expect(await fs.readFile(file, 'utf8')).toBe(content);
+  });
+
+  test('applies a unique fuzzy match with the file indentation and line endings', async () => {
+    const result = await editFile({
+      path: file,
+      edits: [{ type: 'literal', old_text: oldText, new_text: newText }],
+      allow_fuzzy: true,
+      // preserve_formatting は改行コードを LF に揃えるため、置換テキストの調整だけを確認する
+      preserve_formatting: false
+    }, safety, analyzer);
+
+    expect(result.edit_details?.[0]).toMatchObject({ status: 'success', fuzzy_match: 'line_ending' });
+    expect(await fs.readFile(file, 'utf8')).toBe(content.replace('y();', 'z();'));
+  });
+
+  test('does not apply an ambiguous fuzzy match', async () => {
+    await fs.writeFile(file, `${content}${content}`);
+    const result = await editFile({
+      path: file,
+      edits: [{ type: 'literal', old_text: oldText, new_text: newText }],
+      allow_fuzzy: true
+    }, safety, analyzer);
+
+    expect(result.edit_details?.[0].status).toBe('no_match');
+    expect(result.edit_details?.[0].sample_matches).toHaveLength(2);
+    expect(await fs.readFile(file, 'utf8')).toBe(`${content}${content}`);
+  });
+
+  test('suggests the closest lines when nothing matches', async () => {
+    const result = await editFile({
+      path: file,
+      edits: [{ type: 'literal', old_text: 'if (y) {', new_text: 'if (z) {' }]
+    }, safety, analyzer);
+
+    expect(result.edit_details?.[0].status).toBe('no_match');
+    expect(result.edit_details?.[0].sample_matches?.[0]).toMatch(/^Line 2 \(similarity [0-9.]+\): +if \(x\) \{$/);
+  });
+});
+
+describe('editFile legacy encodings', () => {
+  let dir: string;
+  let file: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'edit-file-encoding-')));
+    initializeSecurityController([dir]);
+    file = path.join(dir, 'file.js');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('edits a Shift_JIS file without touching other bytes', async () => {
+    const original = iconv.encode('// コメント\nconst x = 1;\n', 'shift_jis');
+    await fs.writeFile(file, original);
+
+    const result = await editFile({ path: file, edits: [{ type: 'literal', old_text: 'x = 1', new_text: 'x = 2' }] }, safety, analyzer);
+
+    expect(result.status).toBe('success');
+    expect(result.formatting_info?.encoding).toBe('shift_jis');
+    expect(await fs.readFile(file)).toEqual(iconv.encode('// コメント\nconst x = 2;\n', 'shift_jis'));
+  });
+
+  test('keeps the bytes of a mixed-encoding file outside the edit', async () => {
+    // UTF-8 と Shift_JIS が混在したファイル
+    const original = Buffer.concat([Buffer.from('// コメント\n'), iconv.encode('// 値\nconst x = 1;\n', 'shift_jis')]);
+    await fs.writeFile(file, original);
+
+    const result = await editFile({ path: file, edits: [{ type: 'literal', old_text: 'x = 1', new_text: 'x = 2' }] }, safety, analyzer);
+
+    expect(result.status).toBe('success');
+    expect(await fs.readFile(file)).toEqual(Buffer.from(original.toString('latin1').replace('x = 1', 'x = 2'), 'latin1'));
+  });
+
+  test('refuses to edit a file that does not decode losslessly', async () => {
+    // 最後の文字が途中で切れた UTF-8
+    const original = Buffer.from('const x = 1; // 値\n').subarray(0, -2);
+    await fs.writeFile(file, original);
+
+    const result = await editFile({ path: file, edits: [{ type: 'literal', old_text: 'x = 1', new_text: 'x = 2' }] }, safety, analyzer);
+
+    expect(result.status).toBe('error');
+    expect(result.issue_details?.reason).toContain('losslessly');
+    expect(await fs.readFile(file)).toEqual(original);
+  });
+});
@@ -1,6 +1,6 @@
 /**
  * Smart Filesystem MCP - Edit File Tool
- * ファイル編集ツール（literal/regex/diff対応）
+ * ファイル編集ツール（literal/regex/diff/line_range/insert対応）
  */
 
 import * as fs from 'fs/promises';
@@ -16,6 +16,15 @@ import {
   applyGitDiff,
   detectLineEnding
 } from '../utils/diff-utils.js';
+import { decodeBuffer, encodeString, findUnmappableChars, isSupportedEncoding, roundTrips } from '../utils/encoding.js';
+import { checkPreconditions, hashBuffer, writeFileAtomic } from '../utils/atomic-write.js';
+import { adaptReplacement, findClosestRegions, findFuzzyMatches } from '../utils/fuzzy-match.js';
+import type { FuzzyMatch, FuzzyMatchKind } from '../utils/fuzzy-match.js';
+import { applyHunks, parseHunks } from '../utils/patch.js';
+import type { HunkApplyResult, PatchHunk } from '../utils/patch.js';
+import { merge3 } from '../utils/merge3.js';
+import { rememberVersion, recallVersion } from '../utils/version-store.js';
+import { checkSyntaxChange, syntaxLanguageLabel } from '../utils/syntax-check.js';
 import type { 
   EditFileParams,
   EditFileResult,
@@ -24,9 +33,24 @@ import type {
   LiteralEdit,
   RegexEdit,
   DiffEdit,
+  LineRangeEdit,
+  InsertEdit,
   FormattingInfo
 } from '../core/types.js';
 
+/**
+ * 書き込み前の編集結果
+ */
+export interface PreparedEdit {
+  result: EditFileResult;
+  /** 正規化したファイルパス */
+  path: string;
+  /** 編集前の内容（ロールバック用） */
+  original: Buffer;
+  /** 書き込む内容（変更がない場合は undefined） */
+  output?: Buffer;
+}
+
 /**
  * ファイル編集メインツール
  */
@@ -36,189 +60,340 @@ export async function editFile(
   analyzer: FileAnalyzer
 ): Promise<EditFileResult> {
   try {
-    // パラメータ検証
-    if (!params.path) {
-      throw new Error('File path is required');
-    }
+    const prepared = await prepareEdit(params, safety, analyzer);
     
-    if (!params.edits || params.edits.length === 0) {
-      throw new Error('At least one edit operation is required');
+    // dry_runでない場合は元のエンコーディングで書き込み（一時ファイル経由で原子的に置き換え）
+    if (!params.dry_run && prepared.output) {
+      prepared.result.version = await writeFileAtomic(prepared.path, prepared.output);
     }
     
-    if (params.edits.length > SAFETY_LIMITS.EDIT_MAX_OPERATIONS) {
-      throw new Error(`Too many edit operations (${params.edits.length} > ${SAFETY_LIMITS.EDIT_MAX_OPERATIONS})`);
-    }
-    
-    // パスの正規化
-    const normalizedPath = path.normalize(params.path);
-    
-    // ファイルアクセスチェック
-    const accessCheck = await safety.validateFileAccess(normalizedPath);
-    if (!accessCheck.safe) {
-      throw new Error(`File access denied: ${accessCheck.reason}`);
-    }
+    return prepared.result;
     
-    // ファイルサイズチェック
-    const stats = await fs.stat(normalizedPath);
-    if (stats.size > SAFETY_LIMITS.EDIT_MAX_FILE_SIZE) {
-      throw new Error(
-        `File too large for editing (${(stats.size / 1024 / 1024).toFixed(2)}MB > ${SAFETY_LIMITS.EDIT_MAX_FILE_SIZE / 1024 / 1024}MB)`
-      );
+  } catch (error) {
+    return createEditErrorResult(params, error);
+  }
+}
+
+/**
+ * エラーレスポンス生成
+ */
+export function createEditErrorResult(params: EditFileParams, error: unknown): EditFileResult {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  
+  return {
+    status: 'error',
+    edit_summary: {
+      total_edits: params.edits?.length || 0,
+      successful_edits: 0,
+      failed_edits: params.edits?.length || 0,
+      regex_edits_count: params.edits?.filter(e => e.type === 'regex').length || 0
+    },
+    issue_details: {
+      reason: errorMessage,
+      problematic_edits: params.edits?.length || 0,
+      risk_assessment: 'Operation failed'
+    },
+    alternatives: {
+      safer_approaches: [],
+      suggestions: getErrorSuggestions(errorMessage)
     }
+  };
+}
+
+/**
+ * 編集結果を計算（書き込みは行わない。edit_files の事前検証でも使用）
+ * 失敗時は例外を投げる
+ */
+export async function prepareEdit(
+  params: EditFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<PreparedEdit> {
+  // パラメータ検証
+  if (!params.path) {
+    throw new Error('File path is required');
+  }
+  
+  if (!params.edits || params.edits.length === 0) {
+    throw new Error('At least one edit operation is required');
+  }
+  
+  if (params.edits.length > SAFETY_LIMITS.EDIT_MAX_OPERATIONS) {
+    throw new Error(`Too many edit operations (${params.edits.length} > ${SAFETY_LIMITS.EDIT_MAX_OPERATIONS})`);
+  }
+  
+  // パスの正規化
+  const normalizedPath = path.normalize(params.path);
+  
+  // ファイルアクセスチェック
+  const accessCheck = await safety.validateFileAccess(normalizedPath);
+  if (!accessCheck.safe) {
+    throw new Error(`File access denied: ${accessCheck.reason}`);
+  }
+  
+  // ファイルサイズチェック
+  const stats = await fs.stat(normalizedPath);
+  if (stats.size > SAFETY_LIMITS.EDIT_MAX_FILE_SIZE) {
+    throw new Error(
+      `File too large for editing (${(stats.size / 1024 / 1024).toFixed(2)}MB > ${SAFETY_LIMITS.EDIT_MAX_FILE_SIZE / 1024 / 1024}MB)`
+    );
+  }
+  
+  // ファイル内容読み込み（Shift_JIS等は検出したエンコーディングでデコード）
+  const originalBuffer = await fs.readFile(normalizedPath);
+  const detectedEncoding = await analyzer.detectEncoding(originalBuffer, normalizedPath);
+  const encoding = isSupportedEncoding(detectedEncoding) ? detectedEncoding : 'utf8';
+  // デコードして元のバイト列に戻らない場合、編集していない箇所まで書き換わるため編集しない
+  if (!roundTrips(originalBuffer, encoding)) {
+    throw new Error(
+      `File cannot be edited without corrupting it: its bytes do not decode and re-encode losslessly as ${encoding} (invalid or mixed encoding)`
+    );
+  }
+  rememberVersion(originalBuffer);
+  let content = decodeBuffer(originalBuffer, encoding);
+  const originalContent = content;
+  
+  // 編集タイプの統計
+  const regexEditCount = params.edits.filter(edit => edit.type === 'regex').length;
+  const diffEditCount = params.edits.filter(edit => edit.type === 'diff').length;
+  
+  // フォーマット検出
+  const indentInfo = detectIndentation(originalContent);
+  const lineEnding = detectLineEnding(originalContent);
+  const preserveFormatting = params.preserve_formatting ?? true;
+  
+  // 編集実行
+  const editDetails: EditDetails[] = [];
+  let successfulEdits = 0;
+  let failedEdits = 0;
+  let hasWarnings = false;
+  const warnings: string[] = [];
+  let modifiedContent = content;
+  
+  // 各編集を適用（dry_runでも実行して結果を確認）
+  for (let i = 0; i < params.edits.length; i++) {
+    const edit = params.edits[i];
+    const editResult = await applyEdit(modifiedContent, edit, i, {
+      allowFuzzy: params.allow_fuzzy ?? false,
+      encoding
+    });
     
-    // ファイル内容読み込み
-    let content = await fs.readFile(normalizedPath, 'utf8');
-    const originalContent = content;
-    
-    // 編集タイプの統計
-    const regexEditCount = params.edits.filter(edit => edit.type === 'regex').length;
-    const diffEditCount = params.edits.filter(edit => edit.type === 'diff').length;
-    
-    // フォーマット検出
-    const indentInfo = detectIndentation(originalContent);
-    const lineEnding = detectLineEnding(originalContent);
-    const preserveFormatting = params.preserve_formatting ?? true;
-    
-    // 編集実行
-    const editDetails: EditDetails[] = [];
-    let successfulEdits = 0;
-    let failedEdits = 0;
-    let hasWarnings = false;
-    const warnings: string[] = [];
-    let modifiedContent = content;
+    editDetails.push(editResult.details);
     
-    // 各編集を適用（dry_runでも実行して結果を確認）
-    for (let i = 0; i < params.edits.length; i++) {
-      const edit = params.edits[i];
-      const editResult = await applyEdit(modifiedContent, edit, i);
-      
-      editDetails.push(editResult.details);
-      
-      if (editResult.details.status === 'success') {
-        successfulEdits++;
-        modifiedContent = editResult.newContent;
-      } else if (editResult.details.status === 'multiple_matches') {
-        hasWarnings = true;
-        if (editResult.details.match_count! >= SAFETY_LIMITS.EDIT_WARNING_MATCHES) {
-          warnings.push(`Edit ${i}: Large number of matches (${editResult.details.match_count})`);
-        }
-        successfulEdits++;
-        modifiedContent = editResult.newContent;
-      } else {
-        failedEdits++;
+    if (editResult.details.status === 'success') {
+      successfulEdits++;
+      modifiedContent = editResult.newContent;
+    } else if (editResult.details.status === 'multiple_matches') {
+      hasWarnings = true;
+      if (editResult.details.match_count! >= SAFETY_LIMITS.EDIT_WARNING_MATCHES) {
+        warnings.push(`Edit ${i}: Large number of matches (${editResult.details.match_count})`);
       }
+      successfulEdits++;
+      modifiedContent = editResult.newContent;
+    } else {
+      failedEdits++;
     }
-    
-    // フォーマット保持とホワイトスペース正規化
-    let finalContent = modifiedContent;
-    let trailingRemoved = 0;
-    
-    if (preserveFormatting && modifiedContent !== originalContent) {
-      // ホワイトスペース正規化
-      const normalizeResult = normalizeWhitespace(modifiedContent, {
-        remove_trailing_spaces: true,
-        normalize_line_endings: lineEnding !== 'mixed',
-        preserve_indentation: true
-      });
-      finalContent = normalizeResult.content;
-      trailingRemoved = normalizeResult.trailing_removed;
-    }
-    
-    // 変更された行数をカウント
-    const originalLines = originalContent.split('\n');
-    const modifiedLines = finalContent.split('\n');
-    const linesChanged = originalLines.filter((line, i) => i >= modifiedLines.length || line !== modifiedLines[i]).length +
-                        Math.max(0, modifiedLines.length - originalLines.length);
-    
-    // diff出力を生成（dry_runまたは変更がある場合）
-    let diffOutput: string | undefined;
-    if (params.dry_run || finalContent !== originalContent) {
-      diffOutput = generateGitStyleDiff(originalContent, finalContent, path.basename(normalizedPath));
-    }
-    
-    // dry_runでない場合はファイルに書き込み
-    if (!params.dry_run && finalContent !== originalContent) {
-      await fs.writeFile(normalizedPath, finalContent, 'utf8');
+  }
+  
+  // フォーマット保持とホワイトスペース正規化
+  let finalContent = modifiedContent;
+  let trailingRemoved = 0;
+  
+  if (preserveFormatting && modifiedContent !== originalContent) {
+    // ホワイトスペース正規化
+    const normalizeResult = normalizeWhitespace(modifiedContent, {
+      remove_trailing_spaces: true,
+      normalize_line_endings: lineEnding !== 'mixed',
+      preserve_indentation: true
+    });
+    finalContent = normalizeResult.content;
+    trailingRemoved = normalizeResult.trailing_removed;
+  }
+  
+  // 変更された行数をカウント
+  const originalLines = originalContent.split('\n');
+  const modifiedLines = finalContent.split('\n');
+  const linesChanged = originalLines.filter((line, i) => i >= modifiedLines.length || line !== modifiedLines[i]).length +
+                      Math.max(0, modifiedLines.length - originalLines.length);
+  
+  // diff出力を生成（dry_runまたは変更がある場合）
+  let diffOutput: string | undefined;
+  if (params.dry_run || finalContent !== originalContent) {
+    diffOutput = generateGitStyleDiff(originalContent, finalContent, path.basename(normalizedPath));
+  }
+  
+  // 元のエンコーディングで表現できない文字を含む場合は書き込まない
+  const unmappable = findUnmappableChars(finalContent, encoding);
+  if (unmappable.length > 0) {
+    throw new Error(`Edited content contains characters that cannot be encoded in ${encoding}: ${unmappable.join(' ')}`);
+  }
+  
+  const editSummary = {
+    total_edits: params.edits.length,
+    successful_edits: successfulEdits,
+    failed_edits: failedEdits,
+    regex_edits_count: regexEditCount,
+    diff_edits_count: diffEditCount,
+    lines_changed: linesChanged,
+    formatting_applied: preserveFormatting && trailingRemoved > 0
+  };
+  
+  // 前提条件チェック（編集したのが呼び出し側の想定したバージョンか）
+  const conflict = await checkPreconditions(normalizedPath, params, originalBuffer);
+  if (conflict) {
+    if (diffOutput) {
+      conflict.diff = diffOutput;
     }
     
-    // 結果生成
-    const result: EditFileResult = {
-      status: hasWarnings ? 'warning' : 'success',
-      edit_summary: {
-        total_edits: params.edits.length,
-        successful_edits,
-        failed_edits,
-        regex_edits_count: regexEditCount,
-        diff_edits_count: diffEditCount,
-        lines_changed: linesChanged,
-        formatting_applied: preserveFormatting && trailingRemoved > 0
+    return {
+      result: {
+        status: 'conflict',
+        edit_summary: editSummary,
+        edit_details: editDetails,
+        conflict,
+        alternatives: {
+          safer_approaches: [],
+          suggestions: [
+            'Re-read the file and check that the edits still apply to the current content',
+            'Pass current_sha256 as expected_sha256 to apply the edits to the current version'
+          ]
+        }
       },
-      edit_details: editDetails
+      path: normalizedPath,
+      original: originalBuffer
     };
-    
-    // diff出力を追加
-    if (diffOutput) {
-      result.diff_output = diffOutput;
-    }
-    
-    // フォーマット情報を追加
-    if (preserveFormatting && finalContent !== originalContent) {
-      result.formatting_info = {
-        indent_style: indentInfo.style,
-        indent_size: indentInfo.size,
-        line_ending: lineEnding === 'crlf' ? 'crlf' : 'lf',
-        trailing_whitespace_removed: trailingRemoved
-      };
-    }
-    
-    // 警告情報の追加
-    if (hasWarnings) {
-      const problematicEdits = editDetails.filter(
-        d => d.status === 'multiple_matches' || d.status === 'failed'
-      ).length;
-      
-      result.issue_details = {
-        reason: 'Some edits may have unexpected results',
-        problematic_edits: problematicEdits,
-        risk_assessment: getRiskAssessment(editDetails)
-      };
-      
-      result.alternatives = {
-        safer_approaches: getSaferApproaches(editDetails),
-        suggestions: [
-          'Review sample_matches to ensure all changes are intended',
-          'Use more specific patterns to avoid unintended matches',
-          'Consider using literal edits for precise control',
-          'Split complex regex patterns into multiple simpler ones'
-        ]
-      };
-    }
-    
-    return result;
-    
-  } catch (error) {
-    // エラーレスポンス
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
+  }
+  
+  // マージできなかった diff 編集があれば他の編集も含めて書き込まない
+  const diffConflicts = editDetails.filter(d => d.status === 'diff_conflict');
+  if (diffConflicts.length > 0) {
+    const baseUnavailable = diffConflicts.every(d => d.merge?.status === 'base_unavailable');
     return {
-      status: 'error',
-      edit_summary: {
-        total_edits: params.edits?.length || 0,
-        successful_edits: 0,
-        failed_edits: params.edits?.length || 0,
-        regex_edits_count: params.edits?.filter(e => e.type === 'regex').length || 0
+      result: {
+        status: 'error',
+        edit_summary: editSummary,
+        edit_details: editDetails,
+        issue_details: {
+          reason: baseUnavailable
+            ? `Diff edit ${diffConflicts.map(d => d.edit_index).join(', ')} was made against a version that is no longer available for a three-way merge - the file was not changed`
+            : `Diff edit ${diffConflicts.map(d => d.edit_index).join(', ')} conflicts with changes made since its base version - the file was not changed`,
+          problematic_edits: diffConflicts.length,
+          risk_assessment: baseUnavailable
+            ? 'High risk: without its base version the diff cannot be placed reliably in the changed file'
+            : 'High risk: the diff and the current file change the same lines'
+        },
+        alternatives: {
+          safer_approaches: [],
+          suggestions: baseUnavailable
+            ? [
+              'Pass the content the diff was made against as base_content',
+              'Re-read the file and re-create the diff against the current content'
+            ]
+            : [
+              'Resolve the regions in merge.conflicts and write the result, or re-create the diff against the current content',
+              'Use merge.content_with_markers as a starting point for manual resolution',
+              'Re-read the file and pass its current sha256 as base_sha256 with the new diff'
+            ]
+        }
       },
-      issue_details: {
-        reason: errorMessage,
-        problematic_edits: params.edits?.length || 0,
-        risk_assessment: 'Operation failed'
+      path: normalizedPath,
+      original: originalBuffer
+    };
+  }
+  
+  // 構文チェック（編集で新たに構文エラーになる場合は書き込まない）
+  const syntaxCheck = params.validate_syntax && finalContent !== originalContent
+    ? checkSyntaxChange(normalizedPath, originalContent, finalContent)
+    : undefined;
+  if (syntaxCheck?.status === 'invalid' && syntaxCheck.error) {
+    const { error } = syntaxCheck;
+    return {
+      result: {
+        status: 'error',
+        edit_summary: editSummary,
+        edit_details: editDetails,
+        ...(diffOutput && { diff_output: diffOutput }),
+        syntax_check: syntaxCheck,
+        issue_details: {
+          reason: `Edit introduces a ${syntaxLanguageLabel(syntaxCheck.language)} syntax error at line ${error.line}, column ${error.column}: ${error.message} - the file was not changed`,
+          problematic_edits: successfulEdits,
+          risk_assessment: 'High risk: writing the edit would leave the file unparseable'
+        },
+        alternatives: {
+          safer_approaches: [],
+          suggestions: [
+            'Check syntax_check.error.context and diff_output for the broken line',
+            'Fix the edits and retry (use dry_run to check the result first)'
+          ]
+        }
       },
-      alternatives: {
-        safer_approaches: [],
-        suggestions: getErrorSuggestions(errorMessage)
-      }
+      path: normalizedPath,
+      original: originalBuffer
+    };
+  }
+  
+  // 結果生成
+  const result: EditFileResult = {
+    status: hasWarnings ? 'warning' : 'success',
+    edit_summary: editSummary,
+    edit_details: editDetails,
+    ...(syntaxCheck && { syntax_check: syntaxCheck })
+  };
+  
+  // diff出力を追加
+  if (diffOutput) {
+    result.diff_output = diffOutput;
+  }
+  
+  // フォーマット情報を追加
+  if (preserveFormatting && finalContent !== originalContent) {
+    result.formatting_info = {
+      indent_style: indentInfo.style,
+      indent_size: indentInfo.size,
+      line_ending: lineEnding === 'crlf' ? 'crlf' : 'lf',
+      trailing_whitespace_removed: trailingRemoved,
+      ...(encoding !== 'utf8' && { encoding })
     };
   }
+  
+  // 警告情報の追加
+  if (hasWarnings) {
+    const problematicEdits = editDetails.filter(
+      d => d.status === 'multiple_matches' || d.status === 'failed'
+    ).length;
+    
+    result.issue_details = {
+      reason: 'Some edits may have unexpected results',
+      problematic_edits: problematicEdits,
+      risk_assessment: getRiskAssessment(editDetails)
+    };
+    
+    result.alternatives = {
+      safer_approaches: getSaferApproaches(editDetails),
+      suggestions: [
+        'Review sample_matches to ensure all changes are intended',
+        'Use more specific patterns to avoid unintended matches',
+        'Consider using literal edits for precise control',
+        'Split complex regex patterns into multiple simpler ones'
+      ]
+    };
+  }
+  
+  // 空白の違いだけで一致しなかった編集のヒント
+  const fuzzyMisses = editDetails.filter(d => d.status === 'no_match' && d.fuzzy_match);
+  if (fuzzyMisses.length > 0) {
+    result.alternatives ??= { safer_approaches: [], suggestions: [] };
+    result.alternatives.suggestions.push(
+      `Edit ${fuzzyMisses.map(d => d.edit_index).join(', ')}: old_text matches when whitespace is ignored - copy the exact text from the file or set allow_fuzzy (applies only a unique match)`
+    );
+  }
+  
+  return {
+    result,
+    path: normalizedPath,
+    original: originalBuffer,
+    ...(finalContent !== originalContent && { output: encodeString(finalContent, encoding) })
+  };
 }
 
 /**
@@ -227,14 +402,22 @@ export async function editFile(
 async function applyEdit(
   content: string,
   edit: EditOperation,
-  editIndex: number
+  editIndex: number,
+  options: { allowFuzzy: boolean; encoding: string }
 ): Promise<{ details: EditDetails; newContent: string }> {
   if (edit.type === 'literal') {
-    return applyLiteralEdit(content, edit as LiteralEdit, editIndex);
+    return applyLiteralEdit(content, edit as LiteralEdit, editIndex, options.allowFuzzy);
   } else if (edit.type === 'regex') {
     return applyRegexEdit(content, edit as RegexEdit, editIndex);
   } else if (edit.type === 'diff') {
-    return applyDiffEdit(content, edit as DiffEdit, editIndex);
+    const diffEdit = edit as DiffEdit;
+    return diffEdit.base_sha256 !== undefined
+      ? applyMergedDiffEdit(content, diffEdit, editIndex, options.encoding)
+      : applyDiffEdit(content, diffEdit, editIndex);
+  } else if (edit.type === 'line_range') {
+    return applyLineRangeEdit(content, edit as LineRangeEdit, editIndex);
+  } else if (edit.type === 'insert') {
+    return applyInsertEdit(content, edit as InsertEdit, editIndex);
   } else {
     throw new Error(`Unknown edit type: ${(edit as any).type}`);
   }
@@ -246,22 +429,13 @@ async function applyEdit(
 function applyLiteralEdit(
   content: string,
   edit: LiteralEdit,
-  editIndex: number
+  editIndex: number,
+  allowFuzzy: boolean
 ): { details: EditDetails; newContent: string } {
   const occurrences = content.split(edit.old_text).length - 1;
   
   if (occurrences === 0) {
-    return {
-      details: {
-        edit_index: editIndex,
-        type: 'literal',
-        status: 'no_match',
-        old_text_or_pattern: edit.old_text,
-        new_text_or_replacement: edit.new_text,
-        match_count: 0
-      },
-      newContent: content
-    };
+    return applyFuzzyLiteralEdit(content, edit, editIndex, allowFuzzy);
   }
   
   const newContent = content.split(edit.old_text).join(edit.new_text);
@@ -280,6 +454,72 @@ function applyLiteralEdit(
   };
 }
 
+/**
+ * 完全一致しないリテラル編集の曖昧一致
+ * 空白の違い → 改行コードの違いの順に探し、allowFuzzy で一致が1箇所のときだけ適用する
+ * どちらでも見つからない場合は類似度の高い候補を sample_matches に返す
+ */
+function applyFuzzyLiteralEdit(
+  content: string,
+  edit: LiteralEdit,
+  editIndex: number,
+  allowFuzzy: boolean
+): { details: EditDetails; newContent: string } {
+  const noMatch: EditDetails = {
+    edit_index: editIndex,
+    type: 'literal',
+    status: 'no_match',
+    old_text_or_pattern: edit.old_text,
+    new_text_or_replacement: edit.new_text,
+    match_count: 0
+  };
+  
+  for (const kind of ['whitespace', 'line_ending'] as FuzzyMatchKind[]) {
+    const matches = findFuzzyMatches(content, edit.old_text, kind);
+    if (matches.length === 0) {
+      continue;
+    }
+    
+    if (allowFuzzy && matches.length === 1) {
+      const match = matches[0] as FuzzyMatch;
+      return {
+        details: {
+          ...noMatch,
+          status: 'success',
+          match_count: 1,
+          sample_matches: formatFuzzyMatches(matches, kind),
+          fuzzy_match: kind
+        },
+        newContent: content.slice(0, match.index) +
+          adaptReplacement(edit.old_text, match.text, edit.new_text) +
+          content.slice(match.index + match.length)
+      };
+    }
+    
+    return {
+      details: { ...noMatch, sample_matches: formatFuzzyMatches(matches, kind), fuzzy_match: kind },
+      newContent: content
+    };
+  }
+  
+  if (content.length > SAFETY_LIMITS.EDIT_FUZZY_SEARCH_MAX_SIZE) {
+    return { details: noMatch, newContent: content };
+  }
+  
+  const candidates = findClosestRegions(content, edit.old_text, 3);
+  return {
+    details: {
+      ...noMatch,
+      ...(candidates.length > 0 && {
+        sample_matches: candidates.map(candidate =>
+          `${formatLineRange(candidate.start_line, candidate.end_line)} (similarity ${candidate.similarity.toFixed(2)}): ${firstLine(candidate.text)}`
+        )
+      })
+    },
+    newContent: content
+  };
+}
+
 /**
  * 正規表現編集の適用
  */
@@ -382,6 +622,188 @@ async function applyRegexEdit(
   }
 }
 
+/**
+ * 行範囲編集の適用（行番号はそれまでの編集を適用した後の内容に対するもの）
+ */
+function applyLineRangeEdit(
+  content: string,
+  edit: LineRangeEdit,
+  editIndex: number
+): { details: EditDetails; newContent: string } {
+  const label = `lines ${edit.start_line}-${edit.end_line}`;
+  const fail = (reason: string, samples: string[] = []): { details: EditDetails; newContent: string } => ({
+    details: {
+      edit_index: editIndex,
+      type: 'line_range',
+      status: 'failed',
+      old_text_or_pattern: label,
+      new_text_or_replacement: edit.new_text,
+      match_count: 0,
+      sample_matches: [reason, ...samples]
+    },
+    newContent: content
+  });
+  
+  const lines = splitLinesWithEndings(content);
+  if (!Number.isInteger(edit.start_line) || !Number.isInteger(edit.end_line) ||
+      edit.start_line < 1 || edit.end_line < edit.start_line) {
+    return fail('start_line and end_line must be 1-based line numbers with start_line <= end_line');
+  }
+  if (edit.end_line > lines.length) {
+    return fail(`Line range ${edit.start_line}-${edit.end_line} is beyond the end of the file (${lines.length} lines)`);
+  }
+  
+  const current = lines.slice(edit.start_line - 1, edit.end_line).join('');
+  const currentLines = formatLineSamples(current, edit.start_line, 3);
+  
+  // 読み込み後に行がずれていないか（改行コードと末尾の改行は無視して比較）
+  if (edit.expected_text !== undefined && normalizeLineText(edit.expected_text) !== normalizeLineText(current)) {
+    return fail(`expected_text does not match ${label}`, currentLines);
+  }
+  
+  // 置換後も行として区切る（最終行が改行で終わらない場合はそれに合わせる）
+  let replacement = edit.new_text;
+  if (current.endsWith('\n')) {
+    if (replacement !== '' && !replacement.endsWith('\n')) {
+      replacement += current.endsWith('\r\n') ? '\r\n' : '\n';
+    }
+  } else {
+    replacement = replacement.replace(/\r?\n$/, '');
+  }
+  
+  const start = lines.slice(0, edit.start_line - 1).join('').length;
+  return {
+    details: {
+      edit_index: editIndex,
+      type: 'line_range',
+      status: 'success',
+      old_text_or_pattern: label,
+      new_text_or_replacement: edit.new_text,
+      match_count: 1,
+      sample_matches: currentLines
+    },
+    newContent: content.slice(0, start) + replacement + content.slice(start + current.length)
+  };
+}
+
+/**
+ * アンカー行の前後への挿入（一致した全ての行に挿入）
+ */
+function applyInsertEdit(
+  content: string,
+  edit: InsertEdit,
+  editIndex: number
+): { details: EditDetails; newContent: string } {
+  const position = edit.position ?? 'after';
+  const baseDetails = {
+    edit_index: editIndex,
+    type: 'insert' as const,
+    old_text_or_pattern: edit.anchor,
+    new_text_or_replacement: edit.new_text
+  };
+  const fail = (reason: string): { details: EditDetails; newContent: string } => ({
+    details: { ...baseDetails, status: 'failed', match_count: 0, sample_matches: [reason] },
+    newContent: content
+  });
+  
+  if (!edit.anchor) {
+    return fail('anchor is required');
+  }
+  if (position !== 'before' && position !== 'after') {
+    return fail('position must be before or after');
+  }
+  
+  let matchesLine: (line: string) => boolean;
+  if (edit.anchor_regex) {
+    const validation = validateRegexPattern(edit.anchor);
+    if (!validation.valid) {
+      return fail(`Invalid regex: ${validation.error}`);
+    }
+    const regex = new RegExp(edit.anchor);
+    matchesLine = line => regex.test(line);
+  } else {
+    matchesLine = line => line.includes(edit.anchor);
+  }
+  
+  const lines = splitLinesWithEndings(content);
+  const matched = lines
+    .map((line, index) => ({ index, text: line.replace(/\r?\n$/, '') }))
+    .filter(line => matchesLine(line.text));
+  
+  if (matched.length === 0) {
+    return {
+      details: { ...baseDetails, status: 'no_match', match_count: 0 },
+      newContent: content
+    };
+  }
+  
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+  const insertion = edit.new_text.endsWith('\n') ? edit.new_text : edit.new_text + lineEnding;
+  const matchedIndexes = new Set(matched.map(line => line.index));
+  const output = lines.map((line, index) => {
+    if (!matchedIndexes.has(index)) {
+      return line;
+    }
+    if (position === 'before') {
+      return insertion + line;
+    }
+    // 改行で終わらない最終行の後ろは改行を補う
+    return line.endsWith('\n') ? line + insertion : line + lineEnding + insertion.replace(/\r?\n$/, '');
+  });
+  
+  return {
+    details: {
+      ...baseDetails,
+      status: matched.length > 1 ? 'multiple_matches' : 'success',
+      match_count: matched.length,
+      sample_matches: matched.slice(0, 3).map(line => `Line ${line.index + 1}: ${line.text.trim()}`)
+    },
+    newContent: output.join('')
+  };
+}
+
+/**
+ * 改行を含めたまま行に分割（最終行が改行で終わる場合、空の行は作らない）
+ */
+function splitLinesWithEndings(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * 比較用に改行コードと末尾の改行を揃える
+ */
+function normalizeLineText(text: string): string {
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '');
+}
+
+/**
+ * 行番号付きのサンプル（最大maxSamples行）
+ */
+function formatLineSamples(text: string, firstLine: number, maxSamples: number): string[] {
+  return normalizeLineText(text)
+    .split('\n')
+    .slice(0, maxSamples)
+    .map((line, i) => `Line ${firstLine + i}: ${line.trim()}`);
+}
+
+/**
+ * 曖昧一致のサンプル（最大3件）
+ */
+function formatFuzzyMatches(matches: FuzzyMatch[], kind: FuzzyMatchKind): string[] {
+  const difference = kind === 'whitespace' ? 'whitespace differs' : 'whitespace or line endings differ';
+  return matches
+    .slice(0, 3)
+    .map(match => `${formatLineRange(match.start_line, match.end_line)} (${difference}): ${firstLine(match.text)}`);
+}
+
+function formatLineRange(startLine: number, endLine: number): string {
+  return startLine === endLine ? `Line ${startLine}` : `Lines ${startLine}-${endLine}`;
+}
+
+function firstLine(text: string): string {
+  return text.trim().split(/\r?\n/)[0]?.trim() ?? '';
+}
+
 /**
  * リテラル編集のサンプルマッチ取得
  */
@@ -503,12 +925,23 @@ function getErrorSuggestions(errorMessage: string): string[] {
       'Use search_files to find specific sections',
       'Consider using a stream-based editor'
     );
+  } else if (errorMessage.includes('expected_')) {
+    suggestions.push(
+      'Use the sha256 reported by file_info or a previous write as expected_sha256',
+      'Pass expected_mtime as an ISO 8601 timestamp such as file_info modified'
+    );
   } else if (errorMessage.includes('Invalid regex')) {
     suggestions.push(
       'Escape special regex characters',
       'Test regex pattern separately',
       'Use literal edit for exact string replacement'
     );
+  } else if (errorMessage.includes('losslessly')) {
+    suggestions.push(
+      'Use convert_encoding with an explicit from_encoding to convert the file to utf8 first',
+      'Check the file for bytes that are invalid in its encoding or for mixed encodings',
+      'Rewrite the whole file with write_file and an explicit encoding'
+    );
   } else if (errorMessage.includes('diff')) {
     suggestions.push(
       'Verify the diff format is correct',
@@ -596,4 +1029,132 @@ function applyDiffEdit(
       newContent: content
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * ベースバージョン指定の Diff 編集の適用
+ * ファイルが base_sha256 から変更されている場合は、ベースに diff を適用した内容と現在の内容を三方向マージする
+ * ベースの内容が分からない場合は適用しない（コンテキストだけで位置を合わせると別の箇所に当たることがある）
+ */
+function applyMergedDiffEdit(
+  content: string,
+  edit: DiffEdit,
+  editIndex: number,
+  encoding: string
+): { details: EditDetails; newContent: string } {
+  const details = {
+    edit_index: editIndex,
+    type: 'diff' as const,
+    old_text_or_pattern: 'diff patch'
+  };
+  const fail = (reason: string, samples: string[] = []): { details: EditDetails; newContent: string } => ({
+    details: {
+      ...details,
+      status: 'failed',
+      new_text_or_replacement: 'error',
+      match_count: 0,
+      sample_matches: [reason, ...samples]
+    },
+    newContent: content
+  });
+
+  const baseSha256 = edit.base_sha256 as string;
+  if (!/^[0-9a-f]{64}$/i.test(baseSha256)) {
+    return fail('base_sha256 must be a 64-character hex SHA-256 digest');
+  }
+
+  let hunks: PatchHunk[];
+  try {
+    hunks = parseHunks(edit.diff_content);
+  } catch (error) {
+    return fail(`Diff error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const hunkFailures = (results: HunkApplyResult[]): string[] =>
+    results.filter(r => r.status === 'failed').map(r => `Hunk ${r.index} (${r.header}): ${r.reason}`);
+
+  if (edit.base_content !== undefined &&
+      hashBuffer(encodeString(edit.base_content, encoding)) !== baseSha256.toLowerCase()) {
+    return fail('base_content does not match base_sha256');
+  }
+  const stored = recallVersion(baseSha256);
+  const base = stored !== undefined ? decodeBuffer(stored, encoding) : edit.base_content;
+  const unchanged = base !== undefined
+    ? base === content
+    : hashBuffer(encodeString(content, encoding)) === baseSha256.toLowerCase();
+
+  // 1. ベースから変更されていない場合はそのまま適用（ずれは許容しない）
+  if (unchanged) {
+    const applied = applyHunks(content, hunks, 0);
+    const failures = hunkFailures(applied.results);
+    if (failures.length > 0) {
+      return fail('Diff does not apply to its base version', failures);
+    }
+    return {
+      details: {
+        ...details,
+        status: 'success',
+        new_text_or_replacement: `${hunks.length} hunks applied`,
+        match_count: hunks.length,
+        diff_hunks: hunks.length
+      },
+      newContent: applied.content
+    };
+  }
+
+  // 2. ベースが不明な場合はマージできないので競合として扱う
+  if (base === undefined) {
+    return {
+      details: {
+        ...details,
+        status: 'diff_conflict',
+        new_text_or_replacement: 'not applied',
+        match_count: 0,
+        diff_hunks: hunks.length,
+        sample_matches: ['File changed since base_sha256 and the base version is no longer available - pass it as base_content'],
+        merge: { status: 'base_unavailable' }
+      },
+      newContent: content
+    };
+  }
+
+  // 3. ベースに diff を適用してから現在の内容とマージ
+  const patched = applyHunks(base, hunks, 0);
+  const failures = hunkFailures(patched.results);
+  if (failures.length > 0) {
+    return fail('Diff does not apply to its base version', failures);
+  }
+
+  const merged = merge3(base, content, patched.content);
+  if (merged.conflicts.length > 0) {
+    return {
+      details: {
+        ...details,
+        status: 'diff_conflict',
+        new_text_or_replacement: 'not applied',
+        match_count: 0,
+        diff_hunks: hunks.length,
+        sample_matches: merged.conflicts.map(
+          conflict => `${formatLineRange(conflict.start_line, conflict.end_line)} of merged content: ${firstLine(conflict.current || conflict.incoming)}`
+        ),
+        merge: {
+          status: 'conflict',
+          conflicts: merged.conflicts,
+          content_with_markers: merged.content
+        }
+      },
+      newContent: content
+    };
+  }
+
+  return {
+    details: {
+      ...details,
+      status: 'success',
+      new_text_or_replacement: `${hunks.length} hunks merged`,
+      match_count: hunks.length,
+      diff_hunks: hunks.length,
+      merge: { status: 'clean' }
+    },
+    newContent: merged.content
+  };
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { editFiles } from './edit-files.js';
+
+// rename を差し替えられるようにする（既定では実際の関数を呼ぶ）
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return { ...actual, rename: jest.fn(actual.rename) };
+});
+
+const actualFs = jest.requireActual<typeof fs>('fs/promises');
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('editFiles', () => {
+  let dir: string;
+  let first: string;
+  let second: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'edit-files-')));
+    initializeSecurityController([dir]);
+    first = path.join(dir, 'first.txt');
+    second = path.join(dir, 'second.txt');
+  });
+
+  beforeEach(async () => {
+    await fs.writeFile(first, 'alpha\nbeta\n');
+    await fs.writeFile(second, 'gamma\ndelta\n');
+  });
+
+  afterEach(() => {
+    jest.mocked(fs.rename).mockImplementation(actualFs.rename);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const readBoth = async () => [await fs.readFile(first, 'utf8'), await fs.readFile(second, 'utf8')];
+
+  test('applies the edits of every file', async () => {
+    const result = await editFiles({
+      files: [
+        { path: first, edits: [{ type: 'literal', old_text: 'beta', new_text: 'BETA' }] },
+        { path: second, edits: [{ type: 'literal', old_text: 'gamma', new_text: 'GAMMA' }] }
+      ]
+    }, safety, analyzer);
+
+    expect(result.status).toBe('success');
+    expect(result.applied).toBe(true);
+    expect(result.summary.files_changed).toBe(2);
+    expect(result.files.map(file => file.version?.sha256)).toEqual([sha256('alpha\nBETA\n'), sha256('GAMMA\ndelta\n')]);
+    expect(result.diff_output).toContain('--- a/');
+    expect(await readBoth()).toEqual(['alpha\nBETA\n', 'GAMMA\ndelta\n']);
+  });
+
+  test('writes nothing when the edits of one file do not match', async () => {
+    const result = await editFiles({
+      files: [
+        { path: first, edits: [{ type: 'literal', old_text: 'beta', new_text: 'BETA' }] },
+        { path: second, edits: [{ type: 'literal', old_text: 'missing', new_text: 'x' }] }
+      ]
+    }, safety, analyzer);
+
+    expect(result.status).toBe('error');
+    expect(result.applied).toBe(false);
+    expect(result.issue_details?.failed_files).toEqual([second]);
+    expect(await readBoth()).toEqual(['alpha\nbeta\n', 'gamma\ndelta\n']);
+  });
+
+  test('reports a conflict and writes nothing when a precondition fails', async () => {
+    const result = await editFiles({
+      files: [
+        { path: first, edits: [{ type: 'literal', old_text: 'beta', new_text: 'BETA' }] },
+        { path: second, edits: [{ type: 'literal', old_text: 'gamma', new_text: 'GAMMA' }], expected_sha256: sha256('stale\n') }
+      ]
+    }, safety, analyzer);
+
+    expect(result.status).toBe('conflict');
+    expect(result.applied).toBe(false);
+    expect(result.issue_details?.failed_files).toEqual([second]);
+    expect(await readBoth()).toEqual(['alpha\nbeta\n', 'gamma\ndelta\n']);
+  });
+
+  test('rejects a file listed twice', async () => {
+    const result = await editFiles({
+      files: [
+        { path: first, edits: [{ type: 'literal', old_text: 'alpha', new_text: 'ALPHA' }] },
+        { path: first, edits: [{ type: 'literal', old_text: 'beta', new_text: 'BETA' }] }
+      ]
+    }, safety, analyzer);
+
+    expect(result.status).toBe('error');
+    expect(result.files[1].issue_details?.reason).toContain('listed more than once');
+    expect(await fs.readFile(first, 'utf8')).toBe('alpha\nbeta\n');
+  });
+
+  test('does not write in dry_run mode', async () => {
+    const result = await editFiles({
+      files: [{ path: first, edits: [{ type: 'literal', old_text: 'beta', new_text: 'BETA' }] }],
+      dry_run: true
+    }, safety, analyzer);
+
+    expect(result.status).toBe('success');
+    expect(result.applied).toBe(false);
+    expect(result.diff_output).toContain('+BETA');
+    expect(await fs.readFile(first, 'utf8')).toBe('alpha\nbeta\n');
+  });
+
+  test('restores files already written when a later write fails', async () => {
+    // 2 つ目のファイルへの rename だけ失敗させる
+    jest.mocked(fs.rename).mockImplementation(async (from, to) => {
+      if (to === second) {
+        throw Object.assign(new Error('ENOSPC: no space left on device'), { code: 'ENOSPC' });
+      }
+      return actualFs.rename(from, to);
+    });
+
+    const result = await editFiles({
+      files: [
+        { path: first, edits: [{ type: 'literal', old_text: 'beta', new_text: 'BETA' }] },
+        { path: second, edits: [{ type: 'literal', old_text: 'gamma', new_text: 'GAMMA' }] }
+      ]
+    }, safety, analyzer);
+
+    expect(result.status).toBe('error');
+    expect(result.applied).toBe(false);
+    expect(result.issue_details?.reason).toContain('ENOSPC');
+    expect(result.issue_details?.rolled_back_files).toEqual([first]);
+    expect(result.issue_details?.rollback_errors).toBeUndefined();
+    expect(result.files[0].version).toBeUndefined();
+    expect(await readBoth()).toEqual(['alpha\nbeta\n', 'gamma\ndelta\n']);
+    // 一時ファイルが残っていない
+    expect((await fs.readdir(dir)).sort()).toEqual(['first.txt', 'second.txt']);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Smart Filesystem MCP - Edit Files Tool
+ * 複数ファイルのトランザクション編集ツール（全ファイルを事前検証し、全て適用するか何も適用しない）
+ */
+
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import { createEditErrorResult, prepareEdit } from './edit-file.js';
+import type { PreparedEdit } from './edit-file.js';
+import type { EditFileParams, EditFileResult } from '../core/types.js';
+
+/**
+ * edit_filesパラメータ
+ */
+export interface EditFilesParams {
+  /** ファイルごとの編集（edit_file と同じ形式、同じファイルは1回まで） */
+  files: Array<Omit<EditFileParams, 'dry_run'>>;
+  dry_run?: boolean;
+}
+
+/**
+ * ファイルごとの結果（diff はまとめて diff_output に含める）
+ */
+export interface EditFilesFileResult extends Omit<EditFileResult, 'diff_output'> {
+  path: string;
+}
+
+/**
+ * edit_files結果
+ */
+export interface EditFilesResult {
+  status: 'success' | 'warning' | 'conflict' | 'error';
+  /** 全ファイルに書き込んだか（dry_run・失敗時は false） */
+  applied: boolean;
+  dry_run: boolean;
+  summary: {
+    total_files: number;
+    files_changed: number;
+    total_edits: number;
+    failed_edits: number;
+    lines_changed: number;
+  };
+  files: EditFilesFileResult[];
+  /** 全ファイルの Git 形式 diff */
+  diff_output?: string;
+  issue_details?: {
+    reason: string;
+    failed_files?: string[];
+    rolled_back_files?: string[];
+    rollback_errors?: string[];
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+// 編集が適用できなかったことを示すステータス
+const FAILED_EDIT_STATUSES = ['failed', 'no_match', 'diff_conflict'];
+
+/**
+ * 複数ファイルをまとめて編集
+ */
+export async function editFiles(
+  params: EditFilesParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<EditFilesResult> {
+  const security = getSecurityController();
+  const dryRun = params.dry_run ?? false;
+  const files = Array.isArray(params.files) ? params.files : [];
+
+  const result: EditFilesResult = {
+    status: 'success',
+    applied: false,
+    dry_run: dryRun,
+    summary: {
+      total_files: files.length,
+      files_changed: 0,
+      total_edits: 0,
+      failed_edits: 0,
+      lines_changed: 0
+    },
+    files: []
+  };
+  const fail = (
+    status: 'conflict' | 'error',
+    reason: string,
+    suggestions: string[],
+    details: Omit<NonNullable<EditFilesResult['issue_details']>, 'reason'> = {}
+  ): EditFilesResult => {
+    result.status = status;
+    result.applied = false;
+    result.issue_details = { reason, ...details };
+    result.alternatives = { suggestions };
+    return result;
+  };
+
+  if (files.length === 0) {
+    return fail('error', 'At least one file is required', ['Pass files as a list of { path, edits }']);
+  }
+  if (files.length > SAFETY_LIMITS.EDIT_FILES_MAX_FILES) {
+    return fail('error', `Too many files (${files.length} > ${SAFETY_LIMITS.EDIT_FILES_MAX_FILES})`, [
+      'Split the change into several edit_files calls'
+    ]);
+  }
+
+  // 1. 全ファイルを検証し、書き込まずに編集結果を計算
+  const planned: Array<{ entry: EditFilesFileResult; edit?: PreparedEdit }> = [];
+  const seen = new Set<string>();
+  const failedFiles: string[] = [];
+  const diffs: string[] = [];
+  let hasConflict = false;
+
+  for (const file of files) {
+    try {
+      const validation = await security.validateAccess(file.path, 'write');
+      if (!validation.allowed) {
+        throw new Error(validation.reason || 'Access denied');
+      }
+      if (seen.has(validation.resolved_path)) {
+        throw new Error('File is listed more than once - combine its edits into one entry');
+      }
+      seen.add(validation.resolved_path);
+
+      const edit = await prepareEdit({ ...file, path: validation.resolved_path, dry_run: true }, safety, analyzer);
+      const { diff_output: diff, ...fileResult } = edit.result;
+      const entry: EditFilesFileResult = { path: file.path, ...fileResult };
+
+      // status 'error' は validate_syntax で構文エラーが見つかった場合か、diff 編集をマージできなかった場合
+      const failedEdit = edit.result.edit_details?.some(detail => FAILED_EDIT_STATUSES.includes(detail.status));
+      if (edit.result.status === 'conflict' || edit.result.status === 'error' || failedEdit) {
+        hasConflict ||= edit.result.status === 'conflict';
+        failedFiles.push(file.path);
+      }
+      if (diff && edit.output) {
+        diffs.push(relabelDiff(diff, file.path));
+      }
+      planned.push({ entry, edit });
+    } catch (error) {
+      const { diff_output: _diff, ...fileResult } = createEditErrorResult(file, error);
+      planned.push({ entry: { path: file.path, ...fileResult } });
+      failedFiles.push(file.path);
+    }
+  }
+
+  result.files = planned.map(({ entry }) => entry);
+  if (diffs.length > 0) {
+    result.diff_output = diffs.map(diff => diff.endsWith('\n') ? diff : `${diff}\n`).join('');
+  }
+  for (const { entry, edit } of planned) {
+    result.summary.total_edits += entry.edit_summary.total_edits;
+    result.summary.failed_edits += entry.edit_summary.failed_edits ?? 0;
+    result.summary.lines_changed += entry.edit_summary.lines_changed ?? 0;
+    if (edit?.output) {
+      result.summary.files_changed++;
+    }
+  }
+  if (result.files.some(entry => entry.status === 'warning')) {
+    result.status = 'warning';
+  }
+
+  // 2. 1ファイルでも失敗があれば何も書き込まない
+  if (failedFiles.length > 0) {
+    return fail(
+      hasConflict ? 'conflict' : 'error',
+      `${failedFiles.length} of ${files.length} files could not be edited - no files were changed`,
+      [
+        'Check edit_details and syntax_check of the listed files for edits that did not match or broke the syntax',
+        hasConflict
+          ? 'Re-read the conflicting files and retry with their current sha256 as expected_sha256'
+          : 'Fix or remove the failing edits and retry the whole set',
+        'Use dry_run to preview the combined diff before applying'
+      ],
+      { failed_files: failedFiles }
+    );
+  }
+
+  if (dryRun) {
+    return result;
+  }
+
+  // 3. 書き込み（途中で失敗した場合は書き込み済みのファイルを元の内容に戻す）
+  const written: Array<{ entry: EditFilesFileResult; edit: PreparedEdit }> = [];
+  try {
+    for (const { entry, edit } of planned) {
+      if (!edit?.output) {
+        continue;
+      }
+      entry.version = await writeFileAtomic(edit.path, edit.output);
+      written.push({ entry, edit });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const rollbackErrors: string[] = [];
+
+    for (const { entry, edit } of written.reverse()) {
+      delete entry.version;
+      try {
+        await writeFileAtomic(edit.path, edit.original);
+      } catch (rollbackError) {
+        rollbackErrors.push(`${entry.path}: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+      }
+    }
+
+    return fail(
+      'error',
+      `Write failed (${message}) - ${written.length} already written files were restored`,
+      rollbackErrors.length > 0
+        ? ['Some files could not be restored - check rollback_errors and fix them manually']
+        : ['Check permissions and free disk space for the listed files, then retry'],
+      {
+        rolled_back_files: written.map(({ entry }) => entry.path),
+        ...(rollbackErrors.length > 0 && { rollback_errors: rollbackErrors })
+      }
+    );
+  }
+
+  result.applied = true;
+  return result;
+}
+
+/**
+ * diff のヘッダーをファイル名からリクエストされたパスに置き換える
+ */
+function relabelDiff(diff: string, filePath: string): string {
+  const label = filePath.replace(/^(\.\/|\/)/, '');
+  return diff.replace(/^--- a\/.*\n\+\+\+ b\/.*(\n|$)/, `--- a/${label}\n+++ b/${label}$1`);
+}
@@ -0,0 +1,230 @@
+/**
+ * Smart Filesystem MCP - Edit Notebook Tool
+ * Jupyter ノートブックのセル単位編集ツール（置換・挿入・削除、書式とメタデータを保持）
+ */
+
+import * as fs from 'fs/promises';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { formatBytes } from '../utils/helpers.js';
+import {
+  changeCellType,
+  createCell,
+  getCellSource,
+  isNotebookCellType,
+  isNotebookFile,
+  parseNotebook,
+  serializeNotebook,
+  setCellSource
+} from '../utils/notebook.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import type { Notebook, NotebookCell, NotebookCellType } from '../utils/notebook.js';
+
+/**
+ * セル操作
+ */
+export type NotebookEditOperation = 'replace' | 'insert' | 'delete';
+
+/**
+ * edit_notebookパラメータ
+ */
+export interface EditNotebookParams {
+  path: string;
+  operation: NotebookEditOperation;
+  cell_index: number;
+  source?: string;
+  cell_type?: NotebookCellType;
+  dry_run?: boolean;
+}
+
+/**
+ * edit_notebook結果
+ */
+export interface EditNotebookResult {
+  status: 'success' | 'warning' | 'error';
+  notebook_info: {
+    path: string;
+    cell_count_before: number;
+    cell_count_after: number;
+  };
+  operation: NotebookEditOperation;
+  cell_index: number;
+  cell?: {
+    cell_type: NotebookCellType;
+    id?: string;
+    source_preview: string[];
+    outputs_cleared?: boolean;
+  };
+  dry_run: boolean;
+  issue_details?: {
+    reason: string;
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+// プレビューに含める行数
+const PREVIEW_LINES = 10;
+
+/**
+ * ノートブックのセルを編集
+ */
+export async function editNotebook(params: EditNotebookParams): Promise<EditNotebookResult> {
+  const security = getSecurityController();
+  const dryRun = params.dry_run ?? false;
+
+  // セキュリティチェック
+  const validation = await security.validateAccess(params.path, 'write');
+  if (!validation.allowed) {
+    throw new Error(validation.reason || 'Access denied');
+  }
+
+  const resolvedPath = validation.resolved_path;
+  if (!isNotebookFile(resolvedPath)) {
+    throw new Error('edit_notebook only supports .ipynb files - use edit_file for other files');
+  }
+
+  const stats = await fs.stat(resolvedPath);
+  if (!stats.isFile()) {
+    throw new Error('Path is not a file');
+  }
+  if (stats.size > SAFETY_LIMITS.NOTEBOOK_MAX_FILE_SIZE) {
+    throw new Error(
+      `Notebook too large for editing (${formatBytes(stats.size)} > ${formatBytes(SAFETY_LIMITS.NOTEBOOK_MAX_FILE_SIZE)})`
+    );
+  }
+
+  const original = await fs.readFile(resolvedPath, 'utf8');
+  const result: EditNotebookResult = {
+    status: 'success',
+    notebook_info: {
+      path: params.path,
+      cell_count_before: 0,
+      cell_count_after: 0
+    },
+    operation: params.operation,
+    cell_index: params.cell_index,
+    dry_run: dryRun
+  };
+
+  let notebook: Notebook;
+  try {
+    notebook = parseNotebook(original);
+  } catch (error) {
+    return withError(result, error instanceof Error ? error.message : String(error), [
+      'Use edit_file for notebooks that are not valid nbformat 4 JSON'
+    ]);
+  }
+
+  const cellCount = notebook.cells.length;
+  result.notebook_info.cell_count_before = cellCount;
+  result.notebook_info.cell_count_after = cellCount;
+
+  const paramError = validateParams(params, cellCount);
+  if (paramError) {
+    return withError(result, paramError, [
+      'Read the notebook with read_file to see the cell numbers',
+      `Valid cell_index: 0-${Math.max(cellCount - 1, 0)} (insert also accepts ${cellCount} to append)`
+    ]);
+  }
+
+  // 元の書式で再シリアライズできるか（できない場合は正規化される旨を警告）
+  const roundTrips = serializeNotebook(parseNotebook(original), original) === original;
+
+  const index = params.cell_index;
+  let cell: NotebookCell;
+  let outputsCleared = false;
+
+  switch (params.operation) {
+    case 'insert':
+      cell = createCell(notebook, params.cell_type ?? 'code', params.source ?? '');
+      notebook.cells.splice(index, 0, cell);
+      break;
+
+    case 'delete':
+      cell = notebook.cells.splice(index, 1)[0] as NotebookCell;
+      break;
+
+    default: {
+      cell = notebook.cells[index] as NotebookCell;
+      if (params.cell_type) {
+        cell = changeCellType(cell, params.cell_type);
+      }
+      if (params.source !== undefined && params.source !== getCellSource(cell)) {
+        setCellSource(cell, params.source, Array.isArray(cell.source));
+        // ソースが変わった code セルの出力は古くなるため消去
+        if (cell.cell_type === 'code' && ((cell.outputs?.length ?? 0) > 0 || cell.execution_count != null)) {
+          cell.outputs = [];
+          cell.execution_count = null;
+          outputsCleared = true;
+        }
+      }
+      notebook.cells[index] = cell;
+      break;
+    }
+  }
+
+  result.notebook_info.cell_count_after = notebook.cells.length;
+  result.cell = {
+    cell_type: cell.cell_type,
+    ...(cell.id && { id: cell.id }),
+    source_preview: getCellSource(cell).replace(/\n$/, '').split('\n').slice(0, PREVIEW_LINES),
+    ...(outputsCleared && { outputs_cleared: true })
+  };
+
+  if (!dryRun) {
+    await writeFileAtomic(resolvedPath, serializeNotebook(notebook, original));
+  }
+
+  if (!roundTrips) {
+    result.status = 'warning';
+    result.issue_details = {
+      reason: 'The notebook JSON layout differs from standard nbformat output, so unchanged parts were reformatted'
+    };
+  }
+
+  return result;
+}
+
+/**
+ * パラメータ検証
+ */
+function validateParams(params: EditNotebookParams, cellCount: number): string | null {
+  if (!['replace', 'insert', 'delete'].includes(params.operation)) {
+    return 'operation must be one of replace, insert or delete';
+  }
+
+  const maxIndex = params.operation === 'insert' ? cellCount : cellCount - 1;
+  if (!Number.isInteger(params.cell_index) || params.cell_index < 0 || params.cell_index > maxIndex) {
+    return `cell_index ${params.cell_index} is out of range (notebook has ${cellCount} cells)`;
+  }
+
+  if (params.cell_type !== undefined && !isNotebookCellType(params.cell_type)) {
+    return 'cell_type must be one of code, markdown or raw';
+  }
+
+  if (params.operation === 'insert' && params.source === undefined) {
+    return 'source is required for insert';
+  }
+
+  if (params.operation === 'replace' && params.source === undefined && params.cell_type === undefined) {
+    return 'replace requires source and/or cell_type';
+  }
+
+  if (params.operation === 'delete' && (params.source !== undefined || params.cell_type !== undefined)) {
+    return 'delete does not take source or cell_type';
+  }
+
+  return null;
+}
+
+/**
+ * エラー状態を設定
+ */
+function withError(result: EditNotebookResult, reason: string, suggestions: string[]): EditNotebookResult {
+  result.status = 'error';
+  result.issue_details = { reason };
+  result.alternatives = { suggestions };
+  return result;
+}
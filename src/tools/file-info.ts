@@ -8,7 +8,10 @@ import * as path from 'path';
 import { getSecurityController } from '../core/security-controller-v2.js';
 import { FileAnalyzer } from '../core/file-analyzer.js';
 import { SAFETY_LIMITS } from '../utils/constants.js';
+import { readMediaMetadata } from '../utils/media-metadata.js';
+import { hashFile } from '../utils/atomic-write.js';
 import type { FileAnalysis } from '../core/types.js';
+import type { MediaMetadata } from '../utils/media-metadata.js';
 
 /**
  * file_infoパラメータ
@@ -62,9 +65,15 @@ export interface FileInfoResult {
     mode: string;
   };
   
+  // 内容のハッシュ（write_file 等の expected_sha256 に指定可能）
+  sha256?: string;
+  
   // 拡張分析情報
   file_analysis?: FileAnalysisInfo;
   
+  // 画像・音声・動画メタデータ
+  media?: MediaMetadata;
+  
   // ディレクトリ情報
   directory_info?: DirectoryInfo;
 }
@@ -226,6 +235,10 @@ export async function fileInfo(
       permissions
     };
     
+    if (type === 'file' && stats.size <= SAFETY_LIMITS.PRECONDITION_HASH_MAX_SIZE) {
+      result.sha256 = await hashFile(resolvedPath).catch(() => undefined);
+    }
+    
     // ファイル分析（ファイルの場合のみ）
     if (type === 'file' && include_analysis) {
       try {
@@ -252,6 +265,12 @@ export async function fileInfo(
           safe_to_read: false
         };
       }
+      
+      // メディアメタデータ（対応形式のみ、解析失敗時は省略）
+      const media = await readMediaMetadata(resolvedPath).catch(() => null);
+      if (media) {
+        result.media = media;
+      }
     }
     
     // ディレクトリ情報（ディレクトリの場合のみ）
@@ -0,0 +1,150 @@
+/**
+ * Smart Filesystem MCP - List Archive Tool
+ * zip / tar / tar.gz アーカイブのエントリ一覧ツール
+ */
+
+import * as fs from 'fs/promises';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { detectArchiveFormat, listArchiveEntries } from '../utils/archive-reader.js';
+import type { ArchiveEntry, ArchiveFormat } from '../utils/archive-reader.js';
+
+/**
+ * list_archiveパラメータ
+ */
+export interface ListArchiveParams {
+  path: string;
+  max_entries?: number;
+}
+
+/**
+ * list_archive結果
+ */
+export interface ListArchiveResult {
+  status: 'success' | 'warning' | 'error';
+  archive_info: {
+    path: string;
+    format?: ArchiveFormat;
+    size_bytes: number;
+    total_entries: number;
+    total_uncompressed_bytes: number;
+    file_count: number;
+    directory_count: number;
+  };
+  entries: ArchiveEntry[];
+  complete: boolean;
+  issue_details?: {
+    reason: string;
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+/**
+ * アーカイブのエントリ一覧を取得
+ */
+export async function listArchive(params: ListArchiveParams): Promise<ListArchiveResult> {
+  const security = getSecurityController();
+  const maxEntries = params.max_entries ?? SAFETY_LIMITS.ARCHIVE_LIST_DEFAULT_ENTRIES;
+
+  // セキュリティチェック
+  const validation = await security.validateAccess(params.path, 'read');
+  if (!validation.allowed) {
+    throw new Error(validation.reason || 'Access denied');
+  }
+
+  const resolvedPath = validation.resolved_path;
+  const stats = await fs.stat(resolvedPath);
+  const fail = (reason: string, suggestions: string[], format?: ArchiveFormat): ListArchiveResult =>
+    buildErrorResult(params.path, stats.size, reason, suggestions, format);
+
+  if (!stats.isFile()) {
+    return fail('Path is not a file', ['Use list_directory to browse directories']);
+  }
+
+  const format = detectArchiveFormat(resolvedPath);
+  if (!format) {
+    return fail('list_archive supports .zip, .tar, .tar.gz and .tgz files', [
+      'Use file_info to identify the file type'
+    ]);
+  }
+
+  if (!Number.isInteger(maxEntries) || maxEntries < 1 || maxEntries > SAFETY_LIMITS.ARCHIVE_LIST_MAX_ENTRIES) {
+    return fail(`max_entries must be an integer between 1 and ${SAFETY_LIMITS.ARCHIVE_LIST_MAX_ENTRIES}`, [], format);
+  }
+
+  let listing;
+  try {
+    listing = await listArchiveEntries(resolvedPath, format, maxEntries);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error), [
+      'Check that the file is a valid archive (file_info reports the detected type)'
+    ], format);
+  }
+
+  const files = listing.entries.filter(entry => entry.type === 'file');
+  const result: ListArchiveResult = {
+    status: 'success',
+    archive_info: {
+      path: params.path,
+      format,
+      size_bytes: stats.size,
+      total_entries: listing.total_entries,
+      total_uncompressed_bytes: files.reduce((sum, entry) => sum + entry.size, 0),
+      file_count: files.length,
+      directory_count: listing.entries.filter(entry => entry.type === 'directory').length
+    },
+    entries: listing.entries,
+    complete: listing.complete
+  };
+
+  if (!listing.complete) {
+    result.status = 'warning';
+    result.issue_details = {
+      reason: `Listing stopped after ${SAFETY_LIMITS.MAX_OPERATION_TIME / 1000} seconds - ${listing.total_entries.toLocaleString()} entries scanned so far`
+    };
+  } else if (listing.total_entries > listing.entries.length) {
+    result.status = 'warning';
+    result.issue_details = {
+      reason: `Showing ${listing.entries.length.toLocaleString()} of ${listing.total_entries.toLocaleString()} entries (totals cover the shown entries)`
+    };
+    result.alternatives = {
+      suggestions: [`Increase max_entries (up to ${SAFETY_LIMITS.ARCHIVE_LIST_MAX_ENTRIES}) to see more entries`]
+    };
+  }
+
+  return result;
+}
+
+/**
+ * エラー結果を生成
+ */
+function buildErrorResult(
+  filePath: string,
+  sizeBytes: number,
+  reason: string,
+  suggestions: string[],
+  format?: ArchiveFormat
+): ListArchiveResult {
+  return {
+    status: 'error',
+    archive_info: {
+      path: filePath,
+      ...(format && { format }),
+      size_bytes: sizeBytes,
+      total_entries: 0,
+      total_uncompressed_bytes: 0,
+      file_count: 0,
+      directory_count: 0
+    },
+    entries: [],
+    complete: false,
+    issue_details: {
+      reason
+    },
+    alternatives: {
+      suggestions
+    }
+  };
+}
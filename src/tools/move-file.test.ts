@@ -0,0 +1,80 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { SafetyController } from '../core/safety-controller.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { moveFile } from './move-file.js';
+
+// rename・open を差し替えられるようにする（既定では実際の関数を呼ぶ）
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return { ...actual, rename: jest.fn(actual.rename), open: jest.fn(actual.open) };
+});
+
+const actualFs = jest.requireActual<typeof fs>('fs/promises');
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('moveFile across devices', () => {
+  let dir: string;
+  let source: string;
+  let destination: string;
+  const safety = new SafetyController();
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'move-file-')));
+    initializeSecurityController([dir]);
+    source = path.join(dir, 'build.sh');
+    destination = path.join(dir, 'out', 'build.sh');
+  });
+
+  beforeEach(async () => {
+    await fs.rm(path.join(dir, 'out'), { recursive: true, force: true });
+    await fs.mkdir(path.join(dir, 'out'));
+    await fs.writeFile(source, 'echo build\n');
+    await fs.chmod(source, 0o755);
+    await fs.utimes(source, new Date('2024-01-02T03:04:05Z'), new Date('2024-01-02T03:04:05Z'));
+
+    // 移動元から直接の rename だけ別デバイス扱いにして、コピーによる移動を通す
+    jest.mocked(fs.rename).mockImplementation(async (from, to) => {
+      if (from === source) {
+        throw Object.assign(new Error('EXDEV: cross-device link not permitted'), { code: 'EXDEV' });
+      }
+      return actualFs.rename(from, to);
+    });
+    jest.mocked(fs.open).mockImplementation(actualFs.open);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('copies the file with its mode and modification time', async () => {
+    const result = await moveFile({ source, destination, expected_sha256: sha256('echo build\n') }, safety);
+
+    expect(result.status).toBe('success');
+    await expect(fs.stat(source)).rejects.toMatchObject({ code: 'ENOENT' });
+    const stats = await fs.stat(destination);
+    expect(await fs.readFile(destination, 'utf8')).toBe('echo build\n');
+    expect(stats.mode & 0o777).toBe(0o755);
+    expect(stats.mtime.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+    expect(await fs.readdir(path.dirname(destination))).toEqual(['build.sh']);
+  });
+
+  test('moves nothing when the source changes after the precondition check', async () => {
+    // 宛先の一時ファイルを開いた時点で移動元が書き換えられる
+    jest.mocked(fs.open).mockImplementation(async (file, ...rest) => {
+      if (String(file).endsWith('.tmp')) {
+        await actualFs.writeFile(source, 'echo changed\n');
+      }
+      return actualFs.open(file, ...rest);
+    });
+
+    const result = await moveFile({ source, destination, expected_sha256: sha256('echo build\n') }, safety);
+
+    expect(result.status).toBe('conflict');
+    expect(result.conflict?.current_sha256).toBe(sha256('echo changed\n'));
+    expect(await fs.readFile(source, 'utf8')).toBe('echo changed\n');
+    expect(await fs.readdir(path.dirname(destination))).toEqual([]);
+  });
+});
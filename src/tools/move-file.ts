@@ -4,12 +4,17 @@
  */
 
 import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
 import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
 import { SafetyController } from '../core/safety-controller.js';
 import { SAFETY_LIMITS } from '../utils/constants.js';
+import { checkPreconditions, hashFile } from '../utils/atomic-write.js';
 import type { 
   MoveFileParams,
-  MoveFileResult
+  MoveFileResult,
+  WriteConflict,
+  WritePreconditions
 } from '../core/types.js';
 
 /**
@@ -65,6 +70,28 @@ export async function moveFile(
       );
     }
     
+    // 前提条件チェック（移動元が呼び出し側の想定したバージョンか）
+    const conflictResult = (conflict: WriteConflict): MoveFileResult => ({
+      status: 'conflict',
+      operation_info: {
+        source: sourcePath,
+        destination: destPath,
+        operation_type: getOperationType(sourcePath, destPath),
+        size_bytes: sourceStats.size
+      },
+      conflict,
+      alternatives: {
+        suggestions: [
+          'Re-read the source file to check the changes before moving it',
+          'Pass current_sha256 as expected_sha256 to move the current version'
+        ]
+      }
+    });
+    const conflict = await checkPreconditions(sourcePath, params);
+    if (conflict) {
+      return conflictResult(conflict);
+    }
+    
     // 宛先ディレクトリのアクセスチェック
     const destDir = path.dirname(destPath);
     const destDirCheck = await safety.validateDirectoryAccess(destDir);
@@ -115,8 +142,11 @@ export async function moveFile(
     await fs.mkdir(destDir, { recursive: true });
     
     // タイムアウト付きで移動実行
-    const movePromise = performMove(sourcePath, destPath);
-    await safety.enforceTimeout(movePromise, SAFETY_LIMITS.MOVE_TIMEOUT, 'File move');
+    const movePromise = performMove(sourcePath, destPath, params);
+    const copyConflict = await safety.enforceTimeout(movePromise, SAFETY_LIMITS.MOVE_TIMEOUT, 'File move');
+    if (copyConflict) {
+      return conflictResult(copyConflict);
+    }
     
     // 成功レスポンス
     return {
@@ -153,20 +183,70 @@ export async function moveFile(
 
 /**
  * ファイル移動の実行
+ * コピーで移動する場合に移動元が前提条件を満たさなくなっていたときは WriteConflict を返す（何も移動しない）
  */
-async function performMove(sourcePath: string, destPath: string): Promise<void> {
+async function performMove(
+  sourcePath: string,
+  destPath: string,
+  preconditions: WritePreconditions
+): Promise<WriteConflict | null> {
   try {
     // まずrenameを試す（同一ファイルシステム内で高速）
     await fs.rename(sourcePath, destPath);
+    return null;
   } catch (error) {
-    // クロスデバイスエラーの場合はコピー＆削除
-    if ((error as any).code === 'EXDEV') {
-      await fs.copyFile(sourcePath, destPath);
-      await fs.unlink(sourcePath);
-    } else {
+    if ((error as any).code !== 'EXDEV') {
       throw error;
     }
   }
+
+  // クロスデバイスエラーの場合は一時ファイルにコピーしてから rename（途中で失敗しても宛先が壊れない）
+  const tempPath = path.join(
+    path.dirname(destPath),
+    `.${path.basename(destPath)}.${randomBytes(6).toString('hex')}.tmp`
+  );
+  try {
+    const sourceStats = await fs.stat(sourcePath);
+    const copiedSha256 = await copyWithHash(sourcePath, tempPath);
+
+    // 最初のチェックからコピーまでの間に移動元が変更されていないか
+    const conflict = await checkPreconditions(sourcePath, preconditions);
+    if (conflict) {
+      await fs.unlink(tempPath);
+      return conflict;
+    }
+    if (await hashFile(sourcePath) !== copiedSha256) {
+      throw new Error('Source file changed while it was being copied to another device - nothing was moved');
+    }
+
+    // rename と同じくパーミッションと更新日時を引き継ぐ
+    await fs.chmod(tempPath, sourceStats.mode & 0o7777);
+    await fs.utimes(tempPath, sourceStats.atime, sourceStats.mtime);
+    await fs.rename(tempPath, destPath);
+  } catch (copyError) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw copyError;
+  }
+  await fs.unlink(sourcePath);
+  return null;
+}
+
+/**
+ * ファイルをコピーして内容の SHA-256 を返す（コピー先は新規作成し fsync する）
+ */
+async function copyWithHash(sourcePath: string, destPath: string): Promise<string> {
+  const hash = createHash('sha256');
+  const handle = await fs.open(destPath, 'wx');
+  try {
+    for await (const chunk of createReadStream(sourcePath)) {
+      hash.update(chunk as Buffer);
+      await handle.write(chunk as Buffer);
+    }
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  return hash.digest('hex');
 }
 
 /**
@@ -227,6 +307,11 @@ function getErrorSuggestions(errorMessage: string): string[] {
       'Copy the file manually using system tools',
       'Increase the move size limit if appropriate'
     );
+  } else if (errorMessage.includes('expected_')) {
+    suggestions.push(
+      'Use the sha256 reported by file_info as expected_sha256',
+      'Pass expected_mtime as an ISO 8601 timestamp such as file_info modified'
+    );
   } else if (errorMessage.includes('same')) {
     suggestions.push(
       'Provide different source and destination paths',
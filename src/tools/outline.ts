@@ -0,0 +1,162 @@
+/**
+ * Smart Filesystem MCP - Outline Tool
+ * コードファイルの構造（シンボル一覧と行範囲）を返すツール
+ */
+
+import * as fs from 'fs/promises';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { extractOutline, resolveOutlineLanguage } from '../core/outline-parser.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { estimateTokenCount, formatBytes, isBinaryContent } from '../utils/helpers.js';
+import type { OutlineSymbol } from '../core/outline-parser.js';
+
+/**
+ * outlineパラメータ
+ */
+export interface OutlineParams {
+  path: string;
+}
+
+/**
+ * outline結果
+ */
+export interface OutlineResult {
+  status: 'success' | 'warning' | 'error';
+  file_info: {
+    path: string;
+    language?: string;
+    size_bytes: number;
+    total_lines: number;
+    estimated_tokens: number;
+  };
+  symbols: OutlineSymbol[];
+  symbol_count: number;
+  issue_details?: {
+    reason: string;
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+/**
+ * ファイルのアウトラインを取得
+ */
+export async function outline(
+  params: OutlineParams,
+  analyzer: FileAnalyzer
+): Promise<OutlineResult> {
+  const security = getSecurityController();
+
+  // セキュリティチェック
+  const validation = await security.validateAccess(params.path, 'read');
+  if (!validation.allowed) {
+    throw new Error(validation.reason || 'Access denied');
+  }
+
+  const resolvedPath = validation.resolved_path;
+  const stats = await fs.stat(resolvedPath);
+
+  if (!stats.isFile()) {
+    return buildErrorResult(params.path, stats.size, 'Path is not a file', [
+      'Use list_directory to browse directories'
+    ]);
+  }
+
+  if (stats.size > SAFETY_LIMITS.OUTLINE_MAX_FILE_SIZE) {
+    return buildErrorResult(
+      params.path,
+      stats.size,
+      `File too large for outline (${formatBytes(stats.size)} > ${formatBytes(SAFETY_LIMITS.OUTLINE_MAX_FILE_SIZE)})`,
+      ['Use search_content to locate specific definitions']
+    );
+  }
+
+  const buffer = await fs.readFile(resolvedPath);
+  if (isBinaryContent(buffer.subarray(0, 8192))) {
+    return buildErrorResult(params.path, stats.size, 'Binary file cannot be outlined', [
+      'Use file_info to inspect binary files'
+    ]);
+  }
+
+  const content = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  const detectedLanguage = analyzer.detectProgrammingLanguage(resolvedPath, content);
+  const language = resolveOutlineLanguage(detectedLanguage);
+
+  if (!language) {
+    return buildErrorResult(
+      params.path,
+      stats.size,
+      `Outline is not supported for ${detectedLanguage || 'this file type'}`,
+      [
+        'Supported languages: TypeScript, JavaScript, Python, Go, Rust, Java, Markdown',
+        'Use search_content to locate specific definitions',
+        'Use read_file with start_line/end_line to read part of the file'
+      ]
+    );
+  }
+
+  const symbols = extractOutline(content, language);
+  const symbolCount = countSymbols(symbols);
+  const totalLines = content.split(/\r?\n/).length;
+
+  const result: OutlineResult = {
+    status: symbolCount > 0 ? 'success' : 'warning',
+    file_info: {
+      path: params.path,
+      language: detectedLanguage,
+      size_bytes: stats.size,
+      total_lines: totalLines,
+      estimated_tokens: estimateTokenCount(content)
+    },
+    symbols,
+    symbol_count: symbolCount
+  };
+
+  if (symbolCount === 0) {
+    result.issue_details = {
+      reason: 'No top-level symbols found'
+    };
+    result.alternatives = {
+      suggestions: ['Use read_file to read the file directly']
+    };
+  }
+
+  return result;
+}
+
+/**
+ * 子要素を含むシンボル数をカウント
+ */
+function countSymbols(symbols: OutlineSymbol[]): number {
+  return symbols.reduce((count, symbol) => count + 1 + countSymbols(symbol.children ?? []), 0);
+}
+
+/**
+ * エラー結果を生成
+ */
+function buildErrorResult(
+  filePath: string,
+  sizeBytes: number,
+  reason: string,
+  suggestions: string[]
+): OutlineResult {
+  return {
+    status: 'error',
+    file_info: {
+      path: filePath,
+      size_bytes: sizeBytes,
+      total_lines: 0,
+      estimated_tokens: 0
+    },
+    symbols: [],
+    symbol_count: 0,
+    issue_details: {
+      reason
+    },
+    alternatives: {
+      suggestions
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,280 @@
+/**
+ * Smart Filesystem MCP - Query Data Tool
+ * JSON/JSONC/YAMLファイルから指定パスの部分木だけを返すツール
+ */
+
+import * as fs from 'fs/promises';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import {
+  detectDataFormat,
+  parseDataContent,
+  parseQueryPath,
+  evaluatePath,
+  shapeValue,
+  measureDepth,
+  describeValueType,
+  listChildKeys
+} from '../core/data-query.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { estimateTokenCount, formatBytes, getFileTypeFromExtension, isBinaryContent } from '../utils/helpers.js';
+import { decodeBuffer, isSupportedEncoding } from '../utils/encoding.js';
+import type { DataFormat, ArrayTruncation, ShapedValue } from '../core/data-query.js';
+
+/**
+ * query_dataパラメータ
+ */
+export interface QueryDataParams {
+  path: string;
+  query?: string;
+  format?: DataFormat;
+  max_items?: number;
+  max_tokens?: number;
+}
+
+/**
+ * query_data結果
+ */
+export interface QueryDataResult {
+  status: 'success' | 'warning' | 'error';
+  file_info: {
+    path: string;
+    format?: DataFormat;
+    size_bytes: number;
+  };
+  query: string;
+  value?: unknown;
+  value_type?: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  match_count?: number;
+  matched_paths?: string[];
+  truncation?: {
+    max_items: number;
+    max_depth?: number;
+    truncated_arrays: ArrayTruncation[];
+    collapsed_nodes: number;
+    original_tokens: number;
+  };
+  estimated_tokens: number;
+  available_keys?: string[];
+  issue_details?: {
+    reason: string;
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+/**
+ * 結果に含める切り詰め配列・キー一覧の上限
+ */
+const MAX_REPORTED_TRUNCATIONS = 50;
+const MAX_AVAILABLE_KEYS = 100;
+
+/**
+ * データファイルにパスクエリを実行
+ */
+export async function queryData(
+  params: QueryDataParams,
+  analyzer: FileAnalyzer
+): Promise<QueryDataResult> {
+  const security = getSecurityController();
+  const query = params.query?.trim() || '$';
+
+  // セキュリティチェック
+  const validation = await security.validateAccess(params.path, 'read');
+  if (!validation.allowed) {
+    throw new Error(validation.reason || 'Access denied');
+  }
+
+  const resolvedPath = validation.resolved_path;
+  const stats = await fs.stat(resolvedPath);
+  const fail = (reason: string, suggestions: string[], format?: DataFormat): QueryDataResult =>
+    buildErrorResult(params.path, stats.size, query, reason, suggestions, format);
+
+  if (!stats.isFile()) {
+    return fail('Path is not a file', ['Use list_directory to browse directories']);
+  }
+
+  // config/data 分類のJSON・YAMLのみ対象（format指定時は拡張子を問わない）
+  const category = getFileTypeFromExtension(resolvedPath).category;
+  const format = params.format ?? (category === 'config' || category === 'data' ? detectDataFormat(resolvedPath) : undefined);
+  if (!format) {
+    return fail('query_data supports JSON, JSONC and YAML files', [
+      'Pass format: "json", "jsonc" or "yaml" if the file has a non-standard extension',
+      'Use read_file to read other file types'
+    ]);
+  }
+
+  if (stats.size > SAFETY_LIMITS.QUERY_DATA_MAX_FILE_SIZE) {
+    return fail(
+      `File too large to query (${formatBytes(stats.size)} > ${formatBytes(SAFETY_LIMITS.QUERY_DATA_MAX_FILE_SIZE)})`,
+      ['Use search_content to locate the key instead'],
+      format
+    );
+  }
+
+  const buffer = await fs.readFile(resolvedPath);
+  if (isBinaryContent(buffer.subarray(0, 8192))) {
+    return fail('Binary file cannot be queried', ['Use file_info to inspect binary files'], format);
+  }
+
+  const encoding = await analyzer.detectFileEncoding(resolvedPath);
+  const content = decodeBuffer(buffer, isSupportedEncoding(encoding) ? encoding : 'utf8').replace(/^\uFEFF/, '');
+
+  let data: unknown;
+  try {
+    data = parseDataContent(content, format);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error), [
+      'Fix the syntax error or use read_file with start_line/end_line around the reported line'
+    ], format);
+  }
+
+  let segments;
+  try {
+    segments = parseQueryPath(query);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error), [
+      'Use dotted paths like dependencies.express or items[3].name',
+      'Quote keys containing dots or slashes: packages["node_modules/express"]'
+    ], format);
+  }
+
+  const { matches, miss } = evaluatePath(data, segments);
+  if (matches.length === 0) {
+    const result = fail(
+      miss ? `Path not found: no ${miss.segment} at ${miss.resolved_path}` : `Path not found: ${query}`,
+      [
+        'Check available_keys for the keys present at the deepest resolved path',
+        'Use * or [*] to match all keys or items'
+      ],
+      format
+    );
+    if (miss) {
+      result.available_keys = listChildKeys(miss.node, MAX_AVAILABLE_KEYS);
+    }
+    return result;
+  }
+
+  // ワイルドカードの場合はマッチした値の配列を返す
+  const hasWildcard = segments.some(segment => segment.type === 'wildcard');
+  const selected = hasWildcard ? matches.map(match => match.value) : matches[0]!.value;
+  const basePath = hasWildcard ? query : matches[0]!.path;
+
+  const budget = Math.min(
+    params.max_tokens ?? SAFETY_LIMITS.QUERY_DATA_DEFAULT_TOKENS,
+    SAFETY_LIMITS.QUERY_DATA_MAX_TOKENS
+  );
+  const requestedItems = params.max_items ?? SAFETY_LIMITS.QUERY_DATA_DEFAULT_ITEMS;
+
+  // 配列件数→ネスト深さの順に絞り込んで予算に収める
+  let maxItems = requestedItems;
+  let maxDepth: number | undefined;
+  let shaped = shapeValue(selected, basePath, maxItems);
+  let tokens = countValueTokens(shaped.value);
+
+  while (tokens > budget && maxItems > 1) {
+    maxItems = Math.max(1, Math.floor(maxItems / 2));
+    shaped = shapeValue(selected, basePath, maxItems);
+    tokens = countValueTokens(shaped.value);
+  }
+
+  for (let depth = measureDepth(selected) - 1; tokens > budget && depth >= 1; depth--) {
+    maxDepth = depth;
+    shaped = shapeValue(selected, basePath, maxItems, depth);
+    tokens = countValueTokens(shaped.value);
+  }
+
+  const result: QueryDataResult = {
+    status: 'success',
+    file_info: {
+      path: params.path,
+      format,
+      size_bytes: stats.size
+    },
+    query,
+    value: shaped.value,
+    value_type: describeValueType(selected),
+    estimated_tokens: tokens
+  };
+
+  if (hasWildcard) {
+    result.match_count = matches.length;
+    result.matched_paths = matches.slice(0, maxItems).map(match => match.path);
+  }
+
+  if (isShaped(shaped)) {
+    result.truncation = {
+      max_items: maxItems,
+      ...(maxDepth !== undefined && { max_depth: maxDepth }),
+      truncated_arrays: shaped.truncated_arrays.slice(0, MAX_REPORTED_TRUNCATIONS),
+      collapsed_nodes: shaped.collapsed_nodes,
+      original_tokens: countValueTokens(selected)
+    };
+  }
+
+  // 深さ1まで要約しても収まらない場合はキー一覧のみ返す
+  if (tokens > budget) {
+    result.status = 'warning';
+    result.value = shapeValue(selected, basePath, maxItems, 0).value;
+    result.estimated_tokens = countValueTokens(result.value);
+    result.available_keys = listChildKeys(selected, MAX_AVAILABLE_KEYS);
+    result.issue_details = {
+      reason: `Result exceeds ${budget.toLocaleString()} tokens even when summarized`
+    };
+  }
+
+  if (result.truncation) {
+    result.alternatives = {
+      suggestions: [
+        'Narrow the query to a child path (e.g. items[3] or items[*].name)',
+        'Increase max_items or max_tokens to see more'
+      ]
+    };
+  }
+
+  return result;
+}
+
+/**
+ * 値のトークン数を推定
+ */
+function countValueTokens(value: unknown): number {
+  return estimateTokenCount(JSON.stringify(value, null, 2) ?? 'null');
+}
+
+/**
+ * 切り詰め・要約が行われたか
+ */
+function isShaped(shaped: ShapedValue): boolean {
+  return shaped.truncated_arrays.length > 0 || shaped.collapsed_nodes > 0;
+}
+
+/**
+ * エラー結果を生成
+ */
+function buildErrorResult(
+  filePath: string,
+  sizeBytes: number,
+  query: string,
+  reason: string,
+  suggestions: string[],
+  format?: DataFormat
+): QueryDataResult {
+  return {
+    status: 'error',
+    file_info: {
+      path: filePath,
+      ...(format && { format }),
+      size_bytes: sizeBytes
+    },
+    query,
+    estimated_tokens: 0,
+    issue_details: {
+      reason
+    },
+    alternatives: {
+      suggestions
+    }
+  };
+}
\ No newline at end of file
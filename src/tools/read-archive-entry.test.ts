@@ -0,0 +1,69 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { readArchiveEntry } from './read-archive-entry.js';
+
+// 最小限の ustar アーカイブを組み立てる（チェックサムは読み手が検証しない）
+const tarEntry = (name: string, data: Buffer): Buffer => {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 'latin1');
+  header.write(data.length.toString(8).padStart(11, '0'), 124, 'latin1');
+  header.write('0', 156, 'latin1');
+  header.write('ustar\0', 257, 'latin1');
+  const padding = Buffer.alloc((512 - data.length % 512) % 512);
+  return Buffer.concat([header, data, padding]);
+};
+
+describe('readArchiveEntry', () => {
+  let dir: string;
+  let archive: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'read-archive-entry-')));
+    initializeSecurityController([dir]);
+    archive = path.join(dir, 'bundle.tar');
+    // 先頭エントリはストリームの 1 チャンクより大きくする
+    await fs.writeFile(archive, Buffer.concat([
+      tarEntry('big.txt', Buffer.alloc(200 * 1024, 'a')),
+      tarEntry('last.txt', Buffer.from('hello\n')),
+      Buffer.alloc(1024)
+    ]));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('reads an entry after a large one', async () => {
+    const result = await readArchiveEntry({ path: archive, entry: 'last.txt' }, safety, analyzer);
+
+    expect(result.status).toBe('success');
+    expect(result.content).toBe('hello\n');
+  });
+
+  test('reports not_found when the whole archive was scanned', async () => {
+    const result = await readArchiveEntry({ path: archive, entry: 'missing.txt' }, safety, analyzer);
+
+    expect(result.status).toBe('not_found');
+  });
+
+  test('reports partial instead of not_found when the scan times out', async () => {
+    // Date.now を呼ぶたびに 1 分進める
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => (now += 60_000));
+
+    const result = await readArchiveEntry({ path: archive, entry: 'last.txt' }, safety, analyzer);
+
+    expect(result.status).toBe('partial');
+    expect(result.issue_details?.reason).toContain('Search stopped after 30 seconds');
+  });
+});
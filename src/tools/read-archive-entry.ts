@@ -0,0 +1,212 @@
+/**
+ * Smart Filesystem MCP - Read Archive Entry Tool
+ * アーカイブ内の単一エントリをテキストとして読むツール（read_fileと同じサイズ・トークン制限）
+ */
+
+import * as fs from 'fs/promises';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { estimateTokenCount, formatBytes, getFileTypeFromExtension, identifyFileType, isBinaryContent } from '../utils/helpers.js';
+import { decodeBuffer, isSupportedEncoding } from '../utils/encoding.js';
+import { formatHexDump } from '../utils/hex-dump.js';
+import { detectArchiveFormat, extractArchiveEntry } from '../utils/archive-reader.js';
+import type { ArchiveEntry, ArchiveFormat } from '../utils/archive-reader.js';
+import type { DetectedFileType, FileEncoding } from '../core/types.js';
+
+/**
+ * read_archive_entryパラメータ
+ */
+export interface ReadArchiveEntryParams {
+  path: string;
+  entry: string;
+  encoding?: FileEncoding;
+}
+
+/**
+ * read_archive_entry結果
+ */
+export interface ReadArchiveEntryResult {
+  status: 'success' | 'size_exceeded' | 'binary_detected' | 'not_found' | 'partial' | 'error';
+  archive_info: {
+    path: string;
+    format?: ArchiveFormat;
+    size_bytes: number;
+  };
+  entry?: ArchiveEntry;
+  content?: string;
+  estimated_tokens?: number;
+  detected_encoding?: FileEncoding;
+  preview?: {
+    first_lines: string[];
+    content_summary: string;
+    file_type?: DetectedFileType;
+    hex_dump?: {
+      head: string[];
+    };
+  };
+  issue_details?: {
+    reason: string;
+    current_vs_limit?: string;
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+/**
+ * アーカイブ内のエントリを読む
+ */
+export async function readArchiveEntry(
+  params: ReadArchiveEntryParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadArchiveEntryResult> {
+  const security = getSecurityController();
+
+  // セキュリティチェック
+  const validation = await security.validateAccess(params.path, 'read');
+  if (!validation.allowed) {
+    throw new Error(validation.reason || 'Access denied');
+  }
+
+  const resolvedPath = validation.resolved_path;
+  const stats = await fs.stat(resolvedPath);
+  const format = detectArchiveFormat(resolvedPath);
+  const archiveInfo = {
+    path: params.path,
+    ...(format && { format }),
+    size_bytes: stats.size
+  };
+  const fail = (status: 'not_found' | 'partial' | 'error', reason: string, suggestions: string[]): ReadArchiveEntryResult => ({
+    status,
+    archive_info: archiveInfo,
+    issue_details: { reason },
+    alternatives: { suggestions }
+  });
+
+  if (!stats.isFile()) {
+    return fail('error', 'Path is not a file', ['Use list_directory to browse directories']);
+  }
+
+  if (!format) {
+    return fail('error', 'read_archive_entry supports .zip, .tar, .tar.gz and .tgz files', [
+      'Use file_info to identify the file type'
+    ]);
+  }
+
+  if (!params.entry) {
+    return fail('error', 'entry is required', ['Use list_archive to see the entry names']);
+  }
+
+  // read_file と同じサイズ上限まで展開（超過分は読まない）
+  const sizeLimit = safety.getSizeLimit('read');
+  let lookup;
+  try {
+    lookup = await extractArchiveEntry(resolvedPath, format, params.entry, sizeLimit);
+  } catch (error) {
+    return fail('error', error instanceof Error ? error.message : String(error), [
+      'Check that the file is a valid archive (file_info reports the detected type)'
+    ]);
+  }
+
+  const extracted = lookup.found;
+  if (!extracted && !lookup.complete) {
+    return fail('partial', `Search stopped after ${SAFETY_LIMITS.MAX_OPERATION_TIME / 1000} seconds before reaching ${params.entry} - the entry may exist later in the archive`, [
+      'Extract the archive and read the file with read_file',
+      'Large compressed tar archives must be scanned from the start; entries near the end take longest to reach'
+    ]);
+  }
+
+  if (!extracted) {
+    return fail('not_found', `Entry not found in archive: ${params.entry}`, [
+      'Use list_archive to see the entry names',
+      'Entry names are relative paths such as package/README.md'
+    ]);
+  }
+
+  const { entry, data, truncated } = extracted;
+  if (entry.type !== 'file') {
+    const result = fail('error', entry.type === 'symlink'
+      ? `Entry is a link to ${entry.link_target ?? 'an unknown target'}`
+      : `Entry is a ${entry.type}, not a file`, [
+      entry.type === 'symlink' ? 'Read the link target entry instead' : 'Use list_archive to see the entries inside it'
+    ]);
+    result.entry = entry;
+    return result;
+  }
+
+  // バイナリ判定（拡張子 + 先頭バイト）
+  const head = data.subarray(0, 8192);
+  if (!getFileTypeFromExtension(entry.name).readable || isBinaryContent(head)) {
+    const fileType = identifyFileType(head);
+    return {
+      status: 'binary_detected',
+      archive_info: archiveInfo,
+      entry,
+      preview: {
+        first_lines: ['[Binary entry - see hex_dump for the first bytes]'],
+        content_summary: fileType?.description ?? 'binary',
+        ...(fileType && { file_type: fileType }),
+        hex_dump: {
+          head: formatHexDump(data.subarray(0, SAFETY_LIMITS.HEX_PREVIEW_BYTES))
+        }
+      },
+      issue_details: {
+        reason: 'Entry appears to be binary and cannot be read as text'
+      },
+      alternatives: {
+        suggestions: ['Extract the archive to inspect binary entries with read_file_bytes']
+      }
+    };
+  }
+
+  const detected = params.encoding ? undefined : await analyzer.detectEncoding(head, entry.name);
+  const encoding = params.encoding ?? (detected && isSupportedEncoding(detected) ? detected : 'utf8');
+  const content = decodeBuffer(data, encoding);
+  const tokens = estimateTokenCount(content, getFileTypeFromExtension(entry.name));
+
+  // サイズ・トークン制限
+  const tokenCheck = safety.isWithinTokenLimit(tokens);
+  if (truncated || !tokenCheck.safe) {
+    const lines = content.split('\n');
+    if (truncated) {
+      lines.pop(); // 途中で切れた最終行
+    }
+    return {
+      status: 'size_exceeded',
+      archive_info: archiveInfo,
+      entry,
+      estimated_tokens: truncated ? Math.round(tokens * entry.size / Math.max(data.length, 1)) : tokens,
+      preview: {
+        first_lines: lines.slice(0, SAFETY_LIMITS.DEFAULT_PREVIEW_LINES),
+        content_summary: `${formatBytes(entry.size)} entry, ${truncated ? 'more than ' : ''}${lines.length.toLocaleString()} lines`
+      },
+      issue_details: truncated
+        ? {
+            reason: `Entry size (${formatBytes(entry.size)}) exceeds limit for read operation (${formatBytes(sizeLimit)})`,
+            current_vs_limit: `${formatBytes(entry.size)} vs ${formatBytes(sizeLimit)}`
+          }
+        : {
+            reason: tokenCheck.reason ?? 'Estimated tokens exceed the limit',
+            current_vs_limit: `~${tokens.toLocaleString()} tokens vs ${SAFETY_LIMITS.MAX_TOKEN_ESTIMATE.toLocaleString()} limit`
+          },
+      alternatives: {
+        suggestions: [
+          'Extract the archive and use read_file with start_line/end_line, chunk_tokens or max_tokens',
+          'Use list_archive to find a smaller entry'
+        ]
+      }
+    };
+  }
+
+  return {
+    status: 'success',
+    archive_info: archiveInfo,
+    entry,
+    content,
+    estimated_tokens: tokens,
+    ...(!params.encoding && encoding !== 'utf8' && { detected_encoding: encoding as FileEncoding })
+  };
+}
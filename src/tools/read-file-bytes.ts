@@ -0,0 +1,161 @@
+/**
+ * Smart Filesystem MCP - Read File Bytes Tool
+ * バイナリファイルの指定バイト範囲を hex / base64 / ダンプ形式で返すツール
+ */
+
+import * as fs from 'fs/promises';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { formatBytes, identifyFileType } from '../utils/helpers.js';
+import { readBytes, formatHexDump } from '../utils/hex-dump.js';
+import type { DetectedFileType } from '../core/types.js';
+
+/**
+ * 出力形式
+ */
+export type ByteFormat = 'hex' | 'base64' | 'dump';
+
+/**
+ * read_file_bytesパラメータ
+ */
+export interface ReadFileBytesParams {
+  path: string;
+  offset?: number;
+  length?: number;
+  format?: ByteFormat;
+}
+
+/**
+ * read_file_bytes結果
+ */
+export interface ReadFileBytesResult {
+  status: 'success' | 'error';
+  file_info: {
+    path: string;
+    size_bytes: number;
+    file_type?: DetectedFileType;
+  };
+  offset: number;
+  length: number;
+  format: ByteFormat;
+  data: string;
+  eof: boolean;
+  next_offset?: number;
+  issue_details?: {
+    reason: string;
+  };
+  alternatives?: {
+    suggestions: string[];
+  };
+}
+
+/**
+ * ファイル種別判定に使う先頭バイト数
+ */
+const SIGNATURE_READ_SIZE = 8192;
+
+/**
+ * 指定範囲のバイトを読み込む
+ */
+export async function readFileBytes(params: ReadFileBytesParams): Promise<ReadFileBytesResult> {
+  const security = getSecurityController();
+  const format = params.format ?? 'hex';
+  const offset = params.offset ?? 0;
+  const length = params.length ?? SAFETY_LIMITS.READ_BYTES_DEFAULT_LENGTH;
+
+  // セキュリティチェック
+  const validation = await security.validateAccess(params.path, 'read');
+  if (!validation.allowed) {
+    throw new Error(validation.reason || 'Access denied');
+  }
+
+  const resolvedPath = validation.resolved_path;
+  const stats = await fs.stat(resolvedPath);
+  const fail = (reason: string, suggestions: string[]): ReadFileBytesResult =>
+    buildErrorResult(params.path, stats.size, offset, format, reason, suggestions);
+
+  if (!stats.isFile()) {
+    return fail('Path is not a file', ['Use list_directory to browse directories']);
+  }
+
+  if (!Number.isInteger(offset)) {
+    return fail('offset must be an integer (negative values count from the end of the file)', []);
+  }
+
+  if (!Number.isInteger(length) || length < 1 || length > SAFETY_LIMITS.READ_BYTES_MAX_LENGTH) {
+    return fail(`length must be an integer between 1 and ${SAFETY_LIMITS.READ_BYTES_MAX_LENGTH}`, [
+      `Read larger ranges in ${formatBytes(SAFETY_LIMITS.READ_BYTES_MAX_LENGTH)} steps using next_offset`
+    ]);
+  }
+
+  if (offset > stats.size) {
+    return fail(`offset ${offset} is beyond the end of the file (${stats.size} bytes)`, [
+      'Use a negative offset to read from the end of the file'
+    ]);
+  }
+
+  const signature = await readBytes(resolvedPath, 0, SIGNATURE_READ_SIZE);
+  const fileType = identifyFileType(signature.buffer);
+  const range = await readBytes(resolvedPath, offset, length);
+  const end = range.offset + range.buffer.length;
+
+  return {
+    status: 'success',
+    file_info: {
+      path: params.path,
+      size_bytes: range.total_bytes,
+      ...(fileType && { file_type: fileType })
+    },
+    offset: range.offset,
+    length: range.buffer.length,
+    format,
+    data: encodeBytes(range.buffer, range.offset, format),
+    eof: end >= range.total_bytes,
+    ...(end < range.total_bytes && { next_offset: end })
+  };
+}
+
+/**
+ * バイト列を指定形式の文字列に変換
+ */
+function encodeBytes(buffer: Buffer, offset: number, format: ByteFormat): string {
+  switch (format) {
+    case 'base64':
+      return buffer.toString('base64');
+    case 'dump':
+      return formatHexDump(buffer, offset).join('\n');
+    default:
+      return buffer.toString('hex');
+  }
+}
+
+/**
+ * エラー結果を生成
+ */
+function buildErrorResult(
+  filePath: string,
+  sizeBytes: number,
+  offset: number,
+  format: ByteFormat,
+  reason: string,
+  suggestions: string[]
+): ReadFileBytesResult {
+  return {
+    status: 'error',
+    file_info: {
+      path: filePath,
+      size_bytes: sizeBytes
+    },
+    offset,
+    length: 0,
+    format,
+    data: '',
+    eof: false,
+    issue_details: {
+      reason
+    },
+    alternatives: {
+      suggestions
+    }
+  };
+}
\ No newline at end of file
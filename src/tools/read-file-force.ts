@@ -8,6 +8,7 @@ import { SafetyController } from '../core/safety-controller.js';
 import { FileAnalyzer } from '../core/file-analyzer.js';
 import { SAFETY_LIMITS } from '../utils/constants.js';
 import { formatBytes } from '../utils/helpers.js';
+import { decodeBuffer, isSupportedEncoding } from '../utils/encoding.js';
 import type { 
   ReadFileForceParams, 
   ReadFileResult,
@@ -134,16 +135,19 @@ export async function readFileForce(
       console.error(`WARNING: Force reading file with ~${estimatedTokens.toLocaleString()} estimated tokens`);
     }
     
-    // Proceed with force read
-    const content = await safety.enforceTimeout(
-      fs.readFile(params.path, params.encoding || 'utf8'),
+    // Proceed with force read, decoding legacy encodings detected by the analyzer
+    const detectedEncoding = analysis.encoding && isSupportedEncoding(analysis.encoding) ? analysis.encoding : 'utf8';
+    const encoding = params.encoding || detectedEncoding;
+    const buffer = await safety.enforceTimeout(
+      fs.readFile(params.path),
       30000, // 30 second timeout for large files
       'Force read file'
     );
     
     return {
       status: 'success',
-      content
+      content: decodeBuffer(buffer, encoding),
+      ...(!params.encoding && encoding !== 'utf8' && { detected_encoding: encoding })
     };
     
   } catch (error) {
@@ -0,0 +1,84 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { readFile } from './read-file.js';
+import type { ReadFileParams } from '../core/types.js';
+
+describe('readFile', () => {
+  let dir: string;
+  let file: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'read-file-')));
+    initializeSecurityController([dir]);
+    file = path.join(dir, 'app.log');
+    await fs.writeFile(file, Array.from({ length: 50 }, (_, i) => `entry ${i + 1}`).join('\n') + '\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('reports the SHA-256 of the bytes of a whole-file read', async () => {
+    const result = await readFile({ path: file }, safety, analyzer);
+    const data = await fs.readFile(file);
+    expect(result.status).toBe('success');
+    if (result.status === 'success') {
+      expect(result.sha256).toBe(createHash('sha256').update(data).digest('hex'));
+    }
+  });
+
+  test('reads a line range', async () => {
+    const result = await readFile({ path: file, start_line: 2, end_line: 3 }, safety, analyzer);
+    expect(result.status).toBe('success');
+    if (result.status === 'success') {
+      expect(result.content).toBe('entry 2\nentry 3');
+      expect(result.range?.total_lines).toBe(50);
+      expect(result.sha256).toBeUndefined();
+    }
+  });
+
+  test.each<[string, Omit<ReadFileParams, 'path'>]>([
+    ['an inverted line range', { start_line: 5, end_line: 2 }],
+    ['a line range combined with a byte range', { start_line: 1, offset: 0 }],
+    ['a negative offset', { offset: -1 }],
+    ['a malformed cursor', { cursor: 'not-a-cursor' }],
+    ['chunk_tokens out of bounds', { chunk_tokens: 0 }],
+    ['chunk_tokens combined with max_tokens', { chunk_tokens: 100, max_tokens: 200 }],
+    ['max_tokens below the minimum', { max_tokens: 10 }],
+    ['tail_lines out of bounds', { tail_lines: 0 }],
+    ['two tail modes', { tail_lines: 5, tail_bytes: 10 }],
+    ['tail_lines combined with max_tokens', { tail_lines: 5, max_tokens: 200 }],
+    ['table_rows out of bounds', { table_rows: 0 }],
+    ['a multi-character delimiter', { table_rows: 5, delimiter: '::' }]
+  ])('reports %s as invalid_parameter', async (_, options) => {
+    const result = await readFile({ path: file, ...options }, safety, analyzer);
+    expect(result.status).toBe('invalid_parameter');
+    if (result.status !== 'success') {
+      expect(result.issue_details.reason).not.toMatch(/denied/i);
+      expect(result.alternatives.suggestions.join(' ')).not.toMatch(/permission/i);
+    }
+  });
+
+  test('reports unknown notebook_outputs as invalid_parameter', async () => {
+    const notebook = path.join(dir, 'analysis.ipynb');
+    await fs.writeFile(notebook, JSON.stringify({ cells: [], metadata: {}, nbformat: 4, nbformat_minor: 5 }));
+    const result = await readFile(
+      { path: notebook, notebook_outputs: 'everything' as ReadFileParams['notebook_outputs'] },
+      safety,
+      analyzer
+    );
+    expect(result.status).toBe('invalid_parameter');
+  });
+
+  test('still reports missing files as permission_denied', async () => {
+    const result = await readFile({ path: path.join(dir, 'missing.txt') }, safety, analyzer);
+    expect(result.status).toBe('permission_denied');
+  });
+});
@@ -5,16 +5,31 @@
 
 import * as fs from 'fs/promises';
 import * as readline from 'readline';
-import { createReadStream } from 'fs';
 import { SafetyController } from '../core/safety-controller.js';
 import { FileAnalyzer } from '../core/file-analyzer.js';
 import { SAFETY_LIMITS } from '../utils/constants.js';
 import { formatBytes, estimateTokenCount } from '../utils/helpers.js';
+import { readLineRange, readByteRange } from '../utils/range-reader.js';
+import { readChunk, encodeCursor, decodeCursor } from '../utils/chunk-reader.js';
+import { truncateToTokenBudget } from '../utils/smart-truncate.js';
+import { readTailLines, readTailBytes, readSinceOffset } from '../utils/tail-reader.js';
+import { decodeBuffer, createDecodedStream, isSupportedEncoding } from '../utils/encoding.js';
+import { readCsvTable, summarizeCsvTable, isDelimitedFile } from '../utils/csv-reader.js';
+import { dumpFileEnds } from '../utils/hex-dump.js';
+import { isGzipFile, withGunzippedFile, DecompressionLimitError } from '../utils/gzip-reader.js';
+import { isNotebookFile, parseNotebook, renderNotebook } from '../utils/notebook.js';
+import { hashBuffer } from '../utils/atomic-write.js';
+import { rememberVersion } from '../utils/version-store.js';
+import { extractOutline, resolveOutlineLanguage } from '../core/outline-parser.js';
+import { detectDataFormat } from '../core/data-query.js';
+import type { OutlineSymbol } from '../core/outline-parser.js';
 import type { 
   ReadFileParams, 
   ReadFileResult,
   ReadFileSuccess,
-  ReadFileLimited
+  ReadFileLimited,
+  ReadFileNotebook,
+  FileEncoding
 } from '../core/types.js';
 
 /**
@@ -26,25 +41,12 @@ export async function readFile(
   analyzer: FileAnalyzer
 ): Promise<ReadFileResult> {
   try {
-    // Quick safety check
-    const accessCheck = await safety.validateFileAccess(params.path, 'read');
-    
-    // If safe, just read and return content
-    if (accessCheck.safe) {
-      const content = await fs.readFile(params.path, params.encoding || 'utf8');
-      return {
-        status: 'success',
-        content
-      };
+    // Decompress gzip files (app.log.1.gz, dump.json.gz, ...) transparently
+    if (await isGzipFile(params.path)) {
+      return await readGzipFile(params, safety, analyzer);
     }
     
-    // Not safe - provide detailed information
-    return await buildLimitedResponse(
-      params.path,
-      accessCheck,
-      analyzer,
-      params.encoding || 'utf8'
-    );
+    return await readFileWithEncoding(params, safety, analyzer);
     
   } catch (error) {
     // Handle unexpected errors
@@ -60,6 +62,669 @@ export async function readFile(
   }
 }
 
+/**
+ * SHA-256 of the bytes a whole-file read returned, kept as a base for diff edits
+ */
+function versionOf(data: Buffer): string {
+  const sha256 = hashBuffer(data);
+  rememberVersion(data, sha256);
+  return sha256;
+}
+
+/**
+ * Resolve the encoding (auto-detected unless given) and read the file
+ */
+async function readFileWithEncoding(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  // Decode legacy encodings (Shift_JIS, EUC-JP, GBK, ...) transparently
+  const encoding = params.encoding || await detectReadEncoding(params.path, analyzer);
+  const result = await readFileDecoded({ ...params, encoding }, safety, analyzer);
+  
+  if (result.status === 'success' && !params.encoding && encoding !== 'utf8') {
+    result.detected_encoding = encoding;
+  }
+  
+  return result;
+}
+
+/**
+ * Read a gzip file through a decompressed temporary copy, so every read mode
+ * and size limit applies to the decompressed bytes
+ */
+async function readGzipFile(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  try {
+    return await withGunzippedFile(params.path, SAFETY_LIMITS.GZIP_MAX_DECOMPRESSED_SIZE, async (gunzipped) => {
+      const result = await readFileWithEncoding({ ...params, path: gunzipped.path }, safety, analyzer);
+      
+      if (result.status === 'success') {
+        // The hash of the decompressed copy is not a version of the .gz file
+        delete result.sha256;
+      } else {
+        // Report the original path, and drop force reads which do not decompress
+        result.issue_details.reason = result.issue_details.reason.split(gunzipped.path).join(params.path);
+        result.alternatives.force_read_available = false;
+        result.alternatives.suggestions = result.alternatives.suggestions.filter(s => !s.includes('force_read_file'));
+      }
+      
+      result.compression = {
+        format: 'gzip',
+        compressed_bytes: gunzipped.compressed_bytes,
+        decompressed_bytes: gunzipped.decompressed_bytes
+      };
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof DecompressionLimitError) {
+      const result = buildErrorResponse('size_exceeded', error.message, params.path, [
+        'Decompress the file outside this tool and read the result with range or tail parameters',
+        'Check that this is the file you intended - highly compressible data may be a decompression bomb'
+      ]);
+      result.issue_details.limit_exceeded = error.limit === 'ratio' ? 'DECOMPRESSION_RATIO' : 'DECOMPRESSION_SIZE';
+      return result;
+    }
+    
+    // zlib reports corrupt data as "incorrect header check", "unexpected end of file", ...
+    if (error instanceof Error && 'code' in error && String(error.code).startsWith('Z_')) {
+      return buildErrorResponse('permission_denied', `Invalid gzip data: ${error.message}`, params.path, [
+        'The file may be truncated or not actually gzip-compressed',
+        'Use read_file_bytes to inspect the raw bytes'
+      ]);
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Detect the file encoding, falling back to UTF-8 when it cannot be decoded
+ */
+async function detectReadEncoding(filePath: string, analyzer: FileAnalyzer): Promise<FileEncoding> {
+  try {
+    const detected = await analyzer.detectFileEncoding(filePath);
+    return isSupportedEncoding(detected) ? detected : 'utf8';
+  } catch {
+    // Missing or unreadable files are reported by the read itself
+    return 'utf8';
+  }
+}
+
+/**
+ * Dispatch to the requested read mode with a resolved encoding
+ */
+async function readFileDecoded(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  // Table reads parse CSV/TSV rows and stream column statistics
+  if (params.table_rows !== undefined) {
+    return await readFileTable(params, safety, analyzer);
+  }
+  
+  // Tail reads scan backwards from the end of the file
+  if (hasTailParams(params)) {
+    return await readFileTail(params, safety, analyzer);
+  }
+  
+  // Paginated reads return one token-budgeted chunk plus a cursor
+  if (params.chunk_tokens !== undefined || params.cursor !== undefined) {
+    return await readFileChunk(params, safety, analyzer);
+  }
+  
+  // Notebooks are rendered as numbered cells - range reads still return the raw JSON
+  if (isNotebookFile(params.path) && !hasRangeParams(params)) {
+    return await readFileNotebook(params, safety, analyzer);
+  }
+  
+  // Token-budgeted reads keep head and tail, eliding the middle
+  if (params.max_tokens !== undefined) {
+    return await readFileTruncated(params, safety, analyzer);
+  }
+  
+  // Range reads stream only the requested slice
+  if (hasRangeParams(params)) {
+    return await readFileRange(params, safety, analyzer);
+  }
+  
+  // Quick safety check
+  const accessCheck = await safety.validateFileAccess(params.path, 'read');
+  
+  // If safe, just read and return content
+  if (accessCheck.safe) {
+    const data = await fs.readFile(params.path);
+    return {
+      status: 'success',
+      content: decodeBuffer(data, params.encoding),
+      sha256: versionOf(data)
+    };
+  }
+  
+  // Not safe - provide detailed information
+  return await buildLimitedResponse(
+    params.path,
+    accessCheck,
+    analyzer,
+    params.encoding || 'utf8'
+  );
+}
+
+/**
+ * Check whether a line or byte range was requested
+ */
+function hasRangeParams(params: ReadFileParams): boolean {
+  return params.start_line !== undefined || params.end_line !== undefined ||
+         params.offset !== undefined || params.length !== undefined;
+}
+
+/**
+ * Validate range parameters - returns error message or null
+ */
+function validateRangeParams(params: ReadFileParams): string | null {
+  const hasLineRange = params.start_line !== undefined || params.end_line !== undefined;
+  const hasByteRange = params.offset !== undefined || params.length !== undefined;
+  
+  if (hasLineRange && hasByteRange) {
+    return 'Use either start_line/end_line or offset/length, not both';
+  }
+  
+  if (params.start_line !== undefined && (!Number.isInteger(params.start_line) || params.start_line < 1)) {
+    return 'start_line must be an integer >= 1';
+  }
+  
+  if (params.end_line !== undefined && (!Number.isInteger(params.end_line) || params.end_line < 1)) {
+    return 'end_line must be an integer >= 1';
+  }
+  
+  if (params.start_line !== undefined && params.end_line !== undefined && params.end_line < params.start_line) {
+    return 'end_line must be greater than or equal to start_line';
+  }
+  
+  if (params.offset !== undefined && (!Number.isInteger(params.offset) || params.offset < 0)) {
+    return 'offset must be an integer >= 0';
+  }
+  
+  if (params.length !== undefined && (!Number.isInteger(params.length) || params.length < 1)) {
+    return 'length must be an integer >= 1';
+  }
+  
+  return null;
+}
+
+/**
+ * Read a line or byte range without loading the whole file
+ */
+async function readFileRange(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  const encoding = params.encoding || 'utf8';
+  
+  const rangeError = validateRangeParams(params);
+  if (rangeError) {
+    return buildErrorResponse('invalid_parameter', rangeError, params.path);
+  }
+  
+  // File size is irrelevant for range reads, but binary/permission checks still apply
+  const accessCheck = await safety.validateFileAccess(params.path, 'range');
+  if (!accessCheck.safe) {
+    return await buildLimitedResponse(params.path, accessCheck, analyzer, encoding);
+  }
+  
+  if (params.start_line !== undefined || params.end_line !== undefined) {
+    const lineRange = await safety.enforceTimeout(
+      readLineRange(params.path, params.start_line ?? 1, params.end_line, encoding),
+      SAFETY_LIMITS.MAX_OPERATION_TIME,
+      'Range read'
+    );
+    
+    return {
+      status: 'success',
+      content: lineRange.lines.join('\n'),
+      range: {
+        type: 'lines',
+        start_line: lineRange.start_line,
+        end_line: lineRange.end_line,
+        total_lines: lineRange.total_lines,
+        truncated: lineRange.truncated
+      }
+    };
+  }
+  
+  const byteRange = await readByteRange(params.path, params.offset ?? 0, params.length, encoding);
+  
+  return {
+    status: 'success',
+    content: byteRange.content,
+    range: {
+      type: 'bytes',
+      offset: byteRange.offset,
+      length: byteRange.length,
+      total_bytes: byteRange.total_bytes,
+      truncated: byteRange.truncated
+    }
+  };
+}
+
+/**
+ * Check whether any tail parameter is present
+ */
+function hasTailParams(params: ReadFileParams): boolean {
+  return params.tail_lines !== undefined || params.tail_bytes !== undefined || params.since_offset !== undefined;
+}
+
+/**
+ * Validate tail parameters, returning an error message or null
+ */
+function validateTailParams(params: ReadFileParams): string | null {
+  const modes = [params.tail_lines, params.tail_bytes, params.since_offset].filter(value => value !== undefined);
+  if (modes.length > 1) {
+    return 'Use only one of tail_lines, tail_bytes or since_offset';
+  }
+  
+  if (hasRangeParams(params) || params.chunk_tokens !== undefined || params.cursor !== undefined || params.max_tokens !== undefined) {
+    return 'Tail reads cannot be combined with range, chunk or max_tokens parameters';
+  }
+  
+  if (params.tail_lines !== undefined &&
+      (!Number.isInteger(params.tail_lines) || params.tail_lines < 1 || params.tail_lines > SAFETY_LIMITS.MAX_TAIL_LINES)) {
+    return `tail_lines must be an integer between 1 and ${SAFETY_LIMITS.MAX_TAIL_LINES}`;
+  }
+  
+  if (params.tail_bytes !== undefined && (!Number.isInteger(params.tail_bytes) || params.tail_bytes < 1)) {
+    return 'tail_bytes must be an integer >= 1';
+  }
+  
+  if (params.since_offset !== undefined && (!Number.isInteger(params.since_offset) || params.since_offset < 0)) {
+    return 'since_offset must be an integer >= 0';
+  }
+  
+  return null;
+}
+
+/**
+ * Read the end of the file, or only what was appended since a previous read
+ */
+async function readFileTail(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  const encoding = params.encoding || 'utf8';
+  
+  const tailError = validateTailParams(params);
+  if (tailError) {
+    return buildErrorResponse('invalid_parameter', tailError, params.path);
+  }
+  
+  // Only the end of the file is loaded, so the file size limit does not apply
+  const accessCheck = await safety.validateFileAccess(params.path, 'range');
+  if (!accessCheck.safe) {
+    return await buildLimitedResponse(params.path, accessCheck, analyzer, encoding);
+  }
+  
+  if (params.since_offset !== undefined) {
+    const since = await readSinceOffset(params.path, params.since_offset, encoding);
+    return {
+      status: 'success',
+      content: since.content,
+      tail: {
+        mode: 'since',
+        start_offset: since.start_offset,
+        end_offset: since.end_offset,
+        total_bytes: since.total_bytes,
+        lines_returned: since.lines_returned,
+        truncated: since.truncated,
+        ...(since.reset && { reset: true })
+      }
+    };
+  }
+  
+  const tail = params.tail_lines !== undefined
+    ? await safety.enforceTimeout(
+        readTailLines(params.path, params.tail_lines, encoding),
+        SAFETY_LIMITS.MAX_OPERATION_TIME,
+        'Tail read'
+      )
+    : await readTailBytes(params.path, params.tail_bytes as number, encoding);
+  
+  return {
+    status: 'success',
+    content: tail.content,
+    tail: {
+      mode: params.tail_lines !== undefined ? 'lines' : 'bytes',
+      start_offset: tail.start_offset,
+      end_offset: tail.end_offset,
+      total_bytes: tail.total_bytes,
+      lines_returned: tail.lines_returned,
+      truncated: tail.truncated
+    }
+  };
+}
+
+/**
+ * Validate table parameters, returning an error message or null
+ */
+function validateTableParams(params: ReadFileParams): string | null {
+  if (hasRangeParams(params) || hasTailParams(params) ||
+      params.chunk_tokens !== undefined || params.cursor !== undefined || params.max_tokens !== undefined) {
+    return 'Table reads cannot be combined with range, tail, chunk or max_tokens parameters';
+  }
+  
+  if (params.table_rows !== undefined &&
+      (!Number.isInteger(params.table_rows) || params.table_rows < 1 || params.table_rows > SAFETY_LIMITS.TABLE_MAX_ROWS)) {
+    return `table_rows must be an integer between 1 and ${SAFETY_LIMITS.TABLE_MAX_ROWS}`;
+  }
+  
+  if (params.delimiter !== undefined && resolveDelimiter(params.delimiter).length !== 1) {
+    return 'delimiter must be a single character';
+  }
+  
+  return null;
+}
+
+/**
+ * Accept an escaped tab ("\\t") as the tab delimiter
+ */
+function resolveDelimiter(delimiter: string): string {
+  return delimiter === '\\t' ? '\t' : delimiter;
+}
+
+/**
+ * Read the first rows of a CSV/TSV file as a table with per-column statistics
+ */
+async function readFileTable(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  const encoding = params.encoding || 'utf8';
+  
+  const tableError = validateTableParams(params);
+  if (tableError) {
+    return buildErrorResponse('invalid_parameter', tableError, params.path);
+  }
+  
+  // The file is streamed, so the file size limit does not apply
+  const accessCheck = await safety.validateFileAccess(params.path, 'range');
+  if (!accessCheck.safe) {
+    return await buildLimitedResponse(params.path, accessCheck, analyzer, encoding);
+  }
+  
+  const table = await readCsvTable(params.path, {
+    rows: params.table_rows as number,
+    encoding,
+    ...(params.delimiter !== undefined && { delimiter: resolveDelimiter(params.delimiter) })
+  });
+  
+  if (!table) {
+    return buildErrorResponse(
+      'invalid_parameter',
+      'Could not detect a consistent field delimiter - pass delimiter explicitly',
+      params.path
+    );
+  }
+  
+  return {
+    status: 'success',
+    content: summarizeCsvTable(table),
+    table
+  };
+}
+
+/**
+ * Read one chunk sized to the token budget, resuming from the cursor if given
+ */
+async function readFileChunk(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  const encoding = params.encoding || 'utf8';
+  
+  if (hasRangeParams(params)) {
+    return buildErrorResponse('invalid_parameter', 'Chunked reads cannot be combined with start_line/end_line or offset/length', params.path);
+  }
+  
+  if (params.max_tokens !== undefined) {
+    return buildErrorResponse('invalid_parameter', 'Use either chunk_tokens/cursor or max_tokens, not both', params.path);
+  }
+  
+  if (params.chunk_tokens !== undefined &&
+      (!Number.isInteger(params.chunk_tokens) || params.chunk_tokens < 1 || params.chunk_tokens > SAFETY_LIMITS.MAX_CHUNK_TOKENS)) {
+    return buildErrorResponse('invalid_parameter', `chunk_tokens must be an integer between 1 and ${SAFETY_LIMITS.MAX_CHUNK_TOKENS}`, params.path);
+  }
+  
+  const cursor = params.cursor !== undefined ? decodeCursor(params.cursor) : null;
+  if (params.cursor !== undefined && !cursor) {
+    return buildErrorResponse('invalid_parameter', 'Invalid cursor', params.path, [
+      'Pass the next_cursor value from the previous chunk unchanged',
+      'Omit cursor to start reading from the beginning'
+    ]);
+  }
+  
+  // Chunks are bounded by the token budget, so the file size limit does not apply
+  const accessCheck = await safety.validateFileAccess(params.path, 'range');
+  if (!accessCheck.safe) {
+    return await buildLimitedResponse(params.path, accessCheck, analyzer, encoding);
+  }
+  
+  // Detect modifications between pages
+  if (cursor) {
+    const stats = await fs.stat(params.path);
+    if (stats.mtimeMs !== cursor.mtime_ms || stats.size !== cursor.size) {
+      return buildErrorResponse('file_changed', 'File was modified since the cursor was issued', params.path, [
+        'Restart reading without a cursor to get a consistent view',
+        'Use start_line/end_line if you only need a specific section'
+      ]);
+    }
+  }
+  
+  const chunkTokens = params.chunk_tokens ?? cursor?.chunk_tokens ?? SAFETY_LIMITS.DEFAULT_CHUNK_TOKENS;
+  const chunk = await readChunk(params.path, cursor?.offset ?? 0, chunkTokens, encoding);
+  
+  return {
+    status: 'success',
+    content: chunk.content,
+    chunk: {
+      start_offset: chunk.start_offset,
+      end_offset: chunk.end_offset,
+      total_bytes: chunk.total_bytes,
+      estimated_tokens: chunk.estimated_tokens,
+      has_more: chunk.has_more,
+      ...(chunk.has_more && {
+        next_cursor: encodeCursor({
+          offset: chunk.end_offset,
+          mtime_ms: chunk.mtime_ms,
+          size: chunk.total_bytes,
+          chunk_tokens: chunkTokens
+        })
+      })
+    }
+  };
+}
+
+/**
+ * Read the file within max_tokens, eliding the middle when it does not fit
+ */
+async function readFileTruncated(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  const encoding = params.encoding || 'utf8';
+  const maxTokens = params.max_tokens as number;
+  
+  if (hasRangeParams(params)) {
+    return buildErrorResponse('invalid_parameter', 'max_tokens cannot be combined with start_line/end_line or offset/length', params.path);
+  }
+  
+  if (!Number.isInteger(maxTokens) || maxTokens < 100) {
+    return buildErrorResponse('invalid_parameter', 'max_tokens must be an integer >= 100', params.path);
+  }
+  
+  const accessCheck = await safety.validateFileAccess(params.path, 'truncate');
+  if (!accessCheck.safe) {
+    return await buildLimitedResponse(params.path, accessCheck, analyzer, encoding);
+  }
+  
+  const data = await fs.readFile(params.path);
+  const content = decodeBuffer(data, encoding);
+  const sha256 = versionOf(data);
+  
+  // Prefer cutting at function/class boundaries for code files
+  const language = resolveOutlineLanguage(analyzer.detectProgrammingLanguage(params.path, content));
+  const boundaries = language ? flattenSymbols(extractOutline(content, language)) : undefined;
+  
+  const result = truncateToTokenBudget(content, maxTokens, { boundaries });
+  
+  if (!result.truncated) {
+    return {
+      status: 'success',
+      content,
+      sha256
+    };
+  }
+  
+  return {
+    status: 'success',
+    content: result.content,
+    sha256,
+    truncation: {
+      omitted_ranges: result.omitted_ranges,
+      total_lines: result.total_lines,
+      shown_lines: result.shown_lines,
+      original_tokens: result.original_tokens,
+      estimated_tokens: result.estimated_tokens,
+      boundary_aware: result.boundary_aware
+    }
+  };
+}
+
+/**
+ * Render a Jupyter notebook as numbered markdown/code cells with outputs
+ * truncated or stripped and base64 payloads elided
+ */
+async function readFileNotebook(
+  params: ReadFileParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFileResult> {
+  const encoding = params.encoding || 'utf8';
+  const outputMode = params.notebook_outputs ?? 'truncated';
+  
+  if (!['truncated', 'none', 'full'].includes(outputMode)) {
+    return buildErrorResponse('invalid_parameter', 'notebook_outputs must be one of truncated, none or full', params.path);
+  }
+  
+  if (params.max_tokens !== undefined && (!Number.isInteger(params.max_tokens) || params.max_tokens < 100)) {
+    return buildErrorResponse('invalid_parameter', 'max_tokens must be an integer >= 100', params.path);
+  }
+  
+  // Raw notebooks are mostly output payloads, so the rendered size is checked instead
+  const accessCheck = await safety.validateFileAccess(params.path, 'notebook');
+  if (!accessCheck.safe) {
+    return await buildLimitedResponse(params.path, accessCheck, analyzer, encoding);
+  }
+  
+  let notebook;
+  try {
+    notebook = parseNotebook(decodeBuffer(await fs.readFile(params.path), encoding));
+  } catch (error) {
+    return buildErrorResponse('permission_denied', error instanceof Error ? error.message : String(error), params.path, [
+      'Use start_line/end_line to read the raw JSON',
+      'Use query_data to inspect parts of the notebook JSON'
+    ]);
+  }
+  
+  const rendered = renderNotebook(notebook, outputMode);
+  const summary: ReadFileNotebook = {
+    nbformat: `${notebook.nbformat}.${notebook.nbformat_minor}`,
+    ...(rendered.language && { language: rendered.language }),
+    cell_count: notebook.cells.length,
+    code_cells: rendered.code_cells,
+    markdown_cells: rendered.markdown_cells,
+    raw_cells: rendered.raw_cells,
+    outputs: outputMode,
+    elided_outputs: rendered.elided_outputs,
+    truncated_outputs: rendered.truncated_outputs
+  };
+  
+  // Token-budgeted reads cut at cell boundaries
+  if (params.max_tokens !== undefined) {
+    const result = truncateToTokenBudget(rendered.content, params.max_tokens, { boundaries: rendered.cell_lines });
+    return {
+      status: 'success',
+      content: result.content,
+      notebook: summary,
+      ...(result.truncated && {
+        truncation: {
+          omitted_ranges: result.omitted_ranges,
+          total_lines: result.total_lines,
+          shown_lines: result.shown_lines,
+          original_tokens: result.original_tokens,
+          estimated_tokens: result.estimated_tokens,
+          boundary_aware: result.boundary_aware
+        }
+      })
+    };
+  }
+  
+  const renderedSize = Buffer.byteLength(rendered.content);
+  if (renderedSize > SAFETY_LIMITS.MAX_FILE_SIZE) {
+    const lines = rendered.content.split('\n');
+    const stats = await fs.stat(params.path);
+    return {
+      status: 'size_exceeded',
+      file_info: {
+        size_bytes: stats.size,
+        estimated_tokens: estimateTokenCount(rendered.content),
+        type: 'code',
+        safe_to_read: false
+      },
+      preview: {
+        first_lines: lines.slice(0, SAFETY_LIMITS.DEFAULT_PREVIEW_LINES),
+        truncated_at_line: SAFETY_LIMITS.DEFAULT_PREVIEW_LINES,
+        total_lines_estimated: lines.length,
+        content_summary: `Jupyter notebook${rendered.language ? ` (${rendered.language})` : ''}, ${notebook.cells.length} cells`
+      },
+      issue_details: {
+        reason: `Rendered notebook (${formatBytes(renderedSize)}) exceeds limit for read operation (${formatBytes(SAFETY_LIMITS.MAX_FILE_SIZE)})`,
+        limit_exceeded: 'SIZE_EXCEEDED',
+        current_vs_limit: `${formatBytes(renderedSize)} vs ${formatBytes(SAFETY_LIMITS.MAX_FILE_SIZE)}`
+      },
+      alternatives: {
+        force_read_available: false,
+        suggestions: [
+          ...(outputMode !== 'none' ? ["Use notebook_outputs: 'none' to read only the cell sources"] : []),
+          'Use max_tokens to get the first and last cells with the middle elided',
+          'Use query_data to read individual cells (e.g. cells[3].source)'
+        ]
+      }
+    };
+  }
+  
+  return {
+    status: 'success',
+    content: rendered.content,
+    notebook: summary
+  };
+}
+
+/**
+ * Flatten nested outline symbols into a single list
+ */
+function flattenSymbols(symbols: OutlineSymbol[]): OutlineSymbol[] {
+  return symbols.flatMap(symbol => [symbol, ...flattenSymbols(symbol.children ?? [])]);
+}
+
 /**
  * Build detailed response when file read is limited
  */
@@ -85,8 +750,16 @@ async function buildLimitedResponse(
   // Get preview content
   const preview = await getPreviewContent(filePath, encoding, analysis.isBinary);
   
-  // Generate content summary
-  const contentSummary = generateContentSummary(analysis, preview.first_lines);
+  // Binary files get a hex dump of both ends instead of text lines
+  const hexDump = analysis.isBinary
+    ? await dumpFileEnds(filePath, SAFETY_LIMITS.HEX_PREVIEW_BYTES).catch(() => undefined)
+    : undefined;
+  
+  // Generate content summary - oversized CSV/TSV files get column statistics from the first part
+  const tableSummary = status === 'size_exceeded' && isDelimitedFile(filePath)
+    ? await summarizeTablePreview(filePath, encoding)
+    : null;
+  const contentSummary = tableSummary ?? analysis.detectedType?.description ?? generateContentSummary(analysis, preview.first_lines);
   
   // Build response
   return {
@@ -102,7 +775,9 @@ async function buildLimitedResponse(
       last_lines: preview.last_lines,
       truncated_at_line: preview.truncated_at_line,
       total_lines_estimated: preview.total_lines_estimated,
-      content_summary: contentSummary
+      content_summary: contentSummary,
+      ...(analysis.detectedType && { file_type: analysis.detectedType }),
+      ...(hexDump && { hex_dump: hexDump })
     },
     issue_details: {
       reason: safetyResult.reason || 'Unknown issue',
@@ -131,7 +806,7 @@ async function getPreviewContent(
 }> {
   if (isBinary) {
     return {
-      first_lines: ['[Binary file - content preview not available]'],
+      first_lines: ['[Binary file - see hex_dump for the first and last bytes]'],
       last_lines: undefined,
       truncated_at_line: 0,
       total_lines_estimated: 0
@@ -139,14 +814,13 @@ async function getPreviewContent(
   }
   
   const firstLines: string[] = [];
-  const lastLines: string[] = [];
   let lineCount = 0;
   const maxPreviewLines = 20;
   const maxTailLines = 5;
   
   try {
     const rl = readline.createInterface({
-      input: createReadStream(filePath, { encoding: encoding as BufferEncoding }),
+      input: createDecodedStream(filePath, encoding),
       crlfDelay: Infinity
     });
     
@@ -158,19 +832,23 @@ async function getPreviewContent(
         firstLines.push(line.length > 200 ? line.substring(0, 200) + '...' : line);
       }
       
-      // Keep track of last lines
-      lastLines.push(line.length > 200 ? line.substring(0, 200) + '...' : line);
-      if (lastLines.length > maxTailLines) {
-        lastLines.shift();
-      }
-      
       // Stop if we've read enough
       if (lineCount > 10000) break;
     }
     
+    // Read last lines from the end of the file so they stay accurate past the scan limit
+    let lastLines: string[] | undefined;
+    if (lineCount > maxPreviewLines) {
+      const tail = await readTailLines(filePath, maxTailLines, encoding, maxTailLines * 1024);
+      lastLines = tail.content
+        .replace(/\r?\n$/, '')
+        .split(/\r?\n/)
+        .map(line => line.length > 200 ? line.substring(0, 200) + '...' : line);
+    }
+    
     return {
       first_lines: firstLines,
-      last_lines: lineCount > maxPreviewLines ? lastLines : undefined,
+      last_lines: lastLines,
       truncated_at_line: Math.min(lineCount, maxPreviewLines),
       total_lines_estimated: lineCount
     };
@@ -185,6 +863,22 @@ async function getPreviewContent(
   }
 }
 
+/**
+ * Summarize a delimited file from its first part, or null when it does not parse as a table
+ */
+async function summarizeTablePreview(filePath: string, encoding: string): Promise<string | null> {
+  try {
+    const table = await readCsvTable(filePath, {
+      rows: 0,
+      encoding,
+      maxBytes: SAFETY_LIMITS.TABLE_PREVIEW_SCAN_SIZE
+    });
+    return table ? summarizeCsvTable(table) : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Generate content summary based on analysis and preview
  */
@@ -223,7 +917,7 @@ function generateContentSummary(analysis: any, previewLines: string[]): string {
 /**
  * Map file category to simplified type
  */
-function mapFileType(category: string): 'text' | 'code' | 'binary' | 'data' | 'config' {
+export function mapFileType(category: string): 'text' | 'code' | 'binary' | 'data' | 'config' {
   switch (category) {
     case 'code':
       return 'code';
@@ -264,10 +958,18 @@ function generateSuggestions(status: ReadFileLimited['status'], analysis: any):
   switch (status) {
     case 'size_exceeded':
       suggestions.push('Use force_read_file with acknowledge_risk=true to read anyway');
-      if (analysis.fileType.category === 'data') {
-        suggestions.push('Consider processing the file in chunks');
+      suggestions.push('Use start_line/end_line or offset/length to read only the section you need');
+      suggestions.push('Use chunk_tokens to read the file in chunks and follow next_cursor');
+      suggestions.push('Use max_tokens to get the head and tail with the middle elided');
+      suggestions.push('Use tail_lines to read the end of log files');
+      if (isDelimitedFile(analysis.path)) {
+        suggestions.push('Use table_rows to get the first rows with per-column statistics');
+      } else if (analysis.fileType.category === 'data') {
         suggestions.push('Use data analysis tools instead of reading the entire file');
       }
+      if (detectDataFormat(analysis.path)) {
+        suggestions.push('Use query_data to read only the keys you need (e.g. dependencies.express)');
+      }
       if (analysis.fileType.category === 'code') {
         suggestions.push('Search for specific functions or classes instead');
         suggestions.push('Use grep to find relevant sections');
@@ -276,6 +978,7 @@ function generateSuggestions(status: ReadFileLimited['status'], analysis: any):
       
     case 'binary_detected':
       suggestions.push('This appears to be a binary file and cannot be read as text');
+      suggestions.push('Use read_file_bytes to inspect a byte range as hex or base64');
       suggestions.push('Use appropriate tools for the file type');
       if (analysis.extension === '.pdf') {
         suggestions.push('Consider using a PDF extraction tool');
@@ -300,7 +1003,8 @@ function generateSuggestions(status: ReadFileLimited['status'], analysis: any):
 function buildErrorResponse(
   status: ReadFileLimited['status'],
   reason: string,
-  filePath: string
+  filePath: string,
+  suggestions?: string[]
 ): ReadFileLimited {
   return {
     status,
@@ -323,11 +1027,16 @@ function buildErrorResponse(
     },
     alternatives: {
       force_read_available: false,
-      suggestions: [
-        'Verify the file path is correct',
-        'Check if the file exists',
-        'Ensure you have read permissions'
-      ]
+      suggestions: suggestions ?? (status === 'invalid_parameter'
+        ? [
+          'Check the parameter values and combinations described in the read_file documentation',
+          'Omit the optional parameters to read the file with the defaults'
+        ]
+        : [
+          'Verify the file path is correct',
+          'Check if the file exists',
+          'Ensure you have read permissions'
+        ])
     }
   };
 }
\ No newline at end of file
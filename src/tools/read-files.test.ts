@@ -0,0 +1,47 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { readFiles } from './read-files.js';
+
+describe('readFiles glob expansion', () => {
+  let root: string;
+  let allowed: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+
+  beforeAll(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'read-files-')));
+    allowed = path.join(root, 'project');
+    // 許可ディレクトリより前に並ぶディレクトリにファイルを多数置く
+    await fs.mkdir(path.join(root, 'archive'));
+    await fs.mkdir(path.join(allowed, 'src'), { recursive: true });
+    for (let i = 0; i < 30; i++) {
+      await fs.writeFile(path.join(root, 'archive', `old-${i}.txt`), 'outside\n');
+    }
+    await fs.writeFile(path.join(allowed, 'src', 'a.txt'), 'inside a\n');
+    await fs.writeFile(path.join(allowed, 'b.txt'), 'inside b\n');
+    initializeSecurityController([allowed]);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('expands a pattern rooted above the allowed directories only inside them', async () => {
+    const result = await readFiles({ paths: [`${root}/**/*.txt`] }, safety, analyzer);
+
+    expect(result.status).toBe('success');
+    expect(result.files.map(file => path.relative(allowed, file.path))).toEqual(['b.txt', 'src/a.txt']);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('warns about a pattern outside the allowed directories without walking it', async () => {
+    const result = await readFiles({ paths: [`${root}/archive/*.txt`, `${allowed}/*.txt`] }, safety, analyzer);
+
+    expect(result.files.map(file => path.basename(file.path))).toEqual(['b.txt']);
+    expect(result.warnings).toEqual([`Pattern ${root}/archive/*.txt is outside the allowed directories`]);
+  });
+});
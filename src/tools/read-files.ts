@@ -0,0 +1,225 @@
+/**
+ * Smart Filesystem MCP - Batch Read Files Tool
+ * Read several files in one call under a shared token budget
+ */
+
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { getSecurityController } from '../core/security-controller-v2.js';
+import { readFile, mapFileType } from './read-file.js';
+import { SAFETY_LIMITS } from '../utils/constants.js';
+import { estimateTokenCount, getFileTypeFromExtension } from '../utils/helpers.js';
+import { expandGlob, isGlobPattern, splitGlobBase } from '../utils/glob-matcher.js';
+import type {
+  ReadFilesParams,
+  ReadFilesResult,
+  ReadFilesEntry,
+  ReadFileLimited
+} from '../core/types.js';
+
+/**
+ * Read multiple files (paths or globs) until the shared token budget runs out
+ */
+export async function readFiles(
+  params: ReadFilesParams,
+  safety: SafetyController,
+  analyzer: FileAnalyzer
+): Promise<ReadFilesResult> {
+  const security = getSecurityController();
+  const tokenBudget = Math.min(
+    params.max_tokens ?? SAFETY_LIMITS.BATCH_READ_DEFAULT_TOKENS,
+    SAFETY_LIMITS.BATCH_READ_MAX_TOKENS
+  );
+  const warnings: string[] = [];
+
+  // Expand globs, keeping request order and dropping duplicates
+  const filePaths: string[] = [];
+  for (const pattern of params.paths) {
+    const remaining = SAFETY_LIMITS.MAX_FILES_PER_BATCH - filePaths.length;
+    if (remaining <= 0) {
+      warnings.push(`File limit reached (${SAFETY_LIMITS.MAX_FILES_PER_BATCH}) - remaining patterns were ignored`);
+      break;
+    }
+
+    if (!isGlobPattern(pattern)) {
+      if (!filePaths.includes(pattern)) {
+        filePaths.push(pattern);
+      }
+      continue;
+    }
+
+    if (!security.mayContainAllowedPaths(splitGlobBase(pattern).baseDir)) {
+      warnings.push(`Pattern ${pattern} is outside the allowed directories`);
+      continue;
+    }
+
+    // Only directories leading to allowed directories are walked, and matches outside them
+    // are dropped before they count towards the file limit
+    const expansion = await expandGlob(pattern, {
+      maxResults: remaining,
+      timeoutMs: SAFETY_LIMITS.GLOB_EXPANSION_TIMEOUT,
+      filter: match => security.validateSecurePath(match).allowed,
+      descend: dir => security.mayContainAllowedPaths(dir)
+    });
+
+    if (expansion.matches.length === 0 && !expansion.timedOut) {
+      warnings.push(`No files matched: ${pattern}`);
+    }
+    if (expansion.truncated) {
+      warnings.push(`Pattern ${pattern} matched more than ${remaining} files - extra matches were ignored`);
+    }
+    if (expansion.timedOut) {
+      warnings.push(
+        `Expanding ${pattern} stopped after ${SAFETY_LIMITS.GLOB_EXPANSION_TIMEOUT / 1000}s - ${expansion.matches.length} files found so far were used; narrow the pattern to match more`
+      );
+    }
+
+    for (const match of expansion.matches) {
+      if (!filePaths.includes(match)) {
+        filePaths.push(match);
+      }
+    }
+  }
+
+  const files: ReadFilesEntry[] = [];
+  let tokensUsed = 0;
+  let filesRead = 0;
+
+  for (const filePath of filePaths) {
+    const validation = await security.validateAccess(filePath, 'read');
+    if (!validation.allowed) {
+      files.push({
+        path: filePath,
+        ...buildStub('permission_denied', validation.reason || 'Access denied', [
+          'Use list_allowed_dirs to see accessible directories',
+          'Verify the file path is correct'
+        ])
+      });
+      continue;
+    }
+
+    const result = await readFile(
+      { path: validation.resolved_path, ...(params.encoding && { encoding: params.encoding }) },
+      safety,
+      analyzer
+    );
+
+    if (result.status !== 'success') {
+      files.push({ path: filePath, ...result });
+      continue;
+    }
+
+    const tokens = estimateTokenCount(result.content);
+    const remainingTokens = tokenBudget - tokensUsed;
+
+    // Skip files that do not fit, but keep trying smaller ones
+    if (tokens > remainingTokens) {
+      files.push({ path: filePath, ...buildBudgetStub(filePath, result.content, tokens, remainingTokens) });
+      continue;
+    }
+
+    tokensUsed += tokens;
+    filesRead++;
+    files.push({ path: filePath, ...result });
+  }
+
+  const filesSkipped = files.length - filesRead;
+  let status: ReadFilesResult['status'] = 'success';
+  if (files.length === 0) {
+    status = 'error';
+    warnings.push('No files to read');
+  } else if (filesSkipped > 0 || warnings.length > 0) {
+    status = 'warning';
+  }
+
+  return {
+    status,
+    files,
+    summary: {
+      total_files: files.length,
+      files_read: filesRead,
+      files_skipped: filesSkipped,
+      tokens_used: tokensUsed,
+      token_budget: tokenBudget
+    },
+    ...(warnings.length > 0 && { warnings })
+  };
+}
+
+/**
+ * Build a stub for a file that did not fit in the remaining budget
+ */
+function buildBudgetStub(
+  filePath: string,
+  content: string,
+  tokens: number,
+  remainingTokens: number
+): ReadFileLimited {
+  const lines = content.split('\n');
+  const previewLines = lines
+    .slice(0, SAFETY_LIMITS.DEFAULT_TAIL_LINES)
+    .map(line => line.length > 200 ? line.substring(0, 200) + '...' : line);
+
+  return {
+    status: 'budget_exceeded',
+    file_info: {
+      size_bytes: Buffer.byteLength(content),
+      estimated_tokens: tokens,
+      type: mapFileType(getFileTypeFromExtension(filePath).category),
+      safe_to_read: true
+    },
+    preview: {
+      first_lines: previewLines,
+      truncated_at_line: previewLines.length,
+      total_lines_estimated: lines.length,
+      content_summary: 'Not included - shared token budget exhausted'
+    },
+    issue_details: {
+      reason: `Token budget exhausted (~${tokens.toLocaleString()} tokens needed, ${remainingTokens.toLocaleString()} remaining)`,
+      limit_exceeded: 'TOKEN_BUDGET',
+      current_vs_limit: `~${tokens.toLocaleString()} tokens vs ${remainingTokens.toLocaleString()} remaining`
+    },
+    alternatives: {
+      force_read_available: false,
+      suggestions: [
+        'Read this file separately with read_file',
+        'Increase max_tokens or request fewer files',
+        'Use outline to find the section you need'
+      ]
+    }
+  };
+}
+
+/**
+ * Build a stub for a file that could not be read
+ */
+function buildStub(
+  status: ReadFileLimited['status'],
+  reason: string,
+  suggestions: string[]
+): ReadFileLimited {
+  return {
+    status,
+    file_info: {
+      size_bytes: 0,
+      estimated_tokens: 0,
+      type: 'text',
+      safe_to_read: false
+    },
+    preview: {
+      first_lines: [],
+      truncated_at_line: 0,
+      total_lines_estimated: 0,
+      content_summary: 'Unable to analyze'
+    },
+    issue_details: {
+      reason,
+      limit_exceeded: 'ERROR',
+      current_vs_limit: 'N/A'
+    },
+    alternatives: {
+      force_read_available: false,
+      suggestions
+    }
+  };
+}
\ No newline at end of file
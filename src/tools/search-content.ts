@@ -134,6 +134,12 @@ export async function searchContent(
       warnings.push(`Search limited to ${maxFiles} results. Use more specific patterns or filters.`);
     }
     
+    // 展開上限で途中までしか検索できなかった gzip
+    const truncated = results.filter(result => result.content_truncated);
+    if (truncated.length > 0) {
+      warnings.push(`Content search stopped at the decompression limit in ${truncated.map(result => result.file_path).join(', ')} - matches cover only the part read`);
+    }
+    
     // サマリー生成
     const summary = generateSummary(results);
     
@@ -304,6 +310,12 @@ function generateNextActions(results: SearchResult[]): string[] {
     actions.push('Large files detected → use force_read_file() if needed');
   }
   
+  // アーカイブ発見
+  const archives = results.filter(r => r.is_archive);
+  if (archives.length > 0) {
+    actions.push(`Archives found → list_archive('${archives[0]!.file_path}') to see their contents`);
+  }
+  
   // 設定ファイル発見
   const configFiles = results.filter(r => /config|setting/i.test(r.file_path));
   if (configFiles.length > 0) {
@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
+import { initializeSecurityController } from '../core/security-controller-v2.js';
+import { writeFile } from './write-file.js';
+import type { WriteFileParams } from '../core/types.js';
+
+describe('writeFile', () => {
+  let dir: string;
+  let file: string;
+  const safety = new SafetyController();
+  const analyzer = new FileAnalyzer();
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'write-file-')));
+    initializeSecurityController([dir]);
+    file = path.join(dir, 'notes.txt');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const write = (params: Omit<WriteFileParams, 'path'>) => writeFile({ path: file, ...params }, safety, analyzer);
+
+  describe('write modes', () => {
+    beforeEach(async () => {
+      await fs.writeFile(file, 'one\ntwo\nthree\n');
+    });
+
+    test('appends to the end of the file', async () => {
+      const result = await write({ content: 'four\n', mode: 'append' });
+      expect(result.status).toBe('success');
+      expect(await fs.readFile(file, 'utf8')).toBe('one\ntwo\nthree\nfour\n');
+    });
+
+    test('prepends to the start of the file', async () => {
+      await write({ content: 'zero\n', mode: 'prepend' });
+      expect(await fs.readFile(file, 'utf8')).toBe('zero\none\ntwo\nthree\n');
+    });
+
+    test('inserts before a line, adding the line break', async () => {
+      await write({ content: 'one and a half', mode: 'insert_at_line', line: 2 });
+      expect(await fs.readFile(file, 'utf8')).toBe('one\none and a half\ntwo\nthree\n');
+    });
+
+    test('inserts after the last line without a final newline', async () => {
+      await fs.writeFile(file, 'one\ntwo');
+      await write({ content: 'three', mode: 'insert_at_line', line: 3 });
+      expect(await fs.readFile(file, 'utf8')).toBe('one\ntwo\nthree');
+    });
+
+    test('rejects a line beyond the end of the file', async () => {
+      const result = await write({ content: 'x', mode: 'insert_at_line', line: 6 });
+      expect(result.status).toBe('error');
+      expect(result.issue_details?.reason).toContain('beyond the end of the file (3 lines; use 4');
+    });
+
+    test.each<[string, Omit<WriteFileParams, 'path'>]>([
+      ['a missing line for insert_at_line', { content: 'x', mode: 'insert_at_line' }],
+      ['line without insert_at_line', { content: 'x', line: 2 }],
+      ['bom with append', { content: 'x', mode: 'append', bom: true }],
+      ['an unknown mode', { content: 'x', mode: 'replace' as WriteFileParams['mode'] }]
+    ])('rejects %s', async (_name, params) => {
+      expect((await write(params)).status).toBe('error');
+      expect(await fs.readFile(file, 'utf8')).toBe('one\ntwo\nthree\n');
+    });
+
+    test('create_only leaves an existing file alone', async () => {
+      const result = await write({ content: 'new', mode: 'create_only' });
+      expect(result.status).toBe('error');
+      expect(await fs.readFile(file, 'utf8')).toBe('one\ntwo\nthree\n');
+    });
+
+    test('create_only creates a missing file', async () => {
+      const created = path.join(dir, 'created.txt');
+      const result = await writeFile({ path: created, content: 'new\n', mode: 'create_only' }, safety, analyzer);
+      expect(result.status).toBe('success');
+      expect(result.file_info?.created_new).toBe(true);
+      expect(await fs.readFile(created, 'utf8')).toBe('new\n');
+    });
+  });
+
+  describe('format preservation', () => {
+    test('keeps CRLF line endings, the BOM and the missing final newline of the existing file', async () => {
+      await fs.writeFile(file, '\uFEFFold\r\nlines');
+      const result = await write({ content: 'new\ncontent\n' });
+
+      expect(await fs.readFile(file, 'utf8')).toBe('\uFEFFnew\r\ncontent');
+      expect(result.format_info).toMatchObject({
+        line_ending: 'crlf',
+        bom: true,
+        final_newline: false,
+        normalized: ['line endings converted to CRLF', 'final newline removed', 'BOM added']
+      });
+    });
+
+    test('lets explicit options override the existing format', async () => {
+      await fs.writeFile(file, 'a\r\nb\r\n');
+      await write({ content: 'x\ny', line_ending: 'lf', final_newline: true });
+      expect(await fs.readFile(file, 'utf8')).toBe('x\ny\n');
+    });
+
+    test('writes the content as given with preserve_formatting false', async () => {
+      await fs.writeFile(file, 'a\r\nb\r\n');
+      await write({ content: 'x\ny', preserve_formatting: false });
+      expect(await fs.readFile(file, 'utf8')).toBe('x\ny');
+    });
+
+    test('appends with the line endings of the file', async () => {
+      await fs.writeFile(file, 'a\r\n');
+      await write({ content: 'b\nc\n', mode: 'append' });
+      expect(await fs.readFile(file, 'utf8')).toBe('a\r\nb\r\nc\r\n');
+    });
+
+    test('keeps a Shift_JIS file in Shift_JIS', async () => {
+      const sjis = path.join(dir, 'sjis.txt');
+      await fs.writeFile(sjis, Buffer.from([0x82, 0xA0, 0x82, 0xA2, 0x82, 0xA4, 0x0D, 0x0A]));
+      const result = await writeFile({ path: sjis, content: 'かきく\n' }, safety, analyzer);
+
+      expect(result.format_info?.encoding).toBe('shift_jis');
+      expect(await fs.readFile(sjis)).toEqual(Buffer.from([0x82, 0xA9, 0x82, 0xAB, 0x82, 0xAD, 0x0D, 0x0A]));
+    });
+  });
+});
@@ -5,22 +5,40 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { Buffer } from 'buffer';
 import { SafetyController } from '../core/safety-controller.js';
+import { FileAnalyzer } from '../core/file-analyzer.js';
 import { SAFETY_LIMITS, TOKEN_ESTIMATION } from '../utils/constants.js';
 import { estimateTokenCount } from '../utils/helpers.js';
+import { decodeBuffer, encodeString, findUnmappableChars, isSupportedEncoding, roundTrips } from '../utils/encoding.js';
+import {
+  appendToFile,
+  buildConflictDiff,
+  checkPreconditions,
+  createFileAtomic,
+  writeFileAtomic
+} from '../utils/atomic-write.js';
+import { applyTextFormat, detectFileTextFormat } from '../utils/text-format.js';
+import { checkSyntaxChange, detectSyntaxLanguage, syntaxLanguageLabel } from '../utils/syntax-check.js';
+import type { TextFormat } from '../utils/text-format.js';
 import type { 
+  FileEncoding,
+  FileVersion,
+  SyntaxCheckResult,
   WriteFileParams,
   WriteFileResult,
-  FileEncoding
+  WriteMode
 } from '../core/types.js';
 
+// 有効な書き込みモード
+const WRITE_MODES: WriteMode[] = ['overwrite', 'append', 'prepend', 'insert_at_line', 'create_only'];
+
 /**
  * ファイル書き込みメインツール
  */
 export async function writeFile(
   params: WriteFileParams,
-  safety: SafetyController
+  safety: SafetyController,
+  analyzer: FileAnalyzer
 ): Promise<WriteFileResult> {
   try {
     // パラメータ検証
@@ -32,6 +50,24 @@ export async function writeFile(
       throw new Error('Content is required');
     }
     
+    // 書き込みモード検証
+    const mode = params.mode ?? 'overwrite';
+    if (!WRITE_MODES.includes(mode)) {
+      throw new Error(`Invalid mode: ${mode} (use ${WRITE_MODES.join(', ')})`);
+    }
+    if (mode === 'insert_at_line') {
+      if (params.line === undefined || !Number.isInteger(params.line) || params.line < 1) {
+        throw new Error('line must be a positive integer (1-based) for mode insert_at_line');
+      }
+    } else if (params.line !== undefined) {
+      throw new Error('line is only used with mode insert_at_line');
+    }
+    // 既存の内容を残すモードでは BOM・末尾改行はファイル側のものを使う
+    const rewritesFile = mode === 'overwrite' || mode === 'create_only';
+    if (!rewritesFile && (params.bom !== undefined || params.final_newline !== undefined)) {
+      throw new Error('bom and final_newline only apply to mode overwrite and create_only');
+    }
+    
     // パスの正規化
     const normalizedPath = path.normalize(params.path);
     
@@ -45,19 +81,58 @@ export async function writeFile(
     // 既存ファイルチェック
     let fileExists = false;
     let existingSize = 0;
+    let existingMtime: Date | undefined;
     
     try {
       const stats = await fs.stat(normalizedPath);
       fileExists = stats.isFile();
       existingSize = stats.size;
+      existingMtime = stats.mtime;
     } catch {
       // ファイルが存在しない場合は新規作成
       fileExists = false;
     }
     
+    // 既存ファイルのエンコーディングを引き継ぐ（指定がない場合）
+    const preserveFormatting = params.preserve_formatting ?? true;
+    let encoding: string = params.encoding || 'utf8';
+    let encodingDetected = false;
+    if (!params.encoding && preserveFormatting && fileExists && existingSize > 0) {
+      const detected = await analyzer.detectFileEncoding(normalizedPath);
+      if (detected !== 'utf8' && isSupportedEncoding(detected)) {
+        encoding = detected;
+        encodingDetected = true;
+      }
+    }
+    
+    // エンコーディングチェック（表現できない文字は'?'に化けるため書き込まない）
+    if (!isSupportedEncoding(encoding)) {
+      throw new Error(`Unsupported encoding: ${encoding}`);
+    }
+    
+    // 書式の適用（既存ファイルの改行コード・BOM・末尾改行を保持し、明示的な指定を優先）
+    const detectedFormat: TextFormat = preserveFormatting && fileExists && existingSize > 0
+      ? await detectFileTextFormat(normalizedPath, encoding)
+      : {};
+    const format: TextFormat = {
+      line_ending: params.line_ending ?? detectedFormat.line_ending,
+      ...(rewritesFile && {
+        bom: params.bom ?? detectedFormat.bom,
+        final_newline: params.final_newline ?? detectedFormat.final_newline
+      })
+    };
+    const formatted = applyTextFormat(params.content, format);
+    const content = formatted.content;
+    
+    const unmappable = findUnmappableChars(content, encoding);
+    if (unmappable.length > 0) {
+      throw new Error(
+        `Content contains characters that cannot be encoded in ${encoding}${encodingDetected ? ' (detected from the existing file)' : ''}: ${unmappable.join(' ')}`
+      );
+    }
+    
     // コンテンツサイズチェック
-    const encoding = normalizeEncoding(params.encoding || 'utf8');
-    const contentBuffer = Buffer.from(params.content, encoding as BufferEncoding);
+    const contentBuffer = encodeString(content, encoding);
     const contentSize = contentBuffer.length;
     
     // サイズ制限チェック
@@ -73,26 +148,185 @@ export async function writeFile(
       // Node.jsでは標準的な方法がないため、今回はスキップ
     }
     
+    // トークン推定
+    const estimatedTokens = estimateTokenCount(content);
+    const fileInfo: WriteFileResult['file_info'] = {
+      path: normalizedPath,
+      size_bytes: contentSize,
+      created_new: !fileExists,
+      estimated_tokens: estimatedTokens,
+      ...(mode !== 'overwrite' && { mode })
+    };
+    
+    // create_only は既存ファイルに触れない
+    if (mode === 'create_only' && fileExists) {
+      return fileExistsResult(fileInfo, existingSize, existingMtime);
+    }
+    
+    // prepend / insert_at_line は既存の内容を読み込んで組み立てる（append は読まない）
+    let existingBuffer: Buffer | undefined;
+    let existingContent = '';
+    if (fileExists && (mode === 'prepend' || mode === 'insert_at_line')) {
+      if (existingSize > SAFETY_LIMITS.EDIT_MAX_FILE_SIZE) {
+        throw new Error(
+          `File size (${(existingSize / 1024 / 1024).toFixed(2)}MB) exceeds maximum size for ${mode} (${SAFETY_LIMITS.EDIT_MAX_FILE_SIZE / 1024 / 1024}MB) - use mode append instead`
+        );
+      }
+      existingBuffer = await fs.readFile(normalizedPath);
+      // 既存の内容がデコード後に元のバイト列に戻らない場合は書き込まない（内容が化ける）
+      if (!roundTrips(existingBuffer, encoding)) {
+        throw new Error(
+          `Existing content cannot be kept intact: its bytes do not decode and re-encode losslessly as ${encoding} - use mode append or pass the correct encoding`
+        );
+      }
+      existingContent = decodeBuffer(existingBuffer, encoding);
+    }
+    
+    if (mode === 'insert_at_line') {
+      const lineCount = countLines(existingContent);
+      if (params.line! > lineCount + 1) {
+        throw new Error(`line ${params.line} is beyond the end of the file (${lineCount} lines; use ${lineCount + 1} to insert at the end)`);
+      }
+    }
+    
+    // 既存の内容に対する書き込み後の内容
+    const composeContent = (current: string): string => {
+      switch (mode) {
+        case 'append':
+          return current + content;
+        case 'prepend':
+          return insertAtLine(current, content, 1, false);
+        case 'insert_at_line':
+          return insertAtLine(current, content, params.line!, true);
+        default:
+          return content;
+      }
+    };
+    
+    // 前提条件チェック（読み込み後に他のプロセスが変更していないか）
+    const conflict = await checkPreconditions(normalizedPath, params, existingBuffer);
+    if (conflict) {
+      if (fileExists && existingSize <= SAFETY_LIMITS.CONFLICT_DIFF_MAX_SIZE) {
+        const current = decodeBuffer(await fs.readFile(normalizedPath), encoding);
+        const diff = buildConflictDiff(current, composeContent(current), path.basename(normalizedPath));
+        if (diff) {
+          conflict.diff = diff;
+        }
+      }
+      
+      return {
+        status: 'conflict',
+        file_info: {
+          ...fileInfo,
+          created_new: false
+        },
+        conflict,
+        alternatives: {
+          suggestions: [
+            'Re-read the file and reapply your changes to the current content',
+            'Pass current_sha256 as expected_sha256 to write against the current version',
+            'Omit expected_sha256/expected_mtime to write unconditionally'
+          ]
+        }
+      };
+    }
+    
+    // 構文チェック（書き込みで新たに構文エラーになる場合は書き込まない）
+    let syntaxCheck: SyntaxCheckResult | undefined;
+    const syntaxLanguage = params.validate_syntax ? detectSyntaxLanguage(normalizedPath) : undefined;
+    if (syntaxLanguage) {
+      let before: string | undefined;
+      if (existingBuffer) {
+        before = existingContent;
+      } else if (fileExists && mode !== 'create_only' && existingSize <= SAFETY_LIMITS.EDIT_MAX_FILE_SIZE) {
+        before = decodeBuffer(await fs.readFile(normalizedPath), encoding);
+      }
+      
+      if (mode === 'append' && fileExists && before === undefined) {
+        // 既存の内容が大きすぎて書き込み後の内容を組み立てられない
+        syntaxCheck = { language: syntaxLanguage, status: 'skipped', reason: 'File too large for syntax check' };
+      } else {
+        syntaxCheck = checkSyntaxChange(normalizedPath, before, composeContent(before ?? ''));
+      }
+      
+      if (syntaxCheck?.status === 'invalid' && syntaxCheck.error) {
+        const { error } = syntaxCheck;
+        return {
+          status: 'error',
+          file_info: fileInfo,
+          syntax_check: syntaxCheck,
+          issue_details: {
+            reason: `Content would leave a ${syntaxLanguageLabel(syntaxCheck.language)} syntax error at line ${error.line}, column ${error.column}: ${error.message} - the file was not written`,
+            risk_level: 'high'
+          },
+          alternatives: {
+            suggestions: [
+              'Check syntax_check.error.context for the broken line (line numbers refer to the whole file after the write)',
+              'Fix the content and retry, or omit validate_syntax to write it anyway'
+            ]
+          }
+        };
+      }
+    }
+    
     // ディレクトリが存在しない場合は作成
     await fs.mkdir(dirPath, { recursive: true });
     
-    // ファイル書き込み
-    await fs.writeFile(normalizedPath, params.content, encoding as BufferEncoding);
-    
-    // トークン推定
-    const estimatedTokens = estimateTokenCount(params.content);
+    // ファイル書き込み（append 以外は一時ファイル経由で原子的に置き換え）
+    let version: FileVersion | undefined;
+    let fileSize = contentSize;
+    switch (mode) {
+      case 'append':
+        // 大きなファイルでも既存の内容を読まずに末尾へ追記
+        fileSize = await appendToFile(normalizedPath, contentBuffer);
+        break;
+      case 'create_only':
+        try {
+          version = await createFileAtomic(normalizedPath, contentBuffer);
+        } catch (error) {
+          // 存在チェック後に他のプロセスが作成した場合
+          if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+            const stats = await fs.stat(normalizedPath).catch(() => null);
+            return fileExistsResult({ ...fileInfo, created_new: false }, stats?.size ?? 0, stats?.mtime);
+          }
+          throw error;
+        }
+        break;
+      case 'prepend':
+      case 'insert_at_line': {
+        const output = encodeString(composeContent(existingContent), encoding);
+        version = await writeFileAtomic(normalizedPath, output);
+        fileSize = output.length;
+        break;
+      }
+      default:
+        version = await writeFileAtomic(normalizedPath, contentBuffer);
+    }
     
     // 結果生成
     const result: WriteFileResult = {
       status: 'success',
       file_info: {
-        path: normalizedPath,
-        size_bytes: contentSize,
-        created_new: !fileExists,
-        estimated_tokens: estimatedTokens
-      }
+        ...fileInfo,
+        ...(mode !== 'overwrite' && mode !== 'create_only' && { file_size_bytes: fileSize })
+      },
+      ...(version && { version }),
+      ...(syntaxCheck && { syntax_check: syntaxCheck })
     };
     
+    // 書式情報（検出・指定したものと、内容に加えた変更）
+    const formatApplied = Object.values(format).some(value => value !== undefined);
+    if (formatApplied || encodingDetected) {
+      result.format_info = {
+        encoding: encoding as FileEncoding,
+        ...(encodingDetected && { encoding_detected: true }),
+        ...(format.line_ending && { line_ending: format.line_ending }),
+        ...(format.bom !== undefined && { bom: format.bom }),
+        ...(format.final_newline !== undefined && { final_newline: format.final_newline }),
+        normalized: formatted.normalized
+      };
+    }
+    
     // 大容量警告
     if (contentSize >= SAFETY_LIMITS.WRITE_WARNING_SIZE) {
       result.status = 'warning';
@@ -115,7 +349,7 @@ export async function writeFile(
     }
     
     // 既存ファイル上書き時の情報
-    if (fileExists && existingSize > 0) {
+    if (mode === 'overwrite' && fileExists && existingSize > 0) {
       if (!result.warnings) {
         result.warnings = [];
       }
@@ -151,24 +385,73 @@ export async function writeFile(
 }
 
 /**
- * エンコーディングの正規化
+ * create_only で既存ファイルがある場合の結果
  */
-function normalizeEncoding(encoding: FileEncoding): string {
-  const encodingMap: Record<string, string> = {
-    'utf8': 'utf8',
-    'utf16le': 'utf16le',
-    'utf16be': 'utf16le', // Node.jsはutf16beを直接サポートしていない
-    'utf32le': 'utf16le', // Node.jsはutf32を直接サポートしていない
-    'utf32be': 'utf16le',
-    'ascii': 'ascii',
-    'latin1': 'latin1',
-    'shift_jis': 'utf8', // 変換が必要
-    'euc-jp': 'utf8',
-    'gb2312': 'utf8',
-    'unknown': 'utf8'
+function fileExistsResult(
+  fileInfo: WriteFileResult['file_info'],
+  existingSize: number,
+  existingMtime: Date | undefined
+): WriteFileResult {
+  return {
+    status: 'error',
+    file_info: fileInfo,
+    issue_details: {
+      reason: 'File already exists (mode create_only does not modify existing files)',
+      risk_level: 'low',
+      existing_file_info: {
+        size_bytes: existingSize,
+        last_modified: existingMtime?.toISOString() ?? ''
+      }
+    },
+    alternatives: {
+      suggestions: [
+        'Read the existing file before deciding whether to replace it',
+        'Use mode overwrite to replace it, or mode append to add to the end',
+        'Choose a different file name'
+      ]
+    }
   };
+}
+
+/**
+ * 行数（末尾の改行の後は行として数えない）
+ */
+function countLines(content: string): number {
+  if (content === '' || content === '\uFEFF') {
+    return 0;
+  }
+  const newlines = content.split('\n').length - 1;
+  return content.endsWith('\n') ? newlines : newlines + 1;
+}
+
+/**
+ * 指定行（1始まり）の前にテキストを挿入（BOM の後ろから数える）
+ * asLine の場合は挿入テキストを行として扱い、ファイルの改行コードで区切る
+ */
+function insertAtLine(existing: string, text: string, line: number, asLine: boolean): string {
+  const bom = existing.startsWith('\uFEFF') ? '\uFEFF' : '';
+  const body = existing.slice(bom.length);
+  const lineEnding = body.includes('\r\n') ? '\r\n' : '\n';
   
-  return encodingMap[encoding] || 'utf8';
+  // 挿入位置（line 行目の先頭）
+  let offset = 0;
+  for (let current = 1; current < line && offset < body.length; current++) {
+    const next = body.indexOf('\n', offset);
+    offset = next === -1 ? body.length : next + 1;
+  }
+  
+  let insertion = text;
+  if (asLine) {
+    // 改行で終わらない最終行の後ろに挿入する場合は先に改行を補う
+    if (offset === body.length && body !== '' && !body.endsWith('\n')) {
+      insertion = lineEnding + insertion;
+    }
+    if (offset < body.length && insertion !== '' && !insertion.endsWith('\n')) {
+      insertion += lineEnding;
+    }
+  }
+  
+  return bom + body.slice(0, offset) + insertion + body.slice(offset);
 }
 
 /**
@@ -198,6 +481,23 @@ function getErrorSuggestions(errorMessage: string): string[] {
       'Reduce file size',
       'Clean up temporary files'
     );
+  } else if (errorMessage.includes('cannot be encoded') || errorMessage.includes('Unsupported encoding') || errorMessage.includes('losslessly')) {
+    suggestions.push(
+      'Write the file as utf8 instead',
+      'Replace the listed characters with ones available in the target encoding',
+      'Use convert_encoding to change the file encoding first'
+    );
+  } else if (errorMessage.includes('mode') || errorMessage.includes('line ')) {
+    suggestions.push(
+      `Use one of the modes: ${WRITE_MODES.join(', ')}`,
+      'insert_at_line requires line: the 1-based line the content is inserted before',
+      'Use mode append for files too large to prepend to or insert into'
+    );
+  } else if (errorMessage.includes('expected_')) {
+    suggestions.push(
+      'Use the sha256 reported by file_info or a previous write as expected_sha256',
+      'Pass expected_mtime as an ISO 8601 timestamp such as file_info modified'
+    );
   } else if (errorMessage.includes('exceeds maximum')) {
     suggestions.push(
       'Split content into multiple files',
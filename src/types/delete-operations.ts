@@ -3,10 +3,12 @@
  * 削除操作の型定義
  */
 
+import type { WriteConflict, WritePreconditions } from '../core/types.js';
+
 /**
  * ファイル削除パラメータ
  */
-export interface DeleteFileParams {
+export interface DeleteFileParams extends WritePreconditions {
   /** 削除対象ファイルパス */
   path: string;
   /** 読み取り専用でも削除 (default: false) */
@@ -18,7 +20,7 @@ export interface DeleteFileParams {
  */
 export interface DeleteFileResult {
   /** 操作ステータス */
-  status: 'success' | 'warning' | 'error';
+  status: 'success' | 'warning' | 'conflict' | 'error';
   /** 削除されたファイル情報 */
   deleted_file: {
     path: string;
@@ -33,6 +35,8 @@ export interface DeleteFileResult {
     backup_recommended: boolean;
     warnings: string[];
   };
+  /** 前提条件の不一致（status 'conflict'） */
+  conflict?: WriteConflict;
   /** 代替手段の提案 */
   alternatives?: {
     suggestions: string[];
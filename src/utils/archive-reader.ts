@@ -0,0 +1,594 @@
+/**
+ * Smart Filesystem MCP - Archive Reader
+ * zip / tar / tar.gz のエントリ一覧と単一エントリの読み込み（Node標準のzlibのみ使用）
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream } from 'fs';
+import { createGunzip, createInflateRaw } from 'zlib';
+import { SAFETY_LIMITS } from './constants.js';
+
+/**
+ * 対応アーカイブ形式
+ */
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+/**
+ * アーカイブ内エントリ
+ */
+export interface ArchiveEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;                // 展開後サイズ（申告値）
+  compressed_size?: number;    // zipのみ
+  modified?: string;
+  link_target?: string;
+}
+
+/**
+ * エントリ一覧の結果
+ */
+export interface ArchiveListing {
+  entries: ArchiveEntry[];
+  total_entries: number;
+  complete: boolean;           // 時間・件数上限で打ち切った場合は false
+}
+
+/**
+ * エントリ読み込み結果
+ */
+export interface ArchiveEntryData {
+  entry: ArchiveEntry;
+  data: Buffer;                // 先頭 maxBytes まで
+  truncated: boolean;
+}
+
+/**
+ * エントリ検索結果
+ */
+export interface ArchiveEntryLookup {
+  found: ArchiveEntryData | null;
+  complete: boolean;           // 時間上限で探索を打ち切った場合は false
+}
+
+/**
+ * zip セントラルディレクトリのエントリ（ローカルヘッダー位置付き）
+ */
+interface ZipEntry extends ArchiveEntry {
+  method: number;
+  encrypted: boolean;
+  local_header_offset: number;
+}
+
+/**
+ * ストリームから必要なバイト数ずつ取り出すリーダー
+ */
+interface StreamReader {
+  take(length: number): Promise<Buffer | null>;
+  skip(length: number): Promise<boolean>;   // 期限切れの場合は false
+}
+
+/**
+ * 拡張子とアーカイブ形式の対応（長い拡張子を先に判定）
+ */
+const ARCHIVE_EXTENSIONS: Array<[string, ArchiveFormat]> = [
+  ['.tar.gz', 'tar.gz'],
+  ['.tgz', 'tar.gz'],
+  ['.tar', 'tar'],
+  ['.zip', 'zip']
+];
+
+/**
+ * zip シグネチャ
+ */
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * EOCD の最大長（固定部22バイト + コメント最大65535バイト）
+ */
+const ZIP_EOCD_SEARCH_SIZE = 22 + 0xFFFF;
+
+/**
+ * tar ブロックサイズ
+ */
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * ロング名・PAX拡張ヘッダーの最大サイズ
+ */
+const TAR_MAX_META_SIZE = 1024 * 1024;
+
+/**
+ * 拡張子からアーカイブ形式を判定
+ */
+export function detectArchiveFormat(filePath: string): ArchiveFormat | undefined {
+  const lower = path.basename(filePath).toLowerCase();
+  return ARCHIVE_EXTENSIONS.find(([extension]) => lower.endsWith(extension))?.[1];
+}
+
+/**
+ * エントリ一覧を取得
+ */
+export async function listArchiveEntries(
+  filePath: string,
+  format: ArchiveFormat,
+  maxEntries: number
+): Promise<ArchiveListing> {
+  if (format === 'zip') {
+    const entries = await readZipCentralDirectory(filePath);
+    return {
+      entries: entries.slice(0, maxEntries).map(toArchiveEntry),
+      total_entries: entries.length,
+      complete: true
+    };
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+
+  // tar は全体を読まないと件数が分からないため時間で打ち切る
+  const complete = await scanTar(filePath, format === 'tar.gz', entry => {
+    total++;
+    if (entries.length < maxEntries) {
+      entries.push(entry);
+    }
+    return 'skip';
+  }, Date.now() + SAFETY_LIMITS.MAX_OPERATION_TIME);
+
+  return { entries, total_entries: total, complete };
+}
+
+/**
+ * 単一エントリを読み込む（maxBytes を超える部分は読まない）
+ * エントリが存在しない場合は found が null（complete が false なら見つかる前に打ち切った）
+ */
+export async function extractArchiveEntry(
+  filePath: string,
+  format: ArchiveFormat,
+  entryName: string,
+  maxBytes: number
+): Promise<ArchiveEntryLookup> {
+  const name = normalizeEntryName(entryName);
+
+  if (format === 'zip') {
+    const entry = (await readZipCentralDirectory(filePath)).find(item => normalizeEntryName(item.name) === name);
+    if (!entry) {
+      return { found: null, complete: true };
+    }
+    if (entry.type !== 'file') {
+      return { found: { entry: toArchiveEntry(entry), data: Buffer.alloc(0), truncated: false }, complete: true };
+    }
+    return { found: await readZipEntryData(filePath, entry, maxBytes), complete: true };
+  }
+
+  let found: ArchiveEntryData | null = null;
+  const complete = await scanTar(filePath, format === 'tar.gz', async (entry, reader) => {
+    if (normalizeEntryName(entry.name) !== name) {
+      return 'skip';
+    }
+    const data = entry.type === 'file' ? await reader.take(Math.min(entry.size, maxBytes)) : Buffer.alloc(0);
+    found = { entry, data: data ?? Buffer.alloc(0), truncated: entry.size > maxBytes };
+    return 'stop';
+  });
+
+  return { found, complete };
+}
+
+/**
+ * エントリ名の正規化（先頭の ./ と / を除去）
+ */
+function normalizeEntryName(name: string): string {
+  return name.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+}
+
+/**
+ * zip エントリから公開用の項目のみ取り出す
+ */
+function toArchiveEntry(entry: ZipEntry): ArchiveEntry {
+  const { method: _method, encrypted: _encrypted, local_header_offset: _offset, ...rest } = entry;
+  return rest;
+}
+
+/**
+ * zip のセントラルディレクトリを読む
+ */
+async function readZipCentralDirectory(filePath: string): Promise<ZipEntry[]> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const tailLength = Math.min(size, ZIP_EOCD_SEARCH_SIZE);
+    const tail = Buffer.alloc(tailLength);
+    await handle.read(tail, 0, tailLength, size - tailLength);
+
+    // EOCD は末尾から逆方向に探す（コメントが付いている場合がある）
+    let eocd = -1;
+    for (let pos = tail.length - 22; pos >= 0; pos--) {
+      if (tail.readUInt32LE(pos) === ZIP_EOCD_SIGNATURE) {
+        eocd = pos;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error('Not a zip archive (end of central directory not found)');
+    }
+
+    let entryCount = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    // ZIP64: EOCD の直前にロケーターがある
+    const locator = eocd - 20;
+    if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const record = Buffer.alloc(56);
+      await handle.read(record, 0, 56, Number(tail.readBigUInt64LE(locator + 8)));
+      if (record.readUInt32LE(0) === ZIP64_EOCD_SIGNATURE) {
+        entryCount = Number(record.readBigUInt64LE(32));
+        directorySize = Number(record.readBigUInt64LE(40));
+        directoryOffset = Number(record.readBigUInt64LE(48));
+      }
+    }
+
+    if (directoryOffset + directorySize > size) {
+      throw new Error('Corrupt zip archive (central directory is outside the file)');
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    await handle.read(directory, 0, directorySize, directoryOffset);
+    return parseZipCentralDirectory(directory, entryCount);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * セントラルディレクトリのエントリを解析
+ */
+function parseZipCentralDirectory(directory: Buffer, entryCount: number): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < entryCount && pos + 46 <= directory.length; i++) {
+    if (directory.readUInt32LE(pos) !== ZIP_CENTRAL_SIGNATURE) {
+      break;
+    }
+
+    const madeBy = directory.readUInt16LE(pos + 4);
+    const flags = directory.readUInt16LE(pos + 8);
+    const method = directory.readUInt16LE(pos + 10);
+    const dosTime = directory.readUInt16LE(pos + 12);
+    const dosDate = directory.readUInt16LE(pos + 14);
+    let compressedSize = directory.readUInt32LE(pos + 20);
+    let size = directory.readUInt32LE(pos + 24);
+    const nameLength = directory.readUInt16LE(pos + 28);
+    const extraLength = directory.readUInt16LE(pos + 30);
+    const commentLength = directory.readUInt16LE(pos + 32);
+    const externalAttributes = directory.readUInt32LE(pos + 38);
+    let localHeaderOffset = directory.readUInt32LE(pos + 42);
+
+    // bit 11 が立っていればUTF-8、それ以外はCP437（ASCII範囲のみ正しく表示）
+    const nameBytes = directory.subarray(pos + 46, pos + 46 + nameLength);
+    const name = nameBytes.toString(flags & 0x0800 ? 'utf8' : 'latin1');
+
+    // ZIP64 拡張フィールド: 0xFFFFFFFF の項目のみ順に格納される
+    const extra = directory.subarray(pos + 46 + nameLength, pos + 46 + nameLength + extraLength);
+    for (let offset = 0; offset + 4 <= extra.length;) {
+      const headerId = extra.readUInt16LE(offset);
+      const dataSize = extra.readUInt16LE(offset + 2);
+      if (headerId === 0x0001) {
+        let field = offset + 4;
+        if (size === 0xFFFFFFFF && field + 8 <= extra.length) {
+          size = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+        if (compressedSize === 0xFFFFFFFF && field + 8 <= extra.length) {
+          compressedSize = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+        if (localHeaderOffset === 0xFFFFFFFF && field + 8 <= extra.length) {
+          localHeaderOffset = Number(extra.readBigUInt64LE(field));
+        }
+        break;
+      }
+      offset += 4 + dataSize;
+    }
+
+    // Unix で作成された場合は外部属性の上位16ビットがファイルモード
+    const unixMode = (madeBy >> 8) === 3 ? externalAttributes >>> 16 : 0;
+    const type: ArchiveEntry['type'] = name.endsWith('/')
+      ? 'directory'
+      : (unixMode & 0o170000) === 0o120000 ? 'symlink' : 'file';
+
+    entries.push({
+      name,
+      type,
+      size,
+      compressed_size: compressedSize,
+      modified: formatDosDateTime(dosDate, dosTime),
+      method,
+      encrypted: (flags & 0x0001) !== 0,
+      local_header_offset: localHeaderOffset
+    });
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * zip エントリのデータを読む（stored / deflate のみ）
+ */
+async function readZipEntryData(filePath: string, entry: ZipEntry, maxBytes: number): Promise<ArchiveEntryData> {
+  if (entry.encrypted) {
+    throw new Error(`Entry is encrypted: ${entry.name}`);
+  }
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name} (only stored and deflate are supported)`);
+  }
+
+  // ローカルヘッダーの名前・拡張フィールド長はセントラルディレクトリと異なる場合がある
+  const handle = await fs.open(filePath, 'r');
+  let dataStart: number;
+  try {
+    const header = Buffer.alloc(30);
+    await handle.read(header, 0, 30, entry.local_header_offset);
+    if (header.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt zip archive (bad local header for ${entry.name})`);
+    }
+    dataStart = entry.local_header_offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+
+  const compressedSize = entry.compressed_size ?? 0;
+  const publicEntry = toArchiveEntry(entry);
+  if (compressedSize === 0) {
+    return { entry: publicEntry, data: Buffer.alloc(0), truncated: false };
+  }
+
+  const source = createReadStream(filePath, { start: dataStart, end: dataStart + compressedSize - 1 });
+  const stream = entry.method === 8 ? source.pipe(createInflateRaw()) : source;
+
+  // 申告サイズに関わらず maxBytes + 1 バイトで打ち切る（展開爆弾対策）
+  try {
+    const data = await collectStream(stream, maxBytes + 1);
+    return {
+      entry: publicEntry,
+      data: data.subarray(0, maxBytes),
+      truncated: data.length > maxBytes
+    };
+  } finally {
+    source.destroy();
+    stream.destroy();
+  }
+}
+
+/**
+ * ストリームから最大 limit バイトを集める
+ */
+async function collectStream(stream: NodeJS.ReadableStream, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+    total += chunk.length;
+    if (total >= limit) {
+      break;
+    }
+  }
+
+  return Buffer.concat(chunks).subarray(0, limit);
+}
+
+/**
+ * tar / tar.gz を先頭から走査
+ * visitor が 'stop' を返すと走査を終了、'skip' はデータを読み飛ばす
+ * visitor がデータを読んだ場合は残りのみ読み飛ばす
+ * 期限切れで打ち切った場合は false を返す
+ */
+async function scanTar(
+  filePath: string,
+  gzipped: boolean,
+  visitor: (entry: ArchiveEntry, reader: StreamReader) => 'skip' | 'stop' | Promise<'skip' | 'stop'>,
+  deadline: number = Date.now() + SAFETY_LIMITS.MAX_OPERATION_TIME
+): Promise<boolean> {
+  const source = createReadStream(filePath);
+  const stream = gzipped ? source.pipe(createGunzip()) : source;
+  const reader = createStreamReader(stream, deadline);
+
+  // GNU ロング名 / PAX 拡張ヘッダーは次のエントリに適用される
+  let longName: string | undefined;
+  let longLink: string | undefined;
+  let pax: Record<string, string> = {};
+
+  try {
+    for (;;) {
+      const header = await reader.take(TAR_BLOCK_SIZE);
+      if (!header || header.every(byte => byte === 0)) {
+        break;
+      }
+
+      const size = parseTarNumber(header.subarray(124, 136));
+      const typeFlag = String.fromCharCode(header.readUInt8(156) || 0x30);
+      const padded = Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+      if (typeFlag === 'L' || typeFlag === 'K' || typeFlag === 'x' || typeFlag === 'g') {
+        if (size > TAR_MAX_META_SIZE) {
+          throw new Error(`Corrupt tar archive (extended header of ${size} bytes)`);
+        }
+        const data = (await reader.take(padded))?.subarray(0, size) ?? Buffer.alloc(0);
+        if (typeFlag === 'L') {
+          longName = readCString(data);
+        } else if (typeFlag === 'K') {
+          longLink = readCString(data);
+        } else if (typeFlag === 'x') {
+          pax = parsePaxHeaders(data);
+        }
+        continue;
+      }
+
+      // prefix フィールドは POSIX ustar のみ（旧GNU形式は同じ位置に atime 等を持つ）
+      const prefix = header.toString('latin1', 257, 263) === 'ustar\0' ? readCString(header.subarray(345, 500)) : '';
+      const baseName = readCString(header.subarray(0, 100));
+      const entrySize = pax.size !== undefined ? Number(pax.size) : size;
+      const mtime = pax.mtime !== undefined ? Number(pax.mtime) : parseTarNumber(header.subarray(136, 148));
+      const linkTarget = pax.linkpath ?? longLink ?? readCString(header.subarray(157, 257));
+
+      const entry: ArchiveEntry = {
+        name: pax.path ?? longName ?? (prefix ? `${prefix}/${baseName}` : baseName),
+        type: typeFlag === '0' || typeFlag === '7' ? 'file'
+          : typeFlag === '5' ? 'directory'
+          : typeFlag === '2' ? 'symlink'
+          : 'other',
+        size: typeFlag === '5' ? 0 : entrySize,
+        ...(mtime > 0 && { modified: new Date(mtime * 1000).toISOString() }),
+        ...((typeFlag === '2' || typeFlag === '1') && linkTarget && { link_target: linkTarget })
+      };
+      longName = undefined;
+      longLink = undefined;
+      pax = {};
+
+      const dataBlocks = Math.ceil(entrySize / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+      let consumed = 0;
+      const tracked: StreamReader = {
+        take: async length => {
+          const data = await reader.take(length);
+          consumed += data?.length ?? 0;
+          return data;
+        },
+        skip: async length => {
+          consumed += length;
+          return await reader.skip(length);
+        }
+      };
+
+      const action = await visitor(entry, tracked);
+      if (action === 'stop') {
+        return true;
+      }
+      if (!await reader.skip(dataBlocks - consumed)) {
+        return false;
+      }
+    }
+    return true;
+  } finally {
+    source.destroy();
+    if (stream !== source) {
+      (stream as NodeJS.ReadableStream & { destroy(): void }).destroy();
+    }
+  }
+}
+
+/**
+ * 非同期ストリームから指定バイト数ずつ取り出す
+ */
+function createStreamReader(stream: NodeJS.ReadableStream, deadline: number): StreamReader {
+  const iterator = (stream as AsyncIterable<Buffer>)[Symbol.asyncIterator]();
+  let buffered = Buffer.alloc(0);
+
+  return {
+    async take(length: number): Promise<Buffer | null> {
+      const chunks: Buffer[] = [buffered];
+      let total = buffered.length;
+      while (total < length) {
+        const { value, done } = await iterator.next();
+        if (done) {
+          return null;
+        }
+        chunks.push(value);
+        total += value.length;
+      }
+      const joined = chunks.length === 1 ? buffered : Buffer.concat(chunks, total);
+      buffered = joined.subarray(length);
+      return joined.subarray(0, length);
+    },
+
+    async skip(length: number): Promise<boolean> {
+      let remaining = length;
+      while (remaining > 0) {
+        if (buffered.length === 0) {
+          if (Date.now() > deadline) {
+            return false;
+          }
+          const { value, done } = await iterator.next();
+          if (done) {
+            return true;
+          }
+          buffered = value;
+        }
+        const step = Math.min(remaining, buffered.length);
+        buffered = buffered.subarray(step);
+        remaining -= step;
+      }
+      return true;
+    }
+  };
+}
+
+/**
+ * tar の数値フィールド（8進数、または先頭ビットが立っていれば base-256）
+ */
+function parseTarNumber(field: Buffer): number {
+  if (field.readUInt8(0) & 0x80) {
+    let value = 0;
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field.readUInt8(i);
+    }
+    return value;
+  }
+  const text = readCString(field).trim();
+  return text ? parseInt(text, 8) || 0 : 0;
+}
+
+/**
+ * PAX 拡張ヘッダー（"<len> key=value\n" の繰り返し）を解析
+ */
+function parsePaxHeaders(data: Buffer): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let pos = 0;
+
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    if (space === -1) {
+      break;
+    }
+    const length = parseInt(data.toString('utf8', pos, space), 10);
+    if (!length) {
+      break;
+    }
+    const record = data.toString('utf8', space + 1, pos + length - 1);
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      headers[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    pos += length;
+  }
+
+  return headers;
+}
+
+/**
+ * NUL 終端文字列を読む
+ */
+function readCString(buffer: Buffer): string {
+  const end = buffer.indexOf(0);
+  return buffer.toString('utf8', 0, end === -1 ? buffer.length : end);
+}
+
+/**
+ * MS-DOS 日時をISO文字列（タイムゾーンなし）に変換
+ */
+function formatDosDateTime(date: number, time: number): string | undefined {
+  if (date === 0) {
+    return undefined;
+  }
+  const year = ((date >> 9) & 0x7F) + 1980;
+  const pad = (value: number): string => value.toString().padStart(2, '0');
+  return `${year}-${pad((date >> 5) & 0x0F)}-${pad(date & 0x1F)}T${pad((time >> 11) & 0x1F)}:${pad((time >> 5) & 0x3F)}:${pad((time & 0x1F) * 2)}`;
+}
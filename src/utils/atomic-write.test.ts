@@ -0,0 +1,132 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { appendToFile, checkPreconditions, createFileAtomic, getFileVersion, writeFileAtomic } from './atomic-write.js';
+import { recallVersion } from './version-store.js';
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('atomic writes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'atomic-write-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('replaces the content, keeps the mode and leaves no temporary file', async () => {
+    const file = path.join(dir, 'run.sh');
+    await fs.writeFile(file, 'old');
+    await fs.chmod(file, 0o750);
+
+    const version = await writeFileAtomic(file, 'echo new\n');
+
+    expect(await fs.readFile(file, 'utf8')).toBe('echo new\n');
+    expect((await fs.stat(file)).mode & 0o777).toBe(0o750);
+    expect(await fs.readdir(dir)).toEqual(['run.sh']);
+    expect(version.sha256).toBe(sha256('echo new\n'));
+    expect(recallVersion(version.sha256)?.toString()).toBe('echo new\n');
+  });
+
+  test('writes through a symlink to its target', async () => {
+    const target = path.join(dir, 'target.txt');
+    const link = path.join(dir, 'link.txt');
+    await fs.writeFile(target, 'old');
+    await fs.symlink(target, link);
+
+    await writeFileAtomic(link, 'new');
+
+    expect((await fs.lstat(link)).isSymbolicLink()).toBe(true);
+    expect(await fs.readFile(target, 'utf8')).toBe('new');
+  });
+
+  test('creates a new file but never replaces an existing one', async () => {
+    const file = path.join(dir, 'lock');
+    await createFileAtomic(file, Buffer.from('first'));
+
+    await expect(createFileAtomic(file, Buffer.from('second'))).rejects.toMatchObject({ code: 'EEXIST' });
+    expect(await fs.readFile(file, 'utf8')).toBe('first');
+    expect(await fs.readdir(dir)).toEqual(['lock']);
+  });
+
+  test('appends and returns the new size', async () => {
+    const file = path.join(dir, 'app.log');
+    await fs.writeFile(file, 'a\n');
+    expect(await appendToFile(file, Buffer.from('b\n'))).toBe(4);
+    expect(await fs.readFile(file, 'utf8')).toBe('a\nb\n');
+  });
+});
+
+describe('checkPreconditions', () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'preconditions-'));
+    file = path.join(dir, 'config.json');
+    await fs.writeFile(file, '{"a": 1}');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('passes without preconditions or when they match', async () => {
+    const version = await getFileVersion(file);
+    expect(await checkPreconditions(file, {})).toBeNull();
+    expect(await checkPreconditions(file, { expected_sha256: version!.sha256.toUpperCase() })).toBeNull();
+    expect(await checkPreconditions(file, { expected_mtime: version!.mtime })).toBeNull();
+    expect(await checkPreconditions(file, { expected_mtime: Date.parse(version!.mtime) })).toBeNull();
+  });
+
+  test('reports a changed hash with the current version', async () => {
+    const conflict = await checkPreconditions(file, { expected_sha256: sha256('other') });
+
+    expect(conflict).toMatchObject({
+      reason: 'File was modified since it was read (content hash changed)',
+      expected_sha256: sha256('other'),
+      current_sha256: sha256('{"a": 1}')
+    });
+    expect(conflict?.current_mtime).toBeDefined();
+  });
+
+  test('reports a changed modification time', async () => {
+    const conflict = await checkPreconditions(file, { expected_mtime: '2000-01-01T00:00:00Z' });
+    expect(conflict?.reason).toBe('File was modified since it was read (modification time changed)');
+    expect(conflict?.current_sha256).toBe(sha256('{"a": 1}'));
+  });
+
+  test('reports a missing file', async () => {
+    const conflict = await checkPreconditions(path.join(dir, 'missing.json'), { expected_sha256: sha256('x') });
+    expect(conflict?.reason).toBe('File no longer exists');
+  });
+
+  test('matches an If-Match list when any tag matches', async () => {
+    expect(await checkPreconditions(file, { if_match: [sha256('old'), sha256('{"a": 1}')] })).toBeNull();
+    expect(await checkPreconditions(file, { if_match: [sha256('old'), sha256('older')] })).toMatchObject({
+      expected_sha256: `${sha256('old')}, ${sha256('older')}`
+    });
+    // 弱いタグだけの If-Match は空のリストになり、一致しない
+    expect(await checkPreconditions(file, { if_match: [] })).not.toBeNull();
+  });
+
+  test('matches If-Match: * only when the file exists', async () => {
+    expect(await checkPreconditions(file, { if_match: ['*'] })).toBeNull();
+    expect(await checkPreconditions(path.join(dir, 'missing.json'), { if_match: ['*'] })).toMatchObject({
+      reason: 'File no longer exists'
+    });
+  });
+
+  test('prefers expected_sha256 over If-Match', async () => {
+    expect(await checkPreconditions(file, { expected_sha256: sha256('old'), if_match: ['*'] })).not.toBeNull();
+  });
+
+  test('rejects malformed values', async () => {
+    await expect(checkPreconditions(file, { expected_sha256: 'abc' })).rejects.toThrow('64-character hex');
+    await expect(checkPreconditions(file, { expected_mtime: 'yesterday' })).rejects.toThrow('ISO 8601');
+  });
+});
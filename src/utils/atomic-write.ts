@@ -0,0 +1,278 @@
+/**
+ * Smart Filesystem MCP - Atomic Write
+ * 一時ファイル + fsync + rename による原子的な書き込みと、楽観的排他制御の前提条件チェック
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream } from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import { SAFETY_LIMITS } from './constants.js';
+import { formatBytes } from './helpers.js';
+import { generateGitStyleDiff } from './diff-utils.js';
+import { rememberVersion } from './version-store.js';
+import type { FileVersion, WriteConflict, WritePreconditions } from '../core/types.js';
+
+/**
+ * ファイルを原子的に書き込む（同じディレクトリの一時ファイルに書いて fsync 後に rename）
+ */
+export async function writeFileAtomic(filePath: string, data: Buffer | string): Promise<FileVersion> {
+  const buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+
+  // シンボリックリンクはリンク自体ではなくリンク先を置き換える
+  const targetPath = await fs.realpath(filePath).catch(() => filePath);
+  const existing = await fs.stat(targetPath).catch(() => null);
+  const tempPath = path.join(
+    path.dirname(targetPath),
+    `.${path.basename(targetPath)}.${randomBytes(6).toString('hex')}.tmp`
+  );
+
+  try {
+    const handle = await fs.open(tempPath, 'wx');
+    try {
+      await handle.writeFile(buffer);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    // 既存ファイルのパーミッションを引き継ぐ
+    if (existing) {
+      await fs.chmod(tempPath, existing.mode & 0o7777);
+    }
+
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+
+  await syncDirectory(path.dirname(targetPath));
+
+  const stats = await fs.stat(targetPath);
+  const sha256 = hashBuffer(buffer);
+  rememberVersion(buffer, sha256);
+  return {
+    sha256,
+    mtime: stats.mtime.toISOString()
+  };
+}
+
+/**
+ * 新規ファイルを原子的に作成（既に存在する場合は EEXIST で失敗し、既存ファイルは変更しない）
+ */
+export async function createFileAtomic(filePath: string, data: Buffer): Promise<FileVersion> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`
+  );
+
+  try {
+    const handle = await fs.open(tempPath, 'wx');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    // rename は既存ファイルを上書きするため、ハードリンクで排他的に公開する
+    try {
+      await fs.link(tempPath, filePath);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'EEXIST') {
+        throw error;
+      }
+      // ハードリンク非対応のファイルシステムでは排他オープンで作成
+      const handle = await fs.open(filePath, 'wx');
+      try {
+        await handle.writeFile(data);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    }
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+
+  await syncDirectory(path.dirname(filePath));
+
+  const stats = await fs.stat(filePath);
+  const sha256 = hashBuffer(data);
+  rememberVersion(data, sha256);
+  return {
+    sha256,
+    mtime: stats.mtime.toISOString()
+  };
+}
+
+/**
+ * ファイル末尾に追記して fsync（既存の内容は読まない。存在しない場合は作成）
+ */
+export async function appendToFile(filePath: string, data: Buffer): Promise<number> {
+  const handle = await fs.open(filePath, 'a');
+  try {
+    await handle.write(data);
+    await handle.sync();
+    const stats = await handle.stat();
+    return stats.size;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * SHA-256（16進）を計算
+ */
+export function hashBuffer(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * ファイルの SHA-256 をストリームで計算
+ * 小さいファイルは diff 編集のベースとして使えるよう内容も記録する
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    size += (chunk as Buffer).length;
+    if (size <= SAFETY_LIMITS.VERSION_CACHE_MAX_ENTRY_SIZE) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  const sha256 = hash.digest('hex');
+  if (size <= SAFETY_LIMITS.VERSION_CACHE_MAX_ENTRY_SIZE) {
+    rememberVersion(Buffer.concat(chunks), sha256);
+  }
+  return sha256;
+}
+
+/**
+ * 現在のファイルバージョンを取得（存在しない・大きすぎる場合は null）
+ */
+export async function getFileVersion(filePath: string): Promise<FileVersion | null> {
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats || !stats.isFile() || stats.size > SAFETY_LIMITS.PRECONDITION_HASH_MAX_SIZE) {
+    return null;
+  }
+
+  return {
+    sha256: await hashFile(filePath),
+    mtime: stats.mtime.toISOString()
+  };
+}
+
+/**
+ * 前提条件を検証（一致しない場合は WriteConflict、条件なし・一致の場合は null）
+ * current に読み込み済みの内容を渡すとハッシュ計算に使う
+ */
+export async function checkPreconditions(
+  filePath: string,
+  preconditions: WritePreconditions,
+  current?: Buffer
+): Promise<WriteConflict | null> {
+  const { expected_sha256: expectedSha256, expected_mtime: rawMtime, if_match: ifMatch } = preconditions;
+  if (expectedSha256 === undefined && rawMtime === undefined && ifMatch === undefined) {
+    return null;
+  }
+
+  if (expectedSha256 !== undefined && !/^[0-9a-f]{64}$/i.test(expectedSha256)) {
+    throw new Error('expected_sha256 must be a 64-character hex SHA-256 digest');
+  }
+  const expectedMtime = rawMtime !== undefined ? parseMtime(rawMtime) : undefined;
+
+  // If-Match はいずれかのタグと一致すればよく、* は存在するだけでよい
+  const acceptedSha256 = expectedSha256 !== undefined
+    ? [expectedSha256.toLowerCase()]
+    : ifMatch && !ifMatch.includes('*') ? ifMatch.map(tag => tag.toLowerCase()) : undefined;
+
+  const expected = {
+    ...(acceptedSha256 !== undefined && { expected_sha256: acceptedSha256.join(', ') }),
+    ...(expectedMtime !== undefined && { expected_mtime: new Date(expectedMtime).toISOString() })
+  };
+
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats || !stats.isFile()) {
+    return {
+      reason: 'File no longer exists',
+      ...expected
+    };
+  }
+
+  const hashable = current !== undefined || stats.size <= SAFETY_LIMITS.PRECONDITION_HASH_MAX_SIZE;
+  if (acceptedSha256 !== undefined && !hashable) {
+    throw new Error(
+      `File too large to verify expected_sha256 (${formatBytes(stats.size)} > ${formatBytes(SAFETY_LIMITS.PRECONDITION_HASH_MAX_SIZE)}) - use expected_mtime instead`
+    );
+  }
+
+  let currentSha256 = acceptedSha256 !== undefined
+    ? (current ? hashBuffer(current) : await hashFile(filePath))
+    : undefined;
+
+  const mismatches: string[] = [];
+  if (acceptedSha256 !== undefined && !acceptedSha256.includes(currentSha256 as string)) {
+    mismatches.push('content hash');
+  }
+  // mtime はミリ秒単位で比較（file_info の modified と同じ精度）
+  if (expectedMtime !== undefined && stats.mtime.getTime() !== expectedMtime) {
+    mismatches.push('modification time');
+  }
+
+  if (mismatches.length === 0) {
+    return null;
+  }
+
+  if (currentSha256 === undefined && hashable) {
+    currentSha256 = current ? hashBuffer(current) : await hashFile(filePath);
+  }
+
+  return {
+    reason: `File was modified since it was read (${mismatches.join(' and ')} changed)`,
+    ...expected,
+    ...(currentSha256 !== undefined && { current_sha256: currentSha256 }),
+    current_mtime: stats.mtime.toISOString()
+  };
+}
+
+/**
+ * 競合時の diff を生成（大きいファイルは省略）
+ */
+export function buildConflictDiff(current: string, proposed: string, fileName: string): string | undefined {
+  if (current.length > SAFETY_LIMITS.CONFLICT_DIFF_MAX_SIZE || proposed.length > SAFETY_LIMITS.CONFLICT_DIFF_MAX_SIZE) {
+    return undefined;
+  }
+  return generateGitStyleDiff(current, proposed, fileName);
+}
+
+/**
+ * expected_mtime をエポックミリ秒に変換
+ */
+function parseMtime(value: string | number): number {
+  const time = typeof value === 'number' ? Math.floor(value) : Date.parse(value);
+  if (!Number.isFinite(time)) {
+    throw new Error('expected_mtime must be an ISO 8601 timestamp or epoch milliseconds');
+  }
+  return time;
+}
+
+/**
+ * ディレクトリエントリ（rename）を永続化（Windows 等で未対応の場合は無視）
+ */
+async function syncDirectory(dirPath: string): Promise<void> {
+  try {
+    const handle = await fs.open(dirPath, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // ディレクトリの fsync は必須ではない
+  }
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { decodeCursor, encodeCursor, readChunk } from './chunk-reader.js';
+
+describe('chunk-reader', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunk-reader-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function readAll(file: string, tokens: number): Promise<string[]> {
+    const chunks: string[] = [];
+    let offset = 0;
+    for (;;) {
+      const chunk = await readChunk(file, offset, tokens);
+      chunks.push(chunk.content);
+      expect(chunk.start_offset).toBe(offset);
+      if (!chunk.has_more) {
+        return chunks;
+      }
+      expect(chunk.end_offset).toBeGreaterThan(offset);
+      offset = chunk.end_offset;
+    }
+  }
+
+  test('round-trips a cursor', () => {
+    const cursor = { offset: 1234, mtime_ms: 1700000000000.5, size: 99999, chunk_tokens: 500 };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  test.each(['', 'garbage', Buffer.from('{"o":-1,"m":0,"s":0,"t":1}').toString('base64url'),
+    Buffer.from('{"o":"1","m":0,"s":0,"t":1}').toString('base64url')])('rejects the invalid cursor %p', cursor => {
+    expect(decodeCursor(cursor)).toBeNull();
+  });
+
+  test('splits on line boundaries and covers the whole file', async () => {
+    const file = path.join(dir, 'lines.txt');
+    const text = Array.from({ length: 200 }, (_, i) => `line number ${i + 1}`).join('\n') + '\n';
+    await fs.writeFile(file, text);
+
+    const chunks = await readAll(file, 50);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(text);
+    for (const chunk of chunks) {
+      expect(chunk.endsWith('\n')).toBe(true);
+    }
+  });
+
+  test('splits a single long line without breaking multi-byte characters', async () => {
+    const file = path.join(dir, 'long.txt');
+    const text = 'é'.repeat(5000) + '日本語'.repeat(1000);
+    await fs.writeFile(file, text);
+
+    const chunks = await readAll(file, 100);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(text);
+    expect(chunks.some(chunk => chunk.includes('�'))).toBe(false);
+  });
+
+  test('returns an empty final chunk at the end of the file', async () => {
+    const file = path.join(dir, 'short.txt');
+    await fs.writeFile(file, 'abc\n');
+    const chunk = await readChunk(file, 4, 100);
+    expect(chunk).toMatchObject({ content: '', has_more: false, end_offset: 4, total_bytes: 4 });
+  });
+});
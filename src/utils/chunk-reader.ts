@@ -0,0 +1,187 @@
+/**
+ * Smart Filesystem MCP - Chunk Reader
+ * トークン予算に基づくチャンク読み込みと継続カーソル
+ */
+
+import * as fs from 'fs/promises';
+import { SAFETY_LIMITS, TOKEN_ESTIMATION } from './constants.js';
+import { estimateTokenCount } from './helpers.js';
+import { decodeBuffer, encodeString, byteLengthOf, trimIncompleteChar } from './encoding.js';
+
+/**
+ * 継続カーソルの内容
+ */
+export interface ChunkCursor {
+  /** 次のチャンクの開始バイト位置 */
+  offset: number;
+
+  /** カーソル発行時のファイル更新時刻（ms） */
+  mtime_ms: number;
+
+  /** カーソル発行時のファイルサイズ */
+  size: number;
+
+  /** チャンクあたりのトークン予算 */
+  chunk_tokens: number;
+}
+
+/**
+ * チャンク読み込み結果
+ */
+export interface ChunkReadResult {
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  total_bytes: number;
+  mtime_ms: number;
+  estimated_tokens: number;
+  has_more: boolean;
+}
+
+/**
+ * カーソルをエンコード（クライアントからは不透明な文字列として扱う）
+ */
+export function encodeCursor(cursor: ChunkCursor): string {
+  const payload = {
+    o: cursor.offset,
+    m: cursor.mtime_ms,
+    s: cursor.size,
+    t: cursor.chunk_tokens
+  };
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * カーソルをデコード（不正な場合はnull）
+ */
+export function decodeCursor(cursor: string): ChunkCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const values = [payload.o, payload.m, payload.s, payload.t];
+    if (!values.every(value => typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+      return null;
+    }
+    return {
+      offset: payload.o,
+      mtime_ms: payload.m,
+      size: payload.s,
+      chunk_tokens: payload.t
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 指定位置からトークン予算内のチャンクを読み込む
+ * 行境界で区切り、1行が予算を超える場合のみ文字境界で分割する
+ */
+export async function readChunk(
+  filePath: string,
+  startOffset: number,
+  tokenBudget: number,
+  encoding: string = 'utf8'
+): Promise<ChunkReadResult> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const stats = await handle.stat();
+    const maxBytes = Math.min(
+      tokenBudget * TOKEN_ESTIMATION.CHARS_PER_TOKEN * 4, // UTF-8は1文字最大4バイト
+      SAFETY_LIMITS.MAX_RANGE_READ_SIZE
+    );
+    const bytesToRead = Math.max(0, Math.min(maxBytes, stats.size - startOffset));
+
+    const buffer = Buffer.alloc(bytesToRead);
+    const { bytesRead } = await handle.read(buffer, 0, bytesToRead, startOffset);
+    const reachedEof = startOffset + bytesRead >= stats.size;
+
+    // マルチバイト文字の途中で切れないよう末尾を調整
+    const usable = reachedEof ? bytesRead : trimIncompleteChar(buffer, bytesRead, encoding);
+    const chunkBytes = findChunkEnd(buffer, usable, tokenBudget, encoding, reachedEof);
+
+    const content = decodeBuffer(buffer.subarray(0, chunkBytes), encoding);
+    const endOffset = startOffset + chunkBytes;
+
+    return {
+      content,
+      start_offset: startOffset,
+      end_offset: endOffset,
+      total_bytes: stats.size,
+      mtime_ms: stats.mtimeMs,
+      estimated_tokens: estimateTokenCount(content),
+      has_more: endOffset < stats.size
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 予算内に収まる最後の行境界を探す
+ */
+function findChunkEnd(
+  buffer: Buffer,
+  usable: number,
+  tokenBudget: number,
+  encoding: string,
+  reachedEof: boolean
+): number {
+  const newline = encodeString('\n', encoding);
+  let end = 0;
+  let tokens = 0;
+
+  while (end < usable) {
+    const newlineIndex = indexOfNewline(buffer, newline, end, usable);
+
+    // 改行が無い最終行はEOFに達している場合のみ含める
+    if (newlineIndex === -1 && !reachedEof) break;
+
+    const lineEnd = newlineIndex === -1 ? usable : newlineIndex + newline.length;
+    const lineTokens = estimateTokenCount(decodeBuffer(buffer.subarray(end, lineEnd), encoding));
+
+    if (tokens + lineTokens > tokenBudget) {
+      // 1行目から予算超過の場合は行の途中で分割
+      if (end === 0) {
+        return splitAtCharBoundary(buffer, lineEnd, tokenBudget, encoding);
+      }
+      break;
+    }
+
+    tokens += lineTokens;
+    end = lineEnd;
+  }
+
+  // 行境界が見つからない長大な行は文字境界で分割
+  if (end === 0 && usable > 0) {
+    return splitAtCharBoundary(buffer, usable, tokenBudget, encoding);
+  }
+
+  return end;
+}
+
+/**
+ * 改行位置を探す（UTF-16では文字単位の位置のみ有効）
+ */
+function indexOfNewline(buffer: Buffer, newline: Buffer, from: number, limit: number): number {
+  let index = buffer.indexOf(newline, from);
+  while (index !== -1 && index < limit) {
+    if (index % newline.length === 0) return index;
+    index = buffer.indexOf(newline, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * トークン予算に相当する文字数で分割し、そのバイト長を返す
+ */
+function splitAtCharBoundary(buffer: Buffer, limit: number, tokenBudget: number, encoding: string): number {
+  const text = decodeBuffer(buffer.subarray(0, limit), encoding);
+  let chars = Math.max(1, tokenBudget * TOKEN_ESTIMATION.CHARS_PER_TOKEN);
+  if (chars >= text.length) return limit;
+
+  // サロゲートペアを分割しない
+  const code = text.charCodeAt(chars - 1);
+  if (code >= 0xD800 && code <= 0xDBFF) chars++;
+
+  return byteLengthOf(text.slice(0, chars), encoding);
+}
\ No newline at end of file
@@ -37,6 +37,63 @@ export const SAFETY_LIMITS = {
   MAX_FILES_PER_BATCH: 100,                      // Higher batch size
   MAX_PREVIEW_LINES: 100,                        // For compatibility
   
+  // Batch read limits
+  BATCH_READ_DEFAULT_TOKENS: 50000,              // Default shared token budget for read_files
+  BATCH_READ_MAX_TOKENS: 100000,                 // Same as MAX_TOKEN_ESTIMATE
+  GLOB_EXPANSION_TIMEOUT: 5000,                  // 5 seconds per glob pattern
+  
+  // Range read limits
+  MAX_RANGE_READ_SIZE: 1024 * 1024,              // 1MB maximum slice per range read
+  
+  // Tail read limits
+  MAX_TAIL_LINES: 10000,                         // Maximum lines per tail_lines read
+  TAIL_BLOCK_SIZE: 64 * 1024,                    // Block size for reading backwards from EOF
+  
+  // Chunked read limits
+  DEFAULT_CHUNK_TOKENS: 10000,                   // Default token budget per chunk
+  MAX_CHUNK_TOKENS: 100000,                      // Same as MAX_TOKEN_ESTIMATE
+  
+  // Truncated read limits
+  TRUNCATED_READ_MAX_SIZE: 10 * 1024 * 1024,     // 10MB max file size for max_tokens reads
+  
+  // Outline limits
+  OUTLINE_MAX_FILE_SIZE: 10 * 1024 * 1024,       // 10MB max file size for outline parsing
+  
+  // Data query limits
+  QUERY_DATA_MAX_FILE_SIZE: 50 * 1024 * 1024,    // 50MB max JSON/YAML file size for query_data
+  QUERY_DATA_DEFAULT_ITEMS: 20,                  // Default array items shown per array
+  QUERY_DATA_DEFAULT_TOKENS: 10000,              // Default token budget for a query result
+  QUERY_DATA_MAX_TOKENS: 100000,                 // Same as MAX_TOKEN_ESTIMATE
+  
+  // Table (CSV/TSV) read limits
+  TABLE_MAX_ROWS: 1000,                          // Maximum rows returned by table_rows
+  TABLE_DIALECT_SAMPLE_ROWS: 50,                 // Records used to detect delimiter and header
+  TABLE_DISTINCT_LIMIT: 10000,                   // Distinct values tracked per column
+  TABLE_PREVIEW_SCAN_SIZE: 1024 * 1024,          // 1MB scanned for size_exceeded summaries
+  
+  // Binary inspection limits
+  HEX_PREVIEW_BYTES: 256,                        // Bytes dumped from each end in binary_detected previews
+  READ_BYTES_DEFAULT_LENGTH: 4096,               // Default byte range for read_file_bytes
+  READ_BYTES_MAX_LENGTH: 64 * 1024,              // 64KB maximum per read_file_bytes call
+  
+  // Media metadata limits
+  MEDIA_HEADER_SCAN_SIZE: 64 * 1024,             // 64KB read for image/audio headers
+  MEDIA_MOOV_MAX_SIZE: 16 * 1024 * 1024,         // 16MB maximum MP4 'moov' box parsed
+  
+  // Archive limits
+  ARCHIVE_LIST_DEFAULT_ENTRIES: 1000,            // Default entries returned by list_archive
+  ARCHIVE_LIST_MAX_ENTRIES: 10000,               // Same as MAX_DIRECTORY_SCAN
+  
+  // Gzip limits
+  GZIP_MAX_DECOMPRESSED_SIZE: 100 * 1024 * 1024, // 100MB maximum decompressed size for .gz reads
+  GZIP_MAX_RATIO: 200,                           // Abort when decompressed/compressed size exceeds 200:1
+  GZIP_RATIO_CHECK_MIN_SIZE: 1024 * 1024,        // Ratio is checked once 1MB has been decompressed
+  
+  // Notebook (.ipynb) limits
+  NOTEBOOK_MAX_FILE_SIZE: 50 * 1024 * 1024,      // 50MB max notebook size (outputs are mostly elided)
+  NOTEBOOK_OUTPUT_MAX_LINES: 20,                 // Lines kept per output in truncated mode
+  NOTEBOOK_OUTPUT_MAX_CHARS: 2000,               // Characters kept per output in truncated mode
+  
   // List directory limits
   MAX_FILES_WARNING: 1000,                       // Warning threshold for large directories
   MAX_SUBDIRS_TO_SCAN: 500,                      // Maximum subdirectories to scan
@@ -56,12 +113,26 @@ export const SAFETY_LIMITS = {
   WRITE_WARNING_SIZE: 1024 * 1024,               // 1MB warning threshold
   WRITE_MAX_SIZE: 10 * 1024 * 1024,              // 10MB maximum write size
   DISK_SPACE_CHECK: true,                        // Enable disk space checking
+  PRECONDITION_HASH_MAX_SIZE: 100 * 1024 * 1024, // 100MB max file size hashed for expected_sha256 (same as MOVE_MAX_FILE_SIZE)
+  CONFLICT_DIFF_MAX_SIZE: 256 * 1024,            // 256KB max file size for the diff attached to a conflict
+  FORMAT_SAMPLE_SIZE: 64 * 1024,                 // 64KB read from an existing file to detect its line endings
   
   // Edit limits
   EDIT_MAX_FILE_SIZE: 10 * 1024 * 1024,          // 10MB max file size for editing
   EDIT_MAX_OPERATIONS: 100,                      // Maximum edit operations per request
   EDIT_WARNING_MATCHES: 50,                      // Warning threshold for match count
   EDIT_REGEX_TIMEOUT: 2000,                      // 2 seconds regex timeout
+  EDIT_FILES_MAX_FILES: 50,                      // Maximum files per edit_files transaction
+  DIFF_CONTEXT_LINES: 3,                         // Unchanged lines around each hunk of generated diffs
+  EDIT_FUZZY_SEARCH_MAX_SIZE: 2 * 1024 * 1024,   // 2MB max file size searched for closest candidates when old_text has no match
+  PATCH_MAX_SIZE: 5 * 1024 * 1024,               // 5MB max patch text for apply_patch
+  PATCH_MAX_FILES: 100,                          // Maximum files per patch
+  PATCH_DEFAULT_FUZZ: 2,                         // Context lines a hunk may ignore by default (same as GNU patch)
+  PATCH_MAX_FUZZ: 3,                             // Maximum fuzz
+  VERSION_CACHE_MAX_SIZE: 32 * 1024 * 1024,      // 32MB of recently read/written file versions kept for diff edit base_sha256
+  VERSION_CACHE_MAX_ENTRY_SIZE: 1024 * 1024,     // 1MB max file size kept as a base version
+  SYNTAX_CHECK_MAX_SIZE: 5 * 1024 * 1024,        // 5MB max content checked by validate_syntax
+  SYNTAX_ERROR_CONTEXT_LINES: 2,                 // Lines shown before and after a syntax error
   
   // Move limits
   MOVE_MAX_FILE_SIZE: 100 * 1024 * 1024,         // 100MB max file size for moving
@@ -121,7 +192,7 @@ export const FILE_CLASSIFICATION = {
   
   // Configuration files
   config: {
-    extensions: ['.json', '.yaml', '.yml', '.toml', '.ini', '.conf', '.config', '.env', '.properties', '.xml', '.plist'],
+    extensions: ['.json', '.jsonc', '.yaml', '.yml', '.toml', '.ini', '.conf', '.config', '.env', '.properties', '.xml', '.plist'],
     category: 'config',
     readable: true,
     binaryCheck: false,
@@ -145,7 +216,7 @@ export const FILE_CLASSIFICATION = {
   
   // Data files
   data: {
-    extensions: ['.csv', '.tsv', '.sql', '.log'],
+    extensions: ['.csv', '.tsv', '.sql', '.log', '.geojson'],
     category: 'data',
     readable: true,
     binaryCheck: true, // Large data files need size check
@@ -196,6 +267,8 @@ export const BINARY_SIGNATURES = {
   ELF: Buffer.from([0x7F, 0x45, 0x4C, 0x46]), // .ELF
   MACHO_32: Buffer.from([0xFE, 0xED, 0xFA, 0xCE]),
   MACHO_64: Buffer.from([0xFE, 0xED, 0xFA, 0xCF]),
+  JAVA_CLASS: Buffer.from([0xCA, 0xFE, 0xBA, 0xBE]),
+  WASM: Buffer.from([0x00, 0x61, 0x73, 0x6D]), // \0asm
   
   // Images
   PNG: Buffer.from([0x89, 0x50, 0x4E, 0x47]),
@@ -203,18 +276,82 @@ export const BINARY_SIGNATURES = {
   GIF87: Buffer.from([0x47, 0x49, 0x46, 0x38, 0x37, 0x61]),
   GIF89: Buffer.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]),
   BMP: Buffer.from([0x42, 0x4D]),
+  ICO: Buffer.from([0x00, 0x00, 0x01, 0x00]),
+  WEBP: Buffer.from('WEBP', 'latin1'), // "WEBP" at offset 8 after "RIFF" + size
+  
+  // Audio / video
+  WAV: Buffer.from('WAVE', 'latin1'), // "WAVE" at offset 8 after "RIFF" + size
+  MP3: Buffer.from('ID3', 'latin1'), // ID3v2 tag (version, flags and size bytes are checked too)
+  MP4: Buffer.from('ftyp', 'latin1'), // "ftyp" box at offset 4 after a plausible box size (MP4/MOV/M4A)
   
   // Archives
   ZIP: Buffer.from([0x50, 0x4B, 0x03, 0x04]),
   RAR: Buffer.from([0x52, 0x61, 0x72, 0x21]),
   GZIP: Buffer.from([0x1F, 0x8B]),
-  TAR: Buffer.from([0x75, 0x73, 0x74, 0x61, 0x72]),
+  TAR: Buffer.from([0x75, 0x73, 0x74, 0x61, 0x72]), // "ustar" at offset 257
+  SEVEN_ZIP: Buffer.from([0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C]),
+  XZ: Buffer.from([0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00]),
+  ZSTD: Buffer.from([0x28, 0xB5, 0x2F, 0xFD]),
   
   // Documents
   PDF: Buffer.from([0x25, 0x50, 0x44, 0x46]),
   DOCX: Buffer.from([0x50, 0x4B, 0x03, 0x04]), // Same as ZIP
+  XLSX: Buffer.from([0x50, 0x4B, 0x03, 0x04]), // Same as ZIP
+  PPTX: Buffer.from([0x50, 0x4B, 0x03, 0x04]), // Same as ZIP
+  
+  // Databases and captures
+  SQLITE: Buffer.from('SQLite format 3\0', 'latin1'),
+  PCAP: Buffer.from([0xD4, 0xC3, 0xB2, 0xA1]),
+  PCAP_BE: Buffer.from([0xA1, 0xB2, 0xC3, 0xD4]),
+  PCAPNG: Buffer.from([0x0A, 0x0D, 0x0D, 0x0A]),
 } as const;
 
+/**
+ * File types identified by BINARY_SIGNATURES
+ * offset: where the signature starts (default 0)
+ * marker: text that must also appear in the first bytes (ZIP-based Office formats)
+ * header: container header checked beyond the signature (see identifyFileType)
+ */
+export const SIGNATURE_FILE_TYPES: Record<keyof typeof BINARY_SIGNATURES, {
+  mime: string;
+  description: string;
+  offset?: number;
+  marker?: string;
+  header?: 'riff' | 'id3v2' | 'iso_box';
+}> = {
+  EXE: { mime: 'application/vnd.microsoft.portable-executable', description: 'Windows executable' },
+  ELF: { mime: 'application/x-elf', description: 'ELF executable' },
+  MACHO_32: { mime: 'application/x-mach-binary', description: 'Mach-O executable (32-bit)' },
+  MACHO_64: { mime: 'application/x-mach-binary', description: 'Mach-O executable (64-bit)' },
+  JAVA_CLASS: { mime: 'application/java-vm', description: 'Java class file' },
+  WASM: { mime: 'application/wasm', description: 'WebAssembly module' },
+  PNG: { mime: 'image/png', description: 'PNG image' },
+  JPEG: { mime: 'image/jpeg', description: 'JPEG image' },
+  GIF87: { mime: 'image/gif', description: 'GIF image (87a)' },
+  GIF89: { mime: 'image/gif', description: 'GIF image (89a)' },
+  BMP: { mime: 'image/bmp', description: 'BMP image' },
+  ICO: { mime: 'image/x-icon', description: 'Windows icon' },
+  WEBP: { mime: 'image/webp', description: 'WebP image', offset: 8, header: 'riff' },
+  WAV: { mime: 'audio/wav', description: 'WAV audio', offset: 8, header: 'riff' },
+  MP3: { mime: 'audio/mpeg', description: 'MP3 audio', header: 'id3v2' },
+  MP4: { mime: 'video/mp4', description: 'ISO media (MP4/MOV/M4A)', offset: 4, header: 'iso_box' },
+  ZIP: { mime: 'application/zip', description: 'ZIP archive' },
+  RAR: { mime: 'application/vnd.rar', description: 'RAR archive' },
+  GZIP: { mime: 'application/gzip', description: 'gzip compressed data' },
+  TAR: { mime: 'application/x-tar', description: 'tar archive', offset: 257 },
+  SEVEN_ZIP: { mime: 'application/x-7z-compressed', description: '7-Zip archive' },
+  XZ: { mime: 'application/x-xz', description: 'xz compressed data' },
+  ZSTD: { mime: 'application/zstd', description: 'Zstandard compressed data' },
+  PDF: { mime: 'application/pdf', description: 'PDF document' },
+  DOCX: { mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', description: 'Word document', marker: 'word/' },
+  XLSX: { mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', description: 'Excel workbook', marker: 'xl/' },
+  PPTX: { mime: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', description: 'PowerPoint presentation', marker: 'ppt/' },
+  SQLITE: { mime: 'application/vnd.sqlite3', description: 'SQLite database' },
+  PCAP: { mime: 'application/vnd.tcpdump.pcap', description: 'pcap capture (little-endian)' },
+  PCAP_BE: { mime: 'application/vnd.tcpdump.pcap', description: 'pcap capture (big-endian)' },
+  PCAPNG: { mime: 'application/x-pcapng', description: 'pcapng capture' },
+};
+
 /**
  * Error message templates
  */
@@ -252,13 +389,13 @@ export const TOKEN_ESTIMATION = {
   // Average characters per token (approximation)
   CHARS_PER_TOKEN: 4,
   
-  // Language-specific multipliers
+  // Language-specific multipliers (applied per character by the heuristic tokenizer)
   LANGUAGE_MULTIPLIERS: {
     english: 1.0,
     code: 0.8,      // Code typically has more tokens
-    chinese: 2.5,   // CJK characters use more tokens
-    japanese: 2.0,
-    korean: 2.0,
+    chinese: 5.0,   // ~1.25 tokens per Han character in cl100k
+    japanese: 4.0,  // ~1 token per kana/kanji character
+    korean: 4.0,    // ~1 token per Hangul syllable
   },
   
   // File type multipliers
@@ -268,6 +405,18 @@ export const TOKEN_ESTIMATION = {
     config: 1.1,    // Structured data
     data: 0.9,      // Repetitive content
   },
+  
+  // Tokenizer selection (override with SMART_FS_TOKENIZER)
+  DEFAULT_TOKENIZER: 'cl100k_base',
+  
+  // Texts longer than this are estimated from evenly spaced BPE samples
+  BPE_SAMPLE_THRESHOLD: 256 * 1024,
+  BPE_SAMPLE_COUNT: 8,
+  BPE_SAMPLE_SIZE: 16 * 1024,
+  
+  // Unbroken letter/symbol/whitespace runs are encoded in pieces of this many characters
+  // (BPE merging is quadratic in the run length; each cut adds at most one token)
+  BPE_MAX_RUN_LENGTH: 32,
 } as const;
 
 /**
@@ -0,0 +1,478 @@
+/**
+ * Smart Filesystem MCP - CSV Reader
+ * CSV/TSVの区切り文字・ヘッダー検出と、ストリーミングによる列統計
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as readline from 'readline';
+import { SAFETY_LIMITS } from './constants.js';
+import { createDecodedStream } from './encoding.js';
+import type { TableColumnType, TableColumnStats, ReadFileTable } from '../core/types.js';
+
+/**
+ * CSVの方言（区切り文字・ヘッダー有無）
+ */
+export interface CsvDialect {
+  delimiter: string;
+  has_header: boolean;
+}
+
+/**
+ * テーブル読み込みオプション
+ */
+export interface CsvReadOptions {
+  rows: number;
+  delimiter?: string;
+  encoding?: string;
+  maxBytes?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * 区切り文字の候補
+ */
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+
+/**
+ * 欠損値として扱う値
+ */
+const NULL_VALUES = new Set(['', 'na', 'n/a', 'null', 'none', 'nan', '-']);
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * 統計値として返す文字列の最大長
+ */
+const MAX_STAT_VALUE_LENGTH = 100;
+
+/**
+ * CSV/TSVファイルか（拡張子で判定）
+ */
+export function isDelimitedFile(filePath: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  return ext === '.csv' || ext === '.tsv';
+}
+
+/**
+ * 1レコードを解析（RFC 4180 のクォート・エスケープに対応）
+ */
+export function parseCsvRecord(text: string, delimiter: string): string[] {
+  if (!text.includes('"')) {
+    return text.split(delimiter);
+  }
+
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * 先頭レコードから区切り文字とヘッダー有無を推定
+ */
+export function detectCsvDialect(records: string[], filePath: string, delimiter?: string): CsvDialect | null {
+  const resolved = delimiter ?? detectDelimiter(records, filePath);
+  if (!resolved) {
+    return null;
+  }
+
+  const parsed = records.map(record => parseCsvRecord(record, resolved));
+  return {
+    delimiter: resolved,
+    has_header: detectHeader(parsed)
+  };
+}
+
+/**
+ * 区切り文字を推定
+ * 各行のフィールド数が最も揃う候補を採用（.tsvはタブを優先）
+ */
+function detectDelimiter(records: string[], filePath: string): string | null {
+  const candidates = path.extname(filePath).toLowerCase() === '.tsv'
+    ? ['\t', ...DELIMITER_CANDIDATES.filter(candidate => candidate !== '\t')]
+    : DELIMITER_CANDIDATES;
+
+  let best: { delimiter: string; consistency: number; fields: number } | null = null;
+
+  for (const candidate of candidates) {
+    const counts = records.map(record => parseCsvRecord(record, candidate).length);
+    const mode = mostFrequent(counts);
+    if (mode <= 1) {
+      continue;
+    }
+    const consistency = counts.filter(count => count === mode).length / counts.length;
+    if (!best || consistency > best.consistency || (consistency === best.consistency && mode > best.fields)) {
+      best = { delimiter: candidate, consistency, fields: mode };
+    }
+  }
+
+  return best && best.consistency >= 0.8 ? best.delimiter : null;
+}
+
+/**
+ * ヘッダー行の有無を推定
+ * 先頭行が空でない重複なしの文字列のみで、かつ2行目以降に文字列以外の値を含む列がある（または全列が文字列）場合にヘッダーとみなす
+ */
+function detectHeader(records: string[][]): boolean {
+  const [first, ...rest] = records;
+  if (!first) {
+    return false;
+  }
+
+  const firstTypes = first.map(value => inferValueType(value.trim()));
+  if (firstTypes.some(type => type !== 'string')) {
+    return false;
+  }
+  if (new Set(first).size !== first.length) {
+    return false;
+  }
+  if (rest.length === 0) {
+    return true;
+  }
+
+  // 先頭行とデータ行で型が異なる列があればヘッダー
+  for (let column = 0; column < first.length; column++) {
+    const types = rest.map(record => inferValueType((record[column] ?? '').trim())).filter(type => type !== 'empty');
+    if (types.length > 0 && types.every(type => type !== 'string')) {
+      return true;
+    }
+  }
+
+  // 全列が文字列の場合は先頭行の値がデータ行に現れなければヘッダー
+  return first.every((value, column) => rest.every(record => record[column] !== value));
+}
+
+/**
+ * 値の型を推定
+ */
+function inferValueType(value: string): TableColumnType {
+  if (NULL_VALUES.has(value.toLowerCase())) {
+    return 'empty';
+  }
+  if (INTEGER_PATTERN.test(value)) {
+    return 'integer';
+  }
+  if (NUMBER_PATTERN.test(value)) {
+    return 'number';
+  }
+  if (BOOLEAN_PATTERN.test(value)) {
+    return 'boolean';
+  }
+  if (DATE_PATTERN.test(value)) {
+    return 'date';
+  }
+  return 'string';
+}
+
+/**
+ * 最頻値を取得
+ */
+function mostFrequent(values: number[]): number {
+  const counts = new Map<number, number>();
+  let best = 0;
+  let bestCount = 0;
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * 列統計の集計用
+ */
+interface ColumnAccumulator {
+  types: Set<TableColumnType>;
+  nullCount: number;
+  distinct: Set<string>;
+  distinctCapped: boolean;
+  numMin: number;
+  numMax: number;
+  strMin?: string;
+  strMax?: string;
+}
+
+/**
+ * 集計用オブジェクトを生成
+ */
+function createAccumulator(): ColumnAccumulator {
+  return {
+    types: new Set(),
+    nullCount: 0,
+    distinct: new Set(),
+    distinctCapped: false,
+    numMin: Infinity,
+    numMax: -Infinity
+  };
+}
+
+/**
+ * 値を集計に追加
+ */
+function accumulate(acc: ColumnAccumulator, raw: string | undefined): void {
+  const value = (raw ?? '').trim();
+  const type = inferValueType(value);
+
+  if (type === 'empty') {
+    acc.nullCount++;
+    return;
+  }
+
+  acc.types.add(type);
+
+  if (!acc.distinctCapped) {
+    acc.distinct.add(value);
+    if (acc.distinct.size >= SAFETY_LIMITS.TABLE_DISTINCT_LIMIT) {
+      acc.distinctCapped = true;
+    }
+  }
+
+  if (type === 'integer' || type === 'number') {
+    const num = Number(value);
+    if (num < acc.numMin) acc.numMin = num;
+    if (num > acc.numMax) acc.numMax = num;
+  }
+
+  if (acc.strMin === undefined || value < acc.strMin) acc.strMin = value;
+  if (acc.strMax === undefined || value > acc.strMax) acc.strMax = value;
+}
+
+/**
+ * 集計結果から列統計を生成
+ */
+function finalizeStats(name: string, acc: ColumnAccumulator): TableColumnStats {
+  const type = resolveColumnType(acc.types);
+  const stats: TableColumnStats = {
+    name,
+    type,
+    null_count: acc.nullCount,
+    distinct_count: acc.distinct.size
+  };
+
+  if (acc.distinctCapped) {
+    stats.distinct_capped = true;
+  }
+
+  if (type === 'integer' || type === 'number') {
+    stats.min = acc.numMin;
+    stats.max = acc.numMax;
+  } else if ((type === 'date' || type === 'string') && acc.strMin !== undefined && acc.strMax !== undefined) {
+    stats.min = clipValue(acc.strMin);
+    stats.max = clipValue(acc.strMax);
+  }
+
+  return stats;
+}
+
+/**
+ * 列内の型の組み合わせから列の型を決定
+ */
+function resolveColumnType(types: Set<TableColumnType>): TableColumnType {
+  if (types.size === 0) {
+    return 'empty';
+  }
+  if (types.size === 1) {
+    return [...types][0]!;
+  }
+  if ([...types].every(type => type === 'integer' || type === 'number')) {
+    return 'number';
+  }
+  return 'string';
+}
+
+/**
+ * 長い値を切り詰め
+ */
+function clipValue(value: string): string {
+  return value.length > MAX_STAT_VALUE_LENGTH ? value.substring(0, MAX_STAT_VALUE_LENGTH) + '...' : value;
+}
+
+/**
+ * レコード単位で読み込む（クォート内の改行を含むレコードを結合）
+ */
+async function* readRecords(
+  filePath: string,
+  encoding: string,
+  state: { bytes: number }
+): AsyncGenerator<string> {
+  const input = createDecodedStream(filePath, encoding);
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  let pending: string | null = null;
+  let quoteCount = 0;
+
+  try {
+    for await (const line of rl) {
+      state.bytes += Buffer.byteLength(line) + 1;
+      const text: string = pending === null ? line.replace(/^\uFEFF/, '') : `${pending}\n${line}`;
+      quoteCount += countQuotes(line);
+
+      // クォートが閉じていなければ次の行と結合
+      if (quoteCount % 2 === 1) {
+        pending = text;
+        continue;
+      }
+
+      pending = null;
+      quoteCount = 0;
+      if (text.length > 0) {
+        yield text;
+      }
+    }
+
+    if (pending !== null) {
+      yield pending;
+    }
+  } finally {
+    rl.close();
+    input.destroy();
+  }
+}
+
+/**
+ * 行内のダブルクォート数
+ */
+function countQuotes(line: string): number {
+  let count = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') count++;
+  }
+  return count;
+}
+
+/**
+ * CSV/TSVをストリーミングで読み込み、先頭N行と列統計を返す
+ * maxBytes・timeoutMsに達した場合は走査を打ち切り、stats_complete=false
+ */
+export async function readCsvTable(filePath: string, options: CsvReadOptions): Promise<ReadFileTable | null> {
+  const encoding = options.encoding ?? 'utf8';
+  const maxBytes = options.maxBytes ?? Infinity;
+  const deadline = Date.now() + (options.timeoutMs ?? SAFETY_LIMITS.MAX_OPERATION_TIME);
+  const state = { bytes: 0 };
+  const { size } = await fs.stat(filePath);
+
+  let dialect: CsvDialect | null = null;
+  let columns: string[] = [];
+  let accumulators: ColumnAccumulator[] = [];
+  const sample: string[] = [];
+  const rows: string[][] = [];
+  let totalRows = 0;
+  let complete = true;
+
+  const addRecord = (fields: string[]) => {
+    totalRows++;
+    if (rows.length < options.rows) {
+      rows.push(fields);
+    }
+    // 列数がヘッダーより多い行は列を追加
+    while (accumulators.length < fields.length) {
+      columns.push(`column_${accumulators.length + 1}`);
+      accumulators.push(createAccumulator());
+    }
+    accumulators.forEach((acc, index) => accumulate(acc, fields[index]));
+  };
+
+  const applyDialect = (resolved: CsvDialect, records: string[]) => {
+    const parsed = records.map(record => parseCsvRecord(record, resolved.delimiter));
+    if (resolved.has_header && parsed[0]) {
+      columns = parsed.shift()!.map((name, index) => name.trim() || `column_${index + 1}`);
+      accumulators = columns.map(() => createAccumulator());
+    }
+    parsed.forEach(addRecord);
+  };
+
+  for await (const record of readRecords(filePath, encoding, state)) {
+    if (!dialect) {
+      sample.push(record);
+      if (sample.length < SAFETY_LIMITS.TABLE_DIALECT_SAMPLE_ROWS) {
+        continue;
+      }
+      dialect = detectCsvDialect(sample, filePath, options.delimiter);
+      if (!dialect) {
+        return null;
+      }
+      applyDialect(dialect, sample);
+      continue;
+    }
+
+    addRecord(parseCsvRecord(record, dialect.delimiter));
+
+    if (state.bytes >= maxBytes || (totalRows % 1000 === 0 && Date.now() > deadline)) {
+      complete = false;
+      break;
+    }
+  }
+
+  // サンプル行数に満たない小さなファイル
+  if (!dialect) {
+    dialect = detectCsvDialect(sample, filePath, options.delimiter);
+    if (!dialect) {
+      return null;
+    }
+    applyDialect(dialect, sample);
+  }
+
+  return {
+    ...dialect,
+    columns,
+    rows,
+    total_rows: complete || state.bytes === 0 ? totalRows : Math.round(totalRows * size / state.bytes),
+    rows_scanned: totalRows,
+    stats: accumulators.map((acc, index) => finalizeStats(columns[index]!, acc)),
+    stats_complete: complete
+  };
+}
+
+/**
+ * テーブルの概要文を生成
+ * 例: "CSV table, 3 columns: id (integer, 1 to 500), name (string), created (date, 2024-01-01 to 2024-03-31); 12,345 rows"
+ */
+export function summarizeCsvTable(table: ReadFileTable): string {
+  const kind = table.delimiter === '\t' ? 'TSV' : table.delimiter === ',' ? 'CSV' : `Delimited ("${table.delimiter}")`;
+  const columns = table.stats.slice(0, 20).map(stats => {
+    const range = stats.min !== undefined && stats.max !== undefined && stats.type !== 'string'
+      ? `, ${stats.min} to ${stats.max}`
+      : '';
+    return `${stats.name} (${stats.type}${range})`;
+  });
+  const more = table.stats.length > 20 ? `, ... ${table.stats.length - 20} more` : '';
+
+  const rowCount = table.stats_complete
+    ? `${table.total_rows.toLocaleString()} rows`
+    : `~${table.total_rows.toLocaleString()} rows (estimated)`;
+
+  return `${kind} table, ${table.stats.length} columns: ${columns.join(', ')}${more}; ${rowCount}`;
+}
\ No newline at end of file
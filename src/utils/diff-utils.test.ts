@@ -0,0 +1,130 @@
+import { diffLines, generateGitStyleDiff } from './diff-utils.js';
+import { applyHunks, parseHunks } from './patch.js';
+
+// 再現性のある疑似乱数（mulberry32）
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomLines(next: () => number, length: number, alphabet: number): string[] {
+  return Array.from({ length }, () => `line ${Math.floor(next() * alphabet)}`);
+}
+
+// 動的計画法による最長共通部分列の長さ（小さな入力の検証用）
+function lcsLength(a: string[], b: string[]): number {
+  const row = new Array(b.length + 1).fill(0);
+  for (const lineA of a) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = lineA === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+describe('diffLines', () => {
+  test('returns both sides and a minimal number of changes', () => {
+    const next = random(1);
+    for (let run = 0; run < 200; run++) {
+      const a = randomLines(next, Math.floor(next() * 30), 6);
+      const b = randomLines(next, Math.floor(next() * 30), 6);
+      const diff = diffLines(a, b);
+
+      expect(diff.filter(d => d.type !== '+').map(d => d.line)).toEqual(a);
+      expect(diff.filter(d => d.type !== '-').map(d => d.line)).toEqual(b);
+      expect(diff.filter(d => d.type === ' ')).toHaveLength(lcsLength(a, b));
+    }
+  });
+
+  test('lists deletions before insertions between unchanged lines', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+      { type: ' ', line: 'a' },
+      { type: '-', line: 'b' },
+      { type: '+', line: 'x' },
+      { type: ' ', line: 'c' }
+    ]);
+  });
+
+  test('handles empty inputs', () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines([], ['a'])).toEqual([{ type: '+', line: 'a' }]);
+    expect(diffLines(['a'], [])).toEqual([{ type: '-', line: 'a' }]);
+  });
+
+  test('diffs large inputs with few changes quickly', () => {
+    const a = Array.from({ length: 50_000 }, (_, i) => `line ${i}`);
+    const b = [...a];
+    b[10_000] = 'changed';
+    b.splice(40_000, 5);
+
+    const start = Date.now();
+    const diff = diffLines(a, b);
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(diff.filter(d => d.type !== ' ')).toHaveLength(7);
+  });
+});
+
+describe('generateGitStyleDiff', () => {
+  const lines = Array.from({ length: 20 }, (_, i) => `l${i + 1}`);
+  const withChanges = (changes: Record<number, string>) =>
+    lines.map((line, i) => changes[i + 1] ?? line).join('\n');
+
+  test('returns an empty string for identical content', () => {
+    expect(generateGitStyleDiff('a\nb', 'a\nb')).toBe('');
+  });
+
+  test('writes a header and context around a change', () => {
+    expect(generateGitStyleDiff(lines.join('\n'), withChanges({ 10: 'X' }), 'f.txt', 2)).toBe([
+      '--- a/f.txt',
+      '+++ b/f.txt',
+      '@@ -8,5 +8,5 @@',
+      ' l8', ' l9', '-l10', '+X', ' l11', ' l12'
+    ].join('\n'));
+  });
+
+  test('joins changes whose context would overlap into one hunk', () => {
+    const diff = generateGitStyleDiff(lines.join('\n'), withChanges({ 3: 'X', 8: 'Y' }), 'f', 3);
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+    expect(diff).toContain('@@ -1,11 +1,11 @@');
+  });
+
+  test('splits changes far enough apart into separate hunks', () => {
+    const diff = generateGitStyleDiff(lines.join('\n'), withChanges({ 3: 'X', 11: 'Y' }), 'f', 3);
+    expect(diff.match(/^@@.*@@$/gm)).toEqual(['@@ -1,6 +1,6 @@', '@@ -8,7 +8,7 @@']);
+  });
+
+  test('numbers an empty side after the preceding line', () => {
+    expect(generateGitStyleDiff('a\nb', 'a\nx\nb', 'f', 0)).toContain('@@ -1,0 +2,1 @@');
+    expect(generateGitStyleDiff('a\nx\nb', 'a\nb', 'f', 0)).toContain('@@ -2,1 +1,0 @@');
+  });
+
+  test('produces diffs that apply back to the modified content', () => {
+    const next = random(7);
+    // 末尾の改行の扱いは対象外にするため、最後の数行は変更しない
+    const tail = ['tail 1', 'tail 2', 'tail 3', 'tail 4'];
+    for (let run = 0; run < 100; run++) {
+      const body = randomLines(next, 5 + Math.floor(next() * 40), 20);
+      const original = [...body, ...tail];
+      const modified = [...body.flatMap(line => {
+        const roll = next();
+        return roll < 0.1 ? [] : roll < 0.2 ? ['changed'] : roll < 0.25 ? [line, 'added'] : [line];
+      }), ...tail];
+      const context = Math.floor(next() * 4);
+      const diff = generateGitStyleDiff(original.join('\n'), modified.join('\n'), 'f', context);
+      if (diff === '') {
+        continue;
+      }
+
+      const applied = applyHunks(original.join('\n'), parseHunks(diff), 0);
+      expect(applied.results.every(result => result.status === 'applied')).toBe(true);
+      expect(applied.content).toBe(modified.join('\n'));
+    }
+  });
+});
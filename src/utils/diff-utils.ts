@@ -3,6 +3,8 @@
  * Git形式のdiff生成とフォーマット検出
  */
 
+import { SAFETY_LIMITS } from './constants.js';
+
 /**
  * インデント情報
  */
@@ -33,55 +35,247 @@ interface Hunk {
 }
 
 /**
- * LCS (Longest Common Subsequence) を使用した差分検出
+ * 差分の1行
  */
-function computeLCS(a: string[], b: string[]): number[][] {
-  const m = a.length;
-  const n = b.length;
-  const lcs: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-  
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (a[i - 1] === b[j - 1]) {
-        lcs[i][j] = lcs[i - 1][j - 1] + 1;
-      } else {
-        lcs[i][j] = Math.max(lcs[i - 1][j], lcs[i][j - 1]);
+export interface DiffLine {
+  type: '+' | '-' | ' ';
+  line: string;
+}
+
+/**
+ * 行配列の差分（Myers の O(ND) アルゴリズム、線形メモリ版）
+ * 共通の先頭・末尾と、相手側に存在しない行を除いてから計算する
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  // 行を整数に置き換え、相手側に一度も現れない行は一致し得ないため除外
+  const ids = new Map<string, number>();
+  const toIds = (lines: string[], from: number, to: number): Int32Array => {
+    const result = new Int32Array(to - from);
+    for (let i = from; i < to; i++) {
+      let id = ids.get(lines[i] as string);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(lines[i] as string, id);
       }
+      result[i - from] = id;
     }
+    return result;
+  };
+  const idsA = toIds(a, prefix, a.length - suffix);
+  const idsB = toIds(b, prefix, b.length - suffix);
+  const inA = new Uint8Array(ids.size);
+  const inB = new Uint8Array(ids.size);
+  idsA.forEach(id => { inA[id] = 1; });
+  idsB.forEach(id => { inB[id] = 1; });
+  const keptA = indicesWhere(idsA, id => inB[id] === 1);
+  const keptB = indicesWhere(idsB, id => inA[id] === 1);
+
+  const matches: Array<[number, number]> = [];
+  collectMatches(
+    keptA.map(i => idsA[i] as number),
+    keptB.map(i => idsB[i] as number),
+    0, keptA.length, 0, keptB.length,
+    matches
+  );
+
+  // 一致した行の間は削除→追加の順に並べる
+  const diff: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    diff.push({type: ' ', line: a[i] as string});
   }
-  
-  return lcs;
+  let i = 0;
+  let j = 0;
+  const pushChanges = (toA: number, toB: number): void => {
+    for (; i < toA; i++) {
+      diff.push({type: '-', line: a[prefix + i] as string});
+    }
+    for (; j < toB; j++) {
+      diff.push({type: '+', line: b[prefix + j] as string});
+    }
+  };
+  for (const [matchA, matchB] of matches) {
+    pushChanges(keptA[matchA] as number, keptB[matchB] as number);
+    diff.push({type: ' ', line: a[prefix + i] as string});
+    i++;
+    j++;
+  }
+  pushChanges(idsA.length, idsB.length);
+  for (let k = a.length - suffix; k < a.length; k++) {
+    diff.push({type: ' ', line: a[k] as string});
+  }
+
+  return diff;
 }
 
 /**
- * LCSを使用してdiffを生成
+ * 条件を満たす要素のインデックス
  */
-function generateDiffFromLCS(a: string[], b: string[], lcs: number[][]): Array<{type: '+' | '-' | ' ', line: string}> {
-  const diff: Array<{type: '+' | '-' | ' ', line: string}> = [];
-  let i = a.length;
-  let j = b.length;
-  
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && a[i - 1] === b[j - 1]) {
-      diff.unshift({type: ' ', line: a[i - 1]});
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || lcs[i][j - 1] >= lcs[i - 1][j])) {
-      diff.unshift({type: '+', line: b[j - 1]});
-      j--;
-    } else if (i > 0) {
-      diff.unshift({type: '-', line: a[i - 1]});
-      i--;
+function indicesWhere(values: Int32Array, predicate: (value: number) => boolean): number[] {
+  const indices: number[] = [];
+  values.forEach((value, index) => {
+    if (predicate(value)) {
+      indices.push(index);
     }
+  });
+  return indices;
+}
+
+/**
+ * a[aStart, aEnd) と b[bStart, bEnd) の最長共通部分列を求め、一致した位置の組を順に追加
+ * 中央のスネークで分割して再帰する（分割ごとに編集距離が半分になるため再帰は浅い）
+ */
+function collectMatches(
+  a: number[],
+  b: number[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number,
+  matches: Array<[number, number]>
+): void {
+  // 共通の先頭・末尾
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    matches.push([aStart++, bStart++]);
   }
-  
-  return diff;
+  let suffix = 0;
+  while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  if (aStart < aEnd && bStart < bEnd) {
+    const split = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    if (split) {
+      collectMatches(a, b, aStart, split[0], bStart, split[1], matches);
+      collectMatches(a, b, split[0], aEnd, split[1], bEnd, matches);
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    matches.push([aEnd + k, bEnd + k]);
+  }
+}
+
+/**
+ * 前方と後方から同時に探索し、両者が重なった位置（分割点）を返す（共通部分がない場合は null）
+ * 編集距離が大きすぎる場合は git と同様に探索を打ち切り、前方で最も進んだ位置で分割する（最小ではないが正しい差分になる）
+ */
+function findMiddleSnake(
+  a: number[],
+  aStart: number,
+  aEnd: number,
+  b: number[],
+  bStart: number,
+  bEnd: number
+): [number, number] | null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  // 対角線 k ごとの到達した x（-1 は未到達）
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  const checkForward = delta % 2 !== 0;
+  // 範囲外に出た対角線は以降探索しない
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+  const maxCost = Math.max(256, Math.ceil(Math.sqrt(n + m)));
+  let best: [number, number] | null = null;
+
+  for (let d = 0; d < maxD; d++) {
+    if (d >= maxCost) {
+      return best;
+    }
+
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && (forward[index - 1] as number) < (forward[index + 1] as number))
+        ? forward[index + 1] as number
+        : (forward[index - 1] as number) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+      if (x <= n && y <= m && x + y > 0 && x + y < n + m && (!best || x + y > best[0] - aStart + best[1] - bStart)) {
+        best = [aStart + x, bStart + y];
+      }
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const backwardIndex = offset + delta - k;
+        if (backwardIndex >= 0 && backwardIndex < size && backward[backwardIndex] !== -1) {
+          if (x >= n - (backward[backwardIndex] as number)) {
+            return [aStart + x, bStart + y];
+          }
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && (backward[index - 1] as number) < (backward[index + 1] as number))
+        ? backward[index + 1] as number
+        : (backward[index - 1] as number) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex] as number;
+          const forwardY = forwardX - (forwardIndex - offset);
+          if (forwardX >= n - x) {
+            return [aStart + forwardX, bStart + forwardY];
+          }
+        }
+      }
+    }
+  }
+
+  return null;
 }
 
 /**
  * Git形式のdiffを生成（改善版）
+ * contextLines は各hunkの前後に含める変更のない行数
  */
-export function generateGitStyleDiff(original: string, modified: string, filename?: string): string {
+export function generateGitStyleDiff(
+  original: string,
+  modified: string,
+  filename?: string,
+  contextLines: number = SAFETY_LIMITS.DIFF_CONTEXT_LINES
+): string {
   const originalLines = original.split('\n');
   const modifiedLines = modified.split('\n');
   
@@ -90,103 +284,67 @@ export function generateGitStyleDiff(original: string, modified: string, filenam
     return '';
   }
   
-  // LCSを計算
-  const lcs = computeLCS(originalLines, modifiedLines);
-  const diff = generateDiffFromLCS(originalLines, modifiedLines, lcs);
+  const diff = diffLines(originalLines, modifiedLines);
   
-  // diffをhunkに分割
+  // diffをhunkに分割（行番号は走査しながら数える）
   const hunks: Hunk[] = [];
-  const contextSize = 3;
+  const contextSize = Math.max(0, Math.floor(contextLines));
   let currentHunk: Hunk | null = null;
+  let trailingContext = 0;
+  // diff[i] より前の元ファイル・変更後ファイルの行数
+  let oldCount = 0;
+  let newCount = 0;
   
   for (let i = 0; i < diff.length; i++) {
-    const line = diff[i];
+    const line = diff[i] as DiffLine;
     
     if (line.type !== ' ') {
       // 変更行の場合
       if (!currentHunk) {
-        // 新しいhunkを開始
+        // 新しいhunkを開始（前のコンテキストを含める）
         const startContext = Math.max(0, i - contextSize);
         currentHunk = {
-          oldStart: 0,
+          oldStart: oldCount - (i - startContext) + 1,
           oldLength: 0,
-          newStart: 0,
+          newStart: newCount - (i - startContext) + 1,
           newLength: 0,
           lines: []
         };
-        
-        // 前のコンテキストを追加
         for (let j = startContext; j < i; j++) {
-          if (diff[j].type === ' ') {
-            currentHunk.lines.push(' ' + diff[j].line);
-          }
+          currentHunk.lines.push(' ' + (diff[j] as DiffLine).line);
+          currentHunk.oldLength++;
+          currentHunk.newLength++;
         }
       }
       
       // 現在の行を追加
       currentHunk.lines.push(line.type + line.line);
+      if (line.type === '-') {
+        currentHunk.oldLength++;
+      } else {
+        currentHunk.newLength++;
+      }
+      trailingContext = 0;
       
-    } else {
-      // コンテキスト行の場合
-      if (currentHunk) {
-        // 後続のコンテキストを追加
-        currentHunk.lines.push(' ' + line.line);
-        
-        // コンテキストが十分になったらhunkを終了
-        let contextCount = 0;
-        for (let j = currentHunk.lines.length - 1; j >= 0; j--) {
-          if (currentHunk.lines[j][0] === ' ') {
-            contextCount++;
-          } else {
-            break;
-          }
-        }
-        
-        if (contextCount >= contextSize) {
-          // 行番号を計算
-          let oldLine = 1;
-          let newLine = 1;
-          for (let j = 0; j < i - currentHunk.lines.length + 1; j++) {
-            if (diff[j].type !== '+') oldLine++;
-            if (diff[j].type !== '-') newLine++;
-          }
-          
-          currentHunk.oldStart = oldLine;
-          currentHunk.newStart = newLine;
-          
-          // hunk内の行数を計算
-          for (const hunkLine of currentHunk.lines) {
-            if (hunkLine[0] !== '+') currentHunk.oldLength++;
-            if (hunkLine[0] !== '-') currentHunk.newLength++;
-          }
-          
-          hunks.push(currentHunk);
-          currentHunk = null;
-        }
+    } else if (currentHunk) {
+      // 後続のコンテキストを追加し、次の変更まで前後のコンテキストが重ならない距離になったらhunkを終了
+      currentHunk.lines.push(' ' + line.line);
+      currentHunk.oldLength++;
+      currentHunk.newLength++;
+      trailingContext++;
+      if (trailingContext > contextSize * 2) {
+        hunks.push(trimTrailingContext(currentHunk, trailingContext - contextSize));
+        currentHunk = null;
       }
     }
+    
+    if (line.type !== '+') oldCount++;
+    if (line.type !== '-') newCount++;
   }
   
   // 最後のhunkを処理
   if (currentHunk) {
-    // 行番号を計算
-    let oldLine = 1;
-    let newLine = 1;
-    for (let j = 0; j < diff.length - currentHunk.lines.length; j++) {
-      if (diff[j].type !== '+') oldLine++;
-      if (diff[j].type !== '-') newLine++;
-    }
-    
-    currentHunk.oldStart = oldLine;
-    currentHunk.newStart = newLine;
-    
-    // hunk内の行数を計算
-    for (const hunkLine of currentHunk.lines) {
-      if (hunkLine[0] !== '+') currentHunk.oldLength++;
-      if (hunkLine[0] !== '-') currentHunk.newLength++;
-    }
-    
-    hunks.push(currentHunk);
+    hunks.push(trimTrailingContext(currentHunk, Math.max(0, trailingContext - contextSize)));
   }
   
   // diffを組み立て
@@ -199,13 +357,28 @@ export function generateGitStyleDiff(original: string, modified: string, filenam
     '--- original\n+++ modified';
   
   const hunkStrings = hunks.map(hunk => {
-    const header = `@@ -${hunk.oldStart},${hunk.oldLength} +${hunk.newStart},${hunk.newLength} @@`;
+    // 行数が 0 の側は直前の行番号を書く（unified diff の慣例）
+    const oldStart = hunk.oldLength === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLength === 0 ? hunk.newStart - 1 : hunk.newStart;
+    const header = `@@ -${oldStart},${hunk.oldLength} +${newStart},${hunk.newLength} @@`;
     return header + '\n' + hunk.lines.join('\n');
   });
   
   return diffHeader + '\n' + hunkStrings.join('\n');
 }
 
+/**
+ * hunk 末尾の余分なコンテキスト行を除く
+ */
+function trimTrailingContext(hunk: Hunk, count: number): Hunk {
+  if (count > 0) {
+    hunk.lines.length -= count;
+    hunk.oldLength -= count;
+    hunk.newLength -= count;
+  }
+  return hunk;
+}
+
 /**
  * インデントを検出
  */
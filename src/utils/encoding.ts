@@ -0,0 +1,185 @@
+/**
+ * Smart Filesystem MCP - Encoding Utilities
+ * Node標準外のエンコーディング（Shift_JIS、EUC-JP、GBK、Windows-1252等）の変換
+ */
+
+import iconv from 'iconv-lite';
+import { createReadStream } from 'fs';
+import type { Readable } from 'stream';
+import type { FileEncoding } from '../core/types.js';
+
+// Bufferで直接扱えるエンコーディング
+const NATIVE_ENCODINGS: readonly string[] = ['utf8', 'utf16le', 'latin1', 'ascii'];
+
+/**
+ * 対応エンコーディング一覧（ツールのenumに使用）
+ */
+export const SUPPORTED_ENCODINGS: readonly FileEncoding[] = [
+  'utf8',
+  'utf16le',
+  'utf16be',
+  'latin1',
+  'ascii',
+  'shift_jis',
+  'euc-jp',
+  'gbk',
+  'gb2312',
+  'gb18030',
+  'big5',
+  'euc-kr',
+  'iso-8859-2',
+  'iso-8859-5',
+  'iso-8859-6',
+  'iso-8859-7',
+  'iso-8859-8',
+  'iso-8859-9',
+  'windows-1250',
+  'windows-1251',
+  'windows-1252',
+  'windows-1253',
+  'windows-1254',
+  'windows-1255',
+  'windows-1256',
+  'koi8-r'
+];
+
+/**
+ * Node標準で扱えるエンコーディングか判定
+ */
+export function isNativeEncoding(encoding: string): boolean {
+  return NATIVE_ENCODINGS.includes(encoding);
+}
+
+/**
+ * 変換可能なエンコーディングか判定
+ */
+export function isSupportedEncoding(encoding: string): boolean {
+  return isNativeEncoding(encoding) || (encoding !== 'unknown' && iconv.encodingExists(encoding));
+}
+
+/**
+ * バッファを文字列にデコード（BOM は Node標準のエンコーディングと同じく U+FEFF として残す）
+ */
+export function decodeBuffer(buffer: Buffer, encoding: string = 'utf8'): string {
+  if (isNativeEncoding(encoding)) {
+    return buffer.toString(encoding as BufferEncoding);
+  }
+  assertSupported(encoding);
+  return iconv.decode(buffer, encoding, { stripBOM: false });
+}
+
+/**
+ * 文字列をバッファにエンコード
+ */
+export function encodeString(text: string, encoding: string = 'utf8'): Buffer {
+  if (isNativeEncoding(encoding)) {
+    return Buffer.from(text, encoding as BufferEncoding);
+  }
+  assertSupported(encoding);
+  return iconv.encode(text, encoding);
+}
+
+/**
+ * デコードして再エンコードすると元のバイト列に戻るか判定
+ * 戻らないエンコーディングで編集すると、編集していない箇所まで書き換わる
+ * （allowTruncated の場合、末尾で切れた文字は無視）
+ */
+export function roundTrips(buffer: Buffer, encoding: string, allowTruncated: boolean = false): boolean {
+  if (!isSupportedEncoding(encoding)) return false;
+
+  const maxTrim = allowTruncated ? Math.min(3, buffer.length) : 0;
+  for (let trim = 0; trim <= maxTrim; trim++) {
+    const slice = buffer.subarray(0, buffer.length - trim);
+    if (encodeString(decodeBuffer(slice, encoding), encoding).equals(slice)) return true;
+  }
+  return false;
+}
+
+/**
+ * エンコード後のバイト長
+ */
+export function byteLengthOf(text: string, encoding: string = 'utf8'): number {
+  if (isNativeEncoding(encoding)) {
+    return Buffer.byteLength(text, encoding as BufferEncoding);
+  }
+  return encodeString(text, encoding).length;
+}
+
+/**
+ * 対象エンコーディングで表現できない文字を返す（最大limit件）
+ */
+export function findUnmappableChars(text: string, encoding: string, limit: number = 10): string[] {
+  if (encoding === 'utf8' || encoding === 'utf16le' || encoding === 'utf16be') return [];
+  if (decodeBuffer(encodeString(text, encoding), encoding) === text) return [];
+
+  const unmappable = new Set<string>();
+  for (const char of new Set(text)) {
+    // 往復変換で元に戻らない文字は表現できない
+    if (decodeBuffer(encodeString(char, encoding), encoding) !== char) {
+      unmappable.add(char);
+      if (unmappable.size >= limit) break;
+    }
+  }
+  return [...unmappable];
+}
+
+/**
+ * バッファが正しいUTF-8か判定（allowTruncatedの場合、末尾で切れた文字は無視）
+ */
+export function isValidUtf8(buffer: Buffer, allowTruncated: boolean = false): boolean {
+  const end = allowTruncated ? trimIncompleteChar(buffer, buffer.length, 'utf8') : buffer.length;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer.subarray(0, end));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * バッファ末尾の不完全なマルチバイト文字を除いた長さを返す
+ */
+export function trimIncompleteChar(buffer: Buffer, length: number, encoding: string): number {
+  if (encoding === 'utf16le') {
+    let end = length - (length % 2);
+    // 上位サロゲートで終わる場合は除外
+    if (end >= 2) {
+      const unit = buffer.readUInt16LE(end - 2);
+      if (unit >= 0xD800 && unit <= 0xDBFF) end -= 2;
+    }
+    return end;
+  }
+
+  if (encoding !== 'utf8') return length;
+
+  // 継続バイト（10xxxxxx）を遡って先頭バイトを探す
+  let start = length - 1;
+  while (start >= 0 && start > length - 4 && ((buffer[start] ?? 0) & 0xC0) === 0x80) {
+    start--;
+  }
+  if (start < 0) return length;
+
+  const lead = buffer[start] ?? 0;
+  const expected = lead >= 0xF0 ? 4 : lead >= 0xE0 ? 3 : lead >= 0xC0 ? 2 : 1;
+  return start + expected > length ? start : length;
+}
+
+/**
+ * デコード済み文字列のストリームを作成（readline入力用）
+ */
+export function createDecodedStream(filePath: string, encoding: string = 'utf8'): Readable {
+  if (isNativeEncoding(encoding)) {
+    return createReadStream(filePath, { encoding: encoding as BufferEncoding });
+  }
+  assertSupported(encoding);
+  return createReadStream(filePath).pipe(iconv.decodeStream(encoding)) as unknown as Readable;
+}
+
+/**
+ * 未対応エンコーディングの場合はエラー
+ */
+function assertSupported(encoding: string): void {
+  if (!isSupportedEncoding(encoding)) {
+    throw new Error(`Unsupported encoding: ${encoding} (supported: ${SUPPORTED_ENCODINGS.join(', ')})`);
+  }
+}
\ No newline at end of file
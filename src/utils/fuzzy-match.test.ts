@@ -0,0 +1,111 @@
+import { adaptReplacement, findClosestRegions, findFuzzyMatches } from './fuzzy-match.js';
+
+describe('findFuzzyMatches', () => {
+  test('ignores differences in indentation and inner whitespace', () => {
+    const content = 'function f() {\n    if (x) {\n        y(1,   2);\n    }\n}\n';
+    const matches = findFuzzyMatches(content, 'if (x) {\n  y(1, 2);\n}', 'whitespace');
+
+    expect(matches).toEqual([{
+      index: content.indexOf('if'),
+      length: 'if (x) {\n        y(1,   2);\n    }'.length,
+      text: 'if (x) {\n        y(1,   2);\n    }',
+      start_line: 2,
+      end_line: 4
+    }]);
+  });
+
+  test('ignores trailing whitespace and tabs', () => {
+    const content = 'a = 1;  \n\tb = 2;\n';
+    const matches = findFuzzyMatches(content, 'a = 1;\n    b = 2;', 'whitespace');
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]?.text).toBe('a = 1;  \n\tb = 2;');
+  });
+
+  test('does not match across line breaks that differ', () => {
+    expect(findFuzzyMatches('a b\n', 'a\nb', 'whitespace')).toEqual([]);
+    expect(findFuzzyMatches('a\n\nb\n', 'a\nb', 'whitespace')).toEqual([]);
+  });
+
+  test('matches CRLF content only when line endings are ignored', () => {
+    const content = 'one\r\ntwo\r\nthree\r\n';
+
+    expect(findFuzzyMatches(content, 'one\ntwo', 'whitespace')).toEqual([]);
+    const matches = findFuzzyMatches(content, 'one\ntwo', 'line_ending');
+    expect(matches).toHaveLength(1);
+    expect(matches[0]?.text).toBe('one\r\ntwo');
+    expect(matches[0]?.end_line).toBe(2);
+  });
+
+  test('returns every match with its line numbers', () => {
+    const matches = findFuzzyMatches('x  =  1\ny = 2\nx = 1\n', 'x = 1', 'whitespace');
+
+    expect(matches.map(match => [match.start_line, match.end_line])).toEqual([[1, 1], [3, 3]]);
+  });
+
+  test('ignores whitespace-only search text', () => {
+    expect(findFuzzyMatches('a  b\n', '  \n ', 'line_ending')).toEqual([]);
+  });
+
+  test('treats regex metacharacters literally', () => {
+    expect(findFuzzyMatches('a.b  (c)\naxb (c)\n', 'a.b (c)', 'whitespace')).toHaveLength(1);
+  });
+});
+
+describe('findClosestRegions', () => {
+  const content = [
+    'const price = 10;',
+    'const quantity = 3;',
+    'const total = price * quantity;',
+    'console.log(total);',
+    'const totals = prices * quantities;'
+  ].join('\n');
+
+  test('ranks the most similar lines first', () => {
+    const candidates = findClosestRegions(content, 'const total = price * qty;', 2);
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0]).toMatchObject({ start_line: 3, end_line: 3, text: 'const total = price * quantity;' });
+    expect(candidates[0]!.similarity).toBeGreaterThan(candidates[1]!.similarity);
+    expect(candidates[0]!.similarity).toBeLessThan(1);
+  });
+
+  test('uses windows as tall as the search text without overlapping', () => {
+    const candidates = findClosestRegions(content, 'const total = price * quantity;\nconsole.log(total);', 3);
+
+    expect(candidates[0]).toMatchObject({ start_line: 3, end_line: 4, similarity: 1 });
+    for (const [i, a] of candidates.entries()) {
+      for (const b of candidates.slice(i + 1)) {
+        expect(a.end_line < b.start_line || b.end_line < a.start_line).toBe(true);
+      }
+    }
+  });
+
+  test('returns nothing when the search text is longer than the file or has no bigrams', () => {
+    expect(findClosestRegions('a\nb\n', 'a\nb\nc\nd\ne', 3)).toEqual([]);
+    expect(findClosestRegions(content, 'x', 3)).toEqual([]);
+  });
+});
+
+describe('adaptReplacement', () => {
+  test('maps indentation from old_text to the matched text', () => {
+    expect(adaptReplacement('  return 1;', '\treturn 1;', '  return 2;')).toBe('\treturn 2;');
+    expect(adaptReplacement(
+      'if (x) {\n  y();\n}',
+      'if (x) {\n        y();\n    }',
+      'if (x) {\n  z();\n    w();\n}'
+    )).toBe('if (x) {\n        z();\n          w();\n    }');
+  });
+
+  test('leaves the first line and blank lines alone when the match starts mid-line', () => {
+    expect(adaptReplacement('a();\nb();', 'a();\n    b();', 'a();\n\nc();')).toBe('a();\n\n    c();');
+  });
+
+  test('does not remap indentation that maps inconsistently', () => {
+    expect(adaptReplacement('  a\n  b', '    a\n\tb', '  c')).toBe('  c');
+  });
+
+  test('converts line endings to those of the matched text', () => {
+    expect(adaptReplacement('one\ntwo', 'one\r\ntwo', 'uno\ndos')).toBe('uno\r\ndos');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Smart Filesystem MCP - Fuzzy Match
+ * リテラル編集の old_text が完全一致しない場合の曖昧一致（空白・改行コードの違いを無視）と類似箇所の検索
+ */
+
+/**
+ * 曖昧一致の種類
+ * - whitespace: 空白の量・種類、インデント、行末の空白の違いを無視
+ * - line_ending: さらに改行コード（LF/CRLF/CR）の違いを無視
+ */
+export type FuzzyMatchKind = 'whitespace' | 'line_ending';
+
+/**
+ * 曖昧一致した範囲
+ */
+export interface FuzzyMatch {
+  index: number;
+  length: number;
+  /** 一致したファイル側のテキスト */
+  text: string;
+  start_line: number;
+  end_line: number;
+}
+
+/**
+ * 類似箇所の候補
+ */
+export interface FuzzyCandidate {
+  start_line: number;
+  end_line: number;
+  /** 0〜1 の類似度 */
+  similarity: number;
+  text: string;
+}
+
+/**
+ * 空白の違いを無視して一致する範囲を全て検索（空白のみの searchText は対象外）
+ */
+export function findFuzzyMatches(content: string, searchText: string, kind: FuzzyMatchKind): FuzzyMatch[] {
+  if (searchText.trim() === '') {
+    return [];
+  }
+
+  const regex = new RegExp(buildFuzzyPattern(searchText, kind), 'g');
+  const matches: FuzzyMatch[] = [];
+  for (const match of content.matchAll(regex)) {
+    const index = match.index ?? 0;
+    const startLine = lineNumberAt(content, index);
+    matches.push({
+      index,
+      length: match[0].length,
+      text: match[0],
+      start_line: startLine,
+      end_line: startLine + countNewlines(match[0].replace(/\r?\n$/, ''))
+    });
+  }
+  return matches;
+}
+
+/**
+ * searchText に最も近い行範囲を類似度の高い順に返す（範囲は重ならない）
+ * 空白を詰めた各行の文字バイグラムで類似度（Dice 係数）を計算し、ウィンドウをずらしながら差分更新する
+ */
+export function findClosestRegions(content: string, searchText: string, maxCandidates: number): FuzzyCandidate[] {
+  const targetLines = searchText.replace(/\r\n?/g, '\n').replace(/^\n+|\n+$/g, '').split('\n');
+  const target = new Map<string, number>();
+  let targetSize = 0;
+  for (const line of targetLines) {
+    for (const bigram of lineBigrams(line)) {
+      target.set(bigram, (target.get(bigram) ?? 0) + 1);
+      targetSize++;
+    }
+  }
+
+  const lines = content.split(/\r\n|\r|\n/);
+  const windowSize = targetLines.length;
+  if (targetSize === 0 || lines.length < windowSize) {
+    return [];
+  }
+
+  const window = new Map<string, number>();
+  let windowTotal = 0;
+  let intersection = 0;
+  const addLine = (line: string): void => {
+    for (const bigram of lineBigrams(line)) {
+      const count = window.get(bigram) ?? 0;
+      window.set(bigram, count + 1);
+      windowTotal++;
+      if (count < (target.get(bigram) ?? 0)) {
+        intersection++;
+      }
+    }
+  };
+  const removeLine = (line: string): void => {
+    for (const bigram of lineBigrams(line)) {
+      const count = (window.get(bigram) ?? 0) - 1;
+      window.set(bigram, count);
+      windowTotal--;
+      if (count < (target.get(bigram) ?? 0)) {
+        intersection--;
+      }
+    }
+  };
+
+  const scores: Array<{ start: number; similarity: number }> = [];
+  for (let i = 0; i < lines.length; i++) {
+    addLine(lines[i] as string);
+    if (i >= windowSize) {
+      removeLine(lines[i - windowSize] as string);
+    }
+    if (i >= windowSize - 1 && intersection > 0) {
+      scores.push({ start: i - windowSize + 1, similarity: (2 * intersection) / (windowTotal + targetSize) });
+    }
+  }
+
+  // 類似度の高い順に、既に選んだ範囲と重ならないものを選ぶ
+  scores.sort((a, b) => b.similarity - a.similarity || a.start - b.start);
+  const candidates: FuzzyCandidate[] = [];
+  for (const score of scores) {
+    if (candidates.length >= maxCandidates) {
+      break;
+    }
+    const overlaps = candidates.some(
+      candidate => score.start <= candidate.end_line - 1 && candidate.start_line - 1 <= score.start + windowSize - 1
+    );
+    if (!overlaps) {
+      candidates.push({
+        start_line: score.start + 1,
+        end_line: score.start + windowSize,
+        similarity: Math.round(score.similarity * 100) / 100,
+        text: lines.slice(score.start, score.start + windowSize).join('\n')
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * 曖昧一致した範囲に合わせて置換テキストを調整
+ * インデントを old_text → 一致範囲の対応で置き換え、改行コードを一致範囲に揃える
+ */
+export function adaptReplacement(searchText: string, matchedText: string, replacement: string): string {
+  const searchLines = searchText.split(/\r\n|\r|\n/);
+  const matchedLines = matchedText.split(/\r\n|\r|\n/);
+  let adapted = replacement;
+
+  // 行数が同じ場合のみ行ごとのインデントの対応を作れる（対応が矛盾するインデントは変換しない）
+  // old_text の 1 行目にインデントがない場合、一致範囲は行の途中から始まるので 1 行目は対応に含めない
+  if (searchLines.length === matchedLines.length) {
+    const indentMap = new Map<string, string | null>();
+    searchLines.forEach((line, i) => {
+      const from = leadingWhitespace(line);
+      const to = leadingWhitespace(matchedLines[i] as string);
+      if (line.trim() === '' || (i === 0 && from === '')) {
+        return;
+      }
+      const existing = indentMap.get(from);
+      indentMap.set(from, existing === undefined || existing === to ? to : null);
+    });
+
+    const keys = [...indentMap.keys()].filter(key => {
+      const to = indentMap.get(key);
+      return to !== null && to !== key;
+    });
+    keys.sort((a, b) => b.length - a.length);
+    if (keys.length > 0) {
+      adapted = adapted
+        .split('\n')
+        .map((line, i) => {
+          // 置換後の 1 行目はファイル側のインデントの後ろに入る。空行にはインデントを付けない
+          const key = keys.find(prefix => line.startsWith(prefix) && !(prefix === '' && (i === 0 || line === '')));
+          return key !== undefined ? (indentMap.get(key) as string) + line.slice(key.length) : line;
+        })
+        .join('\n');
+    }
+  }
+
+  if (matchedText.includes('\r\n')) {
+    adapted = adapted.replace(/\r?\n/g, '\r\n');
+  }
+  return adapted;
+}
+
+/**
+ * 曖昧一致用の正規表現を生成（空白の連続をまとめて 1 つのパターンにする）
+ */
+function buildFuzzyPattern(searchText: string, kind: FuzzyMatchKind): string {
+  const newline = kind === 'line_ending' ? '(?:\\r\\n|\\r|\\n)' : '\\n';
+  const whitespace = kind === 'line_ending' ? /[ \t\r\n]+/ : /[ \t\n]+/;
+  const tokens = searchText.split(new RegExp(`(${whitespace.source})`));
+
+  return tokens
+    .map((token, i) => {
+      if (i % 2 === 0) {
+        return escapeRegExp(token);
+      }
+      const leading = i === 1 && tokens[0] === '';
+      const trailing = i === tokens.length - 2 && tokens[tokens.length - 1] === '';
+      const newlines = kind === 'line_ending'
+        ? (token.match(/\r\n|\r|\n/g) ?? []).length
+        : countNewlines(token);
+      if (newlines === 0) {
+        // 先頭・末尾の空白は無くてもよい
+        return leading || trailing ? '[ \\t]*' : '[ \\t]+';
+      }
+      // 末尾の改行の後ろは次の行のインデントなので含めない
+      return '[ \\t]*' + `${newline}[ \\t]*`.repeat(newlines - 1) + newline + (trailing ? '' : '[ \\t]*');
+    })
+    .join('');
+}
+
+/**
+ * 比較用の文字バイグラム（空白の連続を 1 つに詰め、前後の空白を除く）
+ */
+function lineBigrams(line: string): string[] {
+  const normalized = line.replace(/\s+/g, ' ').trim();
+  const bigrams: string[] = [];
+  for (let i = 0; i < normalized.length - 1; i++) {
+    bigrams.push(normalized.slice(i, i + 2));
+  }
+  return bigrams;
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^[ \t]*/)?.[0] ?? '';
+}
+
+function lineNumberAt(content: string, index: number): number {
+  return countNewlines(content.slice(0, index)) + 1;
+}
+
+function countNewlines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { expandGlob, globToRegExp, splitGlobBase } from './glob-matcher.js';
+
+describe('globToRegExp', () => {
+  test('matches *, **, ? and braces', () => {
+    expect(globToRegExp('*.ts').test('a.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('dir/a.ts')).toBe(false);
+    expect(globToRegExp('**/*.ts').test('a.ts')).toBe(true);
+    expect(globToRegExp('**/*.ts').test('dir/sub/a.ts')).toBe(true);
+    expect(globToRegExp('file?.{js,ts}').test('file1.ts')).toBe(true);
+    expect(globToRegExp('file?.{js,ts}').test('file1.md')).toBe(false);
+  });
+});
+
+describe('splitGlobBase', () => {
+  test('splits the literal prefix from the pattern', () => {
+    expect(splitGlobBase('src/**/*.ts')).toEqual({ baseDir: 'src', relativePattern: '**/*.ts' });
+    expect(splitGlobBase('/**/*.ts')).toEqual({ baseDir: '/', relativePattern: '**/*.ts' });
+    expect(splitGlobBase('*.md')).toEqual({ baseDir: '.', relativePattern: '*.md' });
+  });
+});
+
+describe('expandGlob', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'glob-matcher-')));
+    for (const sub of ['a', 'b', 'b/deep']) {
+      await fs.mkdir(path.join(dir, sub), { recursive: true });
+    }
+    for (const file of ['a/1.txt', 'a/2.txt', 'a/3.txt', 'b/1.txt', 'b/deep/2.txt', 'b/skip.md']) {
+      await fs.writeFile(path.join(dir, file), '');
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('expands recursive patterns in sorted order', async () => {
+    const result = await expandGlob(`${dir}/**/*.txt`);
+
+    expect(result.matches.map(match => path.relative(dir, match))).toEqual(['a/1.txt', 'a/2.txt', 'a/3.txt', 'b/1.txt', 'b/deep/2.txt']);
+    expect(result).toMatchObject({ truncated: false, timedOut: false });
+  });
+
+  test('counts only files accepted by the filter towards maxResults', async () => {
+    const result = await expandGlob(`${dir}/**/*.txt`, {
+      maxResults: 2,
+      filter: match => !match.includes('/a/')
+    });
+
+    expect(result.matches.map(match => path.relative(dir, match))).toEqual(['b/1.txt', 'b/deep/2.txt']);
+    expect(result.truncated).toBe(false);
+  });
+
+  test('does not walk directories rejected by descend', async () => {
+    const visited: string[] = [];
+    const result = await expandGlob(`${dir}/**/*.txt`, {
+      descend: target => {
+        visited.push(path.relative(dir, target));
+        return target === dir || target.startsWith(path.join(dir, 'b'));
+      }
+    });
+
+    expect(result.matches.map(match => path.relative(dir, match))).toEqual(['b/1.txt', 'b/deep/2.txt']);
+    expect(visited).toContain('a');
+  });
+
+  test('stops at the time limit', async () => {
+    const result = await expandGlob(`${dir}/**/*.txt`, { timeoutMs: -1 });
+
+    expect(result).toEqual({ matches: [], truncated: false, timedOut: true });
+  });
+});
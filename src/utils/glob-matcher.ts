@@ -0,0 +1,189 @@
+/**
+ * Smart Filesystem MCP - Glob Matcher
+ * 依存ライブラリなしの簡易globマッチングと展開
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * glob展開オプション
+ */
+export interface GlobOptions {
+  maxResults: number;
+  excludeDirs: string[];
+  /** 走査を打ち切るまでの時間（ミリ秒） */
+  timeoutMs: number;
+  /** 結果に含めるファイルか（含めないファイルは maxResults に数えない） */
+  filter?: (filePath: string) => boolean;
+  /** 走査するディレクトリか（false のディレクトリは中に入らない） */
+  descend?: (dirPath: string) => boolean;
+}
+
+/**
+ * glob展開結果
+ */
+export interface GlobExpansion {
+  matches: string[];
+  truncated: boolean;
+  /** timeoutMs で走査を打ち切った */
+  timedOut: boolean;
+}
+
+const DEFAULT_GLOB_OPTIONS: GlobOptions = {
+  maxResults: 100,
+  excludeDirs: ['node_modules', '.git', 'dist', 'build', '.next'],
+  timeoutMs: 5000
+};
+
+/**
+ * globパターンかどうか判定
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * globパターンを正規表現に変換（*, **, ?, [...], {a,b} に対応）
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i] as string;
+
+    switch (ch) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // "**/" は0個以上のディレクトリに一致
+          if (pattern[i + 2] === '/') {
+            regex += '(?:.*/)?';
+            i += 2;
+          } else {
+            regex += '.*';
+            i++;
+          }
+        } else {
+          regex += '[^/]*';
+        }
+        break;
+      case '?':
+        regex += '[^/]';
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          regex += '\\[';
+        } else {
+          const content = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+          regex += `[${content}]`;
+          i = end;
+        }
+        break;
+      }
+      case '{':
+        braceDepth++;
+        regex += '(?:';
+        break;
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          regex += ')';
+        } else {
+          regex += '\\}';
+        }
+        break;
+      case ',':
+        regex += braceDepth > 0 ? '|' : ',';
+        break;
+      default:
+        regex += ch.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * パターン先頭の固定部分（ベースディレクトリ）と残りのパターンに分割
+ */
+export function splitGlobBase(pattern: string): { baseDir: string; relativePattern: string } {
+  const segments = pattern.replace(/\\/g, '/').split('/');
+
+  const firstGlobIndex = segments.findIndex(segment => isGlobPattern(segment));
+  const baseSegments = firstGlobIndex === -1 ? segments.slice(0, -1) : segments.slice(0, firstGlobIndex);
+  return {
+    baseDir: baseSegments.length > 0 ? baseSegments.join('/') || '/' : '.',
+    relativePattern: segments.slice(baseSegments.length).join('/')
+  };
+}
+
+/**
+ * globパターンをファイルパスに展開
+ * パターン先頭の固定部分をベースディレクトリとして走査する
+ */
+export async function expandGlob(
+  pattern: string,
+  options: Partial<GlobOptions> = {}
+): Promise<GlobExpansion> {
+  const { maxResults, excludeDirs, timeoutMs, filter, descend } = { ...DEFAULT_GLOB_OPTIONS, ...options };
+  const { baseDir, relativePattern } = splitGlobBase(pattern);
+
+  const matcher = globToRegExp(relativePattern);
+  const recursive = relativePattern.includes('**');
+  const maxDepth = recursive ? Infinity : relativePattern.split('/').length - 1;
+  const deadline = Date.now() + timeoutMs;
+
+  const matches: string[] = [];
+  let truncated = false;
+  let timedOut = false;
+
+  if (descend && !descend(baseDir)) {
+    return { matches, truncated, timedOut };
+  }
+
+  async function walk(dir: string, relative: string, depth: number): Promise<void> {
+    if (truncated || timedOut) return;
+    if (Date.now() > deadline) {
+      timedOut = true;
+      return;
+    }
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      // アクセスできないディレクトリは無視
+      return;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        const entryDir = path.join(dir, entry.name);
+        if (depth < maxDepth && !excludeDirs.includes(entry.name) && (!descend || descend(entryDir))) {
+          await walk(entryDir, entryRelative, depth + 1);
+          if (truncated || timedOut) return;
+        }
+      } else if (entry.isFile() && matcher.test(entryRelative)) {
+        const match = baseDir === '.' ? entryRelative : path.posix.join(baseDir, entryRelative);
+        if (filter && !filter(match)) {
+          continue;
+        }
+        if (matches.length >= maxResults) {
+          truncated = true;
+          return;
+        }
+        matches.push(match);
+      }
+    }
+  }
+
+  await walk(baseDir, '', 0);
+
+  return { matches, truncated, timedOut };
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+/**
+ * Smart Filesystem MCP - Gzip Reader
+ * gzip 圧縮テキスト（app.log.1.gz, dump.json.gz 等）の透過的な展開（展開爆弾対策付き）
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { Transform, pipeline } from 'stream';
+import type { Readable, TransformCallback } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import { SAFETY_LIMITS } from './constants.js';
+import { formatBytes } from './helpers.js';
+import { detectArchiveFormat } from './archive-reader.js';
+
+/**
+ * 展開サイズ・圧縮率の上限超過エラー
+ */
+export class DecompressionLimitError extends Error {
+  constructor(message: string, public readonly limit: 'size' | 'ratio') {
+    super(message);
+    this.name = 'DecompressionLimitError';
+  }
+}
+
+/**
+ * 一時ファイルへの展開結果
+ */
+export interface GunzippedFile {
+  /** 展開先の一時ファイル（元のファイル名から .gz を除いた名前） */
+  path: string;
+  compressed_bytes: number;
+  decompressed_bytes: number;
+}
+
+/**
+ * gzip 圧縮ファイルか判定（tar.gz は list_archive で扱うため除外）
+ */
+export async function isGzipFile(filePath: string): Promise<boolean> {
+  if (detectArchiveFormat(filePath)) {
+    return false;
+  }
+
+  try {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const magic = Buffer.alloc(2);
+      const { bytesRead } = await handle.read(magic, 0, 2, 0);
+      return bytesRead === 2 && magic[0] === 0x1f && magic[1] === 0x8b;
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 展開後のファイル名（拡張子判定用に .gz を除去）
+ */
+export function stripGzipExtension(fileName: string): string {
+  return fileName.replace(/\.gz$/i, '') || fileName;
+}
+
+/**
+ * 展開ストリームを作成（maxBytes または圧縮率の上限を超えると DecompressionLimitError）
+ */
+export function createGunzipStream(filePath: string, compressedBytes: number, maxBytes: number): Readable {
+  return pipeline(
+    createReadStream(filePath),
+    createGunzip(),
+    createDecompressionGuard(compressedBytes, maxBytes),
+    () => {
+      // エラーは最後のストリームに伝播する
+    }
+  );
+}
+
+/**
+ * 一時ファイルに展開して処理を実行（終了後に一時ファイルを削除）
+ */
+export async function withGunzippedFile<T>(
+  filePath: string,
+  maxBytes: number,
+  operation: (file: GunzippedFile) => Promise<T>
+): Promise<T> {
+  const stats = await fs.stat(filePath);
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smart-fs-gz-'));
+
+  try {
+    const tempPath = path.join(tempDir, stripGzipExtension(path.basename(filePath)));
+    await pipelineAsync(
+      createReadStream(filePath),
+      createGunzip(),
+      createDecompressionGuard(stats.size, maxBytes),
+      createWriteStream(tempPath)
+    );
+
+    // チャンク読み込みのカーソル検証は mtime を使うため元ファイルに揃える
+    await fs.utimes(tempPath, stats.atime, stats.mtime);
+    const { size } = await fs.stat(tempPath);
+
+    return await operation({
+      path: tempPath,
+      compressed_bytes: stats.size,
+      decompressed_bytes: size
+    });
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 展開済みバイト数を監視する Transform
+ */
+function createDecompressionGuard(compressedBytes: number, maxBytes: number): Transform {
+  let total = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      total += chunk.length;
+
+      if (total > maxBytes) {
+        callback(new DecompressionLimitError(
+          `Decompressed size exceeds limit (${formatBytes(maxBytes)})`,
+          'size'
+        ));
+        return;
+      }
+
+      // 小さいファイルは圧縮率が極端になりやすいため一定サイズ以降のみ判定
+      const ratio = total / Math.max(compressedBytes, 1);
+      if (total > SAFETY_LIMITS.GZIP_RATIO_CHECK_MIN_SIZE && ratio > SAFETY_LIMITS.GZIP_MAX_RATIO) {
+        callback(new DecompressionLimitError(
+          `Decompression aborted: compression ratio exceeds ${SAFETY_LIMITS.GZIP_MAX_RATIO}:1 (possible decompression bomb)`,
+          'ratio'
+        ));
+        return;
+      }
+
+      callback(null, chunk);
+    }
+  });
+}
+
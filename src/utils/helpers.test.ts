@@ -0,0 +1,49 @@
+import { identifyFileType, isBinaryContent } from './helpers.js';
+
+const riff = (form: string) => Buffer.concat([
+  Buffer.from('RIFF', 'latin1'),
+  Buffer.from([0x24, 0x08, 0x00, 0x00]),
+  Buffer.from(form, 'latin1'),
+  Buffer.from('fmt ', 'latin1'),
+  Buffer.alloc(16)
+]);
+
+describe('identifyFileType', () => {
+  test('identifies RIFF, ID3v2 and ISO media containers', () => {
+    expect(identifyFileType(riff('WEBP'))?.signature).toBe('WEBP');
+    expect(identifyFileType(riff('WAVE'))?.signature).toBe('WAV');
+    expect(identifyFileType(Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00, 0x00, 0x00, 0x01, 0x7F, 0xFF, 0xFB]))?.signature).toBe('MP3');
+    expect(identifyFileType(Buffer.concat([
+      Buffer.from([0x00, 0x00, 0x00, 0x20]),
+      Buffer.from('ftypisom', 'latin1'),
+      Buffer.alloc(20)
+    ]))?.signature).toBe('MP4');
+  });
+
+  test('ignores text signatures outside a valid container header', () => {
+    expect(identifyFileType(Buffer.from('ID3 tags are read by the player\n'))).toBeNull();
+    expect(identifyFileType(Buffer.from('Section WEBP export settings\n'))).toBeNull();
+    expect(identifyFileType(Buffer.from('12345678WAVE form\n'))).toBeNull();
+    expect(identifyFileType(Buffer.from('abcdftyp brand list\n'))).toBeNull();
+  });
+});
+
+describe('isBinaryContent', () => {
+  test('treats text starting like a media signature as text', () => {
+    expect(isBinaryContent(Buffer.from('ID3 tags are read by the player\n'))).toBe(false);
+    expect(isBinaryContent(Buffer.from('Section WEBP export settings\n'))).toBe(false);
+    expect(isBinaryContent(Buffer.from('RIFF1234WAVE is the form type of wav files\n'))).toBe(false);
+    expect(isBinaryContent(Buffer.from('abcdftyp brand list\n'))).toBe(false);
+  });
+
+  test('detects media files by their container header', () => {
+    expect(isBinaryContent(riff('WAVE').subarray(0, 12))).toBe(true);
+    expect(isBinaryContent(Buffer.from([0x49, 0x44, 0x33, 0x03, 0x00, 0x00, 0x00, 0x00, 0x02, 0x01]))).toBe(true);
+  });
+
+  test('still detects binary signatures and NUL bytes', () => {
+    expect(isBinaryContent(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))).toBe(true);
+    expect(isBinaryContent(Buffer.from('text\0more'))).toBe(true);
+    expect(isBinaryContent(Buffer.from('plain text\n'))).toBe(false);
+  });
+});
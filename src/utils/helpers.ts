@@ -5,8 +5,9 @@
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { SAFETY_LIMITS, FILE_CLASSIFICATION, BINARY_SIGNATURES, BOM_PATTERNS, TOKEN_ESTIMATION } from './constants.js';
-import type { FileType, FileEncoding, OperationResult } from '../core/types.js';
+import { SAFETY_LIMITS, FILE_CLASSIFICATION, BINARY_SIGNATURES, SIGNATURE_FILE_TYPES, BOM_PATTERNS } from './constants.js';
+import { getTokenizer } from './tokenizer.js';
+import type { FileType, FileEncoding, OperationResult, DetectedFileType } from '../core/types.js';
 
 /**
  * Format bytes to human-readable string
@@ -103,19 +104,86 @@ export function detectBOM(buffer: Buffer): FileEncoding | null {
   return null;
 }
 
+/**
+ * Identify the file type from magic bytes in BINARY_SIGNATURES
+ */
+export function identifyFileType(buffer: Buffer): DetectedFileType | null {
+  return matchSignature(buffer)?.type ?? null;
+}
+
+/**
+ * Find the BINARY_SIGNATURES entry matching the buffer and how many leading bytes it covers
+ */
+function matchSignature(buffer: Buffer): { type: DetectedFileType; headerLength: number } | null {
+  let match: { type: DetectedFileType; headerLength: number } | null = null;
+  
+  for (const [name, signature] of Object.entries(BINARY_SIGNATURES)) {
+    const type = SIGNATURE_FILE_TYPES[name as keyof typeof BINARY_SIGNATURES];
+    const offset = type.offset ?? 0;
+    
+    if (buffer.length < offset + signature.length ||
+        buffer.compare(signature, 0, signature.length, offset, offset + signature.length) !== 0) {
+      continue;
+    }
+    
+    // Short text signatures only count inside a valid container header
+    const headerLength = type.header
+      ? checkContainerHeader(buffer, type.header)
+      : offset + signature.length;
+    if (headerLength === 0) {
+      continue;
+    }
+    const detected = { signature: name, mime: type.mime, description: type.description };
+    
+    // Formats sharing a container signature (ZIP) are told apart by a marker in the first bytes
+    if (type.marker) {
+      if (buffer.includes(type.marker)) {
+        return { type: detected, headerLength };
+      }
+      continue;
+    }
+    
+    if (!match) {
+      match = { type: detected, headerLength };
+    }
+  }
+  
+  return match;
+}
+
+/**
+ * Validate the container header around a text signature and return its length (0 if invalid)
+ */
+function checkContainerHeader(buffer: Buffer, header: 'riff' | 'id3v2' | 'iso_box'): number {
+  switch (header) {
+    case 'riff':
+      // "RIFF" + little-endian size + form type
+      return buffer.toString('latin1', 0, 4) === 'RIFF' ? 12 : 0;
+    case 'id3v2': {
+      // "ID3" + major version 2-4 + revision + flags (low nibble unused) + 4 syncsafe size bytes
+      if (buffer.length < 10) return 0;
+      const major = buffer[3] ?? 0;
+      const validSize = [6, 7, 8, 9].every(i => (buffer[i] ?? 0) < 0x80);
+      return major >= 2 && major <= 4 && buffer[4] !== 0xFF && ((buffer[5] ?? 0) & 0x0F) === 0 && validSize ? 10 : 0;
+    }
+    case 'iso_box': {
+      // The ftyp box holds a major brand, a minor version and a few compatible brands
+      const size = buffer.readUInt32BE(0);
+      return size >= 16 && size <= 1024 && size % 4 === 0 ? 8 : 0;
+    }
+  }
+}
+
 /**
  * Check if buffer contains binary data
  */
 export function isBinaryContent(buffer: Buffer, bytesToCheck: number = 8192): boolean {
   const checkLength = Math.min(buffer.length, bytesToCheck);
   
-  // Check for known binary signatures
-  for (const [, signature] of Object.entries(BINARY_SIGNATURES)) {
-    if (buffer.length >= signature.length) {
-      if (buffer.compare(signature, 0, signature.length, 0, signature.length) === 0) {
-        return true;
-      }
-    }
+  // Check for known binary signatures (a header of printable text alone is not proof of binary)
+  const signature = matchSignature(buffer);
+  if (signature && !isPrintableText(buffer.subarray(0, signature.headerLength))) {
+    return true;
   }
   
   // Check for null bytes or high number of non-printable characters
@@ -143,19 +211,17 @@ export function isBinaryContent(buffer: Buffer, bytesToCheck: number = 8192): bo
 }
 
 /**
- * Estimate token count for text content
+ * Whether every byte is printable ASCII or common whitespace
+ */
+function isPrintableText(buffer: Buffer): boolean {
+  return buffer.every(byte => (byte >= 0x20 && byte < 0x7F) || byte === 9 || byte === 10 || byte === 13);
+}
+
+/**
+ * Estimate token count for text content using the active tokenizer
  */
 export function estimateTokenCount(text: string, fileType?: FileType): number {
-  // Basic estimation: 1 token ≈ 4 characters
-  let baseTokens = Math.ceil(text.length / TOKEN_ESTIMATION.CHARS_PER_TOKEN);
-  
-  // Apply file type multiplier if provided
-  if (fileType && fileType.category in TOKEN_ESTIMATION.FILE_TYPE_MULTIPLIERS) {
-    const multiplier = TOKEN_ESTIMATION.FILE_TYPE_MULTIPLIERS[fileType.category as keyof typeof TOKEN_ESTIMATION.FILE_TYPE_MULTIPLIERS];
-    baseTokens = Math.ceil(baseTokens * multiplier);
-  }
-  
-  return baseTokens;
+  return getTokenizer().countTokens(text, fileType);
 }
 
 /**
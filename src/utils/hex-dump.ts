@@ -0,0 +1,92 @@
+/**
+ * Smart Filesystem MCP - Hex Dump
+ * バイナリファイルの任意範囲の読み込みと hex+ASCII ダンプ整形
+ */
+
+import * as fs from 'fs/promises';
+
+/**
+ * バイト範囲の読み込み結果
+ */
+export interface ByteRangeResult {
+  buffer: Buffer;
+  offset: number;
+  total_bytes: number;
+}
+
+/**
+ * 1行あたりのバイト数
+ */
+const BYTES_PER_LINE = 16;
+
+/**
+ * 指定範囲のバイトを読み込む（負のoffsetは末尾からの位置）
+ */
+export async function readBytes(filePath: string, offset: number, length: number): Promise<ByteRangeResult> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const start = offset < 0 ? Math.max(0, size + offset) : Math.min(offset, size);
+    const readLength = Math.max(0, Math.min(length, size - start));
+    const buffer = Buffer.alloc(readLength);
+
+    if (readLength > 0) {
+      const { bytesRead } = await handle.read(buffer, 0, readLength, start);
+      return { buffer: buffer.subarray(0, bytesRead), offset: start, total_bytes: size };
+    }
+
+    return { buffer, offset: start, total_bytes: size };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * hex+ASCII ダンプを生成
+ * 例: "00000000  89 50 4e 47 0d 0a 1a 0a  00 00 00 0d 49 48 44 52  |.PNG........IHDR|"
+ */
+export function formatHexDump(buffer: Buffer, baseOffset: number = 0): string[] {
+  const lines: string[] = [];
+  const offsetWidth = Math.max(8, (baseOffset + buffer.length).toString(16).length);
+
+  for (let pos = 0; pos < buffer.length; pos += BYTES_PER_LINE) {
+    const slice = buffer.subarray(pos, pos + BYTES_PER_LINE);
+    const hex: string[] = [];
+
+    for (let i = 0; i < BYTES_PER_LINE; i++) {
+      const byte = slice[i];
+      hex.push(byte === undefined ? '  ' : byte.toString(16).padStart(2, '0'));
+      if (i === BYTES_PER_LINE / 2 - 1) {
+        hex.push('');
+      }
+    }
+
+    const ascii = Array.from(slice, byte => (byte >= 0x20 && byte < 0x7F ? String.fromCharCode(byte) : '.')).join('');
+    const offset = (baseOffset + pos).toString(16).padStart(offsetWidth, '0');
+    lines.push(`${offset}  ${hex.join(' ')}  |${ascii}|`);
+  }
+
+  return lines;
+}
+
+/**
+ * ファイル先頭・末尾のダンプを生成（先頭と重なる場合は末尾を省略）
+ */
+export async function dumpFileEnds(
+  filePath: string,
+  byteCount: number
+): Promise<{ head: string[]; tail?: string[] }> {
+  const head = await readBytes(filePath, 0, byteCount);
+  if (head.total_bytes <= byteCount) {
+    return { head: formatHexDump(head.buffer) };
+  }
+
+  // 末尾は16バイト境界に揃えて先頭と重ならない範囲を読む
+  const tailStart = Math.max(byteCount, Math.floor((head.total_bytes - byteCount) / BYTES_PER_LINE) * BYTES_PER_LINE);
+  const tail = await readBytes(filePath, tailStart, head.total_bytes - tailStart);
+
+  return {
+    head: formatHexDump(head.buffer),
+    tail: formatHexDump(tail.buffer, tail.offset)
+  };
+}
\ No newline at end of file
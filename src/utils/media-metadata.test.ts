@@ -0,0 +1,34 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { readMediaMetadata } from './media-metadata.js';
+
+describe('readMediaMetadata', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-metadata-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const svgSize = async (attributes: string) => {
+    const file = path.join(dir, 'icon.svg');
+    await fs.writeFile(file, `<svg xmlns="http://www.w3.org/2000/svg" ${attributes}></svg>\n`);
+    const meta = await readMediaMetadata(file);
+    return [meta?.width, meta?.height];
+  };
+
+  test.each([
+    ['width="48px" height="32" viewBox="0 0 24 24"', [48, 32]],
+    ['width="48px" viewBox="0 0 24 24"', [48, 48]],
+    ['height="30" viewBox="0 0 40 20"', [60, 30]],
+    ['width="100%" viewBox="0 0 40 20"', [40, 20]],
+    ['viewBox="0,0,16,8"', [16, 8]],
+    ['width="48"', [48, undefined]]
+  ])('SVG %s → %j', async (attributes, size) => {
+    expect(await svgSize(attributes)).toEqual(size);
+  });
+});
@@ -0,0 +1,828 @@
+/**
+ * Smart Filesystem MCP - Media Metadata
+ * 画像・音声・動画のヘッダーから寸法・色深度・EXIF・再生時間・コーデックを抽出
+ * 外部ツールなしで読めるヘッダーのみ対象（PNG/JPEG/GIF/WebP/BMP/SVG/WAV/MP3/MP4）
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SAFETY_LIMITS } from './constants.js';
+import { identifyFileType } from './helpers.js';
+
+/**
+ * 対応メディア形式
+ */
+export type MediaFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'bmp' | 'svg' | 'wav' | 'mp3' | 'mp4';
+
+/**
+ * メディアメタデータ
+ */
+export interface MediaMetadata {
+  format: MediaFormat;
+  width?: number;
+  height?: number;
+  color_depth?: number;      // 1ピクセルあたりのビット数
+  has_alpha?: boolean;
+  animated?: boolean;
+  orientation?: number;      // EXIF Orientation（1-8、5-8は90度回転）
+  created?: string;          // EXIF DateTimeOriginal / MP4 creation_time
+  modified?: string;         // EXIF DateTime / PNG tIME / MP4 modification_time
+  view_box?: string;         // SVGのみ
+  duration_seconds?: number;
+  video_codec?: string;
+  audio_codec?: string;
+  sample_rate?: number;
+  channels?: number;
+  bits_per_sample?: number;
+  bitrate_kbps?: number;
+  brand?: string;            // MP4 ftyp major brand
+}
+
+/**
+ * 任意位置のバイト読み込み
+ */
+type ByteReader = (position: number, length: number) => Promise<Buffer>;
+
+/**
+ * EXIF から取り出す項目
+ */
+type ExifFields = Pick<MediaMetadata, 'orientation' | 'created' | 'modified'>;
+
+/**
+ * MP4ボックス
+ */
+interface Mp4Box {
+  type: string;
+  start: number;   // 内容の開始位置
+  end: number;
+}
+
+/**
+ * チャンク・セグメント走査の上限
+ */
+const MAX_CHUNKS = 10000;
+
+/**
+ * EXIF ブロックの最大サイズ
+ */
+const MAX_EXIF_SIZE = 1024 * 1024;
+
+/**
+ * PNG color type ごとのチャンネル数
+ */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * WAV format tag とコーデック名
+ */
+const WAV_CODECS: Record<number, string> = {
+  0x0001: 'PCM',
+  0x0002: 'MS ADPCM',
+  0x0003: 'IEEE float',
+  0x0006: 'A-law',
+  0x0007: 'μ-law',
+  0x0011: 'IMA ADPCM',
+  0x0055: 'MP3'
+};
+
+/**
+ * MPEG オーディオのビットレート表（kbps）
+ */
+const MPEG1_BITRATES: Record<number, number[]> = {
+  1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+};
+const MPEG2_BITRATES: Record<number, number[]> = {
+  1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+/**
+ * MP4 サンプルエントリとコーデック名
+ */
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'H.265',
+  hev1: 'H.265',
+  av01: 'AV1',
+  vp08: 'VP8',
+  vp09: 'VP9',
+  mp4v: 'MPEG-4 Visual',
+  jpeg: 'Motion JPEG',
+  apcn: 'ProRes 422',
+  apch: 'ProRes 422 HQ',
+  ap4h: 'ProRes 4444',
+  mp4a: 'AAC',
+  Opus: 'Opus',
+  fLaC: 'FLAC',
+  alac: 'ALAC',
+  'ac-3': 'AC-3',
+  'ec-3': 'E-AC-3',
+  '.mp3': 'MP3'
+};
+
+/**
+ * 静止画として扱う ftyp ブランド（HEIF/AVIF）
+ */
+const IMAGE_BRANDS = new Set(['heic', 'heix', 'mif1', 'msf1', 'avif', 'avis']);
+
+/**
+ * 1904-01-01 から 1970-01-01 までの秒数（MP4の時刻基準）
+ */
+const MP4_EPOCH_OFFSET = 2082844800;
+
+/**
+ * メディアファイルのメタデータを取得
+ * 対応形式でない、またはヘッダーが壊れている場合は null
+ */
+export async function readMediaMetadata(filePath: string): Promise<MediaMetadata | null> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const read: ByteReader = async (position, length) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+      if (buffer.length === 0) {
+        return buffer;
+      }
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      return buffer.subarray(0, bytesRead);
+    };
+
+    const head = await read(0, SAFETY_LIMITS.MEDIA_HEADER_SCAN_SIZE);
+    const extension = path.extname(filePath).toLowerCase();
+
+    try {
+      switch (identifyFileType(head)?.signature) {
+        case 'PNG':
+          return await parsePng(head, read, size);
+        case 'JPEG':
+          return await parseJpeg(read, size);
+        case 'GIF87':
+        case 'GIF89':
+          return parseGif(head);
+        case 'WEBP':
+          return await parseWebp(read, size);
+        case 'BMP':
+          return parseBmp(head);
+        case 'WAV':
+          return await parseWav(read, size);
+        case 'MP3':
+          return await parseMp3(head, read, size);
+        case 'MP4':
+          return await parseMp4(read, size);
+      }
+
+      // シグネチャを持たない形式は拡張子で判定
+      if (extension === '.mp3') {
+        return await parseMp3(head, read, size);
+      }
+      if (extension === '.svg') {
+        return parseSvg(head.toString('utf8'));
+      }
+    } catch (error) {
+      // 途中で切れたヘッダーは解析対象外
+      if (error instanceof RangeError) {
+        return null;
+      }
+      throw error;
+    }
+
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * PNG: IHDR と補助チャンク（tIME / eXIf / acTL / tRNS）
+ */
+async function parsePng(head: Buffer, read: ByteReader, size: number): Promise<MediaMetadata> {
+  const bitDepth = head.readUInt8(24);
+  const colorType = head.readUInt8(25);
+  const meta: MediaMetadata = {
+    format: 'png',
+    width: head.readUInt32BE(16),
+    height: head.readUInt32BE(20),
+    color_depth: bitDepth * (PNG_CHANNELS[colorType] ?? 1),
+    has_alpha: colorType === 4 || colorType === 6
+  };
+
+  // tIME は IDAT の後にも置けるためチャンクヘッダーを末尾まで辿る
+  let pos = 8;
+  for (let count = 0; pos + 8 <= size && count < MAX_CHUNKS; count++) {
+    const header = await read(pos, 8);
+    const length = header.readUInt32BE(0);
+    const type = header.toString('latin1', 4, 8);
+
+    if (type === 'IEND') {
+      break;
+    }
+    if (type === 'tRNS') {
+      meta.has_alpha = true;
+    } else if (type === 'acTL') {
+      meta.animated = true;
+    } else if (type === 'tIME' && length >= 7) {
+      const time = await read(pos + 8, 7);
+      meta.modified = new Date(Date.UTC(
+        time.readUInt16BE(0), time.readUInt8(2) - 1, time.readUInt8(3),
+        time.readUInt8(4), time.readUInt8(5), time.readUInt8(6)
+      )).toISOString();
+    } else if (type === 'eXIf' && length <= MAX_EXIF_SIZE) {
+      const exif = parseExif(await read(pos + 8, length));
+      meta.orientation = exif.orientation;
+      meta.created = exif.created;
+      meta.modified ??= exif.modified;
+    }
+
+    pos += 12 + length;
+  }
+
+  return stripUndefined(meta);
+}
+
+/**
+ * JPEG: SOFn と APP1(Exif)
+ */
+async function parseJpeg(read: ByteReader, size: number): Promise<MediaMetadata> {
+  const meta: MediaMetadata = { format: 'jpeg' };
+
+  let pos = 2;
+  for (let count = 0; pos + 4 <= size && count < MAX_CHUNKS; count++) {
+    const header = await read(pos, 4);
+    if (header.readUInt8(0) !== 0xFF) {
+      break;
+    }
+
+    const marker = header.readUInt8(1);
+    // フィルバイト・長さを持たないマーカー
+    if (marker === 0xFF) {
+      pos++;
+      continue;
+    }
+    if (marker === 0x01 || marker === 0xD8 || (marker >= 0xD0 && marker <= 0xD7)) {
+      pos += 2;
+      continue;
+    }
+    // SOS 以降は画像データ
+    if (marker === 0xD9 || marker === 0xDA) {
+      break;
+    }
+
+    const length = header.readUInt16BE(2);
+    if (isJpegSofMarker(marker)) {
+      const sof = await read(pos + 4, 6);
+      meta.height = sof.readUInt16BE(1);
+      meta.width = sof.readUInt16BE(3);
+      meta.color_depth = sof.readUInt8(0) * sof.readUInt8(5);
+      break;
+    }
+    if (marker === 0xE1 && meta.orientation === undefined && meta.created === undefined) {
+      const segment = await read(pos + 4, length - 2);
+      if (segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+        Object.assign(meta, parseExif(segment.subarray(6)));
+      }
+    }
+
+    pos += 2 + length;
+  }
+
+  return stripUndefined(meta);
+}
+
+/**
+ * SOF マーカー判定（DHT/JPG/DAC を除く C0-CF）
+ */
+function isJpegSofMarker(marker: number): boolean {
+  return marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+}
+
+/**
+ * GIF: 論理画面記述子
+ */
+function parseGif(head: Buffer): MediaMetadata {
+  const packed = head.readUInt8(10);
+  const hasGlobalTable = (packed & 0x80) !== 0;
+  const meta: MediaMetadata = {
+    format: 'gif',
+    width: head.readUInt16LE(6),
+    height: head.readUInt16LE(8),
+    color_depth: hasGlobalTable ? (packed & 0x07) + 1 : ((packed >> 4) & 0x07) + 1
+  };
+
+  // ループ指定（NETSCAPE2.0拡張）か複数のグラフィック制御拡張があればアニメーション
+  if (head.includes('NETSCAPE2.0') || countOccurrences(head, Buffer.from([0x21, 0xF9, 0x04])) > 1) {
+    meta.animated = true;
+  }
+
+  return meta;
+}
+
+/**
+ * WebP: VP8 / VP8L / VP8X チャンクと EXIF チャンク
+ */
+async function parseWebp(read: ByteReader, size: number): Promise<MediaMetadata> {
+  const meta: MediaMetadata = { format: 'webp' };
+
+  let pos = 12;
+  for (let count = 0; pos + 8 <= size && count < MAX_CHUNKS; count++) {
+    const header = await read(pos, 8);
+    const type = header.toString('latin1', 0, 4);
+    const length = header.readUInt32LE(4);
+
+    if (type === 'VP8X') {
+      const data = await read(pos + 8, 10);
+      const flags = data.readUInt8(0);
+      meta.has_alpha = (flags & 0x10) !== 0;
+      if (flags & 0x02) {
+        meta.animated = true;
+      }
+      meta.width = data.readUIntLE(4, 3) + 1;
+      meta.height = data.readUIntLE(7, 3) + 1;
+    } else if (type === 'VP8 ' && meta.width === undefined) {
+      // フレームタグ3バイト + スタートコード3バイトの後に14ビットの幅・高さ
+      const data = await read(pos + 8, 10);
+      meta.width = data.readUInt16LE(6) & 0x3FFF;
+      meta.height = data.readUInt16LE(8) & 0x3FFF;
+    } else if (type === 'VP8L' && meta.width === undefined) {
+      const bits = (await read(pos + 8, 5)).readUInt32LE(1);
+      meta.width = (bits & 0x3FFF) + 1;
+      meta.height = ((bits >>> 14) & 0x3FFF) + 1;
+      meta.has_alpha = ((bits >>> 28) & 0x01) !== 0;
+    } else if (type === 'EXIF' && length <= MAX_EXIF_SIZE) {
+      const exif = await read(pos + 8, length);
+      Object.assign(meta, parseExif(exif.toString('latin1', 0, 6) === 'Exif\0\0' ? exif.subarray(6) : exif));
+    }
+
+    // チャンクは偶数境界に揃えられる
+    pos += 8 + length + (length & 1);
+  }
+
+  meta.color_depth = meta.has_alpha ? 32 : 24;
+  return stripUndefined(meta);
+}
+
+/**
+ * BMP: BITMAPCOREHEADER / BITMAPINFOHEADER 系
+ */
+function parseBmp(head: Buffer): MediaMetadata | null {
+  const dibSize = head.readUInt32LE(14);
+
+  if (dibSize === 12) {
+    return {
+      format: 'bmp',
+      width: head.readUInt16LE(18),
+      height: head.readUInt16LE(20),
+      color_depth: head.readUInt16LE(24)
+    };
+  }
+
+  // 先頭が "BM" なだけのテキストファイルを除外
+  if (dibSize < 40 || dibSize > 124) {
+    return null;
+  }
+
+  // 高さが負の場合はトップダウン
+  return {
+    format: 'bmp',
+    width: head.readInt32LE(18),
+    height: Math.abs(head.readInt32LE(22)),
+    color_depth: head.readUInt16LE(28)
+  };
+}
+
+/**
+ * SVG: ルート要素の width / height / viewBox
+ */
+function parseSvg(text: string): MediaMetadata | null {
+  const tag = /<svg\b[^>]*>/i.exec(text)?.[0];
+  if (!tag) {
+    return null;
+  }
+
+  const attribute = (name: string): string | undefined =>
+    new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tag)?.[1];
+
+  const viewBox = attribute('viewBox')?.trim();
+  const box = viewBox?.split(/[\s,]+/).map(Number);
+
+  const boxWidth = box?.[2];
+  const boxHeight = box?.[3];
+  const aspect = boxWidth !== undefined && boxHeight !== undefined && boxWidth > 0 && boxHeight > 0
+    ? boxWidth / boxHeight
+    : undefined;
+
+  // 片方だけ指定されている場合は viewBox の縦横比で補い、% や em 指定の場合は viewBox の寸法を使う
+  let width = parseSvgLength(attribute('width'));
+  let height = parseSvgLength(attribute('height'));
+  if (width !== undefined && height === undefined && aspect !== undefined) {
+    height = width / aspect;
+  } else if (height !== undefined && width === undefined && aspect !== undefined) {
+    width = height * aspect;
+  }
+  width ??= boxWidth;
+  height ??= boxHeight;
+
+  return stripUndefined<MediaMetadata>({
+    format: 'svg',
+    width: width !== undefined && Number.isFinite(width) ? width : undefined,
+    height: height !== undefined && Number.isFinite(height) ? height : undefined,
+    view_box: viewBox
+  });
+}
+
+/**
+ * SVG の長さ（単位なし・px のみ数値化）
+ */
+function parseSvgLength(value: string | undefined): number | undefined {
+  const match = value ? /^\s*(\d+(?:\.\d+)?)\s*(?:px)?\s*$/.exec(value) : null;
+  return match ? parseFloat(match[1]!) : undefined;
+}
+
+/**
+ * WAV: fmt / data チャンク
+ */
+async function parseWav(read: ByteReader, size: number): Promise<MediaMetadata> {
+  const meta: MediaMetadata = { format: 'wav' };
+  let byteRate = 0;
+
+  let pos = 12;
+  for (let count = 0; pos + 8 <= size && count < MAX_CHUNKS; count++) {
+    const header = await read(pos, 8);
+    const type = header.toString('latin1', 0, 4);
+    const length = header.readUInt32LE(4);
+
+    if (type === 'fmt ') {
+      const data = await read(pos + 8, Math.min(length, 40));
+      let formatTag = data.readUInt16LE(0);
+      // WAVE_FORMAT_EXTENSIBLE はサブフォーマットGUIDの先頭2バイトが実際の形式
+      if (formatTag === 0xFFFE && data.length >= 26) {
+        formatTag = data.readUInt16LE(24);
+      }
+      meta.audio_codec = WAV_CODECS[formatTag] ?? `format 0x${formatTag.toString(16).padStart(4, '0')}`;
+      meta.channels = data.readUInt16LE(2);
+      meta.sample_rate = data.readUInt32LE(4);
+      byteRate = data.readUInt32LE(8);
+      meta.bits_per_sample = data.readUInt16LE(14);
+      meta.bitrate_kbps = Math.round(byteRate * 8 / 1000);
+    } else if (type === 'data') {
+      // ストリーミング書き出しでは長さが 0xFFFFFFFF のことがある
+      const dataSize = Math.min(length, size - pos - 8);
+      if (byteRate > 0) {
+        meta.duration_seconds = roundSeconds(dataSize / byteRate);
+      }
+      break;
+    }
+
+    pos += 8 + length + (length & 1);
+  }
+
+  return meta;
+}
+
+/**
+ * MP3: 最初のフレームヘッダーと Xing/Info/VBRI ヘッダー
+ */
+async function parseMp3(head: Buffer, read: ByteReader, size: number): Promise<MediaMetadata | null> {
+  let start = 0;
+  if (head.toString('latin1', 0, 3) === 'ID3' && head.length >= 10) {
+    // ID3v2 のサイズは synchsafe 整数（各バイト7ビット）
+    const tagSize = (head.readUInt8(6) << 21) | (head.readUInt8(7) << 14) | (head.readUInt8(8) << 7) | head.readUInt8(9);
+    start = 10 + tagSize + ((head.readUInt8(5) & 0x10) ? 10 : 0);
+  }
+
+  const buffer = await read(start, SAFETY_LIMITS.MEDIA_HEADER_SCAN_SIZE);
+  for (let i = 0; i + 4 <= buffer.length; i++) {
+    if (buffer.readUInt8(i) !== 0xFF || (buffer.readUInt8(i + 1) & 0xE0) !== 0xE0) {
+      continue;
+    }
+
+    const frame = parseMpegFrameHeader(buffer.readUInt32BE(i));
+    if (!frame) {
+      continue;
+    }
+
+    const audioStart = start + i;
+    const hasId3v1 = size >= 128 && (await read(size - 128, 3)).toString('latin1') === 'TAG';
+    const audioBytes = size - audioStart - (hasId3v1 ? 128 : 0);
+
+    const meta: MediaMetadata = {
+      format: 'mp3',
+      audio_codec: frame.layer === 3 ? 'MP3' : frame.layer === 2 ? 'MP2' : 'MP1',
+      sample_rate: frame.sampleRate,
+      channels: frame.channels,
+      bitrate_kbps: frame.bitrate
+    };
+
+    // VBR ファイルは Xing/Info/VBRI ヘッダーのフレーム数から算出
+    const frameCount = readVbrFrameCount(buffer, i, frame);
+    if (frameCount) {
+      const duration = frameCount * frame.samplesPerFrame / frame.sampleRate;
+      meta.duration_seconds = roundSeconds(duration);
+      meta.bitrate_kbps = Math.round(audioBytes * 8 / duration / 1000);
+    } else if (frame.bitrate > 0) {
+      meta.duration_seconds = roundSeconds(audioBytes * 8 / (frame.bitrate * 1000));
+    }
+
+    return meta;
+  }
+
+  return null;
+}
+
+/**
+ * MPEG オーディオのフレームヘッダーを解析
+ */
+function parseMpegFrameHeader(header: number): {
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+} | null {
+  const versionBits = (header >>> 19) & 0x03;
+  const layerBits = (header >>> 17) & 0x03;
+  const bitrateIndex = (header >>> 12) & 0x0F;
+  const sampleRateIndex = (header >>> 10) & 0x03;
+  const channelMode = (header >>> 6) & 0x03;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0x0F || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrates = version === 1 ? MPEG1_BITRATES[layer] : MPEG2_BITRATES[layer];
+  const baseRate = [44100, 48000, 32000][sampleRateIndex]!;
+
+  return {
+    version,
+    layer,
+    bitrate: bitrates?.[bitrateIndex] ?? 0,
+    sampleRate: version === 1 ? baseRate : version === 2 ? baseRate / 2 : baseRate / 4,
+    channels: channelMode === 3 ? 1 : 2,
+    samplesPerFrame: layer === 1 ? 384 : layer === 2 || version === 1 ? 1152 : 576
+  };
+}
+
+/**
+ * Xing/Info/VBRI ヘッダーの総フレーム数
+ */
+function readVbrFrameCount(
+  buffer: Buffer,
+  frameStart: number,
+  frame: NonNullable<ReturnType<typeof parseMpegFrameHeader>>
+): number | undefined {
+  // Xing/Info はサイド情報の直後
+  const sideInfo = frame.version === 1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17);
+  const xing = frameStart + 4 + sideInfo;
+  if (xing + 12 <= buffer.length) {
+    const tag = buffer.toString('latin1', xing, xing + 4);
+    if ((tag === 'Xing' || tag === 'Info') && (buffer.readUInt32BE(xing + 4) & 0x01)) {
+      return buffer.readUInt32BE(xing + 8);
+    }
+  }
+
+  // VBRI はフレーム先頭から36バイト目
+  const vbri = frameStart + 36;
+  if (vbri + 18 <= buffer.length && buffer.toString('latin1', vbri, vbri + 4) === 'VBRI') {
+    return buffer.readUInt32BE(vbri + 14);
+  }
+
+  return undefined;
+}
+
+/**
+ * MP4/MOV: ftyp と moov（mvhd / trak）
+ */
+async function parseMp4(read: ByteReader, size: number): Promise<MediaMetadata | null> {
+  const meta: MediaMetadata = { format: 'mp4' };
+
+  // moov はファイル末尾にあることも多いため、トップレベルのボックスを順に辿る
+  let pos = 0;
+  for (let count = 0; pos + 8 <= size && count < MAX_CHUNKS; count++) {
+    const header = await read(pos, 16);
+    const type = header.toString('latin1', 4, 8);
+    let boxSize = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (boxSize === 1) {
+      boxSize = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = size - pos;
+    }
+    if (boxSize < headerSize) {
+      break;
+    }
+
+    if (type === 'ftyp') {
+      meta.brand = (await read(pos + headerSize, 4)).toString('latin1').trim();
+      if (IMAGE_BRANDS.has(meta.brand)) {
+        return null;
+      }
+    } else if (type === 'moov') {
+      if (boxSize <= SAFETY_LIMITS.MEDIA_MOOV_MAX_SIZE) {
+        parseMoov(await read(pos + headerSize, boxSize - headerSize), meta);
+      }
+      break;
+    }
+
+    pos += boxSize;
+  }
+
+  return stripUndefined(meta);
+}
+
+/**
+ * moov ボックスの内容を解析
+ */
+function parseMoov(moov: Buffer, meta: MediaMetadata): void {
+  for (const box of listMp4Boxes(moov, 0, moov.length)) {
+    if (box.type === 'mvhd') {
+      const version = moov.readUInt8(box.start);
+      const wide = version === 1;
+      const created = wide ? Number(moov.readBigUInt64BE(box.start + 4)) : moov.readUInt32BE(box.start + 4);
+      const modified = wide ? Number(moov.readBigUInt64BE(box.start + 12)) : moov.readUInt32BE(box.start + 8);
+      const timescale = moov.readUInt32BE(box.start + (wide ? 20 : 12));
+      const duration = wide ? Number(moov.readBigUInt64BE(box.start + 24)) : moov.readUInt32BE(box.start + 16);
+
+      if (timescale > 0) {
+        meta.duration_seconds = roundSeconds(duration / timescale);
+      }
+      meta.created = formatMp4Time(created);
+      meta.modified = formatMp4Time(modified);
+    } else if (box.type === 'trak') {
+      parseTrak(moov, box, meta);
+    }
+  }
+}
+
+/**
+ * trak ボックスからコーデック・寸法・音声情報を取得（種別ごとに最初のトラックのみ）
+ */
+function parseTrak(moov: Buffer, trak: Mp4Box, meta: MediaMetadata): void {
+  const mdia = findMp4Box(moov, trak, ['mdia']);
+  const hdlr = mdia && findMp4Box(moov, mdia, ['hdlr']);
+  const stsd = mdia && findMp4Box(moov, mdia, ['minf', 'stbl', 'stsd']);
+  if (!hdlr || !stsd || stsd.start + 16 > stsd.end) {
+    return;
+  }
+
+  const handler = moov.toString('latin1', hdlr.start + 8, hdlr.start + 12);
+  // stsd: version/flags(4) + entry_count(4) の後に最初のサンプルエントリ
+  const entry = stsd.start + 8;
+  const fourcc = moov.toString('latin1', entry + 4, entry + 8);
+  const codec = MP4_CODECS[fourcc] ?? fourcc.trim();
+
+  if (handler === 'vide' && meta.video_codec === undefined && entry + 36 <= stsd.end) {
+    meta.video_codec = codec;
+    meta.width = moov.readUInt16BE(entry + 32);
+    meta.height = moov.readUInt16BE(entry + 34);
+  } else if (handler === 'soun' && meta.audio_codec === undefined && entry + 36 <= stsd.end) {
+    meta.audio_codec = codec;
+    meta.channels = moov.readUInt16BE(entry + 24);
+    meta.bits_per_sample = moov.readUInt16BE(entry + 26);
+    meta.sample_rate = moov.readUInt32BE(entry + 32) >>> 16;
+  }
+}
+
+/**
+ * 範囲内の子ボックス一覧
+ */
+function listMp4Boxes(buffer: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let pos = start;
+
+  while (pos + 8 <= end) {
+    const size = buffer.readUInt32BE(pos);
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    let headerSize = 8;
+    let boxSize = size;
+    if (size === 1 && pos + 16 <= end) {
+      boxSize = Number(buffer.readBigUInt64BE(pos + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      boxSize = end - pos;
+    }
+    if (boxSize < headerSize || pos + boxSize > end) {
+      break;
+    }
+
+    boxes.push({ type, start: pos + headerSize, end: pos + boxSize });
+    pos += boxSize;
+  }
+
+  return boxes;
+}
+
+/**
+ * 子孫ボックスをパスで検索
+ */
+function findMp4Box(buffer: Buffer, parent: Mp4Box, boxPath: string[]): Mp4Box | undefined {
+  let current: Mp4Box | undefined = parent;
+  for (const type of boxPath) {
+    current = listMp4Boxes(buffer, current.start, current.end).find(box => box.type === type);
+    if (!current) {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * MP4の時刻（1904年基準の秒）をISO文字列に変換
+ */
+function formatMp4Time(seconds: number): string | undefined {
+  return seconds > MP4_EPOCH_OFFSET ? new Date((seconds - MP4_EPOCH_OFFSET) * 1000).toISOString() : undefined;
+}
+
+/**
+ * EXIF（TIFF構造）から Orientation と日時を取得
+ */
+function parseExif(tiff: Buffer): ExifFields {
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return {};
+  }
+
+  const little = byteOrder === 'II';
+  const u16 = (offset: number): number => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number): number => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+  // IFD エントリ: tag(2) type(2) count(4) value/offset(4)
+  const readIfd = (offset: number): Map<number, number> => {
+    const entries = new Map<number, number>();
+    if (offset <= 0 || offset + 2 > tiff.length) {
+      return entries;
+    }
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) {
+        break;
+      }
+      entries.set(u16(entry), entry);
+    }
+    return entries;
+  };
+
+  const readAscii = (entry: number | undefined): string | undefined => {
+    if (entry === undefined) {
+      return undefined;
+    }
+    const count = u32(entry + 4);
+    const at = count <= 4 ? entry + 8 : u32(entry + 8);
+    if (at + count > tiff.length) {
+      return undefined;
+    }
+    return tiff.toString('latin1', at, at + count).replace(/\0[\s\S]*$/, '');
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exifPointer = ifd0.get(0x8769);
+  const exifIfd = exifPointer !== undefined ? readIfd(u32(exifPointer + 8)) : new Map<number, number>();
+  const orientationEntry = ifd0.get(0x0112);
+  const orientation = orientationEntry !== undefined ? u16(orientationEntry + 8) : undefined;
+
+  return stripUndefined({
+    orientation: orientation !== undefined && orientation >= 1 && orientation <= 8 ? orientation : undefined,
+    created: formatExifDate(readAscii(exifIfd.get(0x9003)) ?? readAscii(exifIfd.get(0x9004))),
+    modified: formatExifDate(readAscii(ifd0.get(0x0132)))
+  });
+}
+
+/**
+ * EXIF 日時 "2024:05:01 12:34:56" を "2024-05-01T12:34:56" に変換（タイムゾーンなし）
+ */
+function formatExifDate(value: string | undefined): string | undefined {
+  const match = value ? /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value) : null;
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+}
+
+/**
+ * 出現回数を数える
+ */
+function countOccurrences(buffer: Buffer, pattern: Buffer): number {
+  let count = 0;
+  for (let pos = buffer.indexOf(pattern); pos !== -1; pos = buffer.indexOf(pattern, pos + pattern.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 秒数を小数点以下3桁に丸める
+ */
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * undefined のプロパティを取り除く
+ */
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
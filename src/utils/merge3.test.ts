@@ -0,0 +1,60 @@
+import { merge3 } from './merge3.js';
+
+describe('merge3', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+  test('takes changes from both sides when they do not overlap', () => {
+    const current = 'ONE\ntwo\nthree\nfour\nfive\n';
+    const incoming = 'one\ntwo\nthree\nfour\nFIVE\n';
+    expect(merge3(base, current, incoming)).toEqual({ content: 'ONE\ntwo\nthree\nfour\nFIVE\n', conflicts: [] });
+  });
+
+  test('accepts the same change made on both sides', () => {
+    const changed = 'one\nTWO\nthree\nfour\nfive\n';
+    expect(merge3(base, changed, changed)).toEqual({ content: changed, conflicts: [] });
+  });
+
+  test('merges insertions and deletions', () => {
+    const current = 'zero\none\ntwo\nthree\nfour\nfive\n';
+    const incoming = 'one\ntwo\nfour\nfive\n';
+    expect(merge3(base, current, incoming).content).toBe('zero\none\ntwo\nfour\nfive\n');
+  });
+
+  test('reports overlapping changes as a conflict with markers', () => {
+    const current = 'one\ntwo\nthree (current)\nfour\nfive\n';
+    const incoming = 'one\ntwo\nthree (patch)\nfour\nfive\n';
+    const result = merge3(base, current, incoming);
+
+    expect(result.content).toBe([
+      'one', 'two',
+      '<<<<<<< current', 'three (current)',
+      '||||||| base', 'three',
+      '=======', 'three (patch)',
+      '>>>>>>> patch',
+      'four', 'five', ''
+    ].join('\n'));
+    expect(result.conflicts).toEqual([{
+      start_line: 3,
+      end_line: 9,
+      base: 'three\n',
+      current: 'three (current)\n',
+      incoming: 'three (patch)\n'
+    }]);
+  });
+
+  test('keeps CRLF line endings of the current content in markers', () => {
+    const crlfBase = 'a\r\nb\r\nc\r\n';
+    const result = merge3(crlfBase, 'a\r\nB1\r\nc\r\n', 'a\r\nB2\r\nc\r\n');
+    expect(result.content).toBe('a\r\n<<<<<<< current\r\nB1\r\n||||||| base\r\nb\r\n=======\r\nB2\r\n>>>>>>> patch\r\nc\r\n');
+  });
+
+  test('adds a line break before markers after a final line without one', () => {
+    const result = merge3('a\nb', 'a\nb1', 'a\nb2');
+    expect(result.content).toBe('a\n<<<<<<< current\nb1\n||||||| base\nb\n=======\nb2\n>>>>>>> patch\n');
+    expect(result.conflicts[0]).toMatchObject({ current: 'b1', incoming: 'b2' });
+  });
+
+  test('appends lines added after a final line without a line break', () => {
+    expect(merge3('a\nb', 'a\nb', 'a\nb\nc\n').content).toBe('a\nb\nc\n');
+  });
+});
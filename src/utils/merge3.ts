@@ -0,0 +1,132 @@
+/**
+ * Smart Filesystem MCP - Three-way Merge
+ * ベース・現在・パッチ適用後の3つの内容を行単位でマージ（diff3 方式、改行コードの違いは無視）
+ */
+
+import { diffLines } from './diff-utils.js';
+import type { MergeConflict } from '../core/types.js';
+
+/**
+ * マージ結果
+ */
+export interface Merge3Result {
+  /** 競合部分にはマーカーを挿入した内容 */
+  content: string;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * 三方向マージ
+ * 片方だけが変更した範囲はその変更を採用し、両方が同じ変更をした範囲はそのまま採用する
+ */
+export function merge3(base: string, current: string, incoming: string): Merge3Result {
+  const baseLines = splitLines(base);
+  const currentLines = splitLines(current);
+  const incomingLines = splitLines(incoming);
+  const toCurrent = matchLines(baseLines, currentLines);
+  const toIncoming = matchLines(baseLines, incomingLines);
+  const eol = current.includes('\r\n') ? '\r\n' : '\n';
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let b = 0;
+  let c = 0;
+  let i = 0;
+
+  while (b < baseLines.length || c < currentLines.length || i < incomingLines.length) {
+    // 3つ全てで一致している行はそのまま出力
+    if (b < baseLines.length && toCurrent[b] === c && toIncoming[b] === i) {
+      output.push(currentLines[c] as string);
+      b++;
+      c++;
+      i++;
+      continue;
+    }
+
+    // 次に3つ全てで一致する行までを1つの範囲として扱う
+    let nextBase = b;
+    while (nextBase < baseLines.length && (toCurrent[nextBase] === undefined || toIncoming[nextBase] === undefined)) {
+      nextBase++;
+    }
+    const nextCurrent = nextBase < baseLines.length ? toCurrent[nextBase] as number : currentLines.length;
+    const nextIncoming = nextBase < baseLines.length ? toIncoming[nextBase] as number : incomingLines.length;
+
+    const baseChunk = baseLines.slice(b, nextBase);
+    const currentChunk = currentLines.slice(c, nextCurrent);
+    const incomingChunk = incomingLines.slice(i, nextIncoming);
+
+    if (sameLines(currentChunk, baseChunk)) {
+      output.push(...incomingChunk);
+    } else if (sameLines(incomingChunk, baseChunk) || sameLines(currentChunk, incomingChunk)) {
+      output.push(...currentChunk);
+    } else {
+      const startLine = output.length + 1;
+      const section = (marker: string, lines: string[]): void => {
+        output.push(marker + eol, ...lines);
+        // ファイル末尾の改行のない行の後ろにマーカーを続けない
+        const last = output[output.length - 1] as string;
+        if (!last.endsWith('\n')) {
+          output[output.length - 1] = last + eol;
+        }
+      };
+      section('<<<<<<< current', currentChunk);
+      section('||||||| base', baseChunk);
+      section('=======', incomingChunk);
+      output.push('>>>>>>> patch' + eol);
+      conflicts.push({
+        start_line: startLine,
+        end_line: output.length,
+        base: baseChunk.join(''),
+        current: currentChunk.join(''),
+        incoming: incomingChunk.join('')
+      });
+    }
+
+    b = nextBase;
+    c = nextCurrent;
+    i = nextIncoming;
+  }
+
+  // 末尾の改行のない行の後ろに他方の追加行が続く場合は改行を補う
+  const content = output
+    .map((line, index) => index < output.length - 1 && !line.endsWith('\n') ? line + eol : line)
+    .join('');
+  return { content, conflicts };
+}
+
+/**
+ * base の各行が other のどの行に対応するか（対応しない行は undefined）
+ */
+function matchLines(base: string[], other: string[]): Array<number | undefined> {
+  const mapping: Array<number | undefined> = new Array(base.length);
+  let b = 0;
+  let o = 0;
+  for (const entry of diffLines(base.map(lineKey), other.map(lineKey))) {
+    if (entry.type === ' ') {
+      mapping[b++] = o++;
+    } else if (entry.type === '-') {
+      b++;
+    } else {
+      o++;
+    }
+  }
+  return mapping;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => lineKey(line) === lineKey(b[index] as string));
+}
+
+/**
+ * 改行コードを除いた比較用の行
+ */
+function lineKey(line: string): string {
+  return line.replace(/\r?\n$/, '');
+}
+
+/**
+ * 改行を含めて行に分割
+ */
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
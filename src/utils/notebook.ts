@@ -0,0 +1,370 @@
+/**
+ * Smart Filesystem MCP - Notebook Utilities
+ * Jupyter ノートブック（.ipynb）の解析・Markdown 形式での描画・書式を保った再シリアライズ
+ */
+
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { SAFETY_LIMITS } from './constants.js';
+import { formatBytes } from './helpers.js';
+
+/**
+ * セル種別
+ */
+export type NotebookCellType = 'code' | 'markdown' | 'raw';
+
+/**
+ * 出力の表示方法
+ */
+export type NotebookOutputMode = 'truncated' | 'none' | 'full';
+
+/**
+ * nbformat v4 のセル出力
+ */
+export interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error' | string;
+  name?: string;
+  text?: string | string[];
+  data?: Record<string, string | string[] | unknown>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * nbformat v4 のセル
+ */
+export interface NotebookCell {
+  cell_type: NotebookCellType;
+  id?: string;
+  metadata: Record<string, unknown>;
+  source: string | string[];
+  outputs?: NotebookOutput[];
+  execution_count?: number | null;
+  [key: string]: unknown;
+}
+
+/**
+ * nbformat v4 のノートブック
+ */
+export interface Notebook {
+  cells: NotebookCell[];
+  metadata: Record<string, any>;
+  nbformat: number;
+  nbformat_minor: number;
+  [key: string]: unknown;
+}
+
+/**
+ * 描画結果
+ */
+export interface RenderedNotebook {
+  content: string;
+  language?: string;
+  code_cells: number;
+  markdown_cells: number;
+  raw_cells: number;
+  /** 省略した画像・HTML 等の出力数（base64 ペイロードを含む） */
+  elided_outputs: number;
+  /** 行数制限で切り詰めた出力数 */
+  truncated_outputs: number;
+  /** 各セルの描画範囲（1始まりの行番号、切り詰め時の境界に使用） */
+  cell_lines: { start_line: number; end_line: number }[];
+}
+
+const CELL_TYPES: NotebookCellType[] = ['code', 'markdown', 'raw'];
+
+// 出力テキストとして扱う MIME タイプ（優先順）
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'application/json'];
+
+// ANSI エスケープシーケンス（トレースバックの色付け）
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * .ipynb ファイルか判定
+ */
+export function isNotebookFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.ipynb';
+}
+
+/**
+ * ノートブック JSON を解析（nbformat v4 のみ対応）
+ */
+export function parseNotebook(content: string): Notebook {
+  let data: any;
+  try {
+    data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Invalid notebook JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.cells)) {
+    throw new Error('Invalid notebook: missing "cells" array');
+  }
+  if (data.nbformat !== 4) {
+    throw new Error(`Unsupported notebook format: nbformat ${data.nbformat ?? 'unknown'} (only nbformat 4 is supported)`);
+  }
+
+  return data as Notebook;
+}
+
+/**
+ * ノートブックを番号付きの Markdown / コードブロックとして描画
+ */
+export function renderNotebook(notebook: Notebook, outputMode: NotebookOutputMode = 'truncated'): RenderedNotebook {
+  const language = getNotebookLanguage(notebook);
+  const result: RenderedNotebook = {
+    content: '',
+    ...(language && { language }),
+    code_cells: 0,
+    markdown_cells: 0,
+    raw_cells: 0,
+    elided_outputs: 0,
+    truncated_outputs: 0,
+    cell_lines: []
+  };
+
+  const sections = [`# Notebook${language ? ` (${language})` : ''} - ${notebook.cells.length} cells`];
+  let line = 1;
+
+  notebook.cells.forEach((cell, index) => {
+    const source = getCellSource(cell);
+    const parts: string[] = [];
+
+    if (cell.cell_type === 'code') {
+      result.code_cells++;
+      const executed = cell.execution_count != null ? `, In [${cell.execution_count}]` : '';
+      parts.push(`## Cell ${index} (code${executed})`, fence(source, language ?? ''));
+
+      const outputs = cell.outputs ?? [];
+      if (outputs.length > 0 && outputMode !== 'none') {
+        parts.push('Output:', ...outputs.map(output => renderOutput(output, outputMode, result)));
+      } else if (outputs.length > 0) {
+        parts.push(`[${outputs.length} output${outputs.length === 1 ? '' : 's'} stripped]`);
+      }
+    } else if (cell.cell_type === 'markdown') {
+      result.markdown_cells++;
+      parts.push(`## Cell ${index} (markdown)`, source.replace(/\n$/, ''));
+    } else {
+      result.raw_cells++;
+      parts.push(`## Cell ${index} (${cell.cell_type})`, fence(source, ''));
+    }
+
+    // セクション間は空行1つ
+    const section = parts.join('\n\n');
+    const start = line + 2;
+    line = start + section.split('\n').length - 1;
+    result.cell_lines.push({ start_line: start, end_line: line });
+    sections.push(section);
+  });
+
+  result.content = sections.join('\n\n') + '\n';
+  return result;
+}
+
+/**
+ * セルのソースを文字列で取得
+ */
+export function getCellSource(cell: NotebookCell): string {
+  return Array.isArray(cell.source) ? cell.source.join('') : cell.source ?? '';
+}
+
+/**
+ * 既存セルと同じ表現（行配列 / 文字列）でソースを設定
+ */
+export function setCellSource(cell: NotebookCell, source: string, asLines: boolean): void {
+  cell.source = asLines ? splitSourceLines(source) : source;
+}
+
+/**
+ * 新しいセルを作成（キーは nbformat と同じくソート順）
+ */
+export function createCell(notebook: Notebook, cellType: NotebookCellType, source: string): NotebookCell {
+  const asLines = usesLineArrays(notebook);
+  // nbformat 4.5 以降はセル ID が必須
+  const id = notebook.nbformat_minor >= 5 || notebook.cells.some(cell => cell.id !== undefined)
+    ? randomUUID().replace(/-/g, '').slice(0, 8)
+    : undefined;
+
+  const cell: NotebookCell = cellType === 'code'
+    ? {
+        cell_type: 'code',
+        execution_count: null,
+        ...(id && { id }),
+        metadata: {},
+        outputs: [],
+        source: ''
+      }
+    : {
+        cell_type: cellType,
+        ...(id && { id }),
+        metadata: {},
+        source: ''
+      };
+
+  setCellSource(cell, source, asLines);
+  return cell;
+}
+
+/**
+ * セル種別を変更（code ⇔ markdown/raw で outputs / execution_count を付け外し）
+ */
+export function changeCellType(cell: NotebookCell, cellType: NotebookCellType): NotebookCell {
+  if (cell.cell_type === cellType) {
+    return cell;
+  }
+
+  if (cellType !== 'code') {
+    const { outputs: _outputs, execution_count: _executionCount, ...rest } = cell;
+    return { ...rest, cell_type: cellType };
+  }
+
+  // code セルは添付ファイルを持てない
+  const { attachments: _attachments, ...rest } = cell;
+  return sortCellKeys({ ...rest, cell_type: 'code', execution_count: null, outputs: [] });
+}
+
+/**
+ * 有効なセル種別か判定
+ */
+export function isNotebookCellType(value: unknown): value is NotebookCellType {
+  return typeof value === 'string' && (CELL_TYPES as string[]).includes(value);
+}
+
+/**
+ * 元ファイルのインデント・末尾改行を保ってシリアライズ
+ */
+export function serializeNotebook(notebook: Notebook, originalContent: string): string {
+  const indent = /^\{\r?\n([ \t]+)"/.exec(originalContent.replace(/^\uFEFF/, ''))?.[1] ?? ' ';
+  const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
+  let serialized = JSON.stringify(notebook, null, indent);
+
+  if (lineEnding === '\r\n') {
+    serialized = serialized.replace(/\n/g, '\r\n');
+  }
+  if (/\r?\n$/.test(originalContent)) {
+    serialized += lineEnding;
+  }
+  return (originalContent.startsWith('\uFEFF') ? '\uFEFF' : '') + serialized;
+}
+
+/**
+ * カーネル言語を取得
+ */
+function getNotebookLanguage(notebook: Notebook): string | undefined {
+  const language = notebook.metadata?.language_info?.name ?? notebook.metadata?.kernelspec?.language;
+  return typeof language === 'string' && language ? language : undefined;
+}
+
+/**
+ * ノートブック内で行配列形式のソースが使われているか
+ */
+function usesLineArrays(notebook: Notebook): boolean {
+  const sample = notebook.cells.find(cell => cell.source !== undefined);
+  return sample ? Array.isArray(sample.source) : true;
+}
+
+/**
+ * nbformat の行配列形式に分割（最終行以外は改行付き）
+ */
+function splitSourceLines(source: string): string[] {
+  if (!source) {
+    return [];
+  }
+  return source.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * セルのキーをソート順に並べ替え
+ */
+function sortCellKeys(cell: NotebookCell): NotebookCell {
+  const sorted = {} as NotebookCell;
+  for (const key of Object.keys(cell).sort()) {
+    sorted[key] = cell[key];
+  }
+  return sorted;
+}
+
+/**
+ * コードブロックで囲む（内容にバッククォートの連続があればフェンスを延長）
+ */
+function fence(text: string, language: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text.replace(/\n$/, '')}\n${marker}`;
+}
+
+/**
+ * 1つの出力を描画（画像等の base64 ペイロードは省略）
+ */
+function renderOutput(output: NotebookOutput, outputMode: NotebookOutputMode, stats: RenderedNotebook): string {
+  if (output.output_type === 'stream') {
+    return fence(limitOutput(joinText(output.text), outputMode, stats), '');
+  }
+
+  if (output.output_type === 'error') {
+    const traceback = (output.traceback ?? []).join('\n').replace(ANSI_PATTERN, '');
+    const text = traceback || `${output.ename ?? 'Error'}: ${output.evalue ?? ''}`;
+    return fence(limitOutput(text, outputMode, stats), '');
+  }
+
+  const data = output.data ?? {};
+  const mime = TEXT_MIME_TYPES.find(type => type in data);
+  const elided = Object.keys(data).filter(type => type !== mime);
+  const parts: string[] = [];
+
+  if (mime) {
+    const value = data[mime];
+    const text = mime === 'application/json' && typeof value === 'object' && !Array.isArray(value)
+      ? JSON.stringify(value, null, 2)
+      : joinText(value);
+    parts.push(fence(limitOutput(text, outputMode, stats), ''));
+  }
+
+  // text/plain があれば text/html 等は冗長なので黙って省略し、画像のみ明示する
+  for (const type of elided) {
+    if (mime && !type.startsWith('image/')) {
+      continue;
+    }
+    stats.elided_outputs++;
+    const size = joinText(data[type]).length;
+    parts.push(`[${type} output elided - ${formatBytes(size)}${type.startsWith('image/') && type !== 'image/svg+xml' ? ' base64' : ''}]`);
+  }
+
+  return parts.join('\n') || `[${output.output_type} output with no displayable data]`;
+}
+
+/**
+ * truncated モードでは行数・文字数を制限
+ */
+function limitOutput(text: string, outputMode: NotebookOutputMode, stats: RenderedNotebook): string {
+  if (outputMode !== 'truncated') {
+    return text;
+  }
+
+  const lines = text.replace(/\n$/, '').split('\n');
+  const maxLines = SAFETY_LIMITS.NOTEBOOK_OUTPUT_MAX_LINES;
+  let limited = lines.length > maxLines
+    ? [...lines.slice(0, maxLines), `... (${lines.length - maxLines} more lines)`].join('\n')
+    : lines.join('\n');
+
+  if (limited.length > SAFETY_LIMITS.NOTEBOOK_OUTPUT_MAX_CHARS) {
+    limited = limited.slice(0, SAFETY_LIMITS.NOTEBOOK_OUTPUT_MAX_CHARS) + `... (${formatBytes(text.length)} total)`;
+  }
+
+  if (limited !== lines.join('\n')) {
+    stats.truncated_outputs++;
+  }
+  return limited;
+}
+
+/**
+ * 文字列または行配列を結合
+ */
+function joinText(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.join('');
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value ?? '');
+}
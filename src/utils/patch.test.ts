@@ -0,0 +1,179 @@
+import { applyHunks, parseHunks, parsePatch } from './patch.js';
+
+describe('parsePatch', () => {
+  test('parses a multi-file git patch', () => {
+    const patches = parsePatch([
+      'diff --git a/src/app.ts b/src/app.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -1,2 +1,2 @@',
+      ' import x;',
+      '-old();',
+      '+newer();',
+      'diff --git a/new.txt b/new.txt',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/new.txt',
+      '@@ -0,0 +1 @@',
+      '+hello',
+      'diff --git a/gone.txt b/gone.txt',
+      'deleted file mode 100644',
+      '--- a/gone.txt',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye',
+      'diff --git a/old name.txt b/new name.txt',
+      'similarity index 100%',
+      'rename from old name.txt',
+      'rename to new name.txt',
+      'diff --git a/run.sh b/run.sh',
+      'old mode 100644',
+      'new mode 100755',
+      'diff --git a/logo.png b/logo.png',
+      'Binary files a/logo.png and b/logo.png differ',
+      ''
+    ].join('\n'), 1);
+
+    expect(patches.map(p => [p.operation, p.old_path, p.new_path])).toEqual([
+      ['modify', 'src/app.ts', 'src/app.ts'],
+      ['add', null, 'new.txt'],
+      ['delete', 'gone.txt', null],
+      ['rename', 'old name.txt', 'new name.txt'],
+      ['modify', 'run.sh', 'run.sh'],
+      ['modify', 'logo.png', 'logo.png']
+    ]);
+    expect(patches[0]?.hunks[0]?.lines).toEqual([
+      { op: ' ', text: 'import x;' },
+      { op: '-', text: 'old();' },
+      { op: '+', text: 'newer();' }
+    ]);
+    expect(patches[1]?.new_mode).toBe('100644');
+    expect(patches[4]).toMatchObject({ old_mode: '100644', new_mode: '100755', hunks: [] });
+    expect(patches[5]?.binary).toBe(true);
+  });
+
+  test('splits plain unified diffs at each file header and applies strip', () => {
+    const patches = parsePatch([
+      '--- project/a.txt\t2024-01-01 00:00:00',
+      '+++ project/a.txt\t2024-01-02 00:00:00',
+      '@@ -1 +1 @@',
+      '-a',
+      '+A',
+      '--- project/b.txt',
+      '+++ project/b.txt',
+      '@@ -1 +1 @@',
+      '-b',
+      '+B'
+    ].join('\n'), 1);
+
+    expect(patches.map(p => p.new_path)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  test('unquotes C-style quoted paths', () => {
+    const [patch] = parsePatch([
+      'diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"',
+      '--- "a/caf\\303\\251.txt"',
+      '+++ "b/caf\\303\\251.txt"',
+      '@@ -1 +1 @@',
+      '-x',
+      '+y'
+    ].join('\n'), 1);
+
+    expect(patch?.new_path).toBe('café.txt');
+  });
+
+  test('records missing final newlines', () => {
+    const [hunk] = parseHunks([
+      '@@ -1 +1 @@',
+      '-last',
+      '\\ No newline at end of file',
+      '+last line',
+      '\\ No newline at end of file'
+    ].join('\n'));
+
+    expect(hunk).toMatchObject({ old_no_newline: true, new_no_newline: true });
+  });
+
+  test.each([
+    ['no file changes', 'just some text\n', /No file changes/],
+    ['a hunk without a file header', '@@ -1 +1 @@\n-a\n+b\n', /Hunk without file header/],
+    ['a truncated hunk', '--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n a\n', /truncated/],
+    ['a malformed hunk header', '--- a/x\n+++ b/x\n@@ -x +1 @@\n', /Invalid hunk header/]
+  ])('rejects %s', (_name, text, error) => {
+    expect(() => parsePatch(text, 1)).toThrow(error);
+  });
+});
+
+describe('applyHunks', () => {
+  const content = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+  const hunk = (start: number, context: string[], before: string, after: string, trailing: string[]) =>
+    parseHunks([
+      `@@ -${start},${context.length + trailing.length + 1} +${start},${context.length + trailing.length + 1} @@`,
+      ...context.map(line => ` ${line}`),
+      `-${before}`,
+      `+${after}`,
+      ...trailing.map(line => ` ${line}`)
+    ].join('\n'));
+
+  test('applies a hunk at its position', () => {
+    const result = applyHunks(content, hunk(4, ['line 4'], 'line 5', 'five', ['line 6']), 0);
+    expect(result.results[0]).toMatchObject({ status: 'applied', line: 4 });
+    expect(result.content).toBe(content.replace('line 5\n', 'five\n'));
+  });
+
+  test('finds a hunk whose position moved', () => {
+    const result = applyHunks(content, hunk(1, ['line 4'], 'line 5', 'five', ['line 6']), 0);
+    expect(result.results[0]).toMatchObject({ status: 'offset', line: 4, offset: 3 });
+    expect(result.content).toBe(content.replace('line 5\n', 'five\n'));
+  });
+
+  test('ignores mismatched outer context lines up to the fuzz factor', () => {
+    const hunks = hunk(3, ['edited 3', 'line 4'], 'line 5', 'five', ['line 6', 'edited 7']);
+    expect(applyHunks(content, hunks, 0).results[0]?.status).toBe('failed');
+
+    const result = applyHunks(content, hunks, 1);
+    expect(result.results[0]).toMatchObject({ status: 'fuzz', fuzz: 1 });
+    expect(result.content).toBe(content.replace('line 5\n', 'five\n'));
+  });
+
+  test('reports hunks that are already applied', () => {
+    const applied = content.replace('line 5\n', 'five\n');
+    const result = applyHunks(applied, hunk(4, ['line 4'], 'line 5', 'five', ['line 6']), 2);
+    expect(result.results[0]).toMatchObject({ status: 'failed', reason: 'Changes appear to be already applied' });
+    expect(result.content).toBe(applied);
+  });
+
+  test('keeps CRLF line endings', () => {
+    const crlf = content.replace(/\n/g, '\r\n');
+    const result = applyHunks(crlf, hunk(4, ['line 4'], 'line 5', 'five', ['line 6']), 0);
+    expect(result.content).toBe(crlf.replace('line 5\r\n', 'five\r\n'));
+  });
+
+  test('applies later hunks after earlier ones changed the line count', () => {
+    const hunks = parseHunks([
+      '@@ -1,2 +1,3 @@',
+      ' line 1',
+      '+inserted',
+      ' line 2',
+      '@@ -10,3 +11,2 @@',
+      ' line 10',
+      '-line 11',
+      ' line 12'
+    ].join('\n'));
+    const result = applyHunks(content, hunks, 0);
+
+    expect(result.results.map(r => r.status)).toEqual(['applied', 'applied']);
+    expect(result.content).toBe(content.replace('line 1\n', 'line 1\ninserted\n').replace('line 11\n', ''));
+  });
+
+  test('removes the final newline when the patch says so', () => {
+    const hunks = parseHunks([
+      '@@ -12 +12 @@',
+      '-line 12',
+      '+end',
+      '\\ No newline at end of file'
+    ].join('\n'));
+    expect(applyHunks(content, hunks, 0).content).toBe(content.replace('line 12\n', 'end'));
+  });
+});
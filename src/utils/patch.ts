@@ -0,0 +1,488 @@
+/**
+ * Smart Filesystem MCP - Patch
+ * 複数ファイルの Git 形式パッチ（diff --git）の解析と、オフセット・fuzz を許容した hunk の適用
+ */
+
+/**
+ * hunk の1行
+ */
+export interface PatchLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * hunk
+ */
+export interface PatchHunk {
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  /** @@ 行（セクション名を含む） */
+  header: string;
+  lines: PatchLine[];
+  /** 変更前の最後の行に改行がない（\ No newline at end of file） */
+  old_no_newline: boolean;
+  /** 変更後の最後の行に改行がない */
+  new_no_newline: boolean;
+}
+
+/**
+ * ファイルごとのパッチ
+ */
+export interface FilePatch {
+  operation: 'modify' | 'add' | 'delete' | 'rename' | 'copy';
+  /** 変更前のパス（strip 済み、新規ファイルは null） */
+  old_path: string | null;
+  /** 変更後のパス（strip 済み、削除は null） */
+  new_path: string | null;
+  old_mode?: string;
+  new_mode?: string;
+  binary: boolean;
+  hunks: PatchHunk[];
+}
+
+/**
+ * hunk の適用結果
+ */
+export interface HunkApplyResult {
+  index: number;
+  header: string;
+  status: 'applied' | 'offset' | 'fuzz' | 'failed';
+  /** 適用した位置（変更前のファイルの行番号） */
+  line?: number;
+  /** パッチに書かれた位置からのずれ（行数） */
+  offset?: number;
+  /** 無視した前後のコンテキスト行数 */
+  fuzz?: number;
+  reason?: string;
+}
+
+/**
+ * パッチを解析（diff --git ヘッダーのない通常の unified diff も可）
+ * strip は --- / +++ / diff --git のパスから除く先頭のディレクトリ数（git apply の -p と同じ）
+ */
+export function parsePatch(patchText: string, strip: number): FilePatch[] {
+  const lines = patchText.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: (FilePatch & { git_paths?: [string, string] }) | null = null;
+  let i = 0;
+
+  const finish = (): void => {
+    if (!current) {
+      return;
+    }
+    // 内容の変更がない（モード変更・rename のみ）場合は diff --git 行のパスを使う
+    if (current.git_paths) {
+      if (current.old_path === null && current.operation !== 'add') {
+        current.old_path = current.git_paths[0];
+      }
+      if (current.new_path === null && current.operation !== 'delete') {
+        current.new_path = current.git_paths[1];
+      }
+    }
+    const { git_paths: _gitPaths, ...patch } = current;
+    if (patch.old_path === null && patch.new_path === null) {
+      throw new Error('Patch entry without file names');
+    }
+    patches.push(patch);
+    current = null;
+  };
+  const start = (): FilePatch => ({
+    operation: 'modify',
+    old_path: null,
+    new_path: null,
+    binary: false,
+    hunks: []
+  });
+
+  while (i < lines.length) {
+    const line = lines[i] as string;
+
+    if (line.startsWith('diff --git ')) {
+      finish();
+      const paths = parseGitHeaderPaths(line.slice('diff --git '.length));
+      current = {
+        ...start(),
+        ...(paths && { git_paths: [stripPath(paths[0], strip), stripPath(paths[1], strip)] })
+      };
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && (lines[i + 1] ?? '').startsWith('+++ ')) {
+      // diff --git のない unified diff では --- が新しいファイルの始まり
+      if (!current || current.hunks.length > 0) {
+        finish();
+        current = start();
+      }
+      const oldPath = parseFileName(line.slice(4));
+      const newPath = parseFileName((lines[i + 1] as string).slice(4));
+      current.old_path = oldPath === null ? null : stripPath(oldPath, strip);
+      current.new_path = newPath === null ? null : stripPath(newPath, strip);
+      if (oldPath === null) {
+        current.operation = 'add';
+      } else if (newPath === null) {
+        current.operation = 'delete';
+      }
+      i += 2;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      if (!current) {
+        throw new Error(`Hunk without file header at line ${i + 1}`);
+      }
+      const { hunk, next } = parseHunk(lines, i);
+      current.hunks.push(hunk);
+      i = next;
+      continue;
+    }
+
+    if (current) {
+      const header = line.match(/^(old mode|new mode|new file mode|deleted file mode|rename from|rename to|copy from|copy to) (.+)$/);
+      if (header) {
+        const value = header[2] as string;
+        switch (header[1]) {
+          case 'old mode':
+            current.old_mode = value;
+            break;
+          case 'new mode':
+            current.new_mode = value;
+            break;
+          case 'new file mode':
+            current.operation = 'add';
+            current.new_mode = value;
+            break;
+          case 'deleted file mode':
+            current.operation = 'delete';
+            current.old_mode = value;
+            break;
+          // rename / copy のパスには a/ b/ が付かない
+          case 'rename from':
+          case 'copy from':
+            current.operation = header[1] === 'rename from' ? 'rename' : 'copy';
+            current.old_path = unquotePath(value);
+            break;
+          default:
+            current.new_path = unquotePath(value);
+            break;
+        }
+      } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        current.binary = true;
+      }
+    }
+    i++;
+  }
+  finish();
+
+  if (patches.length === 0) {
+    throw new Error('No file changes found in patch');
+  }
+  return patches;
+}
+
+/**
+ * 単一ファイルの diff から hunk だけを解析（--- / +++ などのヘッダーは無視）
+ */
+export function parseHunks(diffText: string): PatchHunk[] {
+  const lines = diffText.replace(/\r\n/g, '\n').split('\n');
+  const hunks: PatchHunk[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if ((lines[i] as string).startsWith('@@')) {
+      const { hunk, next } = parseHunk(lines, i);
+      hunks.push(hunk);
+      i = next;
+    } else {
+      i++;
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new Error('No hunks (@@ ... @@) found in diff');
+  }
+  return hunks;
+}
+
+/**
+ * hunk を順に適用
+ * 各 hunk はパッチの位置から前後に探し（オフセット）、見つからない場合は前後のコンテキストを maxFuzz 行まで無視して探す
+ * 改行コードの違いは無視し、追加行はファイルの改行コードに合わせる
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  maxFuzz: number
+): { content: string; results: HunkApplyResult[] } {
+  const lines = content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const results: HunkApplyResult[] = [];
+  // 適用済みの hunk による行数の増減と、直前の hunk のオフセット（後続の hunk も同じだけずれていると仮定）
+  let delta = 0;
+  let lastOffset = 0;
+  // hunk は重ならないため、次の hunk はここより後ろに適用する
+  let minPosition = 0;
+
+  hunks.forEach((hunk, index) => {
+    const base = { index, header: hunk.header };
+    const leadingContext = countContext(hunk.lines);
+    const trailingContext = countContext([...hunk.lines].reverse());
+
+    for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+      const dropStart = Math.min(fuzz, leadingContext);
+      const dropEnd = Math.min(fuzz, trailingContext);
+      if (fuzz > 0 && dropStart < fuzz && dropEnd < fuzz) {
+        // これ以上無視できるコンテキストがない
+        break;
+      }
+      const hunkLines = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+      const oldLines = hunkLines.filter(line => line.op !== '+');
+
+      // old_lines が 0 の hunk は old_start の行の後ろに挿入する
+      const nominal = (hunk.old_lines === 0 ? hunk.old_start : hunk.old_start - 1) + dropStart + delta;
+      const position = findLines(lines, oldLines, nominal + lastOffset, minPosition);
+      if (position === null) {
+        continue;
+      }
+
+      const replacement: string[] = [];
+      let oldIndex = 0;
+      for (const line of hunkLines) {
+        if (line.op === '+') {
+          replacement.push(line.text + eol);
+        } else {
+          // コンテキスト行はファイルの行（改行コード・末尾の空白）をそのまま使う
+          if (line.op === ' ') {
+            replacement.push(lines[position + oldIndex] as string);
+          }
+          oldIndex++;
+        }
+      }
+      // ファイル末尾の改行の有無を変更後の内容に合わせる
+      const last = replacement[replacement.length - 1];
+      if (dropEnd === 0 && last !== undefined && position + oldLines.length >= lines.length) {
+        replacement[replacement.length - 1] = hunk.new_no_newline
+          ? last.replace(/\r?\n$/, '')
+          : last.endsWith('\n') ? last : last + eol;
+      }
+
+      lines.splice(position, oldLines.length, ...replacement);
+      const offset = position - nominal;
+      results.push({
+        ...base,
+        status: fuzz > 0 ? 'fuzz' : offset !== 0 ? 'offset' : 'applied',
+        line: position - delta + 1,
+        ...(offset !== 0 && { offset }),
+        ...(fuzz > 0 && { fuzz })
+      });
+      delta += replacement.length - oldLines.length;
+      lastOffset = offset;
+      minPosition = position + replacement.length;
+      return;
+    }
+
+    // 既に適用済みか（変更後の内容が見つかる）
+    const newLines = hunk.lines.filter(line => line.op !== '-');
+    const hasChanges = hunk.lines.some(line => line.op !== ' ');
+    const alreadyApplied = hasChanges && findLines(lines, newLines, hunk.new_start - 1 + lastOffset, 0) !== null;
+    results.push({
+      ...base,
+      status: 'failed',
+      reason: alreadyApplied
+        ? 'Changes appear to be already applied'
+        : `Context not found (expected near line ${hunk.old_start})`
+    });
+  });
+
+  return { content: lines.join(''), results };
+}
+
+/**
+ * 期待位置に最も近い一致位置を探す（改行コードは無視）
+ */
+function findLines(lines: string[], target: PatchLine[], expected: number, minPosition: number): number | null {
+  const maxPosition = lines.length - target.length;
+  if (maxPosition < minPosition) {
+    return null;
+  }
+  const matchesAt = (position: number): boolean =>
+    target.every((line, i) => (lines[position + i] as string).replace(/\r?\n$/, '') === line.text);
+
+  const start = Math.min(Math.max(expected, minPosition), maxPosition);
+  if (target.length === 0) {
+    return start;
+  }
+  for (let distance = 0; start - distance >= minPosition || start + distance <= maxPosition; distance++) {
+    if (start + distance <= maxPosition && matchesAt(start + distance)) {
+      return start + distance;
+    }
+    if (distance > 0 && start - distance >= minPosition && matchesAt(start - distance)) {
+      return start - distance;
+    }
+  }
+  return null;
+}
+
+/**
+ * hunk を解析（行数は @@ 行の件数だけ読む）
+ */
+function parseHunk(lines: string[], startIndex: number): { hunk: PatchHunk; next: number } {
+  const header = lines[startIndex] as string;
+  const match = header.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+  if (!match) {
+    throw new Error(`Invalid hunk header at line ${startIndex + 1}: ${header}`);
+  }
+
+  const hunk: PatchHunk = {
+    old_start: parseInt(match[1] as string, 10),
+    old_lines: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+    new_start: parseInt(match[3] as string, 10),
+    new_lines: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+    header,
+    lines: [],
+    old_no_newline: false,
+    new_no_newline: false
+  };
+
+  let oldRemaining = hunk.old_lines;
+  let newRemaining = hunk.new_lines;
+  let i = startIndex + 1;
+  while (i < lines.length && (oldRemaining > 0 || newRemaining > 0 || (lines[i] as string).startsWith('\\'))) {
+    const line = lines[i] as string;
+    if (line.startsWith('\\')) {
+      // 直前の行に改行がない
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous?.op !== '+') {
+        hunk.old_no_newline = true;
+      }
+      if (previous?.op !== '-') {
+        hunk.new_no_newline = true;
+      }
+      i++;
+      continue;
+    }
+
+    // 空行は末尾の空白が削られたコンテキスト行として扱う
+    const op = line === '' ? ' ' : line[0];
+    if (op === ' ' && oldRemaining > 0 && newRemaining > 0) {
+      oldRemaining--;
+      newRemaining--;
+    } else if (op === '-' && oldRemaining > 0) {
+      oldRemaining--;
+    } else if (op === '+' && newRemaining > 0) {
+      newRemaining--;
+    } else {
+      throw new Error(`Hunk at line ${startIndex + 1} is shorter than its header (${header})`);
+    }
+    hunk.lines.push({ op, text: line.slice(1) });
+    i++;
+  }
+
+  if (oldRemaining > 0 || newRemaining > 0) {
+    throw new Error(`Hunk at line ${startIndex + 1} is truncated (${header})`);
+  }
+  return { hunk, next: i };
+}
+
+/**
+ * 先頭から続くコンテキスト行数
+ */
+function countContext(lines: PatchLine[]): number {
+  const index = lines.findIndex(line => line.op !== ' ');
+  return index === -1 ? lines.length : index;
+}
+
+/**
+ * --- / +++ のファイル名（/dev/null は null、タブ以降のタイムスタンプは除く）
+ */
+function parseFileName(value: string): string | null {
+  const name = value.startsWith('"') ? unquotePath(value) : (value.split('\t')[0] as string).trimEnd();
+  return name === '/dev/null' ? null : name;
+}
+
+/**
+ * diff --git a/x b/y のパスを取得（スペースを含むパスは前後が同じ場合のみ判定できる）
+ */
+function parseGitHeaderPaths(value: string): [string, string] | null {
+  if (value.startsWith('"')) {
+    const end = findClosingQuote(value);
+    const first = unquotePath(value.slice(0, end + 1));
+    const rest = value.slice(end + 2);
+    return [first, rest.startsWith('"') ? unquotePath(rest) : rest];
+  }
+
+  const quoted = value.indexOf(' "');
+  if (quoted !== -1) {
+    return [value.slice(0, quoted), unquotePath(value.slice(quoted + 1))];
+  }
+
+  // 同じパスなら "a/P b/P" のちょうど中央が区切り
+  const middle = (value.length - 1) / 2;
+  if (Number.isInteger(middle) && value[middle] === ' ') {
+    const first = value.slice(0, middle);
+    const second = value.slice(middle + 1);
+    if (first.replace(/^[^/]*\//, '') === second.replace(/^[^/]*\//, '')) {
+      return [first, second];
+    }
+  }
+
+  const separator = value.lastIndexOf(' b/');
+  if (separator === -1) {
+    return null;
+  }
+  return [value.slice(0, separator), value.slice(separator + 1)];
+}
+
+/**
+ * 先頭の strip 個のディレクトリを除く
+ */
+function stripPath(filePath: string, strip: number): string {
+  const parts = filePath.split('/');
+  if (parts.length <= strip) {
+    throw new Error(`Cannot strip ${strip} leading components from "${filePath}"`);
+  }
+  return parts.slice(strip).join('/');
+}
+
+/**
+ * Git の C 形式でクォートされたパスを戻す（"a/\303\251.txt" など）
+ */
+function unquotePath(value: string): string {
+  if (!value.startsWith('"')) {
+    return value;
+  }
+  const body = value.slice(1, findClosingQuote(value));
+  const bytes: number[] = [];
+  const escapes: Record<string, number> = { n: 10, t: 9, r: 13, '"': 34, '\\': 92, a: 7, b: 8, f: 12, v: 11 };
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i] as string;
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf8'));
+      continue;
+    }
+    const next = body[i + 1] ?? '';
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+      i++;
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+function findClosingQuote(value: string): number {
+  for (let i = 1; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i++;
+    } else if (value[i] === '"') {
+      return i;
+    }
+  }
+  return value.length;
+}
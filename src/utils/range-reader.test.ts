@@ -0,0 +1,61 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { readByteRange, readLineRange } from './range-reader.js';
+
+describe('range-reader', () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'range-reader-'));
+    file = path.join(dir, 'lines.txt');
+    await fs.writeFile(file, Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('reads an inclusive line range and counts every line', async () => {
+    const result = await readLineRange(file, 3, 5);
+    expect(result.lines).toEqual(['line 3', 'line 4', 'line 5']);
+    expect(result).toMatchObject({ start_line: 3, end_line: 5, total_lines: 10, truncated: false });
+  });
+
+  test('reads to the end of the file without end_line', async () => {
+    const result = await readLineRange(file, 9, undefined);
+    expect(result.lines).toEqual(['line 9', 'line 10']);
+    expect(result.end_line).toBe(10);
+  });
+
+  test('returns no lines past the end of the file', async () => {
+    const result = await readLineRange(file, 20, 30);
+    expect(result.lines).toEqual([]);
+    expect(result.end_line).toBe(19);
+    expect(result.total_lines).toBe(10);
+  });
+
+  test('stops at the byte limit but keeps counting lines', async () => {
+    const result = await readLineRange(file, 1, undefined, 'utf8', 20);
+    expect(result.lines).toEqual(['line 1', 'line 2']);
+    expect(result.truncated).toBe(true);
+    expect(result.total_lines).toBe(10);
+  });
+
+  test('reads a byte range and clamps it to the file size', async () => {
+    const result = await readByteRange(file, 7, 6);
+    expect(result.content).toBe('line 2');
+    expect(result.total_bytes).toBe((await fs.stat(file)).size);
+
+    const tail = await readByteRange(file, result.total_bytes - 3, 100);
+    expect(tail.content).toBe('10\n');
+    expect(tail.truncated).toBe(false);
+  });
+
+  test('reports truncation when the byte range exceeds the limit', async () => {
+    const result = await readByteRange(file, 0, undefined, 'utf8', 4);
+    expect(result.content).toBe('line');
+    expect(result.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Smart Filesystem MCP - Range Reader
+ * 行範囲・バイト範囲の部分読み込み（ファイル全体をメモリに載せない）
+ */
+
+import * as fs from 'fs/promises';
+import * as readline from 'readline';
+import { SAFETY_LIMITS } from './constants.js';
+import { createDecodedStream, decodeBuffer, byteLengthOf } from './encoding.js';
+
+/**
+ * 行範囲読み込み結果
+ */
+export interface LineRangeResult {
+  lines: string[];
+  start_line: number;
+  end_line: number;
+  total_lines: number;
+  truncated: boolean;
+}
+
+/**
+ * バイト範囲読み込み結果
+ */
+export interface ByteRangeResult {
+  content: string;
+  offset: number;
+  length: number;
+  total_bytes: number;
+  truncated: boolean;
+}
+
+/**
+ * 指定した行範囲をストリームで読み込む（行番号は1始まり、両端を含む）
+ */
+export async function readLineRange(
+  filePath: string,
+  startLine: number,
+  endLine: number | undefined,
+  encoding: string = 'utf8',
+  maxBytes: number = SAFETY_LIMITS.MAX_RANGE_READ_SIZE
+): Promise<LineRangeResult> {
+  const lines: string[] = [];
+  let lineCount = 0;
+  let collectedBytes = 0;
+  let truncated = false;
+
+  const rl = readline.createInterface({
+    input: createDecodedStream(filePath, encoding),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of rl) {
+    lineCount++;
+
+    // 範囲外の行はカウントのみ（総行数を返すため最後まで読む）
+    if (lineCount < startLine || truncated) continue;
+    if (endLine !== undefined && lineCount > endLine) continue;
+
+    // スライスが上限を超える場合は打ち切る
+    const lineBytes = byteLengthOf(line, encoding) + 1;
+    if (collectedBytes + lineBytes > maxBytes && lines.length > 0) {
+      truncated = true;
+      continue;
+    }
+
+    lines.push(line);
+    collectedBytes += lineBytes;
+  }
+
+  return {
+    lines,
+    start_line: startLine,
+    end_line: lines.length > 0 ? startLine + lines.length - 1 : startLine - 1,
+    total_lines: lineCount,
+    truncated
+  };
+}
+
+/**
+ * 指定したバイト範囲を読み込む
+ */
+export async function readByteRange(
+  filePath: string,
+  offset: number,
+  length: number | undefined,
+  encoding: string = 'utf8',
+  maxBytes: number = SAFETY_LIMITS.MAX_RANGE_READ_SIZE
+): Promise<ByteRangeResult> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const stats = await handle.stat();
+    const available = Math.max(0, stats.size - offset);
+    const requested = length !== undefined ? Math.min(length, available) : available;
+    const bytesToRead = Math.min(requested, maxBytes);
+
+    const buffer = Buffer.alloc(bytesToRead);
+    const { bytesRead } = await handle.read(buffer, 0, bytesToRead, offset);
+
+    return {
+      content: decodeBuffer(buffer.subarray(0, bytesRead), encoding),
+      offset,
+      length: bytesRead,
+      total_bytes: stats.size,
+      truncated: bytesToRead < requested
+    };
+  } finally {
+    await handle.close();
+  }
+}
\ No newline at end of file
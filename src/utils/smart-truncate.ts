@@ -0,0 +1,179 @@
+/**
+ * Smart Filesystem MCP - Smart Truncation
+ * トークン予算に合わせて先頭・末尾を残し、中間を省略する
+ */
+
+import { estimateTokenCount } from './helpers.js';
+
+/**
+ * 省略された行範囲
+ */
+export interface OmittedRange {
+  start_line: number;
+  end_line: number;
+  estimated_tokens: number;
+}
+
+/**
+ * 切り詰め結果
+ */
+export interface TruncationResult {
+  content: string;
+  truncated: boolean;
+  total_lines: number;
+  shown_lines: number;
+  original_tokens: number;
+  estimated_tokens: number;
+  omitted_ranges: OmittedRange[];
+  boundary_aware: boolean;
+}
+
+/**
+ * 切り詰めオプション
+ */
+export interface TruncationOptions {
+  /** 切断位置として優先する行（シンボルの開始行・終了行、1始まり） */
+  boundaries?: { start_line: number; end_line: number }[];
+
+  /** 先頭に割り当てる予算の割合 */
+  headRatio?: number;
+}
+
+// 省略マーカー自体のトークン分を予約
+const MARKER_RESERVE_TOKENS = 30;
+
+// 境界へのスナップで失ってよい範囲の割合
+const MAX_BOUNDARY_LOSS = 0.5;
+
+/**
+ * 予算を超える内容を先頭・末尾を残して切り詰める
+ */
+export function truncateToTokenBudget(
+  content: string,
+  maxTokens: number,
+  options: TruncationOptions = {}
+): TruncationResult {
+  const lines = content.split('\n');
+  const originalTokens = estimateTokenCount(content);
+
+  if (originalTokens <= maxTokens) {
+    return {
+      content,
+      truncated: false,
+      total_lines: lines.length,
+      shown_lines: lines.length,
+      original_tokens: originalTokens,
+      estimated_tokens: originalTokens,
+      omitted_ranges: [],
+      boundary_aware: false
+    };
+  }
+
+  const lineTokens = lines.map(line => estimateTokenCount(line + '\n'));
+  const available = Math.max(0, maxTokens - MARKER_RESERVE_TOKENS);
+  const headBudget = Math.floor(available * (options.headRatio ?? 2 / 3));
+
+  // 先頭: 予算内に収まる行数（行インデックスの終端、排他的）
+  let headEnd = 0;
+  let used = 0;
+  while (headEnd < lines.length && used + (lineTokens[headEnd] ?? 0) <= headBudget) {
+    used += lineTokens[headEnd] ?? 0;
+    headEnd++;
+  }
+
+  // 末尾: 残り予算で後ろから
+  let tailStart = lines.length;
+  const tailBudget = available - used;
+  let tailUsed = 0;
+  while (tailStart > headEnd && tailUsed + (lineTokens[tailStart - 1] ?? 0) <= tailBudget) {
+    tailUsed += lineTokens[tailStart - 1] ?? 0;
+    tailStart--;
+  }
+
+  // 関数境界で切断できる場合はそちらを優先
+  let boundaryAware = false;
+  if (options.boundaries && options.boundaries.length > 0) {
+    const snappedHead = snapHeadToBoundary(headEnd, options.boundaries);
+    if (snappedHead !== -1) {
+      headEnd = snappedHead;
+      boundaryAware = true;
+    }
+
+    const snappedTail = snapTailToBoundary(tailStart, lines.length, options.boundaries);
+    if (snappedTail !== -1 && snappedTail >= headEnd) {
+      tailStart = snappedTail;
+      boundaryAware = true;
+    }
+  }
+
+  const omittedTokens = estimateTokenCount(lines.slice(headEnd, tailStart).join('\n'));
+  const omitted: OmittedRange = {
+    start_line: headEnd + 1,
+    end_line: tailStart,
+    estimated_tokens: omittedTokens
+  };
+
+  const marker = `... [lines ${omitted.start_line}-${omitted.end_line} omitted (~${omittedTokens.toLocaleString()} tokens) - use start_line/end_line to read them] ...`;
+  const resultContent = [
+    ...lines.slice(0, headEnd),
+    marker,
+    ...lines.slice(tailStart)
+  ].join('\n');
+
+  return {
+    content: resultContent,
+    truncated: true,
+    total_lines: lines.length,
+    shown_lines: headEnd + (lines.length - tailStart),
+    original_tokens: originalTokens,
+    estimated_tokens: estimateTokenCount(resultContent),
+    omitted_ranges: [omitted],
+    boundary_aware: boundaryAware
+  };
+}
+
+/**
+ * 先頭部分の終端を直前のシンボル境界に合わせる（見つからない場合は-1）
+ */
+function snapHeadToBoundary(headEnd: number, boundaries: { start_line: number; end_line: number }[]): number {
+  const minimum = Math.ceil(headEnd * (1 - MAX_BOUNDARY_LOSS));
+  let best = -1;
+
+  for (const boundary of boundaries) {
+    // シンボルがheadEnd内で完結している場合、その終了行の直後で切る
+    const candidate = boundary.end_line;
+    if (candidate <= headEnd && candidate >= minimum && candidate > best) {
+      best = candidate;
+    }
+    // シンボル開始直前で切る
+    const beforeStart = boundary.start_line - 1;
+    if (beforeStart <= headEnd && beforeStart >= minimum && beforeStart > best) {
+      best = beforeStart;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 末尾部分の開始をシンボル開始行に合わせる（見つからない場合は-1）
+ */
+function snapTailToBoundary(
+  tailStart: number,
+  totalLines: number,
+  boundaries: { start_line: number; end_line: number }[]
+): number {
+  const tailLength = totalLines - tailStart;
+  const maximum = tailStart + Math.floor(tailLength * MAX_BOUNDARY_LOSS);
+  let best = -1;
+
+  for (const boundary of boundaries) {
+    // 行インデックスの開始位置（0始まり）
+    const candidate = boundary.start_line - 1;
+    if (candidate >= tailStart && candidate <= maximum && (best === -1 || candidate < best)) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { checkSyntaxChange, detectSyntaxLanguage } from './syntax-check.js';
+
+// jsonc-parser の UMD ビルドは __esModule を持つため、CommonJS に変換したテストでは default import を補う
+jest.mock('jsonc-parser', () => {
+  const actual = jest.requireActual('jsonc-parser');
+  return { __esModule: true, ...actual, default: actual };
+});
+
+describe('detectSyntaxLanguage', () => {
+  test.each([
+    ['package.json', 'json'],
+    ['tsconfig.build.json', 'jsonc'],
+    ['.vscode/settings.json', 'jsonc'],
+    ['config.yml', 'yaml'],
+    ['Cargo.toml', 'toml'],
+    ['icon.svg', 'xml'],
+    ['index.mts', 'typescript'],
+    ['server.cjs', 'javascript'],
+    ['App.tsx', undefined],
+    ['README.md', undefined]
+  ])('%s → %s', (file, language) => {
+    expect(detectSyntaxLanguage(file)).toBe(language);
+  });
+});
+
+describe('checkSyntaxChange', () => {
+  test('skips unsupported extensions', () => {
+    expect(checkSyntaxChange('notes.txt', undefined, '{')).toBeUndefined();
+  });
+
+  test.each([
+    ['data.json', '{"a": 1}', '{"a": 1,}'],
+    ['tsconfig.json', '{\n  // comment\n  "a": [1, 2,],\n}', '{"a": [1, 2}'],
+    ['config.yaml', 'a: 1\nb:\n  - x\n', 'a: 1\n  b: 2\n'],
+    ['Cargo.toml', '[package]\nname = "x"\n', '[package]\nname = "x"\nname = "y"\n'],
+    ['layout.xml', '<?xml version="1.0"?>\n<root a="1"><child/></root>', '<root><child></root>'],
+    ['main.ts', 'const re = /[/]/g;\nconst s = `a${"}"}b`;\nfunction f() { return [1, (2)]; }\n', 'function f() {\n  return [1, 2);\n}\n']
+  ])('%s: accepts valid content and rejects a syntax error', (file, valid, invalid) => {
+    expect(checkSyntaxChange(file, undefined, valid)?.status).toBe('valid');
+    expect(checkSyntaxChange(file, undefined, invalid)?.status).toBe('invalid');
+  });
+
+  test('reports the error position with surrounding lines', () => {
+    const result = checkSyntaxChange('data.json', '{}', '{\n  "a": 1,\n  "b": 2,\n}\n');
+
+    expect(result).toMatchObject({ language: 'json', status: 'invalid', error: { line: 3, column: 9 } });
+    expect(result?.error?.context).toContain('> 3 |   "b": 2,');
+  });
+
+  test('allows changes to content that already had errors', () => {
+    expect(checkSyntaxChange('main.ts', 'function f( {\n', 'function g( {\n')?.status).toBe('preexisting');
+  });
+
+  test('checks a .json file that already has comments as JSONC', () => {
+    const before = '{\n  // port\n  "port": 80\n}\n';
+    expect(checkSyntaxChange('app.json', before, before.replace('80', '8080'))).toMatchObject({ language: 'jsonc', status: 'valid' });
+  });
+
+  test('does not block .js files that contain JSX', () => {
+    const jsx = [
+      'export function Greeting({ name }) {',
+      '  return (',
+      "    <p title='it\\'s'>Don't worry, {name} :) </p>",
+      '  );',
+      '}',
+      ''
+    ].join('\n');
+
+    const result = checkSyntaxChange('Greeting.js', undefined, jsx);
+    expect(result?.status).toBe('warning');
+    expect(result?.error).toBeDefined();
+  });
+
+  test('still rejects errors in .js files without JSX', () => {
+    expect(checkSyntaxChange('util.js', undefined, 'if (a < b && c > d) {\n  run(;\n}\n')?.status).toBe('invalid');
+  });
+
+  test('reads a regex literal after the condition of a control statement', () => {
+    const code = 'if (x) /foo}/.test(s);\nwhile (next()) /[)]/g.exec(t);\nfor (;;) /a{/.test(u);\n';
+    expect(checkSyntaxChange('main.ts', undefined, code)?.status).toBe('valid');
+    // 関数呼び出しの後の / は除算のまま
+    expect(checkSyntaxChange('main.ts', undefined, 'const r = f(x) / g(y) / 2;\n')?.status).toBe('valid');
+  });
+
+  test('skips content over the size limit', () => {
+    expect(checkSyntaxChange('big.json', undefined, ' '.repeat(6 * 1024 * 1024))?.status).toBe('skipped');
+  });
+});
@@ -0,0 +1,899 @@
+/**
+ * Smart Filesystem MCP - Syntax Check
+ * 書き込み前の構文チェック（JSON/JSONC/YAML/TOML/XML と、TS/JS の括弧・文字列の対応）
+ * 編集で構文エラーが新たに発生したかを判定し、エラー位置と前後の行を返す
+ */
+
+import * as path from 'path';
+import jsonc from 'jsonc-parser';
+import { parseAllDocuments } from 'yaml';
+import { SAFETY_LIMITS } from './constants.js';
+import type { SyntaxCheckResult, SyntaxLanguage } from '../core/types.js';
+
+/**
+ * 構文エラーの位置（1始まり）
+ */
+interface SyntaxIssue {
+  message: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * 拡張子と言語の対応（JSX/TSX は JSX 内のテキストを誤検出するため対象外）
+ */
+const LANGUAGE_BY_EXTENSION: Record<string, SyntaxLanguage> = {
+  '.json': 'json',
+  '.jsonc': 'jsonc',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.xml': 'xml',
+  '.svg': 'xml',
+  '.xsd': 'xml',
+  '.xsl': 'xml',
+  '.xslt': 'xml',
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript'
+};
+
+/**
+ * 式の位置に置かれた JSX 要素（<Tag または <>）。.js ファイルでも JSX が使われることがある
+ */
+const JSX_ELEMENT_PATTERN = /(?:^|[=(,:?&|!{}[;>]|\breturn|\byield)\s*<(?:>|[A-Za-z][\w.:-]*(?:\s|\/?>))/m;
+
+/**
+ * コメント・末尾カンマを許す .json（tsconfig.json 等）
+ */
+const JSONC_FILE_PATTERN = /^(tsconfig|jsconfig)([.-].*)?\.json$|^\.?(eslintrc|babelrc|swcrc)\.json$|^(settings|launch|tasks|extensions|devcontainer)\.json$/;
+
+const LANGUAGE_LABELS: Record<SyntaxLanguage, string> = {
+  json: 'JSON',
+  jsonc: 'JSONC',
+  yaml: 'YAML',
+  toml: 'TOML',
+  xml: 'XML',
+  typescript: 'TypeScript',
+  javascript: 'JavaScript'
+};
+
+/**
+ * 拡張子から構文チェックの言語を判定（対象外の場合は undefined）
+ */
+export function detectSyntaxLanguage(filePath: string): SyntaxLanguage | undefined {
+  const language = LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+  if (language === 'json' && JSONC_FILE_PATTERN.test(path.basename(filePath))) {
+    return 'jsonc';
+  }
+  return language;
+}
+
+/**
+ * 言語の表示名
+ */
+export function syntaxLanguageLabel(language: SyntaxLanguage): string {
+  return LANGUAGE_LABELS[language];
+}
+
+/**
+ * 変更後の内容の構文をチェック
+ * before（変更前の内容、新規ファイルは undefined）にも同じエラーがある場合は変更によるものではないため preexisting とする
+ * 対象外の拡張子の場合は undefined
+ */
+export function checkSyntaxChange(filePath: string, before: string | undefined, after: string): SyntaxCheckResult | undefined {
+  let language = detectSyntaxLanguage(filePath);
+  if (!language) {
+    return undefined;
+  }
+
+  if (after.length > SAFETY_LIMITS.SYNTAX_CHECK_MAX_SIZE) {
+    return { language, status: 'skipped', reason: 'File too large for syntax check' };
+  }
+
+  // 既存の .json がコメント付きで書かれている場合は JSONC としてチェック（末尾カンマは許さない）
+  if (language === 'json' && before !== undefined && findSyntaxIssue(before, 'json') && !checkJson(stripBom(before), true, false)) {
+    language = 'jsonc';
+  }
+
+  const issue = findSyntaxIssue(after, language);
+  if (!issue) {
+    return { language, status: 'valid' };
+  }
+
+  const error = {
+    ...issue,
+    context: formatErrorContext(stripBom(after), issue.line, issue.column)
+  };
+  if (before !== undefined && findSyntaxIssue(before, language)) {
+    return {
+      language,
+      status: 'preexisting',
+      reason: 'The original content already had syntax errors',
+      error
+    };
+  }
+  // 括弧のチェックは JSX のテキストや属性を解釈しないため、JSX を含む .js は書き込みを止めない
+  if (language === 'javascript' && JSX_ELEMENT_PATTERN.test(after)) {
+    return {
+      language,
+      status: 'warning',
+      reason: 'The content contains JSX, which the bracket check does not parse - written without validation',
+      error
+    };
+  }
+  return { language, status: 'invalid', error };
+}
+
+/**
+ * 最初の構文エラーを返す（エラーがない場合は null）
+ */
+function findSyntaxIssue(content: string, language: SyntaxLanguage): SyntaxIssue | null {
+  const text = stripBom(content);
+  switch (language) {
+    case 'json':
+      return checkJson(text, false, false);
+    case 'jsonc':
+      return checkJson(text, true, true);
+    case 'yaml':
+      return checkYaml(text);
+    case 'toml':
+      return new TomlChecker(text).check();
+    case 'xml':
+      return new XmlChecker(text).check();
+    default:
+      return checkBrackets(text);
+  }
+}
+
+function stripBom(content: string): string {
+  return content.startsWith('\uFEFF') ? content.slice(1) : content;
+}
+
+/**
+ * エラー位置の前後の行（エラー行には > と列位置の ^ を付ける）
+ */
+function formatErrorContext(content: string, line: number, column: number): string[] {
+  const lines = content.split(/\r?\n/);
+  // 末尾の改行の後の空行はエラー位置でない限り表示しない
+  const lineCount = lines[lines.length - 1] === '' && line < lines.length ? lines.length - 1 : lines.length;
+  const first = Math.max(1, line - SAFETY_LIMITS.SYNTAX_ERROR_CONTEXT_LINES);
+  const last = Math.min(lineCount, line + SAFETY_LIMITS.SYNTAX_ERROR_CONTEXT_LINES);
+  const width = String(last).length;
+  const context: string[] = [];
+
+  for (let n = first; n <= last; n++) {
+    const text = (lines[n - 1] ?? '').replace(/\t/g, '  ');
+    context.push(`${n === line ? '>' : ' '} ${String(n).padStart(width)} | ${text}`);
+    if (n === line) {
+      // タブは2文字に展開しているため列位置も合わせる
+      const prefix = (lines[n - 1] ?? '').slice(0, column - 1).replace(/\t/g, '  ');
+      context.push(`  ${' '.repeat(width)} | ${' '.repeat(prefix.length)}^`);
+    }
+  }
+  return context;
+}
+
+/**
+ * オフセットを行・列に変換
+ */
+function positionAt(content: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+// ===== JSON / YAML =====
+
+function checkJson(content: string, allowComments: boolean, allowTrailingComma: boolean): SyntaxIssue | null {
+  const errors: jsonc.ParseError[] = [];
+  jsonc.parse(content, errors, { allowTrailingComma, disallowComments: !allowComments });
+
+  const error = errors[0];
+  if (!error) {
+    return null;
+  }
+  // 閉じ括弧の直前がカンマなら末尾カンマ
+  const before = content.slice(0, error.offset).replace(/\s+$/, '');
+  const trailingComma = before.endsWith(',') && /^[}\]]/.test(content.slice(error.offset));
+  let message: string;
+  if (trailingComma) {
+    message = 'Trailing comma is not allowed in JSON';
+  } else if (error.error === jsonc.ParseErrorCode.InvalidCommentToken) {
+    message = 'Comments are not allowed in JSON';
+  } else {
+    // PropertyNameExpected → Property name expected
+    message = jsonc.printParseErrorCode(error.error).replace(/([a-z])([A-Z])/g, '$1 $2').replace(/ ([A-Z])/g, (_, c: string) => ` ${c.toLowerCase()}`);
+  }
+  return { message, ...positionAt(content, trailingComma ? before.length - 1 : error.offset) };
+}
+
+function checkYaml(content: string): SyntaxIssue | null {
+  const documents = parseAllDocuments(content);
+  const docs = Array.isArray(documents) ? documents : [documents];
+
+  for (const doc of docs) {
+    const error = doc.errors[0];
+    if (error) {
+      const position = error.linePos?.[0];
+      return {
+        message: (error.message.split('\n')[0] as string).replace(/ at line \d+, column \d+:?$/, '').replace(/:$/, ''),
+        line: position?.line ?? 1,
+        column: position?.col ?? 1
+      };
+    }
+  }
+  return null;
+}
+
+// ===== TS / JS =====
+
+// この直後の / は正規表現リテラルの開始
+const REGEX_PRECEDING_CHARS = '(,=:[!&|?{};+-*%<>~^';
+const REGEX_PRECEDING_KEYWORDS = /(?:^|[^\w$])(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+// この直後の ( ... ) は制御文の条件式（閉じ括弧の後は文の開始）
+const CONTROL_HEADER_KEYWORDS = new Set(['if', 'while', 'for', 'with']);
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * 括弧・文字列・コメント・テンプレートリテラルの対応をチェック（構文解析はしない）
+ */
+function checkBrackets(content: string): SyntaxIssue | null {
+  // ${ はテンプレートリテラルの式部分（対応する } でテンプレートに戻る）
+  const stack: Array<{ char: string; offset: number; controlHeader?: boolean }> = [];
+  let lastSignificant = '';
+  let lastWord = '';
+  let i = 0;
+
+  const issueAt = (message: string, offset: number): SyntaxIssue => ({ message, ...positionAt(content, offset) });
+
+  // テンプレートリテラルを読み進める（${ で止まった場合は true）
+  const scanTemplate = (start: number): SyntaxIssue | true | null => {
+    while (i < content.length) {
+      const ch = content[i];
+      if (ch === '\\') {
+        i += 2;
+      } else if (ch === '`') {
+        i++;
+        return null;
+      } else if (ch === '$' && content[i + 1] === '{') {
+        stack.push({ char: '${', offset: i });
+        i += 2;
+        return true;
+      } else {
+        i++;
+      }
+    }
+    return issueAt('Unterminated template literal', start);
+  };
+
+  while (i < content.length) {
+    const ch = content[i] as string;
+    const next = content[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // コメント
+    if (ch === '/' && next === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      if (end === -1) {
+        return issueAt('Unterminated block comment', i);
+      }
+      i = end + 2;
+      continue;
+    }
+
+    // 文字列
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      i++;
+      while (i < content.length && content[i] !== ch) {
+        if (content[i] === '\n') {
+          return issueAt('Unterminated string literal', start);
+        }
+        i += content[i] === '\\' ? 2 : 1;
+      }
+      if (i >= content.length) {
+        return issueAt('Unterminated string literal', start);
+      }
+      i++;
+      lastSignificant = ch;
+      lastWord = '';
+      continue;
+    }
+    if (ch === '`') {
+      const start = i;
+      i++;
+      const result = scanTemplate(start);
+      if (result !== null && result !== true) {
+        return result;
+      }
+      lastSignificant = result === true ? '{' : '`';
+      lastWord = '';
+      continue;
+    }
+
+    // 正規表現リテラル（行内で閉じない場合は除算とみなす）
+    if (ch === '/' && (lastSignificant === '' || REGEX_PRECEDING_CHARS.includes(lastSignificant) || REGEX_PRECEDING_KEYWORDS.test(lastWord))) {
+      const end = findRegexEnd(content, i);
+      if (end > i) {
+        i = end + 1;
+        while (i < content.length && /[a-z]/i.test(content[i] as string)) i++;
+        lastSignificant = '/';
+        lastWord = '';
+        continue;
+      }
+    }
+
+    // 括弧
+    if (ch === '(' || ch === '[' || ch === '{') {
+      stack.push({ char: ch, offset: i, ...(ch === '(' && CONTROL_HEADER_KEYWORDS.has(lastWord) && { controlHeader: true }) });
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      const open = stack.pop();
+      if (!open) {
+        return issueAt(`Unexpected '${ch}' without matching '${CLOSING_BRACKETS[ch]}'`, i);
+      }
+      if (open.char === '${' && ch === '}') {
+        // テンプレートリテラルの続き
+        i++;
+        const result = scanTemplate(open.offset);
+        if (result !== null && result !== true) {
+          return result;
+        }
+        lastSignificant = result === true ? '{' : '`';
+        lastWord = '';
+        continue;
+      }
+      const expected = open.char === '${' ? '{' : open.char;
+      if (expected !== CLOSING_BRACKETS[ch]) {
+        const { line } = positionAt(content, open.offset);
+        return issueAt(`Unexpected '${ch}' - '${expected}' from line ${line} is not closed`, i);
+      }
+      if (open.controlHeader) {
+        // if (x) /re/.test(s) の / は除算ではなく正規表現
+        lastSignificant = ';';
+        lastWord = '';
+        i++;
+        continue;
+      }
+    }
+
+    if (/[\w$]/.test(ch)) {
+      let end = i;
+      while (end < content.length && /[\w$]/.test(content[end] as string)) end++;
+      lastWord = content.slice(i, end);
+      lastSignificant = 'a';
+      i = end;
+      continue;
+    }
+
+    lastSignificant = ch;
+    lastWord = '';
+    i++;
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    const label = unclosed.char === '${' ? 'Template expression ${' : `'${unclosed.char}'`;
+    return issueAt(`${label} is never closed`, unclosed.offset);
+  }
+  return null;
+}
+
+/**
+ * 正規表現リテラルの終端（見つからない場合は開始位置）
+ */
+function findRegexEnd(content: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '\n') {
+      return start;
+    } else if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      inClass = true;
+    } else if (ch === ']') {
+      inClass = false;
+    } else if (ch === '/' && !inClass) {
+      return i;
+    }
+  }
+  return start;
+}
+
+// ===== XML =====
+
+const XML_NAME = /^[A-Za-z_:][\w.:\-\u00B7-\uFFFF]*/;
+
+/**
+ * XML の整形式チェック（タグの対応・属性・実体参照・ルート要素）
+ */
+class XmlChecker {
+  private i = 0;
+
+  constructor(private readonly content: string) {}
+
+  check(): SyntaxIssue | null {
+    try {
+      this.parse();
+      return null;
+    } catch (error) {
+      if (error instanceof ScanError) {
+        return { message: error.message, ...positionAt(this.content, error.offset) };
+      }
+      throw error;
+    }
+  }
+
+  private parse(): void {
+    const { content } = this;
+    const stack: Array<{ name: string; offset: number }> = [];
+    let roots = 0;
+
+    while (this.i < content.length) {
+      const lt = content.indexOf('<', this.i);
+      const textEnd = lt === -1 ? content.length : lt;
+      this.checkText(this.i, textEnd, stack.length === 0);
+      if (lt === -1) {
+        break;
+      }
+      this.i = lt;
+
+      if (content.startsWith('<?', this.i)) {
+        this.skipTo('?>', 'Unterminated processing instruction');
+      } else if (content.startsWith('<!--', this.i)) {
+        this.skipTo('-->', 'Unterminated comment');
+      } else if (content.startsWith('<![CDATA[', this.i)) {
+        if (stack.length === 0) {
+          throw new ScanError('CDATA section outside the root element', this.i);
+        }
+        this.skipTo(']]>', 'Unterminated CDATA section');
+      } else if (content.startsWith('<!', this.i)) {
+        this.skipDeclaration();
+      } else if (content.startsWith('</', this.i)) {
+        const start = this.i;
+        this.i += 2;
+        const name = this.readName('Expected element name after </');
+        this.skipSpaces();
+        if (content[this.i] !== '>') {
+          throw new ScanError(`Expected '>' to end </${name}>`, this.i);
+        }
+        this.i++;
+        const open = stack.pop();
+        if (!open) {
+          throw new ScanError(`Closing tag </${name}> without an open element`, start);
+        }
+        if (open.name !== name) {
+          throw new ScanError(`Closing tag </${name}> does not match <${open.name}> from line ${positionAt(content, open.offset).line}`, start);
+        }
+      } else {
+        const start = this.i;
+        this.i++;
+        const name = this.readName("'<' must start a tag (use &lt; in text)");
+        if (stack.length === 0 && ++roots > 1) {
+          throw new ScanError('Only one root element is allowed', start);
+        }
+        const selfClosing = this.readAttributes(name);
+        if (!selfClosing) {
+          stack.push({ name, offset: start });
+        }
+      }
+    }
+
+    const unclosed = stack[stack.length - 1];
+    if (unclosed) {
+      throw new ScanError(`Element <${unclosed.name}> is never closed`, unclosed.offset);
+    }
+    if (roots === 0) {
+      throw new ScanError('No root element', content.length);
+    }
+  }
+
+  /**
+   * 属性を読み、タグの終わり（> または />）まで進める（/> の場合は true）
+   */
+  private readAttributes(tagName: string): boolean {
+    const { content } = this;
+    const seen = new Set<string>();
+    for (;;) {
+      const hadSpace = this.skipSpaces();
+      if (this.i >= content.length) {
+        throw new ScanError(`Unterminated tag <${tagName}>`, this.i);
+      }
+      if (content.startsWith('/>', this.i)) {
+        this.i += 2;
+        return true;
+      }
+      if (content[this.i] === '>') {
+        this.i++;
+        return false;
+      }
+      if (!hadSpace) {
+        throw new ScanError(`Expected whitespace, '>' or '/>' in <${tagName}>`, this.i);
+      }
+      const attrStart = this.i;
+      const name = this.readName(`Invalid attribute in <${tagName}>`);
+      if (seen.has(name)) {
+        throw new ScanError(`Duplicate attribute '${name}' in <${tagName}>`, attrStart);
+      }
+      seen.add(name);
+      this.skipSpaces();
+      if (content[this.i] !== '=') {
+        throw new ScanError(`Attribute '${name}' needs a value`, this.i);
+      }
+      this.i++;
+      this.skipSpaces();
+      const quote = content[this.i];
+      if (quote !== '"' && quote !== "'") {
+        throw new ScanError(`Value of attribute '${name}' must be quoted`, this.i);
+      }
+      const end = content.indexOf(quote, this.i + 1);
+      if (end === -1) {
+        throw new ScanError(`Unterminated value of attribute '${name}'`, this.i);
+      }
+      if (content.slice(this.i + 1, end).includes('<')) {
+        throw new ScanError(`'<' is not allowed in attribute values (use &lt;)`, content.indexOf('<', this.i + 1));
+      }
+      this.checkEntities(this.i + 1, end);
+      this.i = end + 1;
+    }
+  }
+
+  /**
+   * テキスト部分（ルート要素の外は空白のみ）
+   */
+  private checkText(start: number, end: number, outsideRoot: boolean): void {
+    if (outsideRoot) {
+      const offset = this.content.slice(start, end).search(/\S/);
+      if (offset !== -1) {
+        throw new ScanError('Text is not allowed outside the root element', start + offset);
+      }
+      return;
+    }
+    this.checkEntities(start, end);
+  }
+
+  private checkEntities(start: number, end: number): void {
+    const text = this.content.slice(start, end);
+    for (let amp = text.indexOf('&'); amp !== -1; amp = text.indexOf('&', amp + 1)) {
+      if (!/^&(?:[A-Za-z_:][\w.:-]*|#\d+|#x[0-9A-Fa-f]+);/.test(text.slice(amp))) {
+        throw new ScanError("'&' must start an entity reference such as &amp;", start + amp);
+      }
+    }
+  }
+
+  /**
+   * <!DOCTYPE ...> 等（内部サブセットの [ ] を含む）
+   */
+  private skipDeclaration(): void {
+    const start = this.i;
+    let depth = 0;
+    for (this.i += 2; this.i < this.content.length; this.i++) {
+      const ch = this.content[this.i];
+      if (ch === '[') depth++;
+      else if (ch === ']') depth--;
+      else if (ch === '>' && depth <= 0) {
+        this.i++;
+        return;
+      }
+    }
+    throw new ScanError('Unterminated declaration', start);
+  }
+
+  private skipTo(terminator: string, message: string): void {
+    const end = this.content.indexOf(terminator, this.i);
+    if (end === -1) {
+      throw new ScanError(message, this.i);
+    }
+    this.i = end + terminator.length;
+  }
+
+  private readName(message: string): string {
+    const match = XML_NAME.exec(this.content.slice(this.i, this.i + 256));
+    if (!match) {
+      throw new ScanError(message, this.i);
+    }
+    this.i += match[0].length;
+    return match[0];
+  }
+
+  private skipSpaces(): boolean {
+    const start = this.i;
+    while (this.i < this.content.length && /[ \t\r\n]/.test(this.content[this.i] as string)) this.i++;
+    return this.i > start;
+  }
+}
+
+class ScanError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(message);
+  }
+}
+
+// ===== TOML =====
+
+const TOML_BARE_KEY = /^[A-Za-z0-9_-]+/;
+const TOML_SCALAR = new RegExp('^(?:' + [
+  'true', 'false',
+  '[+-]?(?:inf|nan)',
+  '0x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*', '0o[0-7](?:_?[0-7])*', '0b[01](?:_?[01])*',
+  '[+-]?(?:0|[1-9](?:_?\\d)*)(?:\\.\\d(?:_?\\d)*)?(?:[eE][+-]?\\d(?:_?\\d)*)?',
+  '\\d{4}-\\d{2}-\\d{2}(?:[Tt ]\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?(?:[Zz]|[+-]\\d{2}:\\d{2})?)?',
+  '\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?'
+].join('|') + ')(?=[\\s,\\]}#]|$)');
+
+/**
+ * TOML の構文チェック（キー・値・テーブル見出しと、同じテーブル内のキーの重複）
+ */
+class TomlChecker {
+  private i = 0;
+  private table = '';
+  private readonly keys = new Set<string>();
+  private readonly tables = new Set<string>();
+  private readonly arrayTables = new Map<string, number>();
+
+  constructor(private readonly content: string) {}
+
+  check(): SyntaxIssue | null {
+    try {
+      this.parse();
+      return null;
+    } catch (error) {
+      if (error instanceof ScanError) {
+        return { message: error.message, ...positionAt(this.content, error.offset) };
+      }
+      throw error;
+    }
+  }
+
+  private parse(): void {
+    const { content } = this;
+    while (this.i < content.length) {
+      this.skipSpacesAndComments(true);
+      if (this.i >= content.length) {
+        break;
+      }
+
+      const start = this.i;
+      if (content.startsWith('[[', this.i)) {
+        this.i += 2;
+        const name = this.readKey().join('.');
+        this.expect(']]', 'Expected ]] to end the array table header');
+        this.table = `${name}[${this.arrayTables.get(name) ?? 0}]`;
+        this.arrayTables.set(name, (this.arrayTables.get(name) ?? 0) + 1);
+      } else if (content[this.i] === '[') {
+        this.i++;
+        const name = this.resolveTable(this.readKey().join('.'));
+        this.expect(']', 'Expected ] to end the table header');
+        if (this.tables.has(name) || this.keys.has(name)) {
+          throw new ScanError(`Table [${name.replace(/\[\d+\]/g, '')}] is defined more than once`, start);
+        }
+        this.tables.add(name);
+        this.table = name;
+      } else {
+        this.readKeyValue(this.table);
+      }
+      this.expectLineEnd();
+    }
+  }
+
+  /**
+   * key = value（キーの重複も検出）
+   */
+  private readKeyValue(table: string): void {
+    const start = this.i;
+    const key = this.readKey();
+    this.skipSpaces();
+    this.expect('=', `Expected '=' after key '${key.join('.')}'`);
+    this.skipSpaces();
+    const fullKey = [table, ...key].filter(Boolean).join('.');
+    if (this.keys.has(fullKey) || this.tables.has(fullKey)) {
+      throw new ScanError(`Duplicate key '${key.join('.')}'`, start);
+    }
+    this.keys.add(fullKey);
+    this.readValue(fullKey);
+  }
+
+  private readKey(): string[] {
+    const parts: string[] = [];
+    for (;;) {
+      this.skipSpaces();
+      const ch = this.content[this.i];
+      if (ch === '"' || ch === "'") {
+        parts.push(this.readString(false));
+      } else {
+        const match = TOML_BARE_KEY.exec(this.content.slice(this.i, this.i + 1024));
+        if (!match) {
+          throw new ScanError('Expected a key', this.i);
+        }
+        parts.push(match[0]);
+        this.i += match[0].length;
+      }
+      this.skipSpaces();
+      if (this.content[this.i] !== '.') {
+        return parts;
+      }
+      this.i++;
+    }
+  }
+
+  private readValue(key: string): void {
+    const { content } = this;
+    const ch = content[this.i];
+    if (ch === '"' || ch === "'") {
+      this.readString(true);
+    } else if (ch === '[') {
+      this.readArray(key);
+    } else if (ch === '{') {
+      this.readInlineTable(key);
+    } else {
+      const match = TOML_SCALAR.exec(content.slice(this.i, this.i + 128));
+      if (!match) {
+        const token = /^[^\s,\]}#]*/.exec(content.slice(this.i, this.i + 40))?.[0] ?? '';
+        throw new ScanError(token ? `Invalid value '${token}' (strings must be quoted)` : 'Expected a value', this.i);
+      }
+      this.i += match[0].length;
+    }
+  }
+
+  private readArray(key: string): void {
+    const start = this.i;
+    this.i++;
+    for (let index = 0; ; index++) {
+      this.skipSpacesAndComments(true);
+      if (this.content[this.i] === ']') {
+        this.i++;
+        return;
+      }
+      if (this.i >= this.content.length) {
+        throw new ScanError('Unterminated array', start);
+      }
+      this.readValue(`${key}[${index}]`);
+      this.skipSpacesAndComments(true);
+      if (this.content[this.i] === ',') {
+        this.i++;
+      } else if (this.content[this.i] !== ']') {
+        throw new ScanError("Expected ',' or ']' in array", this.i);
+      }
+    }
+  }
+
+  private readInlineTable(key: string): void {
+    this.i++;
+    this.skipSpaces();
+    if (this.content[this.i] === '}') {
+      this.i++;
+      return;
+    }
+    for (;;) {
+      this.readKeyValue(key);
+      this.skipSpaces();
+      const ch = this.content[this.i];
+      if (ch === '}') {
+        this.i++;
+        return;
+      }
+      if (ch !== ',') {
+        throw new ScanError("Expected ',' or '}' in inline table (inline tables must be on one line)", this.i);
+      }
+      this.i++;
+      this.skipSpaces();
+      if (this.content[this.i] === '}') {
+        throw new ScanError('Trailing comma is not allowed in an inline table', this.i - 1);
+      }
+    }
+  }
+
+  /**
+   * 文字列（multiline が false の場合はキー用で、複数行文字列は使えない）
+   */
+  private readString(multiline: boolean): string {
+    const { content } = this;
+    const start = this.i;
+    const quote = content[this.i] as string;
+    const triple = quote.repeat(3);
+
+    if (multiline && content.startsWith(triple, this.i)) {
+      const end = content.indexOf(triple, this.i + 3);
+      if (end === -1) {
+        throw new ScanError('Unterminated multi-line string', start);
+      }
+      this.i = end + 3;
+      // 終端の直後に最大2つまで引用符を続けられる
+      while (content[this.i] === quote && this.i < end + 5) this.i++;
+      return content.slice(start + 3, end);
+    }
+
+    this.i++;
+    let value = '';
+    while (this.i < content.length && content[this.i] !== quote) {
+      const ch = content[this.i] as string;
+      if (ch === '\n') {
+        break;
+      }
+      if (ch === '\\' && quote === '"') {
+        const escape = /^\\(?:[btnfr"\\]|u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8})/.exec(content.slice(this.i, this.i + 10));
+        if (!escape) {
+          throw new ScanError('Invalid escape sequence in string', this.i);
+        }
+        value += escape[0];
+        this.i += escape[0].length;
+        continue;
+      }
+      value += ch;
+      this.i++;
+    }
+    if (content[this.i] !== quote) {
+      throw new ScanError('Unterminated string', start);
+    }
+    this.i++;
+    return value;
+  }
+
+  /**
+   * [a.b] の途中が配列テーブルの場合は最後の要素を指す
+   */
+  private resolveTable(name: string): string {
+    const parts = name.split('.');
+    let resolved = '';
+    for (const part of parts) {
+      const plain = resolved ? `${resolved.replace(/\[\d+\]/g, '')}.${part}` : part;
+      resolved = resolved ? `${resolved}.${part}` : part;
+      const count = this.arrayTables.get(plain);
+      if (count !== undefined && part !== parts[parts.length - 1]) {
+        resolved += `[${count - 1}]`;
+      }
+    }
+    return resolved;
+  }
+
+  private expect(token: string, message: string): void {
+    this.skipSpaces();
+    if (!this.content.startsWith(token, this.i)) {
+      throw new ScanError(message, this.i);
+    }
+    this.i += token.length;
+  }
+
+  private expectLineEnd(): void {
+    this.skipSpacesAndComments(false);
+    if (this.i < this.content.length && this.content[this.i] !== '\n' && !this.content.startsWith('\r\n', this.i)) {
+      throw new ScanError('Expected a new line after the value', this.i);
+    }
+  }
+
+  private skipSpaces(): void {
+    while (this.content[this.i] === ' ' || this.content[this.i] === '\t') this.i++;
+  }
+
+  private skipSpacesAndComments(newlines: boolean): void {
+    for (;;) {
+      this.skipSpaces();
+      const ch = this.content[this.i];
+      if (ch === '#') {
+        while (this.i < this.content.length && this.content[this.i] !== '\n') this.i++;
+      } else if (newlines && (ch === '\n' || ch === '\r')) {
+        this.i++;
+      } else {
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { readSinceOffset, readTailBytes, readTailLines } from './tail-reader.js';
+
+describe('tail-reader', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tail-reader-'));
+    file = path.join(dir, 'app.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('reads the last lines, ignoring the final newline', async () => {
+    await fs.writeFile(file, 'a\nb\nc\nd\n');
+    const result = await readTailLines(file, 2);
+    expect(result.content).toBe('c\nd\n');
+    expect(result.lines_returned).toBe(2);
+    expect(result.end_offset).toBe(8);
+  });
+
+  test('reads the whole file when it has fewer lines than requested', async () => {
+    await fs.writeFile(file, 'only\nlines');
+    const result = await readTailLines(file, 10);
+    expect(result.content).toBe('only\nlines');
+    expect(result.start_offset).toBe(0);
+  });
+
+  test('finds lines across block boundaries', async () => {
+    // 64KB のブロックをまたぐ長さ
+    const lines = Array.from({ length: 20000 }, (_, i) => `entry ${i}`);
+    await fs.writeFile(file, lines.join('\n') + '\n');
+    const result = await readTailLines(file, 15000);
+    expect(result.content).toBe(lines.slice(-15000).join('\n') + '\n');
+  });
+
+  test('returns only whole lines when the byte limit is hit', async () => {
+    await fs.writeFile(file, 'first line\nsecond\nthird\n');
+    const result = await readTailLines(file, 3, 'utf8', 14);
+    expect(result.content).toBe('second\nthird\n');
+    expect(result.truncated).toBe(true);
+  });
+
+  test('does not start tail_bytes inside a multi-byte character', async () => {
+    await fs.writeFile(file, 'xé日本');
+    const result = await readTailBytes(file, 7);
+    expect(result.content).toBe('日本');
+  });
+
+  test('reads only appended content from since_offset', async () => {
+    await fs.writeFile(file, 'one\ntwo\n');
+    const first = await readTailLines(file, 1);
+    await fs.appendFile(file, 'three\nfour\n');
+
+    const next = await readSinceOffset(file, first.end_offset);
+    expect(next.content).toBe('three\nfour\n');
+    expect(next.reset).toBe(false);
+
+    const idle = await readSinceOffset(file, next.end_offset);
+    expect(idle.content).toBe('');
+  });
+
+  test('holds back a partially written multi-byte character', async () => {
+    const bytes = Buffer.from('ok 日');
+    await fs.writeFile(file, bytes.subarray(0, bytes.length - 1));
+    const result = await readSinceOffset(file, 0);
+    expect(result.content).toBe('ok ');
+    expect(result.end_offset).toBe(3);
+  });
+
+  test('starts over when the file shrank below since_offset', async () => {
+    await fs.writeFile(file, 'rotated\n');
+    const result = await readSinceOffset(file, 1000);
+    expect(result.reset).toBe(true);
+    expect(result.content).toBe('rotated\n');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Smart Filesystem MCP - Tail Reader
+ * ファイル末尾をブロック単位で後方から読み込む（ファイル全体をメモリに載せない）
+ */
+
+import * as fs from 'fs/promises';
+import { SAFETY_LIMITS } from './constants.js';
+import { decodeBuffer, trimIncompleteChar } from './encoding.js';
+
+/**
+ * 末尾読み込み結果
+ */
+export interface TailReadResult {
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  total_bytes: number;
+  lines_returned: number;
+  truncated: boolean;
+}
+
+/**
+ * 差分読み込み結果
+ */
+export interface SinceReadResult extends TailReadResult {
+  /** ファイルが縮小した（ローテーション等）ため先頭から読み直した */
+  reset: boolean;
+}
+
+const NEWLINE = 0x0A;
+
+/**
+ * 末尾N行を読み込む
+ */
+export async function readTailLines(
+  filePath: string,
+  lineCount: number,
+  encoding: string = 'utf8',
+  maxBytes: number = SAFETY_LIMITS.MAX_RANGE_READ_SIZE
+): Promise<TailReadResult> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const { offset, truncated } = await findTailStart(handle, size, lineCount, encoding, maxBytes);
+    return await readSlice(handle, offset, size, size, encoding, truncated);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 末尾Nバイトを読み込む（先頭が文字の途中にかかる場合は次の文字から）
+ */
+export async function readTailBytes(
+  filePath: string,
+  byteCount: number,
+  encoding: string = 'utf8',
+  maxBytes: number = SAFETY_LIMITS.MAX_RANGE_READ_SIZE
+): Promise<TailReadResult> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const requested = Math.min(byteCount, size);
+    const bytesToRead = Math.min(requested, maxBytes);
+    const offset = await alignToCharStart(handle, size - bytesToRead, size, encoding);
+    return await readSlice(handle, offset, size, size, encoding, bytesToRead < requested);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 前回の読み込み位置以降に追記された内容を読み込む
+ */
+export async function readSinceOffset(
+  filePath: string,
+  sinceOffset: number,
+  encoding: string = 'utf8',
+  maxBytes: number = SAFETY_LIMITS.MAX_RANGE_READ_SIZE
+): Promise<SinceReadResult> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+
+    // ファイルが前回より小さい場合は切り詰め・ローテーションとみなす
+    const reset = sinceOffset > size;
+    const start = reset ? 0 : sinceOffset;
+    const available = size - start;
+    const bytesToRead = Math.min(available, maxBytes);
+
+    const buffer = Buffer.alloc(bytesToRead);
+    const { bytesRead } = await handle.read(buffer, 0, bytesToRead, start);
+
+    let length = bytesRead;
+    const truncated = bytesToRead < available;
+    if (truncated) {
+      // 続きを次回読めるよう行境界で切る
+      const lastNewline = buffer.lastIndexOf(NEWLINE, length - 1);
+      if (lastNewline !== -1) length = lastNewline + 1;
+    }
+    // 書き込み途中のマルチバイト文字は次回に回す
+    length = trimIncompleteChar(buffer, length, encoding);
+
+    const content = decodeBuffer(buffer.subarray(0, length), encoding);
+    return {
+      content,
+      start_offset: start,
+      end_offset: start + length,
+      total_bytes: size,
+      lines_returned: countLines(content),
+      truncated,
+      reset
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 後方へブロック単位で改行を数え、末尾N行の開始位置を求める
+ */
+async function findTailStart(
+  handle: fs.FileHandle,
+  size: number,
+  lineCount: number,
+  encoding: string,
+  maxBytes: number
+): Promise<{ offset: number; truncated: boolean }> {
+  const limit = Math.max(0, size - maxBytes);
+  const unit = encoding === 'utf16le' ? 2 : 1;
+  const buffer = Buffer.alloc(SAFETY_LIMITS.TAIL_BLOCK_SIZE);
+
+  // 末尾の改行は行区切りとして数えない
+  const trailingNewlineAt = size - unit;
+  let newlines = 0;
+  let lastBoundary = size;
+  let nextByte = -1;
+  let position = size;
+
+  while (position > 0) {
+    const blockStart = Math.max(0, position - SAFETY_LIMITS.TAIL_BLOCK_SIZE);
+    const length = position - blockStart;
+    await handle.read(buffer, 0, length, blockStart);
+
+    for (let i = length - 1; i >= 0; i--) {
+      const offset = blockStart + i;
+
+      // 上限を超える場合は、収まる範囲の行だけを返す
+      if (offset < limit) {
+        if (lastBoundary < size) {
+          return { offset: lastBoundary, truncated: true };
+        }
+        // 1行が上限を超える場合はその行の末尾部分を返す
+        return { offset: await alignToCharStart(handle, limit, size, encoding), truncated: true };
+      }
+
+      const byte = buffer[i] ?? 0;
+      const isNewline = unit === 1
+        ? byte === NEWLINE
+        : byte === NEWLINE && offset % 2 === 0 && (i + 1 < length ? buffer[i + 1] : nextByte) === 0;
+
+      if (isNewline && offset !== trailingNewlineAt) {
+        newlines++;
+        lastBoundary = offset + unit;
+        if (newlines === lineCount) {
+          return { offset: lastBoundary, truncated: false };
+        }
+      }
+    }
+
+    nextByte = buffer[0] ?? -1;
+    position = blockStart;
+  }
+
+  return { offset: 0, truncated: false };
+}
+
+/**
+ * 指定位置が文字の途中なら次の文字の先頭まで進める
+ */
+async function alignToCharStart(
+  handle: fs.FileHandle,
+  offset: number,
+  size: number,
+  encoding: string
+): Promise<number> {
+  if (encoding === 'utf16le') {
+    return Math.min(size, offset + (offset % 2));
+  }
+  if (encoding !== 'utf8' || offset === 0) return offset;
+
+  // UTF-8の継続バイトは最大3バイト
+  const buffer = Buffer.alloc(3);
+  const { bytesRead } = await handle.read(buffer, 0, 3, offset);
+  let skip = 0;
+  while (skip < bytesRead && ((buffer[skip] ?? 0) & 0xC0) === 0x80) {
+    skip++;
+  }
+  return offset + skip;
+}
+
+/**
+ * 指定範囲を読み込んで結果を組み立てる
+ */
+async function readSlice(
+  handle: fs.FileHandle,
+  start: number,
+  end: number,
+  size: number,
+  encoding: string,
+  truncated: boolean
+): Promise<TailReadResult> {
+  const buffer = Buffer.alloc(end - start);
+  const { bytesRead } = await handle.read(buffer, 0, end - start, start);
+  const content = decodeBuffer(buffer.subarray(0, bytesRead), encoding);
+
+  return {
+    content,
+    start_offset: start,
+    end_offset: start + bytesRead,
+    total_bytes: size,
+    lines_returned: countLines(content),
+    truncated
+  };
+}
+
+/**
+ * 行数をカウント（末尾の改行は空行として数えない）
+ */
+function countLines(content: string): number {
+  if (content.length === 0) return 0;
+  const lines = content.split('\n').length;
+  return content.endsWith('\n') ? lines - 1 : lines;
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { applyTextFormat, detectFileTextFormat } from './text-format.js';
+
+describe('detectFileTextFormat', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'text-format-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const detect = async (name: string, data: Buffer | string, encoding = 'utf8') => {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, data);
+    return detectFileTextFormat(file, encoding);
+  };
+
+  test('detects CRLF, BOM and the final newline', async () => {
+    expect(await detect('crlf.txt', '\uFEFFa\r\nb\r\n')).toEqual({ line_ending: 'crlf', bom: true, final_newline: true });
+  });
+
+  test('detects LF without a final newline', async () => {
+    expect(await detect('lf.txt', 'a\nb')).toEqual({ line_ending: 'lf', bom: false, final_newline: false });
+  });
+
+  test('leaves the line ending undefined for a single line', async () => {
+    expect(await detect('one.txt', 'only line')).toEqual({ bom: false, final_newline: false });
+  });
+
+  test('returns nothing for an empty file', async () => {
+    expect(await detect('empty.txt', '')).toEqual({});
+  });
+
+  test('checks the final newline in the file encoding', async () => {
+    const utf16 = Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from('a\r\nb\r\n', 'utf16le')]);
+    expect(await detect('utf16.txt', utf16, 'utf16le')).toEqual({ line_ending: 'crlf', bom: true, final_newline: true });
+  });
+});
+
+describe('applyTextFormat', () => {
+  test('converts line endings and reports it', () => {
+    expect(applyTextFormat('a\nb\r\nc\n', { line_ending: 'crlf' })).toEqual({
+      content: 'a\r\nb\r\nc\r\n',
+      normalized: ['line endings converted to CRLF']
+    });
+  });
+
+  test('keeps mixed line endings as they are', () => {
+    expect(applyTextFormat('a\nb\r\n', { line_ending: 'mixed' }).content).toBe('a\nb\r\n');
+  });
+
+  test('adds a final newline in the file line ending', () => {
+    expect(applyTextFormat('a\r\nb', { line_ending: 'crlf', final_newline: true })).toEqual({
+      content: 'a\r\nb\r\n',
+      normalized: ['final newline added']
+    });
+  });
+
+  test('removes a final newline', () => {
+    expect(applyTextFormat('a\nb\n', { final_newline: false })).toEqual({ content: 'a\nb', normalized: ['final newline removed'] });
+  });
+
+  test('adds or removes the BOM', () => {
+    expect(applyTextFormat('a', { bom: true })).toEqual({ content: '\uFEFFa', normalized: ['BOM added'] });
+    expect(applyTextFormat('\uFEFFa', { bom: false })).toEqual({ content: 'a', normalized: ['BOM removed'] });
+  });
+
+  test('does not touch empty content or unspecified settings', () => {
+    expect(applyTextFormat('', { final_newline: true })).toEqual({ content: '', normalized: [] });
+    expect(applyTextFormat('\uFEFFa\r\n', {})).toEqual({ content: '\uFEFFa\r\n', normalized: [] });
+  });
+});
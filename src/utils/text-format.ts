@@ -0,0 +1,92 @@
+/**
+ * Smart Filesystem MCP - Text Format
+ * 既存ファイルの改行コード・BOM・末尾改行の検出と、書き込む内容への適用
+ */
+
+import * as fs from 'fs/promises';
+import { SAFETY_LIMITS } from './constants.js';
+import { detectBOM } from './helpers.js';
+import { detectLineEnding } from './diff-utils.js';
+import { decodeBuffer, encodeString, trimIncompleteChar } from './encoding.js';
+
+/**
+ * テキストの書式（undefined は判定できない・指定なし）
+ */
+export interface TextFormat {
+  line_ending?: 'lf' | 'crlf' | 'mixed';
+  bom?: boolean;
+  final_newline?: boolean;
+}
+
+/**
+ * 既存ファイルの書式を検出（先頭と末尾のみ読むため大きなファイルでも軽量）
+ */
+export async function detectFileTextFormat(filePath: string, encoding: string): Promise<TextFormat> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) {
+      return {};
+    }
+
+    const head = Buffer.alloc(Math.min(size, SAFETY_LIMITS.FORMAT_SAMPLE_SIZE));
+    await handle.read(head, 0, head.length, 0);
+
+    // 末尾改行は改行文字をエンコードしたバイト列で判定（UTF-16 では 2 バイト）
+    const newline = encodeString('\n', encoding);
+    const tail = Buffer.alloc(Math.min(size, newline.length));
+    await handle.read(tail, 0, tail.length, size - tail.length);
+
+    const bom = detectBOM(head) !== null;
+    const text = decodeBuffer(head.subarray(0, trimIncompleteChar(head, head.length, encoding)), encoding);
+
+    return {
+      // 改行を含まないファイル（1 行のみ）からは判定できない
+      ...(text.includes('\n') && { line_ending: detectLineEnding(text) }),
+      bom,
+      final_newline: tail.equals(newline)
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 書式を内容に適用し、変更した項目を返す（mixed の改行コードはそのまま）
+ */
+export function applyTextFormat(content: string, format: TextFormat): { content: string; normalized: string[] } {
+  const normalized: string[] = [];
+  const hasBom = content.startsWith('\uFEFF');
+  let body = hasBom ? content.slice(1) : content;
+
+  if (format.line_ending === 'lf' || format.line_ending === 'crlf') {
+    const target = format.line_ending === 'crlf' ? '\r\n' : '\n';
+    const converted = body.replace(/\r?\n/g, target);
+    if (converted !== body) {
+      normalized.push(`line endings converted to ${format.line_ending.toUpperCase()}`);
+      body = converted;
+    }
+  }
+
+  if (format.final_newline !== undefined && body !== '') {
+    const endsWithNewline = body.endsWith('\n');
+    if (format.final_newline && !endsWithNewline) {
+      const lineEnding = format.line_ending === 'crlf' || (format.line_ending !== 'lf' && body.includes('\r\n')) ? '\r\n' : '\n';
+      body += lineEnding;
+      normalized.push('final newline added');
+    } else if (!format.final_newline && endsWithNewline) {
+      body = body.replace(/\r?\n$/, '');
+      normalized.push('final newline removed');
+    }
+  }
+
+  if (format.bom !== undefined && format.bom !== hasBom) {
+    normalized.push(format.bom ? 'BOM added' : 'BOM removed');
+  }
+  const bom = format.bom ?? hasBom;
+
+  return {
+    content: (bom ? '\uFEFF' : '') + body,
+    normalized
+  };
+}
@@ -0,0 +1,56 @@
+import { getEncoding } from 'js-tiktoken';
+import { BpeTokenizer, HeuristicTokenizer } from './tokenizer.js';
+
+describe('BpeTokenizer', () => {
+  const encoder = getEncoding('cl100k_base');
+  const tokenizer = new BpeTokenizer('cl100k_base', encoder);
+
+  function randomBases(length: number): string {
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      text += 'ACGT'[Math.floor(Math.random() * 4)];
+    }
+    return text;
+  }
+
+  test('counts ordinary text exactly', () => {
+    const text = 'export function add(a: number, b: number): number {\n  return a + b;\n}\n// 日本語のコメント\n';
+    expect(tokenizer.countTokens(text)).toBe(encoder.encode(text, [], []).length);
+  });
+
+  test('counts a long run without whitespace quickly', () => {
+    // 分割前は 10,000 文字の連続で十数秒かかっていた
+    const text = randomBases(20_000);
+    const start = Date.now();
+    const tokens = tokenizer.countTokens(text);
+    expect(Date.now() - start).toBeLessThan(3000);
+    expect(tokens).toBeGreaterThan(8000);
+    expect(tokens).toBeLessThan(12_000);
+  });
+
+  test('stays close to the exact count when a run is split', () => {
+    const text = `sequence: ${randomBases(600)}\n${'='.repeat(200)}\n${' '.repeat(100)}end`;
+    const exact = encoder.encode(text, [], []).length;
+    const counted = tokenizer.countTokens(text);
+    expect(Math.abs(counted - exact)).toBeLessThanOrEqual(Math.ceil(exact * 0.05));
+  });
+
+  test('does not split surrogate pairs', () => {
+    const text = '𠮷'.repeat(100);
+    const tokens = tokenizer.countTokens(text);
+    expect(tokens).toBeLessThanOrEqual(encoder.encode(text, [], []).length + 10);
+  });
+
+  test('samples very large texts', () => {
+    const text = 'The quick brown fox jumps over the lazy dog. '.repeat(10_000);
+    const exact = encoder.encode(text.slice(0, 45_000), [], []).length * 10;
+    expect(Math.abs(tokenizer.countTokens(text) - exact) / exact).toBeLessThan(0.02);
+  });
+});
+
+describe('HeuristicTokenizer', () => {
+  test('weights CJK characters more than ASCII', () => {
+    const tokenizer = new HeuristicTokenizer();
+    expect(tokenizer.countTokens('日本語のテキスト')).toBeGreaterThan(tokenizer.countTokens('abcdefgh'));
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Smart Filesystem MCP - Tokenizer
+ * 切り替え可能なトークン数計算（オフラインBPEとヒューリスティック）
+ */
+
+import { TOKEN_ESTIMATION } from './constants.js';
+import type { Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import type { FileType } from '../core/types.js';
+
+/**
+ * トークナイザー
+ */
+export interface Tokenizer {
+  /** トークナイザー名 */
+  readonly name: string;
+
+  /** テキストのトークン数を数える */
+  countTokens(text: string, fileType?: FileType): number;
+}
+
+/**
+ * トークナイザーの生成関数（語彙の読み込みは非同期）
+ */
+export type TokenizerFactory = () => Promise<Tokenizer>;
+
+/**
+ * 文字数ベースの推定（CJK文字は言語別の倍率で計算）
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+
+  countTokens(text: string, fileType?: FileType): number {
+    const { LANGUAGE_MULTIPLIERS, FILE_TYPE_MULTIPLIERS, CHARS_PER_TOKEN } = TOKEN_ESTIMATION;
+    let han = 0;
+    let kana = 0;
+    let hangul = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if ((code >= 0x4E00 && code <= 0x9FFF) || (code >= 0x3400 && code <= 0x4DBF)) {
+        han++;
+      } else if ((code >= 0x3000 && code <= 0x30FF) || (code >= 0xFF00 && code <= 0xFF9F)) {
+        // かな・全角記号
+        kana++;
+      } else if (code >= 0xAC00 && code <= 0xD7AF) {
+        hangul++;
+      }
+    }
+
+    // かなを含む場合、漢字は日本語として扱う
+    const hanMultiplier = kana > 0 ? LANGUAGE_MULTIPLIERS.japanese : LANGUAGE_MULTIPLIERS.chinese;
+    const other = text.length - han - kana - hangul;
+    const weightedChars = other * LANGUAGE_MULTIPLIERS.english
+      + han * hanMultiplier
+      + kana * LANGUAGE_MULTIPLIERS.japanese
+      + hangul * LANGUAGE_MULTIPLIERS.korean;
+
+    let tokens = Math.ceil(weightedChars / CHARS_PER_TOKEN);
+
+    if (fileType && fileType.category in FILE_TYPE_MULTIPLIERS) {
+      const multiplier = FILE_TYPE_MULTIPLIERS[fileType.category as keyof typeof FILE_TYPE_MULTIPLIERS];
+      tokens = Math.ceil(tokens * multiplier);
+    }
+
+    return tokens;
+  }
+}
+
+// BPE の事前分割で1つのまとまりになる文字種（文字・記号・空白）の長い連続
+const LONG_RUN_PATTERN = new RegExp(
+  `[\\p{L}\\p{M}]{${TOKEN_ESTIMATION.BPE_MAX_RUN_LENGTH + 1},}` +
+  `|[^\\s\\p{L}\\p{M}\\p{N}]{${TOKEN_ESTIMATION.BPE_MAX_RUN_LENGTH + 1},}` +
+  `|\\s{${TOKEN_ESTIMATION.BPE_MAX_RUN_LENGTH + 1},}`,
+  'gu'
+);
+
+/**
+ * BPE語彙による実トークン数の計算
+ */
+export class BpeTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private readonly encoder: Tiktoken
+  ) {}
+
+  countTokens(text: string): number {
+    if (text.length <= TOKEN_ESTIMATION.BPE_SAMPLE_THRESHOLD) {
+      return this.encode(text);
+    }
+
+    // 大きなテキストは等間隔のサンプルから推定する
+    const { BPE_SAMPLE_COUNT, BPE_SAMPLE_SIZE } = TOKEN_ESTIMATION;
+    const stride = Math.floor((text.length - BPE_SAMPLE_SIZE) / (BPE_SAMPLE_COUNT - 1));
+    let sampledChars = 0;
+    let sampledTokens = 0;
+
+    for (let i = 0; i < BPE_SAMPLE_COUNT; i++) {
+      const sample = text.slice(i * stride, i * stride + BPE_SAMPLE_SIZE);
+      sampledChars += sample.length;
+      sampledTokens += this.encode(sample);
+    }
+
+    return Math.ceil(text.length * (sampledTokens / sampledChars));
+  }
+
+  private encode(text: string): number {
+    // 塩基配列・区切り線・長い空白などの連続は BPE のマージが長さの2乗に比例するため分割して数える
+    const maxRun = TOKEN_ESTIMATION.BPE_MAX_RUN_LENGTH;
+    let tokens = 0;
+    let start = 0;
+
+    for (const match of text.matchAll(LONG_RUN_PATTERN)) {
+      const run = match[0];
+      const runStart = match.index ?? 0;
+      tokens += this.encodeSegment(text.slice(start, runStart));
+      for (let i = 0; i < run.length;) {
+        // サロゲートペアを分割しない
+        let end = Math.min(run.length, i + maxRun);
+        const code = run.charCodeAt(end - 1);
+        if (code >= 0xD800 && code <= 0xDBFF) end++;
+        tokens += this.encodeSegment(run.slice(i, end));
+        i = end;
+      }
+      start = runStart + run.length;
+    }
+
+    return tokens + this.encodeSegment(text.slice(start));
+  }
+
+  private encodeSegment(text: string): number {
+    // ファイル内の特殊トークン文字列も通常のテキストとして数える
+    return text === '' ? 0 : this.encoder.encode(text, [], []).length;
+  }
+}
+
+// 組み込みトークナイザー（BPE語彙は選択時にのみ読み込む）
+const factories = new Map<string, TokenizerFactory>([
+  ['heuristic', async () => new HeuristicTokenizer()],
+  ['cl100k_base', () => loadBpeTokenizer('cl100k_base')],
+  ['o200k_base', () => loadBpeTokenizer('o200k_base')]
+]);
+
+// 初期化前はヒューリスティックを使用
+let activeTokenizer: Tokenizer = new HeuristicTokenizer();
+
+/**
+ * 同梱のBPE語彙からトークナイザーを生成
+ */
+async function loadBpeTokenizer(encoding: TiktokenEncoding): Promise<Tokenizer> {
+  const { getEncoding } = await import('js-tiktoken');
+  return new BpeTokenizer(encoding, getEncoding(encoding));
+}
+
+/**
+ * トークナイザーを登録
+ */
+export function registerTokenizer(name: string, factory: TokenizerFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * 利用可能なトークナイザー名を取得
+ */
+export function getAvailableTokenizers(): string[] {
+  return [...factories.keys()];
+}
+
+/**
+ * 現在のトークナイザーを取得
+ */
+export function getTokenizer(): Tokenizer {
+  return activeTokenizer;
+}
+
+/**
+ * トークナイザーを選択して初期化
+ */
+export async function initializeTokenizer(
+  name: string = TOKEN_ESTIMATION.DEFAULT_TOKENIZER
+): Promise<Tokenizer> {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown tokenizer: ${name} (available: ${getAvailableTokenizers().join(', ')})`);
+  }
+
+  activeTokenizer = await factory();
+  return activeTokenizer;
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * Smart Filesystem MCP - Version Store
+ * 読み書きしたファイル内容を SHA-256 で保持するキャッシュ（diff 編集の base_sha256 から三方向マージのベースを復元する）
+ */
+
+import { createHash } from 'crypto';
+import { SAFETY_LIMITS } from './constants.js';
+
+// 挿入順（= 最近使った順）を保つため Map を LRU として使う
+const versions = new Map<string, Buffer>();
+let totalSize = 0;
+
+/**
+ * ファイル内容を記録（大きすぎる内容は記録しない）
+ * sha256 を計算済みの場合は渡すと再計算しない
+ */
+export function rememberVersion(data: Buffer, sha256?: string): void {
+  if (data.length > SAFETY_LIMITS.VERSION_CACHE_MAX_ENTRY_SIZE) {
+    return;
+  }
+
+  const key = sha256 ?? createHash('sha256').update(data).digest('hex');
+  const existing = versions.get(key);
+  if (existing) {
+    versions.delete(key);
+    versions.set(key, existing);
+    return;
+  }
+
+  // 呼び出し側のバッファが後から変更されても影響しないようコピーを保持
+  versions.set(key, Buffer.from(data));
+  totalSize += data.length;
+
+  // 上限を超えたら古いものから削除
+  for (const [oldKey, oldData] of versions) {
+    if (totalSize <= SAFETY_LIMITS.VERSION_CACHE_MAX_SIZE) {
+      break;
+    }
+    versions.delete(oldKey);
+    totalSize -= oldData.length;
+  }
+}
+
+/**
+ * SHA-256 から記録済みの内容を取得（見つからない場合は undefined）
+ */
+export function recallVersion(sha256: string): Buffer | undefined {
+  const key = sha256.toLowerCase();
+  const data = versions.get(key);
+  if (data) {
+    versions.delete(key);
+    versions.set(key, data);
+  }
+  return data;
+}